@@ -1,7 +1,30 @@
 import React, { useState, useRef, useMemo, useEffect } from 'react';
-import { analyzeCode } from './services/geminiService';
-import { scanGitRepo, scanLocalPath } from './services/backendService';
-import { AnalysisReport, Severity, Issue, PrStatus } from './types';
+import { analyzeFiles, runAnalysis, AnalysisEngine } from './services/analysisService';
+import { BackendHealth, checkBackendHealth, commitFixes, CommitConflict, CommitResponse, fetchHistory, fetchRefDiff, saveHistoryRun, scanDemoRepo, scanGitRepo } from './services/backendService';
+import { evaluateGate, GatePolicy } from './services/prGate';
+import { DiffScanResult, scanDiff } from './services/prDiffScan';
+import { parseUnifiedDiff } from './services/unifiedDiff';
+import { toSarif } from './services/sarifExporter';
+import { downloadText } from './services/download';
+import { EXPORT_FILE_EXTENSIONS, EXPORT_MIME_TYPES, exportReport, ExportFormat, parseImportedReport } from './services/reportExporter';
+import { buildCommitMessage, changedFiles, DEFAULT_FIX_BRANCH } from './services/commitService';
+import { combineFiles, LineRange, SNIPPET_PATH, splitWorkspace, toBufferRange } from './services/workspace';
+import { applyFixes, FixConflict, hasFix } from './services/fixApplier';
+import { applyPlan, FixPlan, planFixes } from './services/fixPlanner';
+import { appliedIssuesOf, detachFix, EMPTY_FIX_HISTORY, entryLines, FixHistory, rebaseHistory, recordFixes, toggleEntry } from './services/fixHistory';
+import { FixVerification, verifyEntry } from './services/fixVerification';
+import { TypeDiagnostic } from './services/typeCheck';
+import { createTypeChecker } from './services/typeCheckClient';
+import { isScriptPath } from './services/astMatcher';
+import { createProvider, ProviderConfig } from './services/llmProviders';
+import { createIndexedDbCache } from './services/analysisCache';
+import { addSuppression, applyBaseline, Baseline, BASELINE_FILE, createBaselineEntry, readBaselineFromBuffer, removeSuppression, writeBaselineToBuffer } from './services/baseline';
+import { issueFingerprint } from './services/fingerprint';
+import { isSuppressed } from './services/scoring';
+import { createHistoryEntry, HistoryEntry, loadLocalHistory, mergeHistory, saveLocalRun } from './services/reportHistory';
+import { DEFAULT_WORKSPACE_ID, loadGatePolicy, loadProviderConfig, loadScoringWeights, saveGatePolicy, saveProviderConfig, saveScoringWeights } from './services/workspaceSettings';
+import { rescoreReport, ScoringWeights } from './services/scoring';
+import { AnalysisReport, Severity, Issue, PrStatus, SourceFile } from './types';
 import { Button } from './components/Button';
 import { CodeEditor, CodeEditorHandle } from './components/CodeEditor';
 import { IssueCard } from './components/IssueCard';
@@ -11,19 +34,37 @@ import { ApiDebugger } from './components/ApiDebugger';
 import { DiffViewer } from './components/DiffViewer';
 import { PrDashboard } from './components/PrDashboard';
 import { ShadowModeEmulator } from './components/ShadowModeEmulator';
-
-type Tab = 'scanner' | 'pr-interceptor' | 'shadow-mode' | 'debugger';
+import { ConnectionStatus } from './components/ConnectionStatus';
+import { CommitSummary } from './components/CommitSummary';
+import { ReportHistory } from './components/ReportHistory';
+import { GatePolicyEditor } from './components/GatePolicyEditor';
+import { ScoringWeightsEditor } from './components/ScoringWeightsEditor';
+import { FixConflictReport } from './components/FixConflictReport';
+import { FixPlanner } from './components/FixPlanner';
+import { FixTimeline } from './components/FixTimeline';
+import { TypeCheckReport } from './components/TypeCheckReport';
+
+type Tab = 'scanner' | 'pr-interceptor' | 'shadow-mode' | 'history' | 'debugger';
 type InputMode = 'manual' | 'git' | 'local';
 
 // Define the state for the fix review mode
 interface FixReviewState {
   original: string;
   modified: string;
-  originalHighlights: string[];
-  modifiedHighlights: string[];
   isBulkFix?: boolean;
+  typeCheck?: TypeCheckState;
+}
+
+// Type check of a patched buffer; diagnostics stay null when there was nothing to check or the check failed
+interface TypeCheckState {
+  pending: boolean;
+  diagnostics: TypeDiagnostic[] | null;
+  error?: string; // Why the check didn't run
 }
 
+// Typing pauses this long before the previewed fix is type-checked again
+const PREVIEW_CHECK_DELAY_MS = 500;
+
 interface ScannedFile {
   name: string;
   path: string;
@@ -34,37 +75,77 @@ interface ScannedFile {
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<Tab>('scanner');
   const [inputMode, setInputMode] = useState<InputMode>('manual');
+  const [engine, setEngine] = useState<AnalysisEngine>('hybrid');
+  const [workspaceId, setWorkspaceId] = useState<string>(DEFAULT_WORKSPACE_ID);
+  const [providerConfig, setProviderConfig] = useState<ProviderConfig>(() => loadProviderConfig(DEFAULT_WORKSPACE_ID));
+  const [gatePolicy, setGatePolicy] = useState<GatePolicy>(() => loadGatePolicy(DEFAULT_WORKSPACE_ID));
+  const [scoringWeights, setScoringWeights] = useState<ScoringWeights>(() => loadScoringWeights(DEFAULT_WORKSPACE_ID));
   const [isDarkMode, setIsDarkMode] = useState(false);
   
   // Input states
   const [code, setCode] = useState<string>('');
   const [repoUrl, setRepoUrl] = useState('');
+  const [baseRef, setBaseRef] = useState('');
+  const [headRef, setHeadRef] = useState('');
+  const [patchText, setPatchText] = useState('');
+  const [prDiff, setPrDiff] = useState<DiffScanResult | null>(null); // Set when the PR check analyzed a diff
+  const [backendHealth, setBackendHealth] = useState<BackendHealth>({ status: 'checking', checkedAt: new Date().toISOString() });
+  const [demoMode, setDemoMode] = useState(false);
+  const [isDemoData, setIsDemoData] = useState(false); // The editor holds the built-in sample, not user code
+  const [scanBaseline, setScanBaseline] = useState<{ root: string; files: SourceFile[] } | null>(null); // What the backend returned, for commits
+  const [fixHistory, setFixHistory] = useState<FixHistory>(EMPTY_FIX_HISTORY); // Fixes applied this session, for undo and the commit message
+  const [fixVerifications, setFixVerifications] = useState<Record<string, FixVerification>>({}); // By history entry id
+  const [commitResult, setCommitResult] = useState<CommitResponse | null>(null);
+  const [commitConflicts, setCommitConflicts] = useState<CommitConflict[] | null>(null);
+  const [commitCheck, setCommitCheck] = useState<TypeCheckState | null>(null); // Type errors the fixes introduced, or a check that failed; block the commit
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
   const [scannedFiles, setScannedFiles] = useState<ScannedFile[]>([]);
   
   const [report, setReport] = useState<AnalysisReport | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [previewIssue, setPreviewIssue] = useState<Issue | null>(null);
+  const [previewCheck, setPreviewCheck] = useState<TypeCheckState | null>(null); // What the previewed fix would do to the types
   
   // PR Interceptor State
   const [prStatus, setPrStatus] = useState<PrStatus>('idle');
   
   // State for side-by-side fix review
   const [fixReview, setFixReview] = useState<FixReviewState | null>(null);
+  const [fixConflicts, setFixConflicts] = useState<FixConflict[] | null>(null); // Fixes that could not be placed safely
+  const [fixPlan, setFixPlan] = useState<FixPlan | null>(null); // Bulk fix awaiting the user's selection
+  const [isApplyingPlan, setIsApplyingPlan] = useState(false); // The selection is being type-checked
+  const [fixPlanError, setFixPlanError] = useState<string | null>(null); // The selection could not be applied
   
   // State for temporary highlights (e.g., after Locate or Fix)
   const [highlightedText, setHighlightedText] = useState<string | null>(null);
   const [highlightColor, setHighlightColor] = useState<'red' | 'green'>('red');
+  const [highlightedLines, setHighlightedLines] = useState<LineRange | null>(null);
   
   // State for Dependency Dropdown in Navbar
   const [showDeps, setShowDeps] = useState(false);
 
+  // Unchanged files reuse their previous analysis across runs and reloads
+  const analysisCache = useMemo(() => createIndexedDbCache(), []);
+
+  // Patched code is type-checked in a worker, started on first use
+  const typeChecker = useMemo(() => createTypeChecker(), []);
+  useEffect(() => () => typeChecker.dispose(), [typeChecker]);
+
+  // Offsets follow hand edits in the editor, so the timeline knows what can still be undone
+  const liveFixHistory = useMemo(() => rebaseHistory(fixHistory, code), [fixHistory, code]);
+  const appliedIssues = useMemo(() => appliedIssuesOf(fixHistory), [fixHistory]);
+
   // Ref to control the editor programmatically
   const editorRef = useRef<CodeEditorHandle>(null);
   
   // Ref for directory upload
   const folderInputRef = useRef<HTMLInputElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const reportInputRef = useRef<HTMLInputElement>(null);
+  const patchInputRef = useRef<HTMLInputElement>(null);
 
   // Theme Toggle Effect
   useEffect(() => {
@@ -75,6 +156,92 @@ const App: React.FC = () => {
     }
   }, [isDarkMode]);
 
+  // Backend health is polled so the indicator reflects reality before a scan is attempted
+  const refreshBackendHealth = async () => {
+    setBackendHealth(prev => ({ ...prev, status: 'checking' }));
+    setBackendHealth(await checkBackendHealth());
+  };
+
+  useEffect(() => {
+    refreshBackendHealth();
+    const timer = setInterval(async () => setBackendHealth(await checkBackendHealth()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Each workspace (repo URL or local folder) remembers its own LLM provider
+  useEffect(() => {
+    setProviderConfig(loadProviderConfig(workspaceId));
+    setGatePolicy(loadGatePolicy(workspaceId));
+    setScoringWeights(loadScoringWeights(workspaceId));
+  }, [workspaceId]);
+
+  const handleGatePolicyChange = (policy: GatePolicy) => {
+    saveGatePolicy(workspaceId, policy);
+    setGatePolicy(policy);
+  };
+
+  // The open report is rescored at once, so the score and the gate follow the weights
+  const handleScoringWeightsChange = (weights: ScoringWeights) => {
+    saveScoringWeights(workspaceId, weights);
+    setScoringWeights(weights);
+    if (report) setReport(rescoreReport(report, weights));
+  };
+
+  // The verdict follows the report and the policy, so editing either re-evaluates it
+  const gate = useMemo(() => (report ? evaluateGate(report, gatePolicy) : null), [report, gatePolicy]);
+  useEffect(() => {
+    if (gate && (prStatus === 'blocked' || prStatus === 'passed')) {
+      setPrStatus(gate.blocked ? 'blocked' : 'passed');
+    }
+  }, [gate]);
+
+  // Runs live in local storage and, when the backend is up, on disk there too.
+  // Runs recorded while it was offline are uploaded once it's back.
+  const backendOnline = backendHealth.status === 'online';
+  useEffect(() => {
+    let cancelled = false;
+    const local = loadLocalHistory(workspaceId);
+    setHistory(local);
+    if (!backendOnline || workspaceId.startsWith('demo://')) return;
+
+    setHistoryLoading(true);
+    fetchHistory(workspaceId)
+      .then(remote => {
+        if (cancelled) return;
+        setHistory(mergeHistory(remote, local));
+        const remoteIds = new Set(remote.map(e => e.id));
+        local.filter(e => !remoteIds.has(e.id)).forEach(e => saveHistoryRun(e).catch(() => undefined));
+      })
+      .catch(() => undefined) // Local history is still shown
+      .finally(() => !cancelled && setHistoryLoading(false));
+    return () => { cancelled = true; };
+  }, [workspaceId, backendOnline]);
+
+  const recordRun = (projectId: string, result: AnalysisReport) => {
+    const entry = createHistoryEntry(projectId, result);
+    const local = saveLocalRun(entry);
+    if (projectId === workspaceId) setHistory(prev => mergeHistory(prev, local));
+    if (backendOnline && !projectId.startsWith('demo://')) saveHistoryRun(entry).catch(() => undefined);
+  };
+
+  const handleSaveProviderConfig = (config: ProviderConfig) => {
+    saveProviderConfig(workspaceId, config);
+    setProviderConfig(config);
+  };
+
+  // Shown under every repository input so a scan never silently hits sample data or a dead backend
+  const repoScanHint = demoMode ? (
+    <p className="text-xs text-amber-600 dark:text-amber-400">Demo mode is on: the built-in sample repository will be loaded instead of this URL.</p>
+  ) : backendHealth.status === 'offline' ? (
+    <p className="text-xs text-red-600 dark:text-red-400">The scan backend is offline. Start it from <code>backend/</code> or turn on demo mode from the status menu.</p>
+  ) : null;
+
+  const demoDataBanner = isDemoData && (
+    <div className="border px-4 py-3 rounded-lg text-sm bg-amber-50 border-amber-200 text-amber-800 dark:bg-amber-900/20 dark:border-amber-800 dark:text-amber-300">
+      <span className="font-bold">Demo data.</span> The code and report below come from the built-in sample repository, not from your project.
+    </div>
+  );
+
   // Calculate Dependency Stats for Navbar
   const depStats = useMemo(() => {
     if (!report?.dependencies || report.dependencies.length === 0) return null;
@@ -84,68 +251,199 @@ const App: React.FC = () => {
     return { total, breaking, compatible };
   }, [report]);
 
-  const handleAnalyze = async (codeOverride?: string, isPrCheck: boolean = false) => {
+  // Diagnostics a patch introduces into the buffer, or null when it touches no JS/TS. Rejects when the check can't run.
+  const checkBufferPatch = async (before: string, after: string): Promise<TypeDiagnostic[] | null> => {
+    const toFiles = (buffer: string) => splitWorkspace(buffer).map(({ path, content }) => ({ path, content }));
+    const beforeFiles = toFiles(before);
+    const afterFiles = toFiles(after);
+    const touched = afterFiles.filter(f => beforeFiles.find(b => b.path === f.path)?.content !== f.content);
+    if (!touched.some(f => isScriptPath(f.path))) return null;
+    return typeChecker.checkPatch(beforeFiles, afterFiles);
+  };
+
+  // Same, as display state: a failed check is reported instead of passing silently
+  const typeCheckState = async (before: string, after: string): Promise<TypeCheckState> => {
+    try {
+      return { pending: false, diagnostics: await checkBufferPatch(before, after) };
+    } catch (err: any) {
+      console.warn('Type check failed:', err);
+      return { pending: false, diagnostics: null, error: err?.message || 'The type check failed.' };
+    }
+  };
+
+  // Report lines are per file; the bulk review diff shows the whole buffer
+  const toBufferDiagnostics = (buffer: string, diagnostics: TypeDiagnostic[]): TypeDiagnostic[] =>
+    diagnostics.map(d => ({ ...d, line: toBufferRange(buffer, d.filePath, { startLine: d.line, endLine: d.line }).startLine }));
+
+  // The previewed fix is type-checked before it is applied, and again once typing in the editor pauses
+  useEffect(() => {
+    setPreviewCheck(null);
+    if (!previewIssue || !isScriptPath(previewIssue.filePath)) return;
+    const { code: patched, edits } = applyFixes(code, [previewIssue]);
+    if (edits.length === 0) return;
+
+    let current = true;
+    setPreviewCheck({ pending: true, diagnostics: null });
+    const timer = setTimeout(() => {
+      typeCheckState(code, patched).then(check => {
+        if (!current) return;
+        // The preview shows one file, numbered as in that file
+        const path = previewIssue.filePath || SNIPPET_PATH;
+        setPreviewCheck({ ...check, diagnostics: check.diagnostics && check.diagnostics.filter(d => d.filePath === path) });
+      });
+    }, PREVIEW_CHECK_DELAY_MS);
+    return () => {
+      current = false;
+      clearTimeout(timer);
+    };
+  }, [previewIssue, code]);
+
+  // Resolves to the new report, or null when the analysis didn't run or failed
+  const handleAnalyze = async (codeOverride?: string, isPrCheck: boolean = false): Promise<AnalysisReport | null> => {
     const textToAnalyze = codeOverride || code;
     
     if (!textToAnalyze.trim()) {
       setError("Please enter some code to analyze.");
-      return;
+      return null;
     }
 
     setLoading(true);
     setError(null);
     setPreviewIssue(null);
     setHighlightedText(null);
+    setHighlightedLines(null);
     if (isPrCheck) setPrStatus('checking');
     
     try {
-      const result = await analyzeCode(textToAnalyze);
+      const result = await runAnalysis(textToAnalyze, engine, {
+        provider: createProvider(providerConfig),
+        cache: analysisCache,
+        scoringWeights,
+        onProgress: (completed, total) => setProgress({ completed, total })
+      });
       setReport(result);
+      recordRun(workspaceId, result);
       
       if (isPrCheck) {
-          // Determine PR Status based on findings
-          if (result.issues.length > 0) {
+          // Determine PR Status based on findings (same gate as the CLI)
+          if (evaluateGate(result, gatePolicy).blocked) {
               setPrStatus('blocked');
           } else {
               setPrStatus('passed');
           }
       }
+      return result;
     } catch (err: any) {
       setError(err.message || "Failed to analyze code.");
       if (isPrCheck) setPrStatus('idle');
+      return null;
     } finally {
       setLoading(false);
+      setProgress(null);
     }
   };
 
   const handleLoadRepo = async (isPrCheck: boolean = false) => {
-    if (!repoUrl) return;
+    if (!repoUrl && !demoMode) return;
     setLoading(true);
     setError(null);
     setScannedFiles([]);
+    setPrDiff(null);
     if (isPrCheck) setPrStatus('checking');
 
     try {
-        const result = await scanGitRepo(repoUrl);
-        setCode(result.context);
+        const result = demoMode ? await scanDemoRepo() : await scanGitRepo(repoUrl);
+        if (result.files.length === 0) {
+            throw new Error(`No analyzable files found in ${result.root}.`);
+        }
+        setCode(combineFiles(result.files));
+        setIsDemoData(!!result.demo);
+        setScanBaseline(result.demo ? null : { root: result.root, files: result.files });
+        setFixHistory(EMPTY_FIX_HISTORY);
+        setCommitResult(null);
+        setCommitConflicts(null);
+        setCommitCheck(null);
         setInputMode('manual'); // Switch to editor view to show loaded code
+        setWorkspaceId(result.root);
         
-        // Auto-analyze
-        const analysis = await analyzeCode(result.context);
+        // Auto-analyze with the provider saved for this repo
+        const analysis = await analyzeFiles(result.files, engine, {
+            provider: createProvider(loadProviderConfig(result.root)),
+            cache: analysisCache,
+            scoringWeights: loadScoringWeights(result.root),
+            onProgress: (completed, total) => setProgress({ completed, total })
+        });
         setReport(analysis);
+        recordRun(result.root, analysis);
         
         if (isPrCheck) {
-            setPrStatus(analysis.issues.length > 0 ? 'blocked' : 'passed');
+            setPrStatus(evaluateGate(analysis, loadGatePolicy(result.root)).blocked ? 'blocked' : 'passed');
         }
 
     } catch (err: any) {
         setError(err.message);
         setPrStatus('idle');
+        // A connection failure means the indicator is stale
+        if (err.status === 0) refreshBackendHealth();
     } finally {
         setLoading(false);
+        setProgress(null);
     }
   };
 
+  // Diff-aware PR check: only the changed hunks (plus context) are analyzed,
+  // and only issues the PR introduces count toward the verdict.
+  const handleCheckDiff = async (source: 'refs' | 'patch') => {
+    setLoading(true);
+    setError(null);
+    setScannedFiles([]);
+    setPrStatus('checking');
+
+    try {
+        let diffText = patchText;
+        let policy = gatePolicy;
+        let weights = scoringWeights;
+        if (source === 'refs') {
+            if (!repoUrl || !baseRef) throw new Error('Enter the repository and the base ref to compare against.');
+            const response = await fetchRefDiff(repoUrl, baseRef, headRef);
+            diffText = response.diff;
+            setWorkspaceId(response.root);
+            policy = loadGatePolicy(response.root);
+            weights = loadScoringWeights(response.root);
+        }
+        const patches = parseUnifiedDiff(diffText);
+        if (patches.length === 0) throw new Error('No file changes found in the diff.');
+
+        const result = await scanDiff(patches, engine, {
+            provider: createProvider(providerConfig),
+            cache: analysisCache,
+            scoringWeights: weights,
+            onProgress: (completed, total) => setProgress({ completed, total })
+        });
+        // The excerpts aren't whole files, so there is nothing to edit or commit
+        setCode('');
+        setScanBaseline(null);
+        setIsDemoData(false);
+        setFixHistory(EMPTY_FIX_HISTORY);
+        setReport(result.report);
+        setPrDiff(result);
+        setPrStatus(evaluateGate(result.report, policy).blocked ? 'blocked' : 'passed');
+    } catch (err: any) {
+        setError(err.message || 'Failed to analyze the diff.');
+        setPrStatus('idle');
+        if (err.status === 0) refreshBackendHealth();
+    } finally {
+        setLoading(false);
+        setProgress(null);
+    }
+  };
+
+  const handlePatchFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) setPatchText(await file.text());
+    if (patchInputRef.current) patchInputRef.current.value = '';
+  };
+
   const processSelectedFiles = async (files: FileList | null) => {
     if (!files || files.length === 0) return;
 
@@ -190,6 +488,12 @@ const App: React.FC = () => {
       const processedFiles = await Promise.all(filePromises);
       setScannedFiles(processedFiles);
       setInputMode('local');
+      setIsDemoData(false);
+      setScanBaseline(null); // Browser uploads have no working copy to commit into
+      setPrDiff(null);
+      setFixHistory(EMPTY_FIX_HISTORY);
+      // The top-level folder name identifies the workspace
+      setWorkspaceId(processedFiles[0].path.includes('/') ? processedFiles[0].path.split('/')[0] : DEFAULT_WORKSPACE_ID);
 
     } catch (err: any) {
       setError(err.message || "Failed to read files");
@@ -208,6 +512,38 @@ const App: React.FC = () => {
      processSelectedFiles(event.target.files);
   };
 
+  const handleExport = (format: ExportFormat | 'sarif') => {
+    if (!report) return;
+    if (format === 'sarif') {
+      // Fixes are placed against the editor buffer, as Apply Fix would place them
+      const files = splitWorkspace(code).filter(f => f.path !== SNIPPET_PATH);
+      downloadText('deprecheck.sarif', JSON.stringify(toSarif(report, { files }), null, 2), 'application/sarif+json');
+      return;
+    }
+    downloadText(`deprecheck-report.${EXPORT_FILE_EXTENSIONS[format]}`, exportReport(report, format), EXPORT_MIME_TYPES[format]);
+  };
+
+  // Re-opens a JSON export (or a CLI report file) without re-running the analysis
+  const handleImportReport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      const imported = parseImportedReport(await file.text());
+      setReport(imported);
+      setError(null);
+      setPreviewIssue(null);
+      setFixReview(null);
+      setFixConflicts(null);
+      setHighlightedText(null);
+      setHighlightedLines(null);
+      setPrStatus('idle');
+    } catch (err: any) {
+      setError(`Could not import ${file.name}: ${err.message}`);
+    } finally {
+      if (reportInputRef.current) reportInputRef.current.value = '';
+    }
+  };
+
   const toggleFileSelection = (index: number) => {
     setScannedFiles(prev => prev.map((f, i) => i === index ? { ...f, selected: !f.selected } : f));
   };
@@ -223,7 +559,7 @@ const App: React.FC = () => {
           return;
       }
       
-      const combinedContext = activeFiles.map(f => `// File: ${f.path}\n${f.content}`).join('\n');
+      const combinedContext = combineFiles(activeFiles);
       setCode(combinedContext);
       handleAnalyze(combinedContext, true); // true = isPrCheck
   };
@@ -235,14 +571,23 @@ const App: React.FC = () => {
     // 1. Show DiffViewer with the issue
     setPreviewIssue(issue);
     
-    // 2. Highlight text in Editor (Red for 'problem')
-    setHighlightedText(issue.affectedCode);
+    // 2. Highlight the issue's lines in Editor (Red for 'problem'); fall back to a text search
+    //    for issues the analysis could not anchor to a line
+    const range = issue.startLine
+        ? toBufferRange(code, issue.filePath, { startLine: issue.startLine, endLine: issue.endLine || issue.startLine })
+        : null;
+    setHighlightedLines(range);
+    setHighlightedText(range ? null : issue.affectedCode);
     setHighlightColor('red');
     
     // 3. Scroll to it
     // Slight timeout to allow UI state to settle
     setTimeout(() => {
-        editorRef.current?.highlight(issue.affectedCode);
+        if (range) {
+            editorRef.current?.revealLines(range.startLine, range.endLine);
+        } else {
+            editorRef.current?.highlight(issue.affectedCode);
+        }
         const editorElement = document.getElementById('main-editor');
         if (editorElement) {
             editorElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
@@ -250,108 +595,196 @@ const App: React.FC = () => {
     }, 10);
   };
 
-  const handleApplyFix = (issue: Issue) => {
-    const { affectedCode, replacementCode } = issue;
-    
-    // Attempt robust find
-    let match = affectedCode;
-    // Basic trimming check
-    if (!code.includes(match) && code.includes(match.trim())) {
-        match = match.trim();
+  const handleApplyFix = async (issue: Issue) => {
+    // Anchored to the issue's location; an ambiguous or missing target is reported, not guessed
+    const originalCode = code;
+    const { code: newCode, edits, conflicts } = applyFixes(originalCode, [issue]);
+    if (edits.length === 0) {
+      setFixConflicts(conflicts);
+      return;
     }
+    setFixConflicts(null);
 
-    if (code.includes(match)) {
-      const newCode = code.replace(match, replacementCode);
-      
-      // Update code
-      setCode(newCode);
-      
-      // Hide the DiffViewer as it is now fixed
-      setPreviewIssue(null);
-      
-      // Set highlight to Green to show success on the NEW code
-      setHighlightedText(replacementCode);
-      setHighlightColor('green');
-      
-      // Use setTimeout to ensure the render cycle completes with new code before we try to highlight/scroll
-      setTimeout(() => {
-          editorRef.current?.highlight(replacementCode);
-      }, 50);
+    // Type-checked before it touches the buffer, like a bulk selection
+    const typeCheck = await typeCheckState(originalCode, newCode);
 
-      // Auto analyze the new code to update dependency status in navbar
-      handleAnalyze(newCode);
+    // Update code
+    setCode(newCode);
+    const recorded = recordFixes(fixHistory, originalCode, edits, issue.title);
+    setFixHistory(recorded);
 
-    } else {
-      alert("Could not automatically locate the exact code snippet (formatting might differ). It may have already been changed.");
+    // Hide the DiffViewer as it is now fixed
+    setPreviewIssue(null);
+
+    // A fix that breaks the types (or couldn't be checked) is shown in the review with the errors
+    if (typeCheck.error || typeCheck.diagnostics?.length) {
+      setFixReview({
+        original: originalCode,
+        modified: newCode,
+        typeCheck: { ...typeCheck, diagnostics: typeCheck.diagnostics && toBufferDiagnostics(newCode, typeCheck.diagnostics) }
+      });
+      if (activeTab === 'pr-interceptor') setPrStatus('blocked');
+      verifyFix(recorded, recorded.entries[recorded.entries.length - 1].id, report);
+      return;
     }
+
+    // Set highlight to Green on the lines the fix wrote
+    const edit = edits[0];
+    const range = { startLine: edit.startLine, endLine: edit.startLine + edit.text.split('\n').length - 1 };
+    setHighlightedText(null);
+    setHighlightedLines(range);
+    setHighlightColor('green');
+
+    // Use setTimeout to ensure the render cycle completes with new code before we try to scroll
+    setTimeout(() => {
+        editorRef.current?.revealLines(range.startLine, range.endLine);
+    }, 50);
+
+    // Auto analyze the new code to update dependency status in navbar, and check the fix did its job
+    verifyFix(recorded, recorded.entries[recorded.entries.length - 1].id, report);
+  };
+
+  // Re-analyzes a buffer with a fix in it and compares the result with the report from before the fix
+  const verifyFix = async (recorded: FixHistory, id: string, before: AnalysisReport | null, isPrCheck: boolean = false) => {
+    const after = await handleAnalyze(recorded.code, isPrCheck);
+    const entry = recorded.entries.find(e => e.id === id);
+    if (!after || !before || !entry) return;
+    setFixVerifications(prev => ({ ...prev, [id]: verifyEntry(recorded, entry, before, after) }));
+  };
+
+  // Jumps to one of the places a conflicting fix could apply
+  const handleRevealConflict = (line: number) => {
+    setFixReview(null);
+    setHighlightedText(null);
+    setHighlightedLines({ startLine: line, endLine: line });
+    setHighlightColor('red');
+    setTimeout(() => {
+        editorRef.current?.revealLines(line, line);
+        document.getElementById('main-editor')?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 10);
   };
 
   const handleExitComparison = () => {
     setFixReview(null);
     setHighlightedText(null);
+    setHighlightedLines(null);
   };
 
+  // Bulk fixes go through the planner first: the user picks which edits to apply
   const handleFixAll = () => {
     if (!report || report.issues.length === 0) return;
 
-    const originalCode = code;
-    let updatedCode = code;
-    let appliedCount = 0;
-    const originalHighlights: string[] = [];
-    const modifiedHighlights: string[] = [];
-
-    // Sort issues by affectedCode length (descending) to avoid partial replacements of overlapping issues
-    const sortedIssues = [...report.issues].sort((a, b) => b.affectedCode.length - a.affectedCode.length);
-
-    sortedIssues.forEach(issue => {
-      let match = issue.affectedCode;
-      
-      // Robust matching: Try exact, then trimmed
-      if (!updatedCode.includes(match)) {
-         if (updatedCode.includes(match.trim())) {
-             match = match.trim();
-         } else {
-             return; // Skip if not found
-         }
-      }
-
-      // GLOBAL REPLACE: We want to fix ALL instances.
-      // We use split/join as a simple "replaceAll" that handles special regex chars in code safely
-      const parts = updatedCode.split(match);
-      if (parts.length > 1) {
-         updatedCode = parts.join(issue.replacementCode);
-         
-         // Track for highlighting
-         originalHighlights.push(match);
-         modifiedHighlights.push(issue.replacementCode);
-         appliedCount += (parts.length - 1);
-      }
-    });
+    // Accepted (baseline) findings are left alone, and findings with only a migration example are fixed by hand
+    const plan = planFixes(code, report.issues.filter(i => !isSuppressed(i) && hasFix(i)));
+    if (plan.fixes.length === 0) {
+      if (plan.conflicts.length === 0) setError('None of the open findings has an automatic fix; follow the migration examples instead.');
+      setFixConflicts(plan.conflicts);
+      return;
+    }
+    setFixConflicts(null);
+    setFixPlanError(null);
+    setFixPlan(plan);
+  };
 
-    if (appliedCount === 0) {
-       alert("No applicable fixes found automatically (code might have changed or formatting differs).");
-       return;
+  // The selection is type-checked before it touches the buffer, so the PR
+  // status never passes on fixes that break the build
+  const handleApplyPlan = async (selection: string[]) => {
+    if (!fixPlan) return;
+    let planned: ReturnType<typeof applyPlan>;
+    try {
+      planned = applyPlan(fixPlan, selection);
+    } catch (err: any) {
+      // The planner stays open so the selection can be changed
+      setFixPlanError(err.message || 'The selected fixes could not be applied.');
+      return;
     }
+    const { code: updatedCode, edits } = planned;
+    const originalCode = fixPlan.code;
+    setFixPlanError(null);
+    setIsApplyingPlan(true);
+    const typeCheck = await typeCheckState(originalCode, updatedCode);
+    setIsApplyingPlan(false);
+    setFixPlan(null);
+    setFixConflicts(fixPlan.conflicts.length > 0 ? fixPlan.conflicts : null);
 
     // Set Split View State
     setFixReview({
       original: originalCode,
       modified: updatedCode,
-      originalHighlights,
-      modifiedHighlights,
-      isBulkFix: true
+      isBulkFix: true,
+      typeCheck: { ...typeCheck, diagnostics: typeCheck.diagnostics && toBufferDiagnostics(updatedCode, typeCheck.diagnostics) }
     });
 
     // Update main code
     setCode(updatedCode);
+    const recorded = recordFixes(fixHistory, originalCode, edits, edits.length === 1 ? edits[0].issue.title : `Fix All (${edits.length} fixes)`);
+    setFixHistory(recorded);
     
-    // CRITICAL for PR Interceptor: Only unblock if migration happens
+    // CRITICAL for PR Interceptor: Only unblock if migration happens, and leaves no new type errors
     if (activeTab === 'pr-interceptor') {
-        setPrStatus('passed');
+        setPrStatus(typeCheck.error || typeCheck.diagnostics?.length ? 'blocked' : 'passed');
     }
 
     // TRIGGER RE-ANALYSIS on the NEW code to update the score and dependencies in navbar
-    handleAnalyze(updatedCode);
+    verifyFix(recorded, recorded.entries[recorded.entries.length - 1].id, report);
+  };
+
+  // Undoes or redoes one recorded fix; the others stay as they are
+  const handleToggleFix = (id: string, history: FixHistory = fixHistory) => {
+    try {
+      const result = toggleEntry(history, code, id);
+      const entry = result.history.entries.find(e => e.id === id)!;
+      setFixHistory(result.history);
+      setCode(result.code);
+      setFixReview(null);
+      setPreviewIssue(null);
+      setError(null);
+
+      const range = entryLines(result.history, entry);
+      setHighlightedText(null);
+      setHighlightedLines(range);
+      setHighlightColor(entry.status === 'applied' ? 'green' : 'red');
+      if (range) setTimeout(() => editorRef.current?.revealLines(range.startLine, range.endLine), 50);
+
+      // A redone fix is verified again; an undone one has nothing left to check
+      if (entry.status === 'applied') {
+        verifyFix(result.history, id, report, activeTab === 'pr-interceptor');
+      } else {
+        setFixVerifications(({ [id]: _, ...rest }) => rest);
+        handleAnalyze(result.code, activeTab === 'pr-interceptor');
+      }
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  // Undoes a single fix out of a Fix All batch
+  const handleRevertFix = (id: string, index: number) => {
+    try {
+      const detached = detachFix(fixHistory, id, index);
+      setFixVerifications(prev => {
+        const verification = prev[id];
+        if (!verification || detached.id === id) return prev;
+        return { ...prev, [id]: { ...verification, checks: verification.checks.filter((_, i) => i !== index) } };
+      });
+      handleToggleFix(detached.id, detached.history);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleRevealFix = (id: string) => {
+    const entry = liveFixHistory.entries.find(e => e.id === id);
+    const range = entry && entryLines(liveFixHistory, entry);
+    if (!range) return;
+    setFixReview(null);
+    setHighlightedText(null);
+    setHighlightedLines(range);
+    setHighlightColor(entry.status === 'applied' ? 'green' : 'red');
+    setTimeout(() => {
+        editorRef.current?.revealLines(range.startLine, range.endLine);
+        document.getElementById('main-editor')?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 10);
   };
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -365,34 +798,96 @@ const App: React.FC = () => {
       setError(null);
       setPreviewIssue(null);
       setFixReview(null);
+      setFixConflicts(null);
+      setFixHistory(EMPTY_FIX_HISTORY);
       setHighlightedText(null);
+      setHighlightedLines(null);
       setInputMode('manual');
+      setScanBaseline(null);
     };
     reader.readAsText(file);
   };
 
-  // Simulated Commit Handler
-  const handleCommit = () => {
-      // In a real app, this would POST to the backend to git commit & push
-      const message = `Refactor: DepreCheck AI Auto-Fix applied ${fixReview ? '(Bulk)' : ''}`;
-      
-      // Simulate network request
+  // Commits the edited files onto a fix branch in the scanned repository
+  // Type errors the fixes introduced block the commit until they are fixed or `override` is set
+  const handleCommit = async (override: boolean = false) => {
+      if (!scanBaseline) {
+          setError("Committing needs a repository loaded through the scan backend. Browser uploads, pasted code and demo data have no working copy to commit into.");
+          return;
+      }
+      const files = changedFiles(scanBaseline.files, code);
+      if (files.length === 0) {
+          setError("Nothing to commit: the editor still matches the scanned files.");
+          return;
+      }
+
       setLoading(true);
-      setTimeout(() => {
+      setError(null);
+      setCommitResult(null);
+      setCommitConflicts(null);
+      setCommitCheck(null);
+      try {
+          if (!override) {
+              // A check that can't run blocks the commit too; only the override skips it
+              const check = await typeCheckState(combineFiles(scanBaseline.files), code);
+              if (check.error || check.diagnostics?.length) {
+                  setCommitCheck(check);
+                  return;
+              }
+          }
+          const result = await commitFixes({
+              repo: scanBaseline.root,
+              branch: DEFAULT_FIX_BRANCH,
+              message: buildCommitMessage(appliedIssues, files),
+              files
+          });
+          setCommitResult(result);
+      } catch (err: any) {
+          setError(err.message || "Commit failed.");
+          if (err.detail?.conflicts?.length) setCommitConflicts(err.detail.conflicts);
+      } finally {
           setLoading(false);
-          alert(`Success! \n\nCommited to branch 'deprecheck-fixes' with message:\n"${message}"\n\nChanges pushed to remote repository.`);
-          
-          // Reset PR flow
-          setPrStatus('idle');
-          setReport(null);
-          setCode('');
-          setFixReview(null);
-          setScannedFiles([]);
-          setActiveTab('scanner');
-      }, 1500);
+      }
+  };
+
+  // Suppressions are written to the baseline file in the editor buffer, so they
+  // get committed with the fixes; the report is rescored without re-analysis.
+  const updateBaseline = (update: (baseline: Baseline) => Baseline) => {
+      if (!report) return;
+      try {
+          const baseline = update(readBaselineFromBuffer(code));
+          setCode(writeBaselineToBuffer(code, baseline));
+          setReport(applyBaseline(report, baseline, scoringWeights));
+      } catch (err: any) {
+          setError(err.message);
+      }
+  };
+
+  const handleSuppress = (issue: Issue, reason: string, expires?: string) =>
+      updateBaseline(baseline => addSuppression(baseline, createBaselineEntry(issue, reason, expires)));
+
+  const handleUnsuppress = (issue: Issue) =>
+      updateBaseline(baseline => removeSuppression(baseline, issueFingerprint(issue)));
+
+  const handleCommitDone = () => {
+      // Reset PR flow
+      setPrStatus('idle');
+      setReport(null);
+      setCode('');
+      setFixReview(null);
+      setFixConflicts(null);
+      setScannedFiles([]);
+      setScanBaseline(null);
+      setFixHistory(EMPTY_FIX_HISTORY);
+      setCommitResult(null);
+      setCommitConflicts(null);
+      setCommitCheck(null);
+      setPrDiff(null);
+      setActiveTab('scanner');
   };
 
   const predictionCount = report?.issues.filter(i => i.isPrediction).length || 0;
+  const suppressedCount = report?.issues.filter(isSuppressed).length || 0;
 
   return (
     <div className={`min-h-screen font-sans transition-colors duration-300 ${isDarkMode ? 'bg-slate-950 text-slate-100' : 'bg-slate-50 text-slate-900'}`}>
@@ -418,6 +913,13 @@ const App: React.FC = () => {
                 )}
              </button>
 
+            <ConnectionStatus
+              health={backendHealth}
+              demoMode={demoMode}
+              onToggleDemo={setDemoMode}
+              onRetry={refreshBackendHealth}
+            />
+
             {/* Dependency Status Widget (In Navbar) */}
             {depStats && (
                 <div className="relative">
@@ -504,6 +1006,12 @@ const App: React.FC = () => {
                  <span className={`${activeTab === 'shadow-mode' ? 'text-green-500' : 'text-slate-400'}`}>⚡</span>
                  Shadow Mode
                </button>
+               <button 
+                 onClick={() => setActiveTab('history')}
+                 className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${activeTab === 'history' ? (isDarkMode ? 'bg-slate-800 shadow-sm text-white' : 'bg-white shadow-sm text-slate-900') : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}
+               >
+                 History
+               </button>
                <button 
                  onClick={() => setActiveTab('debugger')}
                  className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${activeTab === 'debugger' ? (isDarkMode ? 'bg-slate-800 shadow-sm text-white' : 'bg-white shadow-sm text-slate-900') : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}
@@ -518,7 +1026,27 @@ const App: React.FC = () => {
       <main className="container mx-auto max-w-6xl px-4 py-8">
         
         {activeTab === 'debugger' ? (
-          <ApiDebugger />
+          <ApiDebugger
+            workspaceId={workspaceId}
+            providerConfig={providerConfig}
+            onSaveProviderConfig={handleSaveProviderConfig}
+          />
+        ) : activeTab === 'history' ? (
+          <div className="animate-in fade-in duration-500">
+            <ReportHistory
+              projectId={workspaceId}
+              entries={history}
+              isLoading={historyLoading}
+              backendOnline={backendOnline}
+              onOpenRun={(entry) => {
+                setReport(entry.report);
+                setPreviewIssue(null);
+                setFixReview(null);
+                setFixConflicts(null);
+                setActiveTab('scanner');
+              }}
+            />
+          </div>
         ) : activeTab === 'shadow-mode' ? (
           /* ================= SHADOW MODE EMULATOR TAB ================= */
           <div className="animate-in fade-in duration-500">
@@ -532,6 +1060,20 @@ const App: React.FC = () => {
                <p className={isDarkMode ? 'text-slate-400' : 'text-slate-600'}>Acts as a firewall, blocking PRs that add deprecated or risky code.</p>
             </div>
 
+            <details className={`max-w-xl mx-auto mb-6 rounded-xl border shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800' : 'bg-white border-slate-200'}`}>
+                <summary className={`px-6 py-3 cursor-pointer text-sm font-bold ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>Merge Policy</summary>
+                <div className="px-6 pb-6">
+                    <GatePolicyEditor policy={gatePolicy} onChange={handleGatePolicyChange} />
+                </div>
+            </details>
+
+            <details className={`max-w-xl mx-auto mb-6 rounded-xl border shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800' : 'bg-white border-slate-200'}`}>
+                <summary className={`px-6 py-3 cursor-pointer text-sm font-bold ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>Health Score Weights</summary>
+                <div className="px-6 pb-6">
+                    <ScoringWeightsEditor weights={scoringWeights} onChange={handleScoringWeightsChange} />
+                </div>
+            </details>
+
             {/* Config Section */}
             {prStatus === 'idle' && !report && (
                  <div className={`max-w-xl mx-auto p-8 rounded-xl border shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800' : 'bg-white border-slate-200'}`}>
@@ -549,6 +1091,47 @@ const App: React.FC = () => {
                                 Check PR
                              </Button>
                         </div>
+                        {repoScanHint}
+                        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+                        {/* Diff-aware check: compare two refs of the repository above */}
+                        <label className={`text-sm font-bold ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>Or check only what a PR changes</label>
+                        <div className="flex gap-2">
+                             <input
+                                type="text"
+                                placeholder="Base (e.g. main)"
+                                className={`flex-1 min-w-0 rounded-md border px-3 py-2 text-sm ${isDarkMode ? 'bg-slate-800 border-slate-700 text-white placeholder-slate-500' : 'bg-white border-slate-300 text-slate-900'}`}
+                                value={baseRef}
+                                onChange={(e) => setBaseRef(e.target.value)}
+                              />
+                             <input
+                                type="text"
+                                placeholder="Head (default HEAD)"
+                                className={`flex-1 min-w-0 rounded-md border px-3 py-2 text-sm ${isDarkMode ? 'bg-slate-800 border-slate-700 text-white placeholder-slate-500' : 'bg-white border-slate-300 text-slate-900'}`}
+                                value={headRef}
+                                onChange={(e) => setHeadRef(e.target.value)}
+                              />
+                             <Button variant="secondary" onClick={() => handleCheckDiff('refs')} isLoading={loading} disabled={!repoUrl || !baseRef}>
+                                Check Diff
+                             </Button>
+                        </div>
+                        <textarea
+                            placeholder="…or paste a unified diff / patch (git diff, git format-patch)"
+                            rows={4}
+                            className={`w-full rounded-md border px-3 py-2 text-xs font-mono ${isDarkMode ? 'bg-slate-800 border-slate-700 text-white placeholder-slate-500' : 'bg-white border-slate-300 text-slate-900'}`}
+                            value={patchText}
+                            onChange={(e) => setPatchText(e.target.value)}
+                        />
+                        <div className="flex justify-between items-center">
+                            <input type="file" ref={patchInputRef} className="hidden" accept=".diff,.patch,text/x-diff,text/x-patch" onChange={handlePatchFile} />
+                            <button onClick={() => patchInputRef.current?.click()} className="text-xs font-semibold text-indigo-600 dark:text-indigo-400 hover:underline">
+                                Upload .diff / .patch file
+                            </button>
+                            <Button variant="secondary" onClick={() => handleCheckDiff('patch')} isLoading={loading} disabled={!patchText.trim()}>
+                                Check Patch
+                            </Button>
+                        </div>
+
                         <div className="text-center text-xs text-slate-400 font-medium">OR</div>
                          
                          {/* File Selection Area */}
@@ -639,16 +1222,51 @@ const App: React.FC = () => {
                 </div>
             )}
 
+            {report && demoDataBanner && <div className="max-w-4xl mx-auto mb-4">{demoDataBanner}</div>}
+
             {/* Dashboard */}
             <PrDashboard 
                status={prStatus} 
                report={report} 
-               onBlock={() => alert('PR Blocked. Notification sent to author.')}
-               onAllow={() => { setPrStatus('passed'); alert('PR Allowed forcefully.'); }}
                onFixAll={handleFixAll}
-               onCommit={handleCommit}
+               onCommit={commitResult ? undefined : () => handleCommit()}
+               isCommitting={loading}
+               gate={gate}
+               policy={gatePolicy}
+               diffScan={prDiff}
             />
             
+            {(commitResult || commitConflicts) ? (
+               <div className="max-w-4xl mx-auto mt-6">
+                  <CommitSummary
+                     result={commitResult}
+                     conflicts={commitConflicts}
+                     onDone={handleCommitDone}
+                     onRescan={() => { setCommitConflicts(null); handleLoadRepo(true); }}
+                  />
+               </div>
+            ) : report && error && (
+               <div className="max-w-4xl mx-auto mt-6 text-sm text-red-600 dark:text-red-400">{error}</div>
+            )}
+
+            {commitCheck && !commitResult && (
+               <div className="max-w-4xl mx-auto mt-6">
+                  <TypeCheckReport diagnostics={commitCheck.diagnostics || []} error={commitCheck.error} onOverride={() => handleCommit(true)} onDismiss={() => setCommitCheck(null)} />
+               </div>
+            )}
+
+            {fixConflicts && (
+               <div className="max-w-4xl mx-auto mt-6">
+                  <FixConflictReport conflicts={fixConflicts} onDismiss={() => setFixConflicts(null)} />
+               </div>
+            )}
+
+            {liveFixHistory.entries.length > 0 && !commitResult && (
+               <div className="max-w-4xl mx-auto mt-6">
+                  <FixTimeline history={liveFixHistory} verifications={fixVerifications} onToggle={handleToggleFix} onRevert={handleRevertFix} />
+               </div>
+            )}
+
             {/* If Fix All triggered in PR mode, show the split editor comparison below */}
             {fixReview && (
                <div className="mt-8 animate-in slide-in-from-bottom-4">
@@ -660,27 +1278,17 @@ const App: React.FC = () => {
                           </span>
                       </div>
                   </div>
-                  <div className="grid grid-cols-2 gap-4 h-[500px]">
-                      <div className={`flex flex-col rounded-lg overflow-hidden border shadow-sm ${isDarkMode ? 'border-red-900/50 bg-slate-950' : 'border-red-200 bg-slate-950'}`}>
-                          <CodeEditor 
-                              value={fixReview.original} 
-                              onChange={() => {}} 
-                              readOnly={true} 
-                              className="h-full border-none"
-                              highlights={fixReview.originalHighlights}
-                              highlightColor="red"
-                          />
-                      </div>
-                      <div className={`flex flex-col rounded-lg overflow-hidden border shadow-sm ${isDarkMode ? 'border-green-900/50 bg-slate-950' : 'border-green-200 bg-slate-950'}`}>
-                          <CodeEditor 
-                              value={code} 
-                              onChange={setCode} 
-                              className="h-full border-none"
-                              highlights={fixReview.modifiedHighlights}
-                              highlightColor="green"
-                          />
-                      </div>
-                  </div>
+                  <DiffViewer
+                      isVisible
+                      oldCode={fixReview.original}
+                      newCode={code}
+                      title={fixReview.isBulkFix ? 'Bulk Fix Review' : 'Fix Review'}
+                      oldLabel="Before"
+                      newLabel="After Fixes"
+                      diagnostics={fixReview.typeCheck?.diagnostics ?? undefined}
+                      typeCheckPending={fixReview.typeCheck?.pending}
+                      typeCheckError={fixReview.typeCheck?.error}
+                  />
                   
                   {report && (
                       <div className={`mt-6 p-4 border rounded-lg flex items-center justify-between ${isDarkMode ? 'bg-green-900/10 border-green-900/30' : 'bg-green-50 border-green-200'}`}>
@@ -761,43 +1369,31 @@ const App: React.FC = () => {
                                   Load Repo
                               </Button>
                           </div>
+                          {repoScanHint}
                       </div>
                   ) : fixReview ? (
-                    /* Split View Comparison Mode (Bulk Fix) */
+                    /* Bulk Fix Review: diff of the fixed buffer against the code before the fixes */
                     <div className="animate-in fade-in duration-300">
                         <div className="flex justify-between items-center mb-2">
                             <h3 className={`text-sm font-bold flex items-center gap-2 ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>
                                 <span className={`flex items-center justify-center w-5 h-5 rounded-full text-[10px] ${isDarkMode ? 'bg-violet-900/50 text-violet-300' : 'bg-violet-100 text-violet-600'}`}>⚡</span>
-                                Bulk Fix Review
+                                {fixReview.isBulkFix ? 'Bulk Fix Review' : 'Fix Review'}
                             </h3>
                             <Button variant="secondary" onClick={handleExitComparison} className={`text-xs h-8 ${isDarkMode ? 'bg-slate-800 text-slate-300 border-slate-700 hover:bg-slate-700' : ''}`}>
                                 Exit Review
                             </Button>
                         </div>
-                        <div className="grid grid-cols-2 gap-4 h-96">
-                            {/* Left: Original */}
-                            <div className={`flex flex-col rounded-lg overflow-hidden border shadow-sm bg-slate-950 ${isDarkMode ? 'border-red-900/50' : 'border-red-200'}`}>
-                                <CodeEditor 
-                                    value={fixReview.original} 
-                                    onChange={() => {}} 
-                                    readOnly={true} 
-                                    className="h-full border-none"
-                                    highlights={fixReview.originalHighlights}
-                                    highlightColor="red"
-                                />
-                            </div>
-
-                            {/* Right: Modified (Current Code) */}
-                            <div className={`flex flex-col rounded-lg overflow-hidden border shadow-sm bg-slate-950 ${isDarkMode ? 'border-green-900/50' : 'border-green-200'}`}>
-                                <CodeEditor 
-                                    value={code} 
-                                    onChange={setCode} 
-                                    className="h-full border-none"
-                                    highlights={fixReview.modifiedHighlights}
-                                    highlightColor="green"
-                                />
-                            </div>
-                        </div>
+                        <DiffViewer
+                            isVisible
+                            oldCode={fixReview.original}
+                            newCode={code}
+                            title="Applied Fixes"
+                            oldLabel="Before"
+                            newLabel="After Fixes"
+                            diagnostics={fixReview.typeCheck?.diagnostics ?? undefined}
+                            typeCheckPending={fixReview.typeCheck?.pending}
+                            typeCheckError={fixReview.typeCheck?.error}
+                        />
                     </div>
                   ) : (
                     /* Standard Single Editor Mode */
@@ -811,20 +1407,31 @@ const App: React.FC = () => {
                         }
                         className={`h-80 ${isDarkMode ? 'border-slate-700' : 'border-slate-200'}`}
                         highlights={highlightedText ? [highlightedText] : []}
+                        highlightLines={highlightedLines}
                         highlightColor={highlightColor}
                     />
                   )}
                   
                   {/* Show DiffViewer only if NOT in Review Mode */}
-                  {!fixReview && previewIssue && (
+                  {!fixReview && previewIssue && hasFix(previewIssue) && (
                     <DiffViewer 
                       isVisible={!!previewIssue}
                       oldCode={previewIssue.affectedCode}
                       newCode={previewIssue.replacementCode}
                       context={previewIssue.description}
+                      startLine={previewIssue.startLine}
+                      diagnostics={previewCheck?.diagnostics ?? undefined}
+                      typeCheckPending={previewCheck?.pending}
+                      typeCheckError={previewCheck?.error}
                     />
                   )}
                   
+                  {fixConflicts && (
+                    <FixConflictReport conflicts={fixConflicts} onReveal={handleRevealConflict} onDismiss={() => setFixConflicts(null)} />
+                  )}
+
+                  <FixTimeline history={liveFixHistory} verifications={fixVerifications} onToggle={handleToggleFix} onRevert={handleRevertFix} onReveal={handleRevealFix} />
+
                   {/* Action Bar */}
                   <div className="flex justify-between items-center mt-2">
                     <div className="flex items-center gap-2">
@@ -844,10 +1451,33 @@ const App: React.FC = () => {
                       {code.length > 0 && (
                         <span className="text-xs text-slate-400 font-mono ml-2">{code.length} chars</span>
                       )}
+                      {loading && progress && progress.total > 1 && (
+                        <span className="text-xs text-slate-400 font-mono ml-2">Analyzed {progress.completed}/{progress.total} chunks</span>
+                      )}
                     </div>
 
                     <div className="flex gap-2">
-                        <Button variant="ghost" onClick={() => { setCode(''); setReport(null); setError(null); setPreviewIssue(null); setFixReview(null); setHighlightedText(null); setInputMode('manual'); setScannedFiles([]); }} className={isDarkMode ? 'text-slate-400 hover:text-white hover:bg-slate-800' : ''}>Clear</Button>
+                        {!fixReview && (
+                            <select
+                                value={engine}
+                                onChange={(e) => setEngine(e.target.value as AnalysisEngine)}
+                                className={`rounded-md border px-2 text-sm ${isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-300' : 'bg-white border-slate-300 text-slate-700'}`}
+                                title="Detection engine"
+                            >
+                                <option value="hybrid">Rules + AI</option>
+                                <option value="rules">Rules only (offline)</option>
+                                <option value="ai">AI only</option>
+                            </select>
+                        )}
+                        <Button variant="ghost" onClick={() => { setCode(''); setReport(null); setError(null); setPreviewIssue(null); setFixReview(null); setFixConflicts(null); setFixHistory(EMPTY_FIX_HISTORY); setHighlightedText(null); setHighlightedLines(null); setInputMode('manual'); setScannedFiles([]); setPrDiff(null); }} className={isDarkMode ? 'text-slate-400 hover:text-white hover:bg-slate-800' : ''}>Clear</Button>
+                        {!fixReview && (
+                            <>
+                                <input type="file" ref={reportInputRef} className="hidden" accept=".json,application/json" onChange={handleImportReport} />
+                                <Button variant="ghost" onClick={() => reportInputRef.current?.click()} className={isDarkMode ? 'text-slate-400 hover:text-white hover:bg-slate-800' : ''} title="Open a previously exported JSON report">
+                                    Import Report
+                                </Button>
+                            </>
+                        )}
                         
                         {!fixReview && inputMode === 'manual' && (
                             <Button onClick={() => handleAnalyze()} isLoading={loading} disabled={!code.trim()} className={isDarkMode ? 'bg-indigo-600 hover:bg-indigo-700' : ''}>
@@ -875,6 +1505,8 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
+                {demoDataBanner}
+
                 {error && (
                   <div className={`border px-4 py-4 rounded-lg flex items-start gap-3 shadow-sm animate-in fade-in slide-in-from-top-2 ${isDarkMode ? 'bg-red-900/20 border-red-900/50 text-red-400' : 'bg-red-50 border-red-200 text-red-700'}`}>
                     <div className={`p-1.5 rounded-full flex-shrink-0 mt-0.5 ${isDarkMode ? 'bg-red-900/50' : 'bg-red-100'}`}>
@@ -921,8 +1553,28 @@ const App: React.FC = () => {
                            </span>
                         )}
                     </div>
-                    <div className={`text-xs font-mono border px-2 py-1 rounded self-start md:self-auto ${isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-400' : 'bg-white border-slate-200 text-slate-400'}`}>
-                        {new Date(report.timestamp).toLocaleString()}
+                    <div className="flex items-center gap-2 self-start md:self-auto">
+                        <div className={`flex rounded border overflow-hidden text-xs font-semibold ${isDarkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+                            <span className={`px-2 py-1 ${isDarkMode ? 'bg-slate-900 text-slate-500' : 'bg-slate-50 text-slate-400'}`}>Export</span>
+                            {([
+                                ['html', 'HTML', 'Standalone page to share or archive'],
+                                ['markdown', 'Markdown', 'For wikis and PR comments'],
+                                ['json', 'JSON', 'Can be imported back into DepreCheck'],
+                                ['sarif', 'SARIF', 'SARIF 2.1.0 for code-scanning dashboards and IDE viewers']
+                            ] as const).map(([format, label, hint]) => (
+                                <button
+                                    key={format}
+                                    onClick={() => handleExport(format)}
+                                    className={`px-2 py-1 border-l transition-colors ${isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                                    title={hint}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        <div className={`text-xs font-mono border px-2 py-1 rounded ${isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-400' : 'bg-white border-slate-200 text-slate-400'}`}>
+                            {new Date(report.timestamp).toLocaleString()}
+                        </div>
                     </div>
                 </div>
 
@@ -961,7 +1613,7 @@ const App: React.FC = () => {
                             <h4 className={`text-sm font-bold mb-4 ${isDarkMode ? 'text-white' : 'text-slate-900'}`}>Issues by Severity</h4>
                             <div className="space-y-3">
                                 {(['Critical', 'Warning', 'Info'] as Severity[]).map(sev => {
-                                    const count = report.issues.filter(i => i.severity === sev && !i.isPrediction).length;
+                                    const count = report.issues.filter(i => i.severity === sev && !i.isPrediction && !isSuppressed(i)).length;
                                     return (
                                         <div key={sev} className="flex items-center justify-between text-sm group">
                                             <div className="flex items-center gap-2">
@@ -984,6 +1636,13 @@ const App: React.FC = () => {
                                     </div>
                                     <span className={`font-bold px-2 py-0.5 rounded transition-colors ${isDarkMode ? 'bg-violet-900/20 text-violet-300 group-hover:bg-violet-900/30' : 'bg-violet-50 text-violet-700 group-hover:bg-violet-100'}`}>{predictionCount}</span>
                                 </div>
+
+                                {suppressedCount > 0 && (
+                                    <div className="flex items-center justify-between text-sm" title={`Accepted in ${BASELINE_FILE}; not counted in the score`}>
+                                        <span className={`font-medium ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`}>Suppressed by baseline</span>
+                                        <span className={`font-bold px-2 py-0.5 rounded ${isDarkMode ? 'bg-slate-800 text-slate-400' : 'bg-slate-50 text-slate-500'}`}>{suppressedCount}</span>
+                                    </div>
+                                )}
                             </div>
                         </div>
                     </div>
@@ -1019,6 +1678,8 @@ const App: React.FC = () => {
                                                   issue={issue} 
                                                   onApplyFix={handleApplyFix}
                                                   onLocate={handleLocateCode}
+                                                  onSuppress={handleSuppress}
+                                                  onUnsuppress={handleUnsuppress}
                                                 />
                                             ))}
                                         </div>
@@ -1042,6 +1703,8 @@ const App: React.FC = () => {
                                                   issue={issue} 
                                                   onApplyFix={handleApplyFix}
                                                   onLocate={handleLocateCode}
+                                                  onSuppress={handleSuppress}
+                                                  onUnsuppress={handleUnsuppress}
                                                 />
                                             ))}
                                         </div>
@@ -1056,6 +1719,8 @@ const App: React.FC = () => {
           </>
         )}
       </main>
+
+      {fixPlan && <FixPlanner plan={fixPlan} onApply={handleApplyPlan} onCancel={() => setFixPlan(null)} isApplying={isApplyingPlan} error={fixPlanError} />}
     </div>
   );
 };
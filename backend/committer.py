@@ -0,0 +1,238 @@
+"""Writes fixed files back to a repository on a new branch and commits them.
+
+Commits are made in a temporary `git worktree`, so the user's own checkout
+(and whatever branch it has checked out) is never touched.
+"""
+
+import hashlib
+import os
+import subprocess
+import tempfile
+from dataclasses import dataclass, field
+from typing import List, Optional
+
+from git import Repo
+
+from scanner import ScanError, local_source, require_scan_root
+
+WORKSPACES_DIR = os.environ.get("DEPRECHECK_WORKSPACES", os.path.join(os.path.expanduser("~"), ".deprecheck", "workspaces"))
+
+DEFAULT_AUTHOR_NAME = "DepreCheck"
+DEFAULT_AUTHOR_EMAIL = "deprecheck@localhost"
+
+
+@dataclass
+class FileChange:
+    path: str
+    content: str
+    base_content: Optional[str] = None  # What the fix was computed against; None skips the conflict check
+
+
+@dataclass
+class Conflict:
+    path: str
+    reason: str
+
+
+@dataclass
+class DiffStatEntry:
+    path: str
+    insertions: int
+    deletions: int
+
+
+@dataclass
+class CommitResult:
+    branch: str
+    sha: str
+    base_sha: str
+    working_copy: str
+    files: List[DiffStatEntry] = field(default_factory=list)
+    diff_stat: str = ""
+
+
+class CommitError(Exception):
+    """A commit that could not be made; carries the HTTP status and any file conflicts."""
+
+    def __init__(self, message: str, status_code: int = 400, conflicts: Optional[List[Conflict]] = None):
+        super().__init__(message)
+        self.status_code = status_code
+        self.conflicts = conflicts or []
+
+
+def run_git(cwd: str, *args: str, env: Optional[dict] = None) -> str:
+    result = subprocess.run(["git", "-C", cwd, *args], capture_output=True, text=True, env=env)
+    if result.returncode != 0:
+        raise CommitError(f"git {args[0]} failed: {result.stderr.strip() or result.stdout.strip()}", 500)
+    return result.stdout
+
+
+def is_git_repository(path: str) -> bool:
+    """True for work trees and bare repositories alike."""
+    result = subprocess.run(["git", "-C", path, "rev-parse", "--git-dir"], capture_output=True)
+    return result.returncode == 0
+
+
+def resolve_working_copy(repo: str) -> str:
+    """Local repositories are used in place; remote URLs get a persistent clone per URL.
+
+    Anything read from this machine, file:// URLs included, must lie under DEPRECHECK_SCAN_ROOTS.
+    """
+    local = local_source(repo)
+    if local is not None:
+        try:
+            resolved = require_scan_root(local)
+        except ScanError as error:
+            raise CommitError(str(error), error.status_code) from error
+        if not repo.lower().startswith("file://"):
+            if not os.path.isdir(resolved) or not is_git_repository(resolved):
+                raise CommitError(f"{repo} is not a git repository.", 422)
+            return resolved
+
+    path = os.path.join(WORKSPACES_DIR, hashlib.sha1(repo.encode("utf-8")).hexdigest()[:16])
+    if os.path.isdir(path):
+        run_git(path, "fetch", "--quiet", "origin")
+        return path
+    os.makedirs(WORKSPACES_DIR, exist_ok=True)
+    try:
+        Repo.clone_from(repo, path)
+    except Exception as error:  # GitCommandError carries git's stderr
+        detail = getattr(error, "stderr", "") or str(error)
+        raise CommitError(f"Could not clone {repo}: {detail.strip()}", 422) from error
+    return path
+
+
+def is_inside(root: str, path: str) -> bool:
+    """True when `path` (relative to `root`, or absolute) names something strictly below `root`."""
+    target = os.path.normpath(os.path.join(root, path))
+    return target != root and os.path.commonpath([root, target]) == root
+
+
+def checked_out_at(repo_dir: str, branch: str) -> Optional[str]:
+    """The work tree that has `branch` checked out, if any; git refuses a second one."""
+    output = run_git(repo_dir, "worktree", "list", "--porcelain")
+    path = None
+    for line in output.splitlines():
+        if line.startswith("worktree "):
+            path = line[len("worktree "):]
+        elif line == f"branch refs/heads/{branch}":
+            return path
+    return None
+
+
+def branch_exists(repo_dir: str, branch: str) -> bool:
+    result = subprocess.run(["git", "-C", repo_dir, "rev-parse", "--verify", "--quiet", f"refs/heads/{branch}"], capture_output=True)
+    return result.returncode == 0
+
+
+def find_conflicts(worktree: str, changes: List[FileChange]) -> List[Conflict]:
+    conflicts = []
+    for change in changes:
+        target = os.path.join(worktree, change.path)
+        if change.base_content is None:
+            continue
+        if not os.path.exists(target):
+            conflicts.append(Conflict(path=change.path, reason="File no longer exists on the target branch."))
+            continue
+        with open(target, encoding="utf-8", errors="replace") as handle:
+            current = handle.read()
+        if current != change.base_content:
+            conflicts.append(Conflict(path=change.path, reason="File changed on the target branch since it was scanned."))
+    return conflicts
+
+
+def parse_numstat(output: str) -> List[DiffStatEntry]:
+    entries = []
+    for line in output.splitlines():
+        parts = line.split("\t")
+        if len(parts) == 3:
+            added, deleted, path = parts
+            # Binary files report "-" for both counts
+            entries.append(DiffStatEntry(path=path, insertions=int(added) if added.isdigit() else 0, deletions=int(deleted) if deleted.isdigit() else 0))
+    return entries
+
+
+def commit_fixes(
+    repo: str,
+    branch: str,
+    message: str,
+    changes: List[FileChange],
+    base_ref: Optional[str] = None,
+    author_name: str = DEFAULT_AUTHOR_NAME,
+    author_email: str = DEFAULT_AUTHOR_EMAIL,
+) -> CommitResult:
+    if not changes:
+        raise CommitError("No changed files to commit.")
+
+    repo_dir = resolve_working_copy(repo)
+    for change in changes:
+        if os.path.isabs(change.path) or not is_inside(repo_dir, change.path):
+            raise CommitError(f"Refusing to write outside the repository: {change.path}")
+
+    existing = branch_exists(repo_dir, branch)
+    if existing:
+        checkout = checked_out_at(repo_dir, branch)
+        if checkout:
+            raise CommitError(
+                f"The branch {branch} is checked out in {checkout}. Switch that checkout to another branch or commit to a different branch.",
+                409,
+            )
+
+    with tempfile.TemporaryDirectory(prefix="deprecheck-commit-") as parent:
+        worktree = os.path.join(parent, "tree")
+        if existing:
+            # Keep stacking fixes on a branch that was created by an earlier commit
+            run_git(repo_dir, "worktree", "add", "--quiet", worktree, branch)
+        else:
+            start = base_ref or ("origin/HEAD" if repo_dir.startswith(WORKSPACES_DIR) else "HEAD")
+            run_git(repo_dir, "worktree", "add", "--quiet", "-b", branch, worktree, start)
+
+        committed = False
+        try:
+            base_sha = run_git(worktree, "rev-parse", "HEAD").strip()
+
+            # Symlinks in the checkout could still point outside it
+            root = os.path.realpath(worktree)
+            for change in changes:
+                if not is_inside(root, os.path.realpath(os.path.join(worktree, change.path))):
+                    raise CommitError(f"Refusing to write outside the repository: {change.path}")
+
+            conflicts = find_conflicts(worktree, changes)
+            if conflicts:
+                raise CommitError(f"{len(conflicts)} file(s) changed since they were scanned.", 409, conflicts)
+
+            for change in changes:
+                target = os.path.join(worktree, change.path)
+                os.makedirs(os.path.dirname(target), exist_ok=True)
+                with open(target, "w", encoding="utf-8", newline="") as handle:
+                    handle.write(change.content)
+
+            run_git(worktree, "add", "--", *[change.path for change in changes])
+            if not run_git(worktree, "diff", "--cached", "--name-only").strip():
+                raise CommitError("The fixed files are identical to the branch; nothing to commit.", 422)
+
+            env = {
+                **os.environ,
+                "GIT_AUTHOR_NAME": author_name,
+                "GIT_AUTHOR_EMAIL": author_email,
+                "GIT_COMMITTER_NAME": author_name,
+                "GIT_COMMITTER_EMAIL": author_email,
+            }
+            run_git(worktree, "commit", "--quiet", "-m", message, env=env)
+            committed = True
+
+            return CommitResult(
+                branch=branch,
+                sha=run_git(worktree, "rev-parse", "HEAD").strip(),
+                base_sha=base_sha,
+                working_copy=repo_dir,
+                files=parse_numstat(run_git(worktree, "diff", "--numstat", "HEAD~1", "HEAD")),
+                diff_stat=run_git(worktree, "diff", "--stat", "HEAD~1", "HEAD").rstrip(),
+            )
+        finally:
+            if os.path.isdir(worktree):
+                subprocess.run(["git", "-C", repo_dir, "worktree", "remove", "--force", worktree], capture_output=True)
+            subprocess.run(["git", "-C", repo_dir, "worktree", "prune"], capture_output=True)
+            # A branch this call created is only kept if it got the commit
+            if not existing and not committed:
+                subprocess.run(["git", "-C", repo_dir, "branch", "-D", branch], capture_output=True)
@@ -0,0 +1,126 @@
+"""Clients that report a PR verdict back to the forge hosting the repository.
+
+The webhook only talks to the `ForgeClient` interface, so GitHub, GitLab and
+the in-memory fake used for local testing are interchangeable.
+"""
+
+import os
+from dataclasses import dataclass, field
+from typing import List, Optional
+from urllib.parse import quote
+
+import requests
+
+STATUS_CONTEXT = "deprecheck"
+REQUEST_TIMEOUT_SECONDS = 15
+
+# Commit status states understood by every client
+PENDING, SUCCESS, FAILURE, ERROR = "pending", "success", "failure", "error"
+
+
+@dataclass
+class PullRequestRef:
+    provider: str  # "github" or "gitlab"
+    project: str  # GitHub "owner/name"; GitLab numeric project id
+    number: int  # PR number / MR iid
+    head_sha: str
+
+
+class ForgeError(Exception):
+    """The forge API rejected a call or could not be reached."""
+
+
+class ForgeClient:
+    def set_status(self, pr: PullRequestRef, state: str, description: str, target_url: Optional[str] = None) -> None:
+        raise NotImplementedError
+
+    def post_review(self, pr: PullRequestRef, body: str, blocked: bool) -> None:
+        raise NotImplementedError
+
+
+class HttpForgeClient(ForgeClient):
+    def __init__(self, api_url: str, token: Optional[str], auth_header: str, auth_prefix: str = ""):
+        self.api_url = api_url.rstrip("/")
+        self.session = requests.Session()
+        if token:
+            self.session.headers[auth_header] = f"{auth_prefix}{token}"
+
+    def post(self, path: str, payload: dict) -> dict:
+        try:
+            response = self.session.post(f"{self.api_url}{path}", json=payload, timeout=REQUEST_TIMEOUT_SECONDS)
+        except requests.RequestException as error:
+            raise ForgeError(f"POST {path} failed: {error}") from error
+        if response.status_code >= 400:
+            raise ForgeError(f"POST {path} returned {response.status_code}: {response.text[:200]}")
+        return response.json() if response.content else {}
+
+
+class GitHubClient(HttpForgeClient):
+    def __init__(self, api_url: str = "https://api.github.com", token: Optional[str] = None):
+        super().__init__(api_url, token, "Authorization", "Bearer ")
+        self.session.headers["Accept"] = "application/vnd.github+json"
+
+    def set_status(self, pr: PullRequestRef, state: str, description: str, target_url: Optional[str] = None) -> None:
+        payload = {"state": state, "description": description[:140], "context": STATUS_CONTEXT}
+        if target_url:
+            payload["target_url"] = target_url
+        self.post(f"/repos/{pr.project}/statuses/{pr.head_sha}", payload)
+
+    def post_review(self, pr: PullRequestRef, body: str, blocked: bool) -> None:
+        # COMMENT rather than APPROVE: a passing scan is not a code review
+        event = "REQUEST_CHANGES" if blocked else "COMMENT"
+        self.post(f"/repos/{pr.project}/pulls/{pr.number}/reviews", {"body": body, "event": event, "commit_id": pr.head_sha})
+
+
+class GitLabClient(HttpForgeClient):
+    STATES = {PENDING: "pending", SUCCESS: "success", FAILURE: "failed", ERROR: "failed"}
+
+    def __init__(self, api_url: str = "https://gitlab.com/api/v4", token: Optional[str] = None):
+        super().__init__(api_url, token, "PRIVATE-TOKEN")
+
+    def set_status(self, pr: PullRequestRef, state: str, description: str, target_url: Optional[str] = None) -> None:
+        payload = {"state": self.STATES[state], "name": STATUS_CONTEXT, "description": description[:255]}
+        if target_url:
+            payload["target_url"] = target_url
+        self.post(f"/projects/{quote(pr.project, safe='')}/statuses/{pr.head_sha}", payload)
+
+    def post_review(self, pr: PullRequestRef, body: str, blocked: bool) -> None:
+        self.post(f"/projects/{quote(pr.project, safe='')}/merge_requests/{pr.number}/notes", {"body": body})
+
+
+@dataclass
+class ForgeCall:
+    method: str  # "set_status" or "post_review"
+    pr: PullRequestRef
+    args: dict
+
+
+@dataclass
+class FakeForgeClient(ForgeClient):
+    """Records calls instead of making them, for local runs without a forge."""
+
+    calls: List[ForgeCall] = field(default_factory=list)
+
+    def set_status(self, pr: PullRequestRef, state: str, description: str, target_url: Optional[str] = None) -> None:
+        self.calls.append(ForgeCall("set_status", pr, {"state": state, "description": description, "target_url": target_url}))
+
+    def post_review(self, pr: PullRequestRef, body: str, blocked: bool) -> None:
+        self.calls.append(ForgeCall("post_review", pr, {"body": body, "blocked": blocked}))
+
+
+_fake_client = FakeForgeClient()
+
+
+def create_forge_client(provider: str) -> ForgeClient:
+    """DEPRECHECK_FORGE=fake swaps in the recording client for every provider."""
+    if os.environ.get("DEPRECHECK_FORGE") == "fake":
+        return _fake_client
+    if provider == "github":
+        return GitHubClient(os.environ.get("GITHUB_API_URL", "https://api.github.com"), os.environ.get("GITHUB_TOKEN"))
+    if provider == "gitlab":
+        return GitLabClient(os.environ.get("GITLAB_API_URL", "https://gitlab.com/api/v4"), os.environ.get("GITLAB_TOKEN"))
+    raise ForgeError(f"Unsupported provider: {provider}")
+
+
+def fake_forge_calls() -> List[ForgeCall]:
+    return list(_fake_client.calls)
@@ -0,0 +1,83 @@
+"""Stores every analysis run per project so the app can chart trends.
+
+Each run is one JSON file under HISTORY_DIR/<project hash>/, next to a
+project.json that records which project the directory belongs to.
+"""
+
+import hashlib
+import json
+import os
+import re
+from dataclasses import dataclass
+from typing import Any, Dict, List
+
+HISTORY_DIR = os.environ.get("DEPRECHECK_HISTORY", os.path.join(os.path.expanduser("~"), ".deprecheck", "history"))
+
+MAX_RUNS = 500  # Per project; the oldest runs are pruned first
+RUN_ID_PATTERN = re.compile(r"^[A-Za-z0-9_-]{1,80}$")
+
+
+@dataclass
+class HistoryRun:
+    id: str
+    project: str
+    timestamp: str
+    report: Dict[str, Any]
+
+
+class HistoryError(Exception):
+    """A history request that could not be served; carries the HTTP status."""
+
+    def __init__(self, message: str, status_code: int = 400):
+        super().__init__(message)
+        self.status_code = status_code
+
+
+def project_dir(project: str) -> str:
+    return os.path.join(HISTORY_DIR, hashlib.sha1(project.encode("utf-8")).hexdigest()[:16])
+
+
+def read_run(path: str) -> HistoryRun:
+    with open(path, encoding="utf-8") as handle:
+        data = json.load(handle)
+    return HistoryRun(id=data["id"], project=data["project"], timestamp=data["timestamp"], report=data["report"])
+
+
+def list_runs(project: str) -> List[HistoryRun]:
+    directory = project_dir(project)
+    if not os.path.isdir(directory):
+        return []
+    runs = []
+    for name in os.listdir(directory):
+        if not name.endswith(".json") or name == "project.json":
+            continue
+        try:
+            runs.append(read_run(os.path.join(directory, name)))
+        except (OSError, ValueError, KeyError):
+            continue  # A half-written or hand-edited file shouldn't hide the rest
+    return sorted(runs, key=lambda run: run.timestamp)
+
+
+def save_run(project: str, run_id: str, report: Dict[str, Any]) -> HistoryRun:
+    if not RUN_ID_PATTERN.match(run_id):
+        raise HistoryError(f"Invalid run id: {run_id!r}", 422)
+    timestamp = report.get("timestamp")
+    if not isinstance(timestamp, str) or not isinstance(report.get("issues"), list):
+        raise HistoryError("The report needs a timestamp and an issues list.", 422)
+
+    directory = project_dir(project)
+    os.makedirs(directory, exist_ok=True)
+    with open(os.path.join(directory, "project.json"), "w", encoding="utf-8") as handle:
+        json.dump({"project": project}, handle)
+
+    run = HistoryRun(id=run_id, project=project, timestamp=timestamp, report=report)
+    # Write-then-rename so a crash never leaves a truncated run behind
+    target = os.path.join(directory, f"{run_id}.json")
+    with open(target + ".tmp", "w", encoding="utf-8") as handle:
+        json.dump({"id": run.id, "project": run.project, "timestamp": run.timestamp, "report": run.report}, handle)
+    os.replace(target + ".tmp", target)
+
+    runs = list_runs(project)
+    for old in runs[: max(0, len(runs) - MAX_RUNS)]:
+        os.remove(os.path.join(directory, f"{old.id}.json"))
+    return run
@@ -1 +1,254 @@
-~�&}�-j����+�
\ No newline at end of file
+"""DepreCheck backend: serves repository contents to the web app for analysis.
+
+Run with: uvicorn main:app --reload --port 8000
+"""
+
+import os
+from typing import Any, Dict, List, Optional
+
+from fastapi import BackgroundTasks, FastAPI, HTTPException, Request
+from fastapi.middleware.cors import CORSMiddleware
+from pydantic import BaseModel
+
+from committer import CommitError, FileChange, commit_fixes
+from forge import ForgeError, create_forge_client, fake_forge_calls
+from history import HistoryError, HistoryRun, list_runs, save_run
+from pr_diff import DEFAULT_CONTEXT_LINES, DiffError, diff_refs
+from scanner import ScanError, ScanResult, scan_local, scan_repo
+from webhooks import WebhookError, handle_pull_request, parse_event
+
+VERSION = "0.5.0"
+
+app = FastAPI(title="DepreCheck Backend", version=VERSION)
+
+# The Vite dev server by default; set DEPRECHECK_CORS_ORIGINS (comma-separated) when the app is served elsewhere
+CORS_ORIGINS = [
+    origin.strip()
+    for origin in os.environ.get("DEPRECHECK_CORS_ORIGINS", "http://localhost:3000,http://127.0.0.1:3000").split(",")
+    if origin.strip()
+]
+
+app.add_middleware(
+    CORSMiddleware,
+    allow_origins=CORS_ORIGINS,
+    allow_methods=["GET", "POST"],
+    allow_headers=["Content-Type"],
+)
+
+
+class ScanRepoRequest(BaseModel):
+    url: str  # Remote URL, local path or bare repository
+    ref: Optional[str] = None  # Branch or tag; defaults to the remote HEAD
+    include: Optional[List[str]] = None  # Glob patterns, e.g. ["src/**/*.ts"]
+
+
+class ScanLocalRequest(BaseModel):
+    path: str
+    include: Optional[List[str]] = None
+
+
+class FileEntry(BaseModel):
+    path: str
+    content: str
+    size: int
+
+
+class SkippedEntry(BaseModel):
+    path: str
+    reason: str
+
+
+class ScanResponse(BaseModel):
+    success: bool
+    message: str
+    root: str
+    files: List[FileEntry]
+    skipped: List[SkippedEntry]
+    truncated: bool
+
+
+class CommitFile(BaseModel):
+    path: str
+    content: str
+    baseContent: Optional[str] = None  # Content the fix was made against, for conflict detection
+
+
+class CommitRequest(BaseModel):
+    repo: str  # Same URL or path that was scanned
+    branch: str = "deprecheck-fixes"
+    baseRef: Optional[str] = None
+    message: str
+    files: List[CommitFile]
+
+
+class DiffStatFile(BaseModel):
+    path: str
+    insertions: int
+    deletions: int
+
+
+class CommitResponse(BaseModel):
+    success: bool
+    branch: str
+    sha: str
+    baseSha: str
+    workingCopy: str
+    files: List[DiffStatFile]
+    diffStat: str
+
+
+class DiffRequest(BaseModel):
+    repo: str  # Same URL or path accepted by /scan-repo
+    base: str  # Target branch of the PR
+    head: str = "HEAD"  # PR branch
+    context: int = DEFAULT_CONTEXT_LINES  # Unchanged lines around each hunk
+
+
+class DiffResponse(BaseModel):
+    success: bool
+    root: str
+    baseSha: str
+    headSha: str
+    diff: str  # Unified diff of base...head
+
+
+class HistoryRunModel(BaseModel):
+    id: str
+    projectId: str
+    timestamp: str
+    report: Dict[str, Any]  # AnalysisReport, stored as sent
+
+
+class SaveRunRequest(BaseModel):
+    project: str  # Workspace id: the scanned URL or path
+    id: str
+    report: Dict[str, Any]
+
+
+class HistoryResponse(BaseModel):
+    project: str
+    runs: List[HistoryRunModel]
+
+
+class WebhookResponse(BaseModel):
+    accepted: bool
+    message: str
+
+
+class ForgeCallModel(BaseModel):
+    method: str
+    provider: str
+    project: str
+    number: int
+    headSha: str
+    args: Dict[str, Any]
+
+
+def to_run_model(run: HistoryRun) -> HistoryRunModel:
+    return HistoryRunModel(id=run.id, projectId=run.project, timestamp=run.timestamp, report=run.report)
+
+
+def to_response(result: ScanResult) -> ScanResponse:
+    message = f"Scanned {len(result.files)} file(s) from {result.root}"
+    if result.skipped:
+        message += f", skipped {len(result.skipped)}"
+    if result.truncated:
+        message += " (file limit reached)"
+    return ScanResponse(
+        success=True,
+        message=message + ".",
+        root=result.root,
+        files=[FileEntry(path=f.path, content=f.content, size=f.size) for f in result.files],
+        skipped=[SkippedEntry(path=s.path, reason=s.reason) for s in result.skipped],
+        truncated=result.truncated,
+    )
+
+
+@app.get("/health")
+def health() -> dict:
+    return {"status": "ok", "version": VERSION}
+
+
+@app.post("/scan-repo", response_model=ScanResponse)
+def scan_repo_endpoint(request: ScanRepoRequest) -> ScanResponse:
+    try:
+        return to_response(scan_repo(request.url, request.ref, request.include))
+    except ScanError as error:
+        raise HTTPException(status_code=error.status_code, detail=str(error))
+
+
+@app.post("/scan-local", response_model=ScanResponse)
+def scan_local_endpoint(request: ScanLocalRequest) -> ScanResponse:
+    try:
+        return to_response(scan_local(request.path, request.include))
+    except ScanError as error:
+        raise HTTPException(status_code=error.status_code, detail=str(error))
+
+
+@app.post("/commit", response_model=CommitResponse)
+def commit_endpoint(request: CommitRequest) -> CommitResponse:
+    changes = [FileChange(path=f.path, content=f.content, base_content=f.baseContent) for f in request.files]
+    try:
+        result = commit_fixes(request.repo, request.branch, request.message, changes, request.baseRef)
+    except CommitError as error:
+        detail = {"message": str(error), "conflicts": [{"path": c.path, "reason": c.reason} for c in error.conflicts]}
+        raise HTTPException(status_code=error.status_code, detail=detail)
+    return CommitResponse(
+        success=True,
+        branch=result.branch,
+        sha=result.sha,
+        baseSha=result.base_sha,
+        workingCopy=result.working_copy,
+        files=[DiffStatFile(path=f.path, insertions=f.insertions, deletions=f.deletions) for f in result.files],
+        diffStat=result.diff_stat,
+    )
+
+
+@app.get("/history", response_model=HistoryResponse)
+def history_endpoint(project: str) -> HistoryResponse:
+    return HistoryResponse(project=project, runs=[to_run_model(run) for run in list_runs(project)])
+
+
+@app.post("/history", response_model=HistoryRunModel)
+def save_history_endpoint(request: SaveRunRequest) -> HistoryRunModel:
+    try:
+        return to_run_model(save_run(request.project, request.id, request.report))
+    except HistoryError as error:
+        raise HTTPException(status_code=error.status_code, detail=str(error))
+
+
+@app.post("/scan-diff", response_model=DiffResponse)
+def scan_diff_endpoint(request: DiffRequest) -> DiffResponse:
+    try:
+        result = diff_refs(request.repo, request.base, request.head, request.context)
+    except DiffError as error:
+        raise HTTPException(status_code=error.status_code, detail=str(error))
+    return DiffResponse(success=True, root=result.root, baseSha=result.base_sha, headSha=result.head_sha, diff=result.diff)
+
+
+@app.post("/webhooks/{provider}", response_model=WebhookResponse, status_code=202)
+async def webhook_endpoint(provider: str, request: Request, background_tasks: BackgroundTasks) -> WebhookResponse:
+    body = await request.body()
+    try:
+        event = parse_event(provider, request.headers, body)
+        if event is None:
+            return WebhookResponse(accepted=False, message="Event ignored.")
+        client = create_forge_client(provider)
+    except WebhookError as error:
+        raise HTTPException(status_code=error.status_code, detail=str(error))
+    except ForgeError as error:
+        raise HTTPException(status_code=500, detail=str(error))
+    # Forges time out deliveries after a few seconds; the verdict is posted when the scan ends
+    background_tasks.add_task(handle_pull_request, event, client)
+    return WebhookResponse(accepted=True, message=f"Scanning {event.pr.project}#{event.pr.number} at {event.pr.head_sha[:7]}.")
+
+
+@app.get("/webhooks/fake-forge", response_model=List[ForgeCallModel])
+def fake_forge_endpoint() -> List[ForgeCallModel]:
+    """What the webhook would have posted, when running with DEPRECHECK_FORGE=fake."""
+    if os.environ.get("DEPRECHECK_FORGE") != "fake":
+        raise HTTPException(status_code=404, detail="The fake forge is not enabled.")
+    return [
+        ForgeCallModel(method=c.method, provider=c.pr.provider, project=c.pr.project, number=c.pr.number, headSha=c.pr.head_sha, args=c.args)
+        for c in fake_forge_calls()
+    ]
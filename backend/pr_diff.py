@@ -0,0 +1,60 @@
+"""Produces the unified diff between two refs for diff-aware PR scans.
+
+The web app parses the diff itself, so uploaded .patch files and ref
+comparisons go through the same code path.
+"""
+
+import subprocess
+from dataclasses import dataclass
+
+from committer import CommitError, resolve_working_copy
+
+DEFAULT_CONTEXT_LINES = 10
+MAX_DIFF_BYTES = 5 * 1024 * 1024
+
+
+@dataclass
+class DiffResult:
+    root: str
+    base_sha: str
+    head_sha: str
+    diff: str
+
+
+class DiffError(Exception):
+    """A diff request that cannot be served; carries the HTTP status to report."""
+
+    def __init__(self, message: str, status_code: int = 400):
+        super().__init__(message)
+        self.status_code = status_code
+
+
+def git(repo_dir: str, *args: str) -> subprocess.CompletedProcess:
+    return subprocess.run(["git", "-C", repo_dir, *args], capture_output=True, text=True)
+
+
+def resolve_ref(repo_dir: str, ref: str) -> str:
+    """Accepts branch names, tags and SHAs; remote clones only have origin/<branch>."""
+    for candidate in (ref, f"origin/{ref}"):
+        result = git(repo_dir, "rev-parse", "--verify", "--quiet", f"{candidate}^{{commit}}")
+        if result.returncode == 0:
+            return result.stdout.strip()
+    raise DiffError(f"Unknown ref: {ref}", 404)
+
+
+def diff_refs(repo: str, base: str, head: str = "HEAD", context: int = DEFAULT_CONTEXT_LINES) -> DiffResult:
+    try:
+        repo_dir = resolve_working_copy(repo)
+    except CommitError as error:
+        raise DiffError(str(error), error.status_code) from error
+
+    base_sha = resolve_ref(repo_dir, base)
+    head_sha = resolve_ref(repo_dir, head)
+
+    # Like a pull request: what head adds on top of its merge base with base
+    result = git(repo_dir, "diff", "--no-color", "--no-ext-diff", "-M", f"--unified={max(0, context)}", f"{base_sha}...{head_sha}")
+    if result.returncode != 0:
+        raise DiffError(f"git diff failed: {result.stderr.strip()}", 500)
+    if len(result.stdout.encode("utf-8")) > MAX_DIFF_BYTES:
+        raise DiffError("The diff is too large to analyze; compare closer refs or upload a smaller patch.", 413)
+    return DiffResult(root=repo_dir, base_sha=base_sha, head_sha=head_sha, diff=result.stdout)
@@ -0,0 +1,278 @@
+"""Repository walking for the scan endpoints.
+
+Collects the text files of a repository or folder, honoring .gitignore and
+skipping binaries, vendored directories and generated files.
+"""
+
+import fnmatch
+import os
+import re
+import subprocess
+import tempfile
+from dataclasses import dataclass, field
+from typing import Iterable, List, Optional, Tuple
+from urllib.parse import unquote, urlparse
+
+from git import Repo
+
+# Directories that hold third-party or generated code
+VENDORED_DIRS = {
+    ".git", "node_modules", "bower_components", "jspm_packages", "vendor", "third_party",
+    "dist", "build", "out", "target", "coverage", ".next", ".nuxt", ".svelte-kit",
+    "__pycache__", ".venv", "venv", ".tox", ".mypy_cache", ".pytest_cache", ".idea", ".vscode",
+}
+
+# Lockfiles and minified bundles are text, but never worth analyzing
+GENERATED_FILES = {"package-lock.json", "yarn.lock", "pnpm-lock.yaml", "poetry.lock", "Cargo.lock", "composer.lock"}
+GENERATED_SUFFIXES = (".min.js", ".min.css", ".map", ".snap")
+
+MAX_FILE_BYTES = 512 * 1024
+MAX_FILES = 2000
+BINARY_SNIFF_BYTES = 8192
+
+
+@dataclass
+class ScannedFile:
+    path: str  # Relative to the repository root, always with forward slashes
+    content: str
+    size: int
+
+
+@dataclass
+class SkippedFile:
+    path: str
+    reason: str
+
+
+@dataclass
+class ScanResult:
+    root: str
+    files: List[ScannedFile] = field(default_factory=list)
+    skipped: List[SkippedFile] = field(default_factory=list)
+    truncated: bool = False
+
+
+class ScanError(Exception):
+    """A scan request that cannot be served; carries the HTTP status to report."""
+
+    def __init__(self, message: str, status_code: int = 400):
+        super().__init__(message)
+        self.status_code = status_code
+
+
+# --- .gitignore matching (used when the folder is not a git work tree) ---
+
+
+class IgnoreRule:
+    def __init__(self, pattern: str, base: str):
+        self.negated = pattern.startswith("!")
+        if self.negated:
+            pattern = pattern[1:]
+        self.dir_only = pattern.endswith("/")
+        pattern = pattern.rstrip("/")
+        # A slash anywhere but the end anchors the pattern to the .gitignore's directory
+        self.anchored = "/" in pattern
+        pattern = pattern.lstrip("/")
+        self.base = base
+        self.regex = re.compile(self._translate(pattern))
+
+    @staticmethod
+    def _translate(pattern: str) -> str:
+        parts = []
+        i = 0
+        while i < len(pattern):
+            if pattern.startswith("**/", i):
+                parts.append("(?:.*/)?")
+                i += 3
+            elif pattern.startswith("/**", i) and i + 3 == len(pattern):
+                parts.append("/.*")
+                i += 3
+            elif pattern[i] == "*":
+                parts.append("[^/]*")
+                i += 1
+            elif pattern[i] == "?":
+                parts.append("[^/]")
+                i += 1
+            else:
+                parts.append(re.escape(pattern[i]))
+                i += 1
+        return "^" + "".join(parts) + "$"
+
+    def matches(self, rel_path: str, is_dir: bool) -> bool:
+        if self.dir_only and not is_dir:
+            return False
+        if self.base:
+            if not rel_path.startswith(self.base + "/"):
+                return False
+            rel_path = rel_path[len(self.base) + 1:]
+        if self.anchored:
+            return bool(self.regex.match(rel_path))
+        return bool(self.regex.match(rel_path.rsplit("/", 1)[-1]))
+
+
+def read_ignore_file(path: str, base: str) -> List[IgnoreRule]:
+    try:
+        with open(path, encoding="utf-8", errors="ignore") as handle:
+            lines = handle.read().splitlines()
+    except OSError:
+        return []
+    return [IgnoreRule(line.strip(), base) for line in lines if line.strip() and not line.startswith("#")]
+
+
+def is_ignored(rules: List[IgnoreRule], rel_path: str, is_dir: bool) -> bool:
+    # Later rules win, so a negation can re-include a file
+    ignored = False
+    for rule in rules:
+        if rule.matches(rel_path, is_dir):
+            ignored = not rule.negated
+    return ignored
+
+
+def walk_with_gitignore(root: str) -> Iterable[str]:
+    """Yields relative file paths under root, applying nested .gitignore files."""
+    stack: List[Tuple[str, List[IgnoreRule]]] = [("", read_ignore_file(os.path.join(root, ".gitignore"), ""))]
+    while stack:
+        rel_dir, rules = stack.pop()
+        abs_dir = os.path.join(root, rel_dir)
+        try:
+            entries = sorted(os.scandir(abs_dir), key=lambda e: e.name)
+        except OSError:
+            continue
+        for entry in entries:
+            rel_path = f"{rel_dir}/{entry.name}" if rel_dir else entry.name
+            if entry.is_dir(follow_symlinks=False):
+                if entry.name in VENDORED_DIRS or is_ignored(rules, rel_path, True):
+                    continue
+                nested = read_ignore_file(os.path.join(entry.path, ".gitignore"), rel_path)
+                stack.append((rel_path, rules + nested))
+            elif entry.is_file(follow_symlinks=False) and not is_ignored(rules, rel_path, False):
+                yield rel_path
+
+
+def list_git_files(root: str) -> List[str]:
+    """Tracked plus untracked-but-not-ignored files, exactly as git sees them."""
+    output = subprocess.run(
+        ["git", "-C", root, "ls-files", "--cached", "--others", "--exclude-standard", "-z"],
+        check=True, capture_output=True,
+    ).stdout.decode("utf-8", errors="replace")
+    return sorted(path for path in output.split("\0") if path)
+
+
+def is_git_work_tree(root: str) -> bool:
+    result = subprocess.run(["git", "-C", root, "rev-parse", "--is-inside-work-tree"], capture_output=True)
+    return result.returncode == 0 and result.stdout.strip() == b"true"
+
+
+# --- File filtering ---
+
+
+def skip_reason(rel_path: str) -> Optional[str]:
+    parts = rel_path.split("/")
+    if any(part in VENDORED_DIRS for part in parts[:-1]):
+        return "vendored"
+    name = parts[-1]
+    if name in GENERATED_FILES or name.endswith(GENERATED_SUFFIXES):
+        return "generated"
+    return None
+
+
+def read_text_file(abs_path: str) -> Tuple[Optional[str], Optional[str]]:
+    """Returns (content, None) for text files or (None, reason) when skipped."""
+    try:
+        size = os.path.getsize(abs_path)
+        if size > MAX_FILE_BYTES:
+            return None, "too large"
+        with open(abs_path, "rb") as handle:
+            data = handle.read()
+    except OSError:
+        return None, "unreadable"
+    if b"\0" in data[:BINARY_SNIFF_BYTES]:
+        return None, "binary"
+    try:
+        return data.decode("utf-8"), None
+    except UnicodeDecodeError:
+        return None, "binary"
+
+
+def collect_files(root: str, include: Optional[List[str]] = None) -> ScanResult:
+    root = os.path.abspath(root)
+    result = ScanResult(root=root)
+    paths = list_git_files(root) if is_git_work_tree(root) else sorted(walk_with_gitignore(root))
+
+    for rel_path in paths:
+        if include and not any(fnmatch.fnmatch(rel_path, pattern) for pattern in include):
+            continue
+        reason = skip_reason(rel_path)
+        if reason is None:
+            abs_path = os.path.join(root, rel_path)
+            if not os.path.isfile(abs_path):
+                continue  # Deleted in the work tree but still in the index
+            content, reason = read_text_file(abs_path)
+        if reason is not None:
+            result.skipped.append(SkippedFile(path=rel_path, reason=reason))
+            continue
+        if len(result.files) >= MAX_FILES:
+            result.truncated = True
+            break
+        result.files.append(ScannedFile(path=rel_path, content=content, size=len(content.encode("utf-8"))))
+
+    return result
+
+
+# --- Entry points ---
+
+
+def scan_roots() -> List[str]:
+    """Folders the backend may read: DEPRECHECK_SCAN_ROOTS, separated like PATH."""
+    value = os.environ.get("DEPRECHECK_SCAN_ROOTS", "")
+    return [os.path.realpath(os.path.expanduser(root)) for root in value.split(os.pathsep) if root.strip()]
+
+
+def is_within(path: str, root: str) -> bool:
+    return os.path.commonpath([path, root]) == root
+
+
+def local_source(url: str) -> Optional[str]:
+    """The path a repository URL reads from this machine (file:// URLs and existing paths), or None for remotes."""
+    if url.lower().startswith("file://"):
+        return unquote(urlparse(url).path)
+    path = os.path.expanduser(url)
+    return path if os.path.exists(path) else None
+
+
+def require_scan_root(path: str) -> str:
+    """Resolves a local path and checks it lies under DEPRECHECK_SCAN_ROOTS; every local read goes through here."""
+    roots = scan_roots()
+    if not roots:
+        raise ScanError("Local folders and repositories are disabled. Set DEPRECHECK_SCAN_ROOTS to the folders the backend may read.", 403)
+    # Symlinks and ".." are resolved first, so neither can step outside a root
+    resolved = os.path.realpath(os.path.expanduser(path))
+    if not any(is_within(resolved, root) for root in roots):
+        raise ScanError(f"{path} is outside the folders this backend may read (DEPRECHECK_SCAN_ROOTS).", 403)
+    return resolved
+
+
+def scan_local(path: str, include: Optional[List[str]] = None) -> ScanResult:
+    resolved = require_scan_root(path)
+    if not os.path.isdir(resolved):
+        raise ScanError(f"Path not found or not a directory: {path}", 404)
+    return collect_files(resolved, include)
+
+
+def scan_repo(url: str, ref: Optional[str] = None, include: Optional[List[str]] = None) -> ScanResult:
+    """Clones url (remote, local path or bare repository) into a temp dir and scans it."""
+    local = local_source(url)
+    # --depth is ignored for plain local paths, so those are cloned through file://
+    source = f"file://{require_scan_root(local)}" if local is not None else url
+    with tempfile.TemporaryDirectory(prefix="deprecheck-") as workdir:
+        options = {"depth": 1, "single_branch": True}
+        if ref:
+            options["branch"] = ref
+        try:
+            Repo.clone_from(source, workdir, **options)
+        except Exception as error:  # GitCommandError carries git's stderr
+            detail = getattr(error, "stderr", "") or str(error)
+            raise ScanError(f"Could not clone {url}: {detail.strip()}", 422) from error
+        result = collect_files(workdir, include)
+        result.root = url
+        return result
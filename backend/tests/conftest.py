@@ -0,0 +1,66 @@
+import os
+import subprocess
+import sys
+from typing import Dict
+
+import pytest
+
+sys.path.insert(0, os.path.dirname(os.path.dirname(os.path.abspath(__file__))))
+
+GIT_IDENTITY = ["-c", "user.name=Test", "-c", "user.email=test@example.com", "-c", "init.defaultBranch=main"]
+
+
+def git(cwd: str, *args: str) -> str:
+    return subprocess.run(["git", *GIT_IDENTITY, "-C", cwd, *args], check=True, capture_output=True, text=True).stdout
+
+
+def write_files(root: str, files: Dict[str, bytes]) -> None:
+    for path, content in files.items():
+        target = os.path.join(root, path)
+        os.makedirs(os.path.dirname(target), exist_ok=True)
+        with open(target, "wb") as handle:
+            handle.write(content)
+
+
+SAMPLE_FILES = {
+    "src/app.ts": b"import { forwardRef } from 'react';\nexport const A = forwardRef(() => null);\n",
+    "README.md": b"# Sample\n",
+    ".gitignore": b"*.log\n",
+    "node_modules/react/index.js": b"module.exports = {};\n",
+    "package-lock.json": b"{}\n",
+    "logo.png": b"\x89PNG\r\n\x1a\n\0\0\0",
+}
+
+
+@pytest.fixture(autouse=True)
+def scan_roots(monkeypatch, tmp_path) -> str:
+    """Lets the backend read the repositories tests create; tests of the roots themselves override it."""
+    monkeypatch.setenv("DEPRECHECK_SCAN_ROOTS", str(tmp_path))
+    return str(tmp_path)
+
+
+@pytest.fixture
+def work_repo(tmp_path) -> str:
+    """A work tree on `main` with one commit of SAMPLE_FILES."""
+    path = str(tmp_path / "work")
+    os.makedirs(path)
+    git(path, "init", "--quiet")
+    write_files(path, SAMPLE_FILES)
+    git(path, "add", "--force", ".")
+    git(path, "commit", "--quiet", "-m", "Initial commit")
+    return path
+
+
+@pytest.fixture
+def bare_repo(tmp_path, work_repo) -> str:
+    """A `git init --bare` repository with `main` and a `feature` branch pushed from work_repo."""
+    path = str(tmp_path / "origin.git")
+    subprocess.run(["git", *GIT_IDENTITY, "init", "--quiet", "--bare", path], check=True)
+    git(work_repo, "checkout", "--quiet", "-b", "feature")
+    write_files(work_repo, {"src/feature.ts": b"var legacy = 1;\n"})
+    git(work_repo, "add", ".")
+    git(work_repo, "commit", "--quiet", "-m", "Add feature")
+    git(work_repo, "checkout", "--quiet", "main")
+    git(work_repo, "push", "--quiet", path, "main", "feature")
+    git(path, "symbolic-ref", "HEAD", "refs/heads/main")
+    return path
@@ -0,0 +1,119 @@
+import os
+
+import pytest
+
+from committer import CommitError, FileChange, branch_exists, commit_fixes
+from conftest import git
+
+APP = "src/app.ts"
+ORIGINAL = "import { forwardRef } from 'react';\nexport const A = forwardRef(() => null);\n"
+FIXED = "export const A = (props: { ref?: unknown }) => null;\n"
+
+
+def read(repo: str, ref: str, path: str) -> str:
+    return git(repo, "show", f"{ref}:{path}")
+
+
+def test_commits_to_a_new_branch_and_leaves_the_checkout_alone(work_repo):
+    result = commit_fixes(work_repo, "fixes", "Fix forwardRef", [FileChange(APP, FIXED, ORIGINAL)])
+
+    assert result.branch == "fixes"
+    assert result.working_copy == work_repo
+    assert result.base_sha == git(work_repo, "rev-parse", "main").strip()
+    assert read(work_repo, "fixes", APP) == FIXED
+    assert [(f.path, f.insertions, f.deletions) for f in result.files] == [(APP, 1, 2)]
+    # The user's branch, files and worktree list are as they were
+    assert git(work_repo, "rev-parse", "--abbrev-ref", "HEAD").strip() == "main"
+    with open(os.path.join(work_repo, APP)) as handle:
+        assert handle.read() == ORIGINAL
+    assert len(git(work_repo, "worktree", "list").splitlines()) == 1
+
+
+def test_stacks_commits_on_an_existing_branch(work_repo):
+    first = commit_fixes(work_repo, "fixes", "First", [FileChange(APP, FIXED, ORIGINAL)])
+    second = commit_fixes(work_repo, "fixes", "Second", [FileChange("src/new.ts", "export {};\n")])
+
+    assert second.base_sha == first.sha
+    assert git(work_repo, "rev-list", "--count", "main..fixes").strip() == "2"
+
+
+def test_commits_into_a_bare_repository(bare_repo):
+    result = commit_fixes(bare_repo, "fixes", "Fix", [FileChange(APP, FIXED, ORIGINAL)], base_ref="feature")
+
+    assert result.base_sha == git(bare_repo, "rev-parse", "feature").strip()
+    assert read(bare_repo, "fixes", APP) == FIXED
+
+
+def test_reports_conflicts_and_removes_the_new_branch(work_repo):
+    with pytest.raises(CommitError) as error:
+        commit_fixes(work_repo, "fixes", "Fix", [FileChange(APP, FIXED, "something else\n")])
+
+    assert error.value.status_code == 409
+    assert [c.path for c in error.value.conflicts] == [APP]
+    assert not branch_exists(work_repo, "fixes")
+
+
+def test_removes_the_new_branch_when_nothing_changed(work_repo):
+    with pytest.raises(CommitError) as error:
+        commit_fixes(work_repo, "fixes", "Fix", [FileChange(APP, ORIGINAL, ORIGINAL)])
+
+    assert error.value.status_code == 422
+    assert not branch_exists(work_repo, "fixes")
+    assert len(git(work_repo, "worktree", "list").splitlines()) == 1
+
+
+def test_keeps_an_existing_branch_when_nothing_changed(work_repo):
+    commit_fixes(work_repo, "fixes", "Fix", [FileChange(APP, FIXED, ORIGINAL)])
+    with pytest.raises(CommitError):
+        commit_fixes(work_repo, "fixes", "Again", [FileChange(APP, FIXED, FIXED)])
+
+    assert read(work_repo, "fixes", APP) == FIXED
+
+
+def test_explains_a_branch_checked_out_in_the_users_worktree(work_repo):
+    with pytest.raises(CommitError) as error:
+        commit_fixes(work_repo, "main", "Fix", [FileChange(APP, FIXED, ORIGINAL)])
+
+    assert error.value.status_code == 409
+    assert "checked out in" in str(error.value)
+    assert work_repo in str(error.value)
+
+
+def test_accepts_names_that_only_start_with_dots(work_repo):
+    result = commit_fixes(work_repo, "fixes", "Fix", [FileChange("..foo/x.ts", "export {};\n")])
+    assert [f.path for f in result.files] == ["..foo/x.ts"]
+
+
+@pytest.mark.parametrize("path", ["../outside.ts", "src/../../outside.ts", "/tmp/outside.ts", ".", "src/.."])
+def test_refuses_paths_outside_the_repository(work_repo, path):
+    with pytest.raises(CommitError) as error:
+        commit_fixes(work_repo, "fixes", "Fix", [FileChange(path, "x\n")])
+
+    assert "outside the repository" in str(error.value)
+    assert not branch_exists(work_repo, "fixes")
+
+
+def test_refuses_to_write_through_a_symlink_out_of_the_repository(tmp_path, work_repo):
+    os.symlink(str(tmp_path), os.path.join(work_repo, "escape"))
+    git(work_repo, "add", "escape")
+    git(work_repo, "commit", "--quiet", "-m", "Add link")
+
+    with pytest.raises(CommitError) as error:
+        commit_fixes(work_repo, "fixes", "Fix", [FileChange("escape/outside.ts", "x\n")])
+
+    assert "outside the repository" in str(error.value)
+    assert not (tmp_path / "outside.ts").exists()
+    assert not branch_exists(work_repo, "fixes")
+
+
+def test_refuses_local_repositories_outside_the_roots(monkeypatch, tmp_path, work_repo, bare_repo):
+    root = tmp_path / "allowed"
+    root.mkdir()
+    monkeypatch.setenv("DEPRECHECK_SCAN_ROOTS", str(root))
+
+    for repo in [work_repo, bare_repo, f"file://{bare_repo}"]:
+        with pytest.raises(CommitError) as error:
+            commit_fixes(repo, "fixes", "Fix", [FileChange(APP, FIXED, ORIGINAL)])
+        assert error.value.status_code == 403
+    assert not branch_exists(work_repo, "fixes")
+    assert not branch_exists(bare_repo, "fixes")
@@ -0,0 +1,51 @@
+import pytest
+from fastapi.testclient import TestClient
+
+from main import app
+
+client = TestClient(app)
+
+
+def test_health():
+    assert client.get("/health").json()["status"] == "ok"
+
+
+@pytest.mark.parametrize("origin", ["http://localhost:3000", "http://127.0.0.1:3000"])
+def test_cors_allows_the_dev_server(origin):
+    response = client.options("/scan-repo", headers={"Origin": origin, "Access-Control-Request-Method": "POST"})
+    assert response.status_code == 200
+    assert response.headers["access-control-allow-origin"] == origin
+
+
+def test_cors_rejects_other_origins():
+    response = client.options("/scan-local", headers={"Origin": "https://evil.example", "Access-Control-Request-Method": "POST"})
+    assert response.status_code == 400
+    assert "access-control-allow-origin" not in response.headers
+
+
+def test_scan_repo_endpoint(bare_repo):
+    response = client.post("/scan-repo", json={"url": bare_repo, "ref": "feature", "include": ["src/**"]})
+
+    assert response.status_code == 200
+    body = response.json()
+    assert body["root"] == bare_repo
+    assert [f["path"] for f in body["files"]] == ["src/app.ts", "src/feature.ts"]
+
+
+def test_scan_local_endpoint_enforces_the_roots(monkeypatch, tmp_path, work_repo):
+    monkeypatch.delenv("DEPRECHECK_SCAN_ROOTS", raising=False)
+    assert client.post("/scan-local", json={"path": work_repo}).status_code == 403
+
+    monkeypatch.setenv("DEPRECHECK_SCAN_ROOTS", str(tmp_path))
+    response = client.post("/scan-local", json={"path": work_repo})
+    assert response.status_code == 200
+    assert "src/app.ts" in [f["path"] for f in response.json()["files"]]
+
+
+def test_commit_and_diff_endpoints_enforce_the_roots(monkeypatch, tmp_path, work_repo):
+    monkeypatch.setenv("DEPRECHECK_SCAN_ROOTS", str(tmp_path / "elsewhere"))
+    commit = {"repo": work_repo, "message": "Fix", "files": [{"path": "src/app.ts", "content": "export {};\n"}]}
+
+    assert client.post("/commit", json=commit).status_code == 403
+    assert client.post("/scan-diff", json={"repo": work_repo, "base": "main"}).status_code == 403
+    assert client.post("/scan-repo", json={"url": work_repo}).status_code == 403
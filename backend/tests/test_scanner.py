@@ -0,0 +1,107 @@
+import os
+
+import pytest
+
+from scanner import ScanError, scan_local, scan_repo
+
+
+def paths(result):
+    return sorted(f.path for f in result.files)
+
+
+def skipped(result):
+    return {s.path: s.reason for s in result.skipped}
+
+
+def test_scan_repo_reads_the_default_branch_of_a_bare_repository(bare_repo):
+    result = scan_repo(bare_repo)
+
+    assert result.root == bare_repo
+    assert paths(result) == [".gitignore", "README.md", "src/app.ts"]
+    assert skipped(result) == {"node_modules/react/index.js": "vendored", "package-lock.json": "generated", "logo.png": "binary"}
+    app = next(f for f in result.files if f.path == "src/app.ts")
+    assert "forwardRef" in app.content
+    assert app.size == len(app.content.encode("utf-8"))
+
+
+def test_scan_repo_checks_out_the_requested_ref(bare_repo):
+    assert "src/feature.ts" in paths(scan_repo(bare_repo, "feature"))
+
+
+def test_scan_repo_applies_include_patterns(bare_repo):
+    assert paths(scan_repo(bare_repo, include=["src/*.ts"])) == ["src/app.ts"]
+
+
+def test_scan_repo_reports_unknown_refs(bare_repo):
+    with pytest.raises(ScanError) as error:
+        scan_repo(bare_repo, "no-such-branch")
+    assert error.value.status_code == 422
+
+
+@pytest.mark.parametrize("as_url", [False, True])
+def test_scan_repo_checks_local_repositories_against_the_roots(monkeypatch, tmp_path, bare_repo, as_url):
+    url = f"file://{bare_repo}" if as_url else bare_repo
+
+    monkeypatch.delenv("DEPRECHECK_SCAN_ROOTS", raising=False)
+    with pytest.raises(ScanError) as error:
+        scan_repo(url)
+    assert error.value.status_code == 403
+
+    root = tmp_path / "allowed"
+    root.mkdir()
+    monkeypatch.setenv("DEPRECHECK_SCAN_ROOTS", str(root))
+    for source in [url, str(root / ".." / "origin.git")]:
+        with pytest.raises(ScanError) as error:
+            scan_repo(source)
+        assert error.value.status_code == 403
+
+
+def test_scan_repo_reads_file_urls_under_a_root(bare_repo):
+    assert paths(scan_repo(f"file://{bare_repo}")) == [".gitignore", "README.md", "src/app.ts"]
+
+
+def test_scan_local_is_disabled_without_roots(monkeypatch, work_repo):
+    monkeypatch.delenv("DEPRECHECK_SCAN_ROOTS", raising=False)
+    with pytest.raises(ScanError) as error:
+        scan_local(work_repo)
+    assert error.value.status_code == 403
+
+
+def test_scan_local_reads_folders_under_a_root(monkeypatch, tmp_path, work_repo):
+    monkeypatch.setenv("DEPRECHECK_SCAN_ROOTS", str(tmp_path))
+    with open(os.path.join(work_repo, "debug.log"), "w") as handle:
+        handle.write("ignored\n")
+
+    result = scan_local(work_repo)
+
+    # A work tree is listed through git, so .gitignore applies
+    assert paths(result) == [".gitignore", "README.md", "src/app.ts"]
+
+
+def test_scan_local_refuses_paths_outside_the_roots(monkeypatch, tmp_path, work_repo):
+    root = tmp_path / "allowed"
+    root.mkdir()
+    monkeypatch.setenv("DEPRECHECK_SCAN_ROOTS", str(root))
+
+    for path in [work_repo, str(root / ".." / "work"), str(tmp_path / "allowed-sibling")]:
+        with pytest.raises(ScanError) as error:
+            scan_local(path)
+        assert error.value.status_code == 403
+
+
+def test_scan_local_resolves_symlinks_before_checking_roots(monkeypatch, tmp_path, work_repo):
+    root = tmp_path / "allowed"
+    root.mkdir()
+    os.symlink(work_repo, root / "link")
+    monkeypatch.setenv("DEPRECHECK_SCAN_ROOTS", str(root))
+
+    with pytest.raises(ScanError) as error:
+        scan_local(str(root / "link"))
+    assert error.value.status_code == 403
+
+
+def test_scan_local_reports_missing_folders(monkeypatch, tmp_path):
+    monkeypatch.setenv("DEPRECHECK_SCAN_ROOTS", str(tmp_path))
+    with pytest.raises(ScanError) as error:
+        scan_local(str(tmp_path / "missing"))
+    assert error.value.status_code == 404
@@ -0,0 +1,187 @@
+import hashlib
+import hmac
+import json
+
+import pytest
+from fastapi.testclient import TestClient
+
+import committer
+import forge
+import webhooks
+from conftest import git
+from main import app
+
+client = TestClient(app)
+
+SECRET = "s3cret"
+
+# Stands in for the built CLI: echoes the diff into the comment and exits with
+# the code passed as `--exit` through DEPRECHECK_WEBHOOK_ARGS
+STUB_CLI = """
+const fs = require('fs');
+const args = process.argv.slice(2);
+const arg = name => args[args.indexOf(name) + 1];
+const code = Number(arg('--exit'));
+if (code > 1) { console.error('Scan crashed'); process.exit(code); }
+fs.writeFileSync(arg('--comment'), 'DepreCheck verdict\\n' + fs.readFileSync(arg('--diff'), 'utf8'));
+if (code === 1) console.log('Blocked:\\n  - 1 new critical issue');
+process.exit(code);
+"""
+
+
+@pytest.fixture(autouse=True)
+def webhook_env(monkeypatch, tmp_path):
+    cli = tmp_path / "cli.js"
+    cli.write_text(STUB_CLI)
+    monkeypatch.setattr(webhooks, "CLI_PATH", str(cli))
+    monkeypatch.setattr(committer, "WORKSPACES_DIR", str(tmp_path / "workspaces"))
+    monkeypatch.setattr(forge, "_fake_client", forge.FakeForgeClient())
+    monkeypatch.setenv("DEPRECHECK_FORGE", "fake")
+    monkeypatch.setenv("DEPRECHECK_WEBHOOK_SECRET", SECRET)
+    monkeypatch.setenv("DEPRECHECK_WEBHOOK_ARGS", "--exit 1")
+
+
+@pytest.fixture
+def pr_repo(bare_repo) -> dict:
+    """The bare repository publishing `feature` as GitHub PR #1 and GitLab MR !7."""
+    head_sha = git(bare_repo, "rev-parse", "feature").strip()
+    git(bare_repo, "update-ref", "refs/pull/1/head", head_sha)
+    git(bare_repo, "update-ref", "refs/merge-requests/7/head", head_sha)
+    return {"url": f"file://{bare_repo}", "head_sha": head_sha}
+
+
+def github_payload(pr_repo: dict, action: str = "opened") -> dict:
+    return {
+        "action": action,
+        "pull_request": {
+            "number": 1,
+            "head": {"sha": pr_repo["head_sha"]},
+            "base": {"ref": "main", "repo": {"clone_url": pr_repo["url"]}},
+        },
+        "repository": {"full_name": "acme/app"},
+    }
+
+
+def gitlab_payload(pr_repo: dict, action: str = "open", **attributes) -> dict:
+    return {
+        "object_kind": "merge_request",
+        "project": {"id": 42, "git_http_url": pr_repo["url"]},
+        "object_attributes": {"iid": 7, "action": action, "target_branch": "main", "last_commit": {"id": pr_repo["head_sha"]}, **attributes},
+    }
+
+
+def post_github(body, event: str = "pull_request", secret: str = SECRET):
+    data = body if isinstance(body, bytes) else json.dumps(body).encode("utf-8")
+    signature = "sha256=" + hmac.new(secret.encode("utf-8"), data, hashlib.sha256).hexdigest()
+    return client.post("/webhooks/github", content=data, headers={"X-GitHub-Event": event, "X-Hub-Signature-256": signature})
+
+
+def post_gitlab(body, token: str = SECRET):
+    data = body if isinstance(body, bytes) else json.dumps(body).encode("utf-8")
+    return client.post("/webhooks/gitlab", content=data, headers={"X-Gitlab-Event": "Merge Request Hook", "X-Gitlab-Token": token})
+
+
+def forge_calls() -> list:
+    return client.get("/webhooks/fake-forge").json()
+
+
+def test_github_pr_is_scanned_and_blocked(pr_repo):
+    response = post_github(github_payload(pr_repo))
+
+    assert response.status_code == 202
+    assert response.json() == {"accepted": True, "message": f"Scanning acme/app#1 at {pr_repo['head_sha'][:7]}."}
+    calls = forge_calls()
+    assert [(c["method"], c["args"].get("state")) for c in calls] == [("set_status", "pending"), ("set_status", "failure"), ("post_review", None)]
+    assert all((c["provider"], c["project"], c["number"], c["headSha"]) == ("github", "acme/app", 1, pr_repo["head_sha"]) for c in calls)
+    assert calls[1]["args"]["description"] == "Blocked: 1 new critical issue"
+    review = calls[2]["args"]
+    assert review["blocked"] is True
+    # The scan saw only what the PR adds on top of main
+    assert "+var legacy = 1;" in review["body"]
+    assert "src/app.ts" not in review["body"]
+
+
+def test_gitlab_mr_is_scanned_and_passes(monkeypatch, pr_repo):
+    monkeypatch.setenv("DEPRECHECK_WEBHOOK_ARGS", "--exit 0")
+
+    assert post_gitlab(gitlab_payload(pr_repo)).status_code == 202
+
+    calls = forge_calls()
+    assert [(c["method"], c["args"].get("state")) for c in calls] == [("set_status", "pending"), ("set_status", "success"), ("post_review", None)]
+    assert all((c["provider"], c["project"], c["number"]) == ("gitlab", "42", 7) for c in calls)
+    assert calls[2]["args"]["blocked"] is False
+    assert "src/feature.ts" in calls[2]["args"]["body"]
+
+
+def test_a_failed_scan_is_reported_as_an_error(monkeypatch, pr_repo):
+    monkeypatch.setenv("DEPRECHECK_WEBHOOK_ARGS", "--exit 2")
+
+    post_github(github_payload(pr_repo))
+
+    calls = forge_calls()
+    assert [c["method"] for c in calls] == ["set_status", "set_status"]
+    assert calls[1]["args"] == {"state": "error", "description": "Scan crashed", "target_url": None}
+
+
+def test_an_unknown_head_is_reported_as_an_error(pr_repo):
+    post_github({**github_payload(pr_repo), "pull_request": {**github_payload(pr_repo)["pull_request"], "head": {"sha": "0" * 40}}})
+
+    calls = forge_calls()
+    assert calls[-1]["args"]["state"] == "error"
+    assert "Unknown ref" in calls[-1]["args"]["description"]
+
+
+def test_unsigned_deliveries_are_refused_without_a_secret(monkeypatch, pr_repo):
+    monkeypatch.delenv("DEPRECHECK_WEBHOOK_SECRET")
+    data = json.dumps(github_payload(pr_repo)).encode("utf-8")
+
+    response = client.post("/webhooks/github", content=data, headers={"X-GitHub-Event": "pull_request"})
+
+    assert response.status_code == 503
+    assert forge_calls() == []
+
+
+@pytest.mark.parametrize("post", [lambda body: post_github(body, secret="wrong"), lambda body: post_gitlab(body, token="wrong")])
+def test_bad_signatures_are_rejected(pr_repo, post):
+    response = post(github_payload(pr_repo))
+
+    assert response.status_code == 401
+    assert response.json()["detail"] == "Invalid webhook signature."
+    assert forge_calls() == []
+
+
+def test_missing_signature_is_rejected(pr_repo):
+    response = client.post("/webhooks/github", json=github_payload(pr_repo), headers={"X-GitHub-Event": "pull_request"})
+    assert response.status_code == 401
+
+
+@pytest.mark.parametrize("post", [
+    lambda pr_repo: post_github(github_payload(pr_repo, action="closed")),
+    lambda pr_repo: post_github({"zen": "Keep it logically awesome."}, event="ping"),
+    lambda pr_repo: post_gitlab(gitlab_payload(pr_repo, action="close")),
+    # A title edit: no new commits, so no oldrev
+    lambda pr_repo: post_gitlab(gitlab_payload(pr_repo, action="update")),
+])
+def test_ignored_events_are_not_scanned(pr_repo, post):
+    response = post(pr_repo)
+
+    assert response.status_code == 202
+    assert response.json() == {"accepted": False, "message": "Event ignored."}
+    assert forge_calls() == []
+
+
+@pytest.mark.parametrize("post", [
+    lambda: post_github(b"not json"),
+    lambda: post_github({"action": "opened", "pull_request": {"number": 1}}),
+    lambda: post_gitlab({"object_kind": "merge_request", "object_attributes": {"action": "open", "iid": "seven"}}),
+])
+def test_malformed_bodies_are_rejected(post):
+    response = post()
+
+    assert response.status_code == 422
+    assert response.json()["detail"].startswith("Malformed")
+    assert forge_calls() == []
+
+
+def test_unknown_providers_are_not_found():
+    assert client.post("/webhooks/bitbucket", content=b"{}").status_code == 404
@@ -0,0 +1,174 @@
+"""Pull request webhooks from GitHub and GitLab.
+
+An opened or updated PR is scanned with the CLI's diff mode (so the verdict is
+the same one the app and CI compute), then reported back as a commit status
+and a review comment through a `ForgeClient`.
+"""
+
+import hashlib
+import hmac
+import json
+import logging
+import os
+import shlex
+import subprocess
+import tempfile
+from dataclasses import dataclass
+from typing import Mapping, Optional
+
+from committer import CommitError, resolve_working_copy, run_git
+from forge import ERROR, FAILURE, PENDING, SUCCESS, ForgeClient, ForgeError, PullRequestRef
+from pr_diff import DiffError, diff_refs
+
+logger = logging.getLogger(__name__)
+
+CLI_PATH = os.environ.get("DEPRECHECK_CLI", os.path.join(os.path.dirname(__file__), "..", "dist", "cli", "deprecheck.js"))
+SCAN_TIMEOUT_SECONDS = 600
+
+# Actions that put new code in front of reviewers
+GITHUB_ACTIONS = {"opened", "synchronize", "reopened", "ready_for_review"}
+GITLAB_ACTIONS = {"open", "reopen", "update"}
+
+
+@dataclass
+class PullRequestEvent:
+    pr: PullRequestRef
+    action: str
+    clone_url: str  # The target repository, which also carries the PR head ref
+    base_ref: str
+    pr_ref: str  # Ref the forge publishes the PR head under
+
+
+@dataclass
+class ScanOutcome:
+    state: str  # SUCCESS, FAILURE or ERROR
+    description: str
+    comment: Optional[str] = None
+
+
+class WebhookError(Exception):
+    """A webhook delivery that is rejected; carries the HTTP status to report."""
+
+    def __init__(self, message: str, status_code: int = 400):
+        super().__init__(message)
+        self.status_code = status_code
+
+
+def verify_signature(provider: str, headers: Mapping[str, str], body: bytes, secret: Optional[str]) -> None:
+    """Every delivery must be signed: a scan clones whatever repository the payload names."""
+    if not secret:
+        raise WebhookError("Webhooks are disabled until DEPRECHECK_WEBHOOK_SECRET is set.", 503)
+    if provider == "github":
+        expected = "sha256=" + hmac.new(secret.encode("utf-8"), body, hashlib.sha256).hexdigest()
+        valid = hmac.compare_digest(expected, headers.get("x-hub-signature-256", ""))
+    else:
+        valid = hmac.compare_digest(secret, headers.get("x-gitlab-token", ""))
+    if not valid:
+        raise WebhookError("Invalid webhook signature.", 401)
+
+
+def parse_github(event_name: str, payload: dict) -> Optional[PullRequestEvent]:
+    if event_name != "pull_request" or payload.get("action") not in GITHUB_ACTIONS:
+        return None
+    pull = payload["pull_request"]
+    number = int(pull["number"])
+    return PullRequestEvent(
+        pr=PullRequestRef(provider="github", project=payload["repository"]["full_name"], number=number, head_sha=pull["head"]["sha"]),
+        action=payload["action"],
+        clone_url=pull["base"]["repo"]["clone_url"],
+        base_ref=pull["base"]["ref"],
+        pr_ref=f"refs/pull/{number}/head",
+    )
+
+
+def parse_gitlab(event_name: str, payload: dict) -> Optional[PullRequestEvent]:
+    if event_name != "Merge Request Hook" or payload.get("object_kind") != "merge_request":
+        return None
+    attributes = payload["object_attributes"]
+    action = attributes.get("action")
+    # "update" also fires for title and label edits; only new commits carry oldrev
+    if action not in GITLAB_ACTIONS or (action == "update" and not attributes.get("oldrev")):
+        return None
+    iid = int(attributes["iid"])
+    return PullRequestEvent(
+        pr=PullRequestRef(provider="gitlab", project=str(payload["project"]["id"]), number=iid, head_sha=attributes["last_commit"]["id"]),
+        action=action,
+        clone_url=payload["project"]["git_http_url"],
+        base_ref=attributes["target_branch"],
+        pr_ref=f"refs/merge-requests/{iid}/head",
+    )
+
+
+def parse_event(provider: str, headers: Mapping[str, str], body: bytes) -> Optional[PullRequestEvent]:
+    """Returns None for deliveries that don't need a scan (pings, closed PRs, label edits...)."""
+    if provider not in ("github", "gitlab"):
+        raise WebhookError(f"Unsupported provider: {provider}", 404)
+    verify_signature(provider, headers, body, os.environ.get("DEPRECHECK_WEBHOOK_SECRET"))
+    try:
+        payload = json.loads(body)
+        if provider == "github":
+            return parse_github(headers.get("x-github-event", ""), payload)
+        return parse_gitlab(headers.get("x-gitlab-event", ""), payload)
+    except (ValueError, KeyError, TypeError) as error:
+        raise WebhookError(f"Malformed {provider} payload: {error}", 422) from error
+
+
+def fetch_pull_request(event: PullRequestEvent) -> str:
+    repo_dir = resolve_working_copy(event.clone_url)
+    # Forks push elsewhere, but the target repository always publishes the head under pr_ref
+    run_git(repo_dir, "fetch", "--quiet", "origin", f"+{event.pr_ref}:refs/deprecheck/{event.pr.provider}-{event.pr.number}")
+    return repo_dir
+
+
+def run_scan(repo_dir: str, diff: str) -> ScanOutcome:
+    with tempfile.TemporaryDirectory(prefix="deprecheck-pr-") as tmp:
+        diff_path = os.path.join(tmp, "pr.diff")
+        comment_path = os.path.join(tmp, "comment.md")
+        with open(diff_path, "w", encoding="utf-8") as handle:
+            handle.write(diff)
+        command = [
+            "node", CLI_PATH, "scan", repo_dir, "--diff", diff_path, "--comment", comment_path,
+            "--output", os.path.join(tmp, "report.json"), "--quiet",
+            # Gate policy and engine flags, e.g. "--fail-on warning --always-block Security"
+            *shlex.split(os.environ.get("DEPRECHECK_WEBHOOK_ARGS", "")),
+        ]
+        try:
+            result = subprocess.run(command, capture_output=True, text=True, timeout=SCAN_TIMEOUT_SECONDS)
+        except (OSError, subprocess.TimeoutExpired) as error:
+            return ScanOutcome(state=ERROR, description=f"The scan could not run: {error}")
+        # Exit codes follow the CLI: 0 passed, 1 blocked, anything else failed
+        if result.returncode not in (0, 1):
+            return ScanOutcome(state=ERROR, description=(result.stderr.strip() or "The scan failed.").splitlines()[-1])
+        with open(comment_path, encoding="utf-8") as handle:
+            comment = handle.read()
+
+    reasons = [line.strip()[2:] for line in result.stdout.splitlines() if line.startswith("  - ")]
+    if result.returncode == 1:
+        return ScanOutcome(state=FAILURE, description="Blocked: " + "; ".join(reasons), comment=comment)
+    return ScanOutcome(state=SUCCESS, description="No new issues block this PR.", comment=comment)
+
+
+def scan_pull_request(event: PullRequestEvent) -> ScanOutcome:
+    try:
+        repo_dir = fetch_pull_request(event)
+        diff = diff_refs(repo_dir, event.base_ref, event.pr.head_sha)
+    except (CommitError, DiffError) as error:
+        return ScanOutcome(state=ERROR, description=str(error))
+    if not diff.diff.strip():
+        return ScanOutcome(state=SUCCESS, description="No changes to scan.")
+    return run_scan(repo_dir, diff.diff)
+
+
+def handle_pull_request(event: PullRequestEvent, client: ForgeClient) -> Optional[ScanOutcome]:
+    """Runs as a background task: the forge doesn't wait for the scan, so failures are only logged."""
+    target_url = os.environ.get("DEPRECHECK_APP_URL")
+    try:
+        client.set_status(event.pr, PENDING, "Scanning the changed code...", target_url)
+        outcome = scan_pull_request(event)
+        client.set_status(event.pr, outcome.state, outcome.description, target_url)
+        if outcome.comment:
+            client.post_review(event.pr, outcome.comment, blocked=outcome.state == FAILURE)
+        return outcome
+    except ForgeError as error:
+        logger.error("Could not report the verdict for %s#%s: %s", event.pr.project, event.pr.number, error)
+        return None
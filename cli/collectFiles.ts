@@ -0,0 +1,96 @@
+import { execFileSync } from 'node:child_process';
+import { readdirSync, readFileSync, statSync } from 'node:fs';
+import { join, relative, sep } from 'node:path';
+import { SourceFile } from '../types';
+
+// Kept in line with backend/scanner.py so the CLI and the app scan the same files
+const VENDORED_DIRS = new Set([
+  '.git', 'node_modules', 'bower_components', 'jspm_packages', 'vendor', 'third_party',
+  'dist', 'build', 'out', 'target', 'coverage', '.next', '.nuxt', '.svelte-kit',
+  '__pycache__', '.venv', 'venv', '.tox', '.mypy_cache', '.pytest_cache', '.idea', '.vscode', '.deprecheck'
+]);
+const GENERATED_FILES = new Set(['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'poetry.lock', 'Cargo.lock', 'composer.lock']);
+const GENERATED_SUFFIXES = ['.min.js', '.min.css', '.map', '.snap'];
+
+const MAX_FILE_BYTES = 512 * 1024;
+const BINARY_SNIFF_BYTES = 8192;
+const utf8 = new TextDecoder('utf-8', { fatal: true });
+
+export interface CollectResult {
+  files: SourceFile[];
+  skipped: { path: string; reason: string }[];
+}
+
+// Inside a git work tree git already knows what is ignored
+const listGitFiles = (root: string): string[] | null => {
+  try {
+    const output = execFileSync('git', ['-C', root, 'ls-files', '--cached', '--others', '--exclude-standard', '-z'], {
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+      maxBuffer: 64 * 1024 * 1024
+    });
+    return output.split('\0').filter(Boolean).sort();
+  } catch {
+    return null;
+  }
+};
+
+const walk = (root: string, dir: string = root, out: string[] = []): string[] => {
+  readdirSync(dir, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .forEach(entry => {
+      const full = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!VENDORED_DIRS.has(entry.name)) walk(root, full, out);
+      } else if (entry.isFile()) {
+        out.push(relative(root, full).split(sep).join('/'));
+      }
+    });
+  return out;
+};
+
+const skipReason = (path: string): string | null => {
+  const parts = path.split('/');
+  if (parts.slice(0, -1).some(part => VENDORED_DIRS.has(part))) return 'vendored';
+  const name = parts[parts.length - 1];
+  if (GENERATED_FILES.has(name) || GENERATED_SUFFIXES.some(suffix => name.endsWith(suffix))) return 'generated';
+  return null;
+};
+
+export const collectFiles = (root: string): CollectResult => {
+  const result: CollectResult = { files: [], skipped: [] };
+  const paths = listGitFiles(root) ?? walk(root);
+
+  paths.forEach(path => {
+    const reason = skipReason(path);
+    if (reason) {
+      result.skipped.push({ path, reason });
+      return;
+    }
+    const full = join(root, path);
+    let size: number;
+    try {
+      const stats = statSync(full);
+      if (!stats.isFile()) return; // Deleted in the work tree but still in the index
+      size = stats.size;
+    } catch {
+      return;
+    }
+    if (size > MAX_FILE_BYTES) {
+      result.skipped.push({ path, reason: 'too large' });
+      return;
+    }
+    const data = readFileSync(full);
+    if (data.subarray(0, BINARY_SNIFF_BYTES).includes(0)) {
+      result.skipped.push({ path, reason: 'binary' });
+      return;
+    }
+    try {
+      result.files.push({ path, content: utf8.decode(data) });
+    } catch {
+      result.skipped.push({ path, reason: 'binary' });
+    }
+  });
+
+  return result;
+};
@@ -0,0 +1,112 @@
+import { existsSync } from 'node:fs';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Severity } from '../types';
+import { DEFAULT_GATE_POLICY } from '../services/prGate';
+import { CliError, parseScanArgs, run } from './deprecheck';
+
+describe('parseScanArgs', () => {
+  it('uses the rules engine and the default policy without a key', () => {
+    const args = parseScanArgs(['repo'], {})!;
+
+    expect(args.root).toBe(resolve('repo'));
+    expect(args.engine).toBe('rules');
+    expect(args.kind).toBe('gemini');
+    expect(args.policy).toEqual(DEFAULT_GATE_POLICY);
+    expect(args.scoringWeights).toBeUndefined();
+  });
+
+  it('switches to the hybrid engine when a key is set', () => {
+    expect(parseScanArgs(['repo'], { GEMINI_API_KEY: 'key' })!.engine).toBe('hybrid');
+    expect(parseScanArgs(['repo', '--engine', 'rules'], { GEMINI_API_KEY: 'key' })!.engine).toBe('rules');
+  });
+
+  it('builds the gate policy from the flags', () => {
+    const args = parseScanArgs(['repo', '--fail-on', 'warning', '--min-score', '70', '--always-block', 'security, Performance', '--prediction-confidence', 'none', '--eol-grace-days', '90'], {})!;
+
+    expect(args.policy).toEqual({
+      ...DEFAULT_GATE_POLICY,
+      failOn: Severity.WARNING,
+      minScore: 70,
+      alwaysBlockCategories: ['Security', 'Performance'],
+      predictionMinConfidence: null,
+      eolGraceDays: 90
+    });
+  });
+
+  it('returns null for --help', () => {
+    expect(parseScanArgs(['--help'], {})).toBeNull();
+  });
+
+  it.each([
+    [[], 'expected exactly one path'],
+    [['a', 'b'], 'expected exactly one path'],
+    [['repo', '--engine', 'gpt'], 'unknown engine "gpt"'],
+    [['repo', '--provider', 'fixture'], 'unknown provider "fixture"'],
+    [['repo', '--fail-on', 'major'], '--fail-on must be one of'],
+    [['repo', '--min-score', 'high'], '--min-score expects a number'],
+    [['repo', '--always-block', 'Style'], 'unknown category "Style"'],
+    [['repo', '--write-baseline'], '--write-baseline needs a --reason'],
+    [['repo', '--comment', 'c.md'], '--comment is only available with --diff'],
+    [['repo', '--expires', 'next year'], '--expires expects a YYYY-MM-DD date'],
+    [['repo', '--weights', 'missing.json'], '--weights missing.json']
+  ])('rejects %j', (argv, message) => {
+    expect(() => parseScanArgs(argv, {})).toThrow(CliError);
+    expect(() => parseScanArgs(argv, {})).toThrow(message);
+  });
+});
+
+describe('run', () => {
+  let dir: string;
+  let errors: string[];
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'deprecheck-cli-'));
+    errors = [];
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(message => { errors.push(String(message)); });
+  });
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const scan = (...flags: string[]) => run(['scan', join(dir, 'repo'), '--engine', 'rules', '--no-cache', '--output', join(dir, 'report.json'), '-q', ...flags]);
+  const writeRepo = async (content: string) => {
+    await mkdir(join(dir, 'repo'));
+    await writeFile(join(dir, 'repo', 'app.ts'), content);
+  };
+
+  it('exits with 0 when the gate passes and writes the report', async () => {
+    await writeRepo('export const answer = 42;\n');
+
+    expect(await scan()).toBe(0);
+    expect(existsSync(join(dir, 'report.json'))).toBe(true);
+  });
+
+  it('exits with 1 when the gate blocks', async () => {
+    await writeRepo("import { forwardRef } from 'react';\nexport const A = forwardRef(() => null);\n");
+
+    expect(await scan()).toBe(1);
+    // The same findings pass a gate that never blocks on severity
+    expect(await scan('--fail-on', 'none')).toBe(0);
+  });
+
+  it('exits with 2 on usage and input errors', async () => {
+    expect(await run(['lint'])).toBe(2);
+    expect(errors[0]).toContain('unknown command "lint"');
+
+    expect(await run(['scan', dir, '--colour'])).toBe(2);
+    expect(await scan('--fail-on', 'major')).toBe(2);
+    // Nothing to analyze
+    await mkdir(join(dir, 'repo'));
+    expect(await scan()).toBe(2);
+    expect(errors.every(message => message.startsWith('deprecheck: '))).toBe(true);
+  });
+
+  it('exits with 0 for help', async () => {
+    expect(await run([])).toBe(0);
+    expect(await run(['scan', '--help'])).toBe(0);
+  });
+});
@@ -0,0 +1,306 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import { AnalysisReport, Severity } from '../types';
+import { analyzeFiles, AnalysisEngine } from '../services/analysisService';
+import { createFileCache, defaultCacheDir } from '../services/fileCache';
+import { createProvider, PROVIDER_DEFAULTS, ProviderKind } from '../services/llmProviders';
+import { toSarif } from '../services/sarifExporter';
+import { toPrComment } from '../services/reportExporter';
+import { scanDiff } from '../services/prDiffScan';
+import { FilePatch, parseUnifiedDiff } from '../services/unifiedDiff';
+import { DEFAULT_GATE_POLICY, evaluateGate, GATE_CATEGORIES, GatePolicy, GateResult } from '../services/prGate';
+import { addSuppression, applyBaseline, Baseline, BASELINE_FILE, createBaselineEntry, EMPTY_BASELINE, parseBaseline, serializeBaseline } from '../services/baseline';
+import { isSuppressed, resolveScoringWeights, ScoringWeights } from '../services/scoring';
+import { collectFiles, CollectResult } from './collectFiles';
+
+// Exit codes: 0 = passed, 1 = blocked by the gate, 2 = usage or runtime error
+const EXIT_BLOCKED = 1;
+const EXIT_ERROR = 2;
+
+const USAGE = `Usage: deprecheck scan <path> [options]
+
+Options:
+  --engine <rules|ai|hybrid>   Analysis engine (default: hybrid with an API key, rules otherwise)
+  --provider <kind>            gemini | openai-compatible | ollama (default: gemini)
+  --model <name>               Model for the provider
+  --base-url <url>             Endpoint for openai-compatible and ollama providers
+  --fail-on <severity>         critical | warning | info | none (default: info, any issue blocks)
+  --min-score <n>              Block when the health score is below n (default: 0)
+  --always-block <categories>  Comma-separated categories that block at any severity, e.g. Security
+  --prediction-confidence <n>  Predictions block only at n% confidence or more; "none" never (default: 0)
+  --eol-grace-days <n>         Only block issues whose end of life is within n days
+  --weights <file>             JSON health score weights, e.g. {"severity": {"Info": 0}, "category": {"Security": 3}}
+  --diff <file>                Only scan the changes in a unified diff ("-" for stdin); <path> is the repository
+  --comment <file>             With --diff, also write the verdict as a Markdown PR comment
+  --output <file>              Report file (default: deprecheck-report.json)
+  --sarif <file>               Also write the findings as SARIF 2.1.0
+  --baseline <file>            Suppression file (default: <path>/${BASELINE_FILE})
+  --write-baseline             Accept every current finding into the baseline file
+  --reason <text>              Reason recorded with --write-baseline (required)
+  --expires <YYYY-MM-DD>       Expiry recorded with --write-baseline
+  --concurrency <n>            Parallel model requests (default: 4)
+  --cache-dir <dir>            Where model responses are cached (default: $XDG_CACHE_HOME/deprecheck or ~/.cache/deprecheck)
+  --no-cache                   Do not reuse cached analyses
+  -q, --quiet                  Only print the gate result
+  -h, --help                   Show this help`;
+
+const SEVERITY_FLAGS: Record<string, GatePolicy['failOn']> = {
+  critical: Severity.CRITICAL,
+  warning: Severity.WARNING,
+  info: Severity.INFO,
+  none: 'none'
+};
+
+// Usage and input errors; run() prints them and returns EXIT_ERROR
+export class CliError extends Error {}
+
+const fail = (message: string): never => {
+  throw new CliError(message);
+};
+
+const parseNumber = (value: string | undefined, flag: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fail(`${flag} expects a number, got "${value}"`);
+};
+
+const printSummary = (report: AnalysisReport, fileCount: number, skippedCount: number) => {
+  const count = (severity: Severity) => report.issues.filter(i => i.severity === severity).length;
+  console.log(`Scanned ${fileCount} file(s)${skippedCount ? `, skipped ${skippedCount}` : ''}.`);
+  console.log(`Health score: ${report.overallHealthScore}/100`);
+  const suppressed = report.issues.filter(isSuppressed).length;
+  console.log(`Issues: ${report.issues.length} (${count(Severity.CRITICAL)} critical, ${count(Severity.WARNING)} warning, ${count(Severity.INFO)} info)${suppressed ? `, ${suppressed} suppressed by the baseline` : ''}`);
+
+  report.issues.slice(0, 20).forEach(issue => {
+    const where = issue.filePath ? `${issue.filePath}${issue.startLine ? `:${issue.startLine}` : ''}` : '(snippet)';
+    console.log(`  ${issue.severity.padEnd(8)} ${where}  ${issue.title}${isSuppressed(issue) ? ' (suppressed)' : ''}`);
+  });
+  if (report.issues.length > 20) console.log(`  ... and ${report.issues.length - 20} more in the report file`);
+};
+
+const printGate = (gate: GateResult) => {
+  if (gate.blocked) {
+    console.log(`\nBLOCKED`);
+    gate.reasons.forEach(reason => console.log(`  - ${reason}`));
+  } else {
+    console.log(`\nPASSED`);
+  }
+};
+
+const parseFlags = (argv: string[]) => parseArgs({
+  args: argv,
+  allowPositionals: true,
+  options: {
+    engine: { type: 'string' },
+    provider: { type: 'string' },
+    model: { type: 'string' },
+    'base-url': { type: 'string' },
+    'fail-on': { type: 'string' },
+    'min-score': { type: 'string' },
+    'always-block': { type: 'string' },
+    'prediction-confidence': { type: 'string' },
+    'eol-grace-days': { type: 'string' },
+    weights: { type: 'string' },
+    diff: { type: 'string' },
+    comment: { type: 'string' },
+    output: { type: 'string' },
+    sarif: { type: 'string' },
+    baseline: { type: 'string' },
+    'write-baseline': { type: 'boolean' },
+    reason: { type: 'string' },
+    expires: { type: 'string' },
+    concurrency: { type: 'string' },
+    'cache-dir': { type: 'string' },
+    'no-cache': { type: 'boolean' },
+    quiet: { type: 'boolean', short: 'q' },
+    help: { type: 'boolean', short: 'h' }
+  }
+});
+
+export interface ScanArgs {
+  root: string;
+  apiKey?: string;
+  kind: ProviderKind;
+  engine: AnalysisEngine;
+  policy: GatePolicy;
+  scoringWeights?: ScoringWeights;
+  flags: ReturnType<typeof parseFlags>['values'];
+}
+
+// Validates the flags of `scan`; null when only the help was asked for
+export const parseScanArgs = (argv: string[], env: NodeJS.ProcessEnv = process.env): ScanArgs | null => {
+  const { values, positionals } = parseFlags(argv);
+  if (values.help) return null;
+  if (positionals.length !== 1) fail(`expected exactly one path\n\n${USAGE}`);
+
+  const root = resolve(positionals[0]);
+  const apiKey = env.DEPRECHECK_API_KEY || env.GEMINI_API_KEY || env.API_KEY;
+
+  const kind = (values.provider || 'gemini') as ProviderKind;
+  if (!(kind in PROVIDER_DEFAULTS) || kind === 'fixture') fail(`unknown provider "${kind}"`);
+
+  const engine = (values.engine || (apiKey || values.provider ? 'hybrid' : 'rules')) as AnalysisEngine;
+  if (!['rules', 'ai', 'hybrid'].includes(engine)) fail(`unknown engine "${engine}"`);
+
+  const failOn = SEVERITY_FLAGS[(values['fail-on'] || 'info').toLowerCase()];
+  if (!failOn) fail(`--fail-on must be one of ${Object.keys(SEVERITY_FLAGS).join(', ')}`);
+  const alwaysBlock = (values['always-block'] || '').split(',').map(c => c.trim()).filter(Boolean).map(name =>
+    GATE_CATEGORIES.find(c => c.toLowerCase() === name.toLowerCase()) ?? fail(`--always-block: unknown category "${name}" (expected ${GATE_CATEGORIES.join(', ')})`)
+  );
+  const policy: GatePolicy = {
+    ...DEFAULT_GATE_POLICY,
+    failOn,
+    minScore: parseNumber(values['min-score'], '--min-score') ?? DEFAULT_GATE_POLICY.minScore,
+    alwaysBlockCategories: alwaysBlock,
+    predictionMinConfidence: values['prediction-confidence'] === 'none'
+      ? null
+      : parseNumber(values['prediction-confidence'], '--prediction-confidence') ?? DEFAULT_GATE_POLICY.predictionMinConfidence,
+    eolGraceDays: parseNumber(values['eol-grace-days'], '--eol-grace-days') ?? DEFAULT_GATE_POLICY.eolGraceDays
+  };
+
+  // Missing entries keep their default weight
+  let scoringWeights: ScoringWeights | undefined;
+  if (values.weights) {
+    try {
+      scoringWeights = resolveScoringWeights(JSON.parse(readFileSync(resolve(values.weights), 'utf8')));
+    } catch (error: any) {
+      fail(`--weights ${values.weights}: ${error.message}`);
+    }
+  }
+
+  if (values['write-baseline'] && !values.reason?.trim()) fail('--write-baseline needs a --reason');
+  if (values['write-baseline'] && values.diff) fail('--write-baseline needs a full scan; drop --diff');
+  if (values.comment && !values.diff) fail('--comment is only available with --diff');
+  if (values.expires && !/^\d{4}-\d{2}-\d{2}$/.test(values.expires)) fail('--expires expects a YYYY-MM-DD date');
+
+  return { root, apiKey, kind, engine, policy, scoringWeights, flags: values };
+};
+
+const scan = async (argv: string[]): Promise<number> => {
+  const args = parseScanArgs(argv);
+  if (!args) {
+    console.log(USAGE);
+    return 0;
+  }
+  const { root, apiKey, kind, engine, policy, scoringWeights, flags: values } = args;
+
+  // An explicit --baseline wins; otherwise a baseline file in the scanned tree is picked up by the analysis
+  const baselinePath = values.baseline ? resolve(values.baseline) : join(root, BASELINE_FILE);
+  let baseline: Baseline | undefined;
+  if (values.baseline && existsSync(baselinePath)) {
+    try {
+      baseline = parseBaseline(readFileSync(baselinePath, 'utf8'));
+    } catch (error: any) {
+      fail(error.message);
+    }
+  } else if (values.baseline) {
+    if (!values['write-baseline']) fail(`baseline file not found: ${baselinePath}`);
+    baseline = EMPTY_BASELINE;
+  }
+
+  // A diff scan never reads the tree, so the baseline file has to be loaded here
+  if (values.diff && !baseline && existsSync(baselinePath)) {
+    try {
+      baseline = parseBaseline(readFileSync(baselinePath, 'utf8'));
+    } catch (error: any) {
+      fail(error.message);
+    }
+  }
+
+  let collected: CollectResult = { files: [], skipped: [] };
+  let patches: FilePatch[] = [];
+  if (values.diff) {
+    try {
+      patches = parseUnifiedDiff(readFileSync(values.diff === '-' ? 0 : resolve(values.diff), 'utf8'));
+    } catch (error: any) {
+      fail(`cannot read ${values.diff}: ${error.message}`);
+    }
+    if (patches.length === 0) fail(`no file changes found in ${values.diff}`);
+  } else {
+    try {
+      collected = collectFiles(root);
+    } catch (error: any) {
+      return fail(`cannot read ${root}: ${error.message}`);
+    }
+    if (collected.files.length === 0) fail(`no analyzable files found in ${root}`);
+  }
+
+  const provider = createProvider({
+    kind,
+    model: values.model || PROVIDER_DEFAULTS[kind].model,
+    baseUrl: values['base-url'] || PROVIDER_DEFAULTS[kind].baseUrl,
+    apiKey
+  });
+
+  if (!values.quiet) console.log(`DepreCheck: analyzing ${values.diff ? `the changes in ${values.diff}` : root} with the ${engine} engine${engine !== 'rules' ? ` (${provider.kind}/${provider.model})` : ''}`);
+
+  const analysisOptions = {
+    provider,
+    baseline,
+    scoringWeights,
+    cache: values['no-cache'] ? undefined : createFileCache(values['cache-dir'] ? resolve(values['cache-dir']) : defaultCacheDir()),
+    concurrency: parseNumber(values.concurrency, '--concurrency'),
+    onProgress: values.quiet || !process.stderr.isTTY
+      ? undefined
+      : (completed: number, total: number) => process.stderr.write(`\rAnalyzed ${completed}/${total} chunks${completed === total ? '\n' : ''}`)
+  };
+  const diffScan = values.diff ? await scanDiff(patches, engine, analysisOptions) : null;
+  let report = diffScan ? diffScan.report : await analyzeFiles(collected.files, engine, analysisOptions);
+
+  if (values['write-baseline']) {
+    const current = baseline || (existsSync(baselinePath) ? parseBaseline(readFileSync(baselinePath, 'utf8')) : EMPTY_BASELINE);
+    const accepted = report.issues.filter(issue => !isSuppressed(issue));
+    const updated = accepted.reduce((acc, issue) => addSuppression(acc, createBaselineEntry(issue, values.reason!.trim(), values.expires)), current);
+    writeFileSync(baselinePath, serializeBaseline(updated));
+    report = applyBaseline(report, updated, scoringWeights);
+    if (!values.quiet) console.log(`Added ${accepted.length} finding(s) to ${baselinePath}`);
+  }
+
+  const output = resolve(values.output || 'deprecheck-report.json');
+  writeFileSync(output, JSON.stringify(report, null, 2));
+  const sarifOutput = values.sarif ? resolve(values.sarif) : null;
+  if (sarifOutput) {
+    // Diff scans only see excerpts, so their SARIF carries no fixes
+    writeFileSync(sarifOutput, JSON.stringify(toSarif(report, { srcRoot: pathToFileURL(root).href, files: collected.files }), null, 2));
+  }
+
+  const gate = evaluateGate(report, policy);
+  const commentOutput = values.comment ? resolve(values.comment) : null;
+  if (diffScan && commentOutput) writeFileSync(commentOutput, toPrComment(diffScan, gate));
+  if (!values.quiet) {
+    const fileCount = diffScan ? diffScan.files.length : collected.files.filter(f => f.path !== BASELINE_FILE).length;
+    printSummary(report, fileCount, collected.skipped.length);
+    if (diffScan) console.log(`New in this diff: ${diffScan.newIssues.length}, already on the base branch: ${diffScan.existingIssues.length}, fixed: ${diffScan.resolvedIssues.length}`);
+    console.log(`Report written to ${output}${sarifOutput ? ` (SARIF: ${sarifOutput})` : ''}`);
+  }
+  printGate(gate);
+
+  return gate.blocked ? EXIT_BLOCKED : 0;
+};
+
+const dispatch = async ([command, ...rest]: string[]): Promise<number> => {
+  switch (command) {
+    case 'scan':
+      return scan(rest);
+    case undefined:
+    case '-h':
+    case '--help':
+    case 'help':
+      console.log(USAGE);
+      return 0;
+    default:
+      return fail(`unknown command "${command}"\n\n${USAGE}`);
+  }
+};
+
+// Runs one command line (without the node and script arguments) and resolves to the exit code
+export const run = async (argv: string[]): Promise<number> => {
+  try {
+    return await dispatch(argv);
+  } catch (error: any) {
+    console.error(`deprecheck: ${error?.message || String(error)}`);
+    return EXIT_ERROR;
+  }
+};
@@ -0,0 +1,6 @@
+import { run } from './deprecheck';
+
+// Entry point of the built CLI; the commands live in deprecheck.ts so tests can run them in-process
+run(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
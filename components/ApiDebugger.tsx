@@ -1,20 +1,40 @@
-import React, { useState } from 'react';
-import { GoogleGenAI } from "@google/genai";
+import React, { useEffect, useState } from 'react';
 import { Button } from './Button';
+import { createProvider, PROVIDER_DEFAULTS, ProviderConfig, ProviderKind } from '../services/llmProviders';
 
-export const ApiDebugger: React.FC = () => {
+interface ApiDebuggerProps {
+  workspaceId: string;
+  providerConfig: ProviderConfig;
+  onSaveProviderConfig: (config: ProviderConfig) => void;
+}
+
+export const ApiDebugger: React.FC<ApiDebuggerProps> = ({ workspaceId, providerConfig, onSaveProviderConfig }) => {
   const [prompt, setPrompt] = useState('Tell me a programming joke about React.');
-  const [model, setModel] = useState('gemini-2.5-flash');
+  const [config, setConfig] = useState<ProviderConfig>(providerConfig);
   const [response, setResponse] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [latency, setLatency] = useState<number | null>(null);
 
+  // Switching workspace loads that workspace's provider
+  useEffect(() => {
+    setConfig(providerConfig);
+  }, [providerConfig]);
+
+  const model = config.model;
+  const setModel = (id: string) => setConfig(prev => ({ ...prev, model: id }));
+
+  const handleKindChange = (kind: ProviderKind) => {
+    setConfig({ kind, model: PROVIDER_DEFAULTS[kind].model, baseUrl: PROVIDER_DEFAULTS[kind].baseUrl });
+  };
+
   const availableModels = [
     { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', desc: 'Fast, cost-efficient, low latency' },
     { id: 'gemini-2.5-flash-lite-latest', name: 'Gemini 2.5 Flash Lite', desc: 'Highest efficiency for simple tasks' },
     { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', desc: 'Reasoning, coding, complex tasks' },
   ];
 
+  const isDirty = JSON.stringify(config) !== JSON.stringify(providerConfig);
+
   const handleTest = async () => {
     setLoading(true);
     setResponse(null);
@@ -23,23 +43,20 @@ export const ApiDebugger: React.FC = () => {
     const startTime = performance.now();
     
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      // We use raw generateContent here to show the user the raw capabilities
-      const result = await ai.models.generateContent({
-        model: model,
-        contents: prompt,
-      });
+      // We send the raw prompt here to show the user the raw capabilities
+      const result = await createProvider(config).generate({ prompt });
 
       const endTime = performance.now();
       setLatency(Math.round(endTime - startTime));
       
       // Format the response for display
       const displayData = {
+        provider: config.kind,
         model: model,
         latencyMs: Math.round(endTime - startTime),
-        usageMetadata: result.usageMetadata,
+        usageMetadata: result.usage,
         text: result.text,
-        fullResponse: result
+        fullResponse: result.raw
       };
 
       setResponse(JSON.stringify(displayData, null, 2));
@@ -66,7 +83,7 @@ export const ApiDebugger: React.FC = () => {
             </p>
           </div>
           <div className="bg-slate-100 dark:bg-slate-800 px-3 py-1 rounded text-xs text-slate-600 dark:text-slate-400 font-mono">
-            SDK: @google/genai
+            Provider: {PROVIDER_DEFAULTS[config.kind].label}
           </div>
         </div>
 
@@ -74,6 +91,68 @@ export const ApiDebugger: React.FC = () => {
           
           {/* Controls Sidebar */}
           <div className="md:col-span-4 lg:col-span-3 space-y-6">
+            <div>
+              <label className="block text-sm font-semibold text-slate-900 dark:text-slate-200 mb-2">Provider</label>
+              <select
+                value={config.kind}
+                onChange={(e) => handleKindChange(e.target.value as ProviderKind)}
+                className="w-full rounded-lg border border-slate-300 dark:border-slate-600 p-2 text-sm bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-200"
+              >
+                {(Object.keys(PROVIDER_DEFAULTS) as ProviderKind[]).map(kind => (
+                  <option key={kind} value={kind}>{PROVIDER_DEFAULTS[kind].label}</option>
+                ))}
+              </select>
+            </div>
+
+            {(config.kind === 'openai-compatible' || config.kind === 'ollama') && (
+              <div className="space-y-3">
+                <div>
+                  <label className="block text-xs font-semibold text-slate-700 dark:text-slate-300 mb-1">Base URL</label>
+                  <input
+                    type="text"
+                    value={config.baseUrl || ''}
+                    onChange={(e) => setConfig(prev => ({ ...prev, baseUrl: e.target.value }))}
+                    className="w-full rounded-lg border border-slate-300 dark:border-slate-600 p-2 text-xs font-mono bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-200"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-slate-700 dark:text-slate-300 mb-1">Model</label>
+                  <input
+                    type="text"
+                    value={config.model}
+                    onChange={(e) => setModel(e.target.value)}
+                    className="w-full rounded-lg border border-slate-300 dark:border-slate-600 p-2 text-xs font-mono bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-200"
+                  />
+                </div>
+                {config.kind === 'openai-compatible' && (
+                  <div>
+                    <label className="block text-xs font-semibold text-slate-700 dark:text-slate-300 mb-1">API Key</label>
+                    <input
+                      type="password"
+                      value={config.apiKey || ''}
+                      onChange={(e) => setConfig(prev => ({ ...prev, apiKey: e.target.value }))}
+                      className="w-full rounded-lg border border-slate-300 dark:border-slate-600 p-2 text-xs font-mono bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-200"
+                    />
+                    <p className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">Kept for this browser session only; it is not saved with the other settings.</p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {config.kind === 'fixture' && (
+              <div>
+                <label className="block text-xs font-semibold text-slate-700 dark:text-slate-300 mb-1">Recorded Response</label>
+                <textarea
+                  rows={4}
+                  value={config.fixtures?.[0]?.response || ''}
+                  onChange={(e) => setConfig(prev => ({ ...prev, fixtures: [{ response: e.target.value }] }))}
+                  placeholder='{"summary": "...", "issues": []}'
+                  className="w-full rounded-lg border border-slate-300 dark:border-slate-600 p-2 text-xs font-mono bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-200"
+                />
+              </div>
+            )}
+
+            {config.kind === 'gemini' && (
             <div>
               <label className="block text-sm font-semibold text-slate-900 dark:text-slate-200 mb-2">Select Model</label>
               <div className="space-y-2">
@@ -100,6 +179,16 @@ export const ApiDebugger: React.FC = () => {
                 ))}
               </div>
             </div>
+            )}
+
+            <button
+              onClick={() => onSaveProviderConfig(config)}
+              disabled={!isDirty}
+              className="w-full py-2 text-xs font-semibold rounded-lg border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50 transition-colors"
+              title={`Analysis in workspace "${workspaceId}" will use this provider`}
+            >
+              {isDirty ? 'Use for Analysis in this Workspace' : 'In Use for this Workspace'}
+            </button>
             
             <div className="p-4 bg-slate-50 dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 text-xs space-y-3">
               <div className="font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">Metrics</div>
@@ -7,13 +7,27 @@ interface CodeEditorProps {
   readOnly?: boolean;
   className?: string;
   highlights?: string[]; // Array of strings to highlight
+  highlightLines?: { startLine: number; endLine: number } | null; // 1-based, inclusive
   highlightColor?: 'red' | 'green';
 }
 
 export interface CodeEditorHandle {
   highlight: (text: string) => void;
+  revealLines: (startLine: number, endLine: number) => void;
 }
 
+// Character offsets covering whole lines (1-based, inclusive)
+const lineRangeToOffsets = (value: string, startLine: number, endLine: number) => {
+  const lines = value.split('\n');
+  const first = Math.min(Math.max(startLine, 1), lines.length);
+  const last = Math.min(Math.max(endLine, first), lines.length);
+  let start = 0;
+  for (let i = 0; i < first - 1; i++) start += lines[i].length + 1;
+  let end = start;
+  for (let i = first - 1; i < last; i++) end += lines[i].length + 1;
+  return { start, end: Math.min(end - 1, value.length) };
+};
+
 export const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(({ 
   value, 
   onChange, 
@@ -21,13 +35,29 @@ export const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(({
   readOnly, 
   className = "h-64",
   highlights = [],
+  highlightLines,
   highlightColor
 }, ref) => {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const backdropRef = useRef<HTMLDivElement>(null);
   const lineNumbersRef = useRef<HTMLDivElement>(null);
 
+  const scrollToLine = (line: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const lineHeight = 20; // Approx line height in px based on text-sm
+    const targetScroll = (line - 1) * lineHeight - (textarea.clientHeight / 2) + lineHeight;
+    textarea.scrollTo({ top: Math.max(0, targetScroll), behavior: 'smooth' });
+  };
+
   useImperativeHandle(ref, () => ({
+    revealLines: (startLine: number, endLine: number) => {
+      if (!textareaRef.current || !value) return;
+      const { start, end } = lineRangeToOffsets(value, startLine, endLine);
+      textareaRef.current.focus();
+      textareaRef.current.setSelectionRange(start, end);
+      scrollToLine(startLine);
+    },
     highlight: (text: string) => {
       if (!textareaRef.current || !text || !value) return;
 
@@ -73,7 +103,8 @@ export const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(({
   };
 
   const renderHighlights = () => {
-    if (!highlights || highlights.length === 0 || !value) return value;
+    if ((!highlights || highlights.length === 0) && !highlightLines) return value;
+    if (!value) return value;
     
     const highlightClass = highlightColor === 'red' 
         ? 'bg-red-500/30 text-transparent animate-pulse' 
@@ -95,6 +126,10 @@ export const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(({
         }
     });
 
+    if (highlightLines) {
+        ranges.push(lineRangeToOffsets(value, highlightLines.startLine, highlightLines.endLine));
+    }
+
     // Sort ranges by start position
     ranges.sort((a, b) => a.start - b.start);
 
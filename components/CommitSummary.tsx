@@ -0,0 +1,69 @@
+import React from 'react';
+import { CommitConflict, CommitResponse } from '../services/backendService';
+
+interface CommitSummaryProps {
+  result: CommitResponse | null;
+  conflicts: CommitConflict[] | null;
+  onDone: () => void;
+  onRescan: () => void;
+}
+
+export const CommitSummary: React.FC<CommitSummaryProps> = ({ result, conflicts, onDone, onRescan }) => {
+  if (conflicts && conflicts.length > 0) {
+    return (
+      <div className="rounded-xl border p-5 bg-red-50 border-red-200 dark:bg-red-900/20 dark:border-red-900/50">
+        <h4 className="font-bold text-red-800 dark:text-red-300">Commit blocked: {conflicts.length} conflicting file(s)</h4>
+        <p className="text-sm text-red-700 dark:text-red-400 mt-1">
+          These files changed in the repository after they were scanned. Nothing was committed; re-scan to pick up the new content and re-apply the fixes.
+        </p>
+        <ul className="mt-3 space-y-1 font-mono text-xs">
+          {conflicts.map(c => (
+            <li key={c.path} className="text-red-800 dark:text-red-300">
+              <span className="font-semibold">{c.path}</span> <span className="opacity-75">— {c.reason}</span>
+            </li>
+          ))}
+        </ul>
+        <button onClick={onRescan} className="mt-4 px-4 py-2 text-sm font-semibold rounded-lg bg-red-600 text-white hover:bg-red-700">
+          Re-scan Repository
+        </button>
+      </div>
+    );
+  }
+
+  if (!result) return null;
+
+  const insertions = result.files.reduce((sum, f) => sum + f.insertions, 0);
+  const deletions = result.files.reduce((sum, f) => sum + f.deletions, 0);
+
+  return (
+    <div className="rounded-xl border p-5 bg-green-50 border-green-200 dark:bg-green-900/20 dark:border-green-900/50">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h4 className="font-bold text-green-800 dark:text-green-300">Committed to <span className="font-mono">{result.branch}</span></h4>
+          <p className="text-xs text-green-700 dark:text-green-400 mt-1 font-mono">
+            {result.sha.slice(0, 10)} on top of {result.baseSha.slice(0, 10)} · {result.workingCopy}
+          </p>
+        </div>
+        <button onClick={onDone} className="px-4 py-2 text-sm font-semibold rounded-lg bg-green-600 text-white hover:bg-green-700">
+          Done
+        </button>
+      </div>
+
+      <div className="mt-4 rounded-lg overflow-hidden border border-green-200 dark:border-green-900/50 bg-white dark:bg-slate-900">
+        <div className="px-3 py-2 text-xs font-semibold text-slate-600 dark:text-slate-300 border-b border-slate-100 dark:border-slate-800">
+          {result.files.length} file(s) changed, <span className="text-green-600">{insertions} insertion(s)(+)</span>, <span className="text-red-600">{deletions} deletion(s)(-)</span>
+        </div>
+        <ul className="divide-y divide-slate-100 dark:divide-slate-800 font-mono text-xs">
+          {result.files.map(f => (
+            <li key={f.path} className="px-3 py-1.5 flex justify-between text-slate-700 dark:text-slate-300">
+              <span className="truncate">{f.path}</span>
+              <span className="flex-none ml-4">
+                <span className="text-green-600">+{f.insertions}</span> <span className="text-red-600">-{f.deletions}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { BackendHealth } from '../services/backendService';
+
+interface ConnectionStatusProps {
+  health: BackendHealth;
+  demoMode: boolean;
+  onToggleDemo: (enabled: boolean) => void;
+  onRetry: () => void;
+}
+
+export const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ health, demoMode, onToggleDemo, onRetry }) => {
+  const [open, setOpen] = useState(false);
+
+  const { label, dot, pill } = demoMode
+    ? { label: 'Demo Mode', dot: 'bg-amber-500', pill: 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-900/30 dark:text-amber-300 dark:border-amber-800' }
+    : health.status === 'online'
+      ? { label: 'Backend Connected', dot: 'bg-green-500', pill: 'bg-green-50 text-green-700 border-green-200 dark:bg-green-900/30 dark:text-green-300 dark:border-green-800' }
+      : health.status === 'checking'
+        ? { label: 'Checking Backend…', dot: 'bg-slate-400 animate-pulse', pill: 'bg-slate-50 text-slate-600 border-slate-200 dark:bg-slate-800 dark:text-slate-300 dark:border-slate-700' }
+        : { label: 'Backend Offline', dot: 'bg-red-500', pill: 'bg-red-50 text-red-700 border-red-200 dark:bg-red-900/30 dark:text-red-300 dark:border-red-800' };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-semibold border transition-all ${pill}`}
+        title="Repository scanning backend"
+      >
+        <span className={`w-2 h-2 rounded-full ${dot}`}></span>
+        {label}
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40 cursor-default" onClick={() => setOpen(false)}></div>
+          <div className="absolute top-full right-0 mt-2 w-80 rounded-xl shadow-2xl border overflow-hidden z-50 bg-white border-slate-200 dark:bg-slate-900 dark:border-slate-700">
+            <div className="p-4 space-y-3 text-sm">
+              <div className="flex justify-between items-center">
+                <span className="font-bold text-slate-800 dark:text-slate-200">Scan Backend</span>
+                <button onClick={onRetry} className="text-xs text-blue-600 dark:text-blue-400 hover:underline">Check again</button>
+              </div>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {health.status === 'online'
+                  ? `Connected${health.version ? ` (v${health.version})` : ''}. Repository and local-path scans use your real files.`
+                  : health.status === 'checking'
+                    ? 'Contacting the backend…'
+                    : 'Not reachable at localhost:8000. Repository scans will fail until it is started.'}
+              </p>
+              <p className="text-[10px] text-slate-400 font-mono">Last checked {new Date(health.checkedAt).toLocaleTimeString()}</p>
+
+              <label className="flex items-start gap-3 pt-3 border-t border-slate-100 dark:border-slate-800 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={demoMode}
+                  onChange={(e) => onToggleDemo(e.target.checked)}
+                  className="mt-0.5 text-amber-600 focus:ring-amber-500 rounded"
+                />
+                <span>
+                  <span className="block text-xs font-semibold text-slate-800 dark:text-slate-200">Demo mode</span>
+                  <span className="block text-[11px] text-slate-500 dark:text-slate-400">Repository scans load a built-in sample project instead of contacting the backend.</span>
+                </span>
+              </label>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
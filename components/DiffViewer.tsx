@@ -1,18 +1,158 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { collapseUnchanged, diffLines, diffWords, pairLines, WordSegment } from '../services/lineDiff';
+import { TypeDiagnostic } from '../services/typeCheck';
+import { DiffLine } from '../services/unifiedDiff';
+
+type DiffMode = 'split' | 'unified';
 
 interface DiffViewerProps {
   oldCode: string;
   newCode: string;
   context?: string;
   isVisible: boolean;
+  title?: string;
+  oldLabel?: string;
+  newLabel?: string;
+  startLine?: number; // Number of the first line on both sides, for snippets cut out of a file
+  contextLines?: number; // Unchanged lines kept around each change
+  diagnostics?: TypeDiagnostic[]; // Introduced by the change; `line` is a new-side line number as displayed
+  typeCheckPending?: boolean;
+  typeCheckError?: string; // Why the type check couldn't run
 }
 
-export const DiffViewer: React.FC<DiffViewerProps> = ({ oldCode, newCode, context, isVisible }) => {
+const ROW_STYLES: Record<DiffLine['type'], { number: string; content: string; word: string; marker: string }> = {
+  context: {
+    number: 'bg-white dark:bg-slate-900 text-slate-400 dark:text-slate-500',
+    content: 'bg-white dark:bg-slate-900',
+    word: '',
+    marker: ' '
+  },
+  del: {
+    number: 'bg-[#fff5f5] dark:bg-[#450a0a] text-slate-400 dark:text-slate-500',
+    content: 'bg-[#ffebe9] dark:bg-[#450a0a]/50',
+    word: 'bg-[#ff818266] dark:bg-red-700/60 rounded-sm',
+    marker: '-'
+  },
+  add: {
+    number: 'bg-[#f0fff4] dark:bg-[#052e16] text-slate-400 dark:text-slate-500',
+    content: 'bg-[#e6ffec] dark:bg-[#052e16]/50',
+    word: 'bg-[#abf2bc] dark:bg-green-700/60 rounded-sm',
+    marker: '+'
+  }
+};
+
+const EMPTY_CELL = 'bg-slate-50 dark:bg-slate-900/60';
+const NUMBER_CELL = 'text-right pr-2 py-0.5 select-none align-top border-r border-slate-100 dark:border-slate-800';
+const CONTENT_CELL = 'align-top py-0.5 px-2 whitespace-pre-wrap break-all text-slate-800 dark:text-slate-200';
+
+const DiagnosticText: React.FC<{ diagnostic: TypeDiagnostic }> = ({ diagnostic }) => (
+  <>
+    <span className="font-bold">TS{diagnostic.code}</span> {diagnostic.message}
+  </>
+);
+
+const LineContent: React.FC<{ line: DiffLine; segments?: WordSegment[] }> = ({ line, segments }) => {
+  const style = ROW_STYLES[line.type];
+  return (
+    <>
+      <span className={`select-none mr-1 ${line.type === 'del' ? 'text-red-500/50' : line.type === 'add' ? 'text-green-500/50' : 'text-transparent'}`}>{style.marker}</span>
+      {segments
+        ? segments.map((s, i) => <span key={i} className={s.changed ? style.word : ''}>{s.text}</span>)
+        : line.text}
+    </>
+  );
+};
+
+export const DiffViewer: React.FC<DiffViewerProps> = ({
+  oldCode,
+  newCode,
+  context,
+  isVisible,
+  title = 'Code Migration Preview',
+  oldLabel = 'Original (Deprecated)',
+  newLabel = 'New (Compatible)',
+  startLine = 1,
+  contextLines = 3,
+  diagnostics,
+  typeCheckPending = false,
+  typeCheckError
+}) => {
+  const [mode, setMode] = useState<DiffMode>('split');
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const lines = useMemo(() => diffLines(oldCode, newCode), [oldCode, newCode]);
+  const blocks = useMemo(() => collapseUnchanged(lines, contextLines), [lines, contextLines]);
+
+  // Word-level highlights for each deleted line and the added line facing it
+  const segments = useMemo(() => {
+    const map = new Map<DiffLine, WordSegment[]>();
+    pairLines(lines).forEach(row => {
+      if (row.old?.type !== 'del' || row.new?.type !== 'add') return;
+      const words = diffWords(row.old.text, row.new.text);
+      map.set(row.old, words.old);
+      map.set(row.new, words.new);
+    });
+    return map;
+  }, [lines]);
+
+  useEffect(() => setExpanded(new Set()), [oldCode, newCode]);
+
+  const diagnosticsByLine = useMemo(() => {
+    const map = new Map<number, TypeDiagnostic[]>();
+    diagnostics?.forEach(d => map.set(d.line, [...(map.get(d.line) || []), d]));
+    return map;
+  }, [diagnostics]);
+
   if (!isVisible) return null;
 
-  const oldLines = oldCode.split('\n');
-  const newLines = newCode.split('\n');
-  const maxLines = Math.max(oldLines.length, newLines.length);
+  const changeCount = lines.filter(l => l.type !== 'context').length;
+  const displayed = (n?: number) => (n === undefined ? undefined : n + startLine - 1);
+  const number = (n?: number) => displayed(n) ?? '';
+  const columns = mode === 'split' ? 4 : 3;
+
+  // Diagnostics sit right under the new-side line they point at
+  const shownLines = new Set(
+    blocks.filter(b => b.kind === 'lines' || expanded.has(b.id)).flatMap(b => b.lines).map(l => displayed(l.newLine))
+  );
+  const unplaced = diagnostics?.filter(d => !shownLines.has(d.line)) || [];
+  const renderDiagnostics = (newLine: number | undefined, key: string) =>
+    (diagnosticsByLine.get(displayed(newLine) ?? 0) || []).map((d, i) => (
+      <tr key={`${key}-d${i}`}>
+        <td colSpan={columns} className="px-3 py-1 font-sans text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-950/40 border-y border-red-100 dark:border-red-900/50">
+          ⚠ <DiagnosticText diagnostic={d} />
+        </td>
+      </tr>
+    ));
+
+  const renderLines = (blockLines: DiffLine[], key: string) => {
+    if (mode === 'unified') {
+      return blockLines.map((line, i) => (
+        <React.Fragment key={`${key}-${i}`}>
+          <tr>
+            <td className={`${NUMBER_CELL} ${ROW_STYLES[line.type].number}`}>{number(line.oldLine)}</td>
+            <td className={`${NUMBER_CELL} ${ROW_STYLES[line.type].number}`}>{number(line.newLine)}</td>
+            <td className={`${CONTENT_CELL} ${ROW_STYLES[line.type].content}`}><LineContent line={line} segments={segments.get(line)} /></td>
+          </tr>
+          {renderDiagnostics(line.newLine, `${key}-${i}`)}
+        </React.Fragment>
+      ));
+    }
+    return pairLines(blockLines).map((row, i) => (
+      <React.Fragment key={`${key}-${i}`}>
+        <tr>
+          <td className={`${NUMBER_CELL} ${row.old ? ROW_STYLES[row.old.type].number : EMPTY_CELL}`}>{number(row.old?.oldLine)}</td>
+          <td className={`${CONTENT_CELL} border-r border-slate-200 dark:border-slate-700 ${row.old ? ROW_STYLES[row.old.type].content : EMPTY_CELL}`}>
+            {row.old && <LineContent line={row.old} segments={segments.get(row.old)} />}
+          </td>
+          <td className={`${NUMBER_CELL} ${row.new ? ROW_STYLES[row.new.type].number : EMPTY_CELL}`}>{number(row.new?.newLine)}</td>
+          <td className={`${CONTENT_CELL} ${row.new ? ROW_STYLES[row.new.type].content : EMPTY_CELL}`}>
+            {row.new && <LineContent line={row.new} segments={segments.get(row.new)} />}
+          </td>
+        </tr>
+        {renderDiagnostics(row.new?.newLine, `${key}-${i}`)}
+      </React.Fragment>
+    ));
+  };
 
   return (
     <div className="mt-6 border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden animate-in fade-in slide-in-from-top-4 duration-500 shadow-lg bg-white dark:bg-slate-900">
@@ -23,7 +163,23 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({ oldCode, newCode, contex
                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
              </svg>
            </div>
-           <h3 className="text-sm font-bold text-slate-700 dark:text-slate-200">Code Migration Preview</h3>
+           <h3 className="text-sm font-bold text-slate-700 dark:text-slate-200">{title}</h3>
+           <span className="text-xs text-slate-400">
+             {changeCount === 0 ? 'No changes' : `${lines.filter(l => l.type === 'del').length} removed, ${lines.filter(l => l.type === 'add').length} added`}
+           </span>
+           {typeCheckPending ? (
+             <span className="text-xs text-slate-400 animate-pulse">Type-checking…</span>
+           ) : typeCheckError ? (
+             <span title={typeCheckError} className="px-2 py-0.5 rounded-full text-[10px] font-bold border bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 border-amber-200 dark:border-amber-800">
+               Type-check failed
+             </span>
+           ) : diagnostics && (
+             <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold border ${diagnostics.length > 0
+               ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 border-red-200 dark:border-red-800'
+               : 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 border-green-200 dark:border-green-800'}`}>
+               {diagnostics.length > 0 ? `${diagnostics.length} new type error${diagnostics.length === 1 ? '' : 's'}` : 'Type-check passed'}
+             </span>
+           )}
         </div>
         <div className="flex items-center gap-3">
             <span className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400">
@@ -34,9 +190,20 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({ oldCode, newCode, contex
                 <span className="w-2.5 h-2.5 bg-[#e6ffec] dark:bg-green-900/30 border border-[#4ac26b66] dark:border-green-800/50 rounded-sm"></span>
                 Added
             </span>
+            <div className="flex rounded border border-slate-200 dark:border-slate-700 overflow-hidden text-xs font-semibold">
+                {(['split', 'unified'] as DiffMode[]).map(m => (
+                    <button
+                        key={m}
+                        onClick={() => setMode(m)}
+                        className={`px-2 py-0.5 capitalize ${mode === m ? 'bg-slate-700 text-white dark:bg-slate-200 dark:text-slate-900' : 'text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'}`}
+                    >
+                        {m}
+                    </button>
+                ))}
+            </div>
         </div>
       </div>
-      
+
       {context && (
          <div className="bg-slate-50/50 dark:bg-slate-800/50 px-4 py-2 border-b border-slate-100 dark:border-slate-700 text-xs text-slate-500 dark:text-slate-400 font-mono italic">
            <span className="font-semibold text-slate-700 dark:text-slate-300">Migration Rule:</span> {context}
@@ -45,48 +212,44 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({ oldCode, newCode, contex
 
       <div className="overflow-x-auto">
         <table className="w-full text-xs font-mono border-collapse table-fixed min-w-[600px]">
-            <colgroup>
-                <col className="w-12" /> {/* Old Line Num */}
-                <col className="w-[50%]" /> {/* Old Content */}
-                <col className="w-12" /> {/* New Line Num */}
-                <col className="w-[50%]" /> {/* New Content */}
-            </colgroup>
+            {mode === 'split' ? (
+                <colgroup>
+                    <col className="w-12" /> {/* Old Line Num */}
+                    <col className="w-[50%]" /> {/* Old Content */}
+                    <col className="w-12" /> {/* New Line Num */}
+                    <col className="w-[50%]" /> {/* New Content */}
+                </colgroup>
+            ) : (
+                <colgroup>
+                    <col className="w-12" />
+                    <col className="w-12" />
+                    <col />
+                </colgroup>
+            )}
             <thead className="bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400 font-semibold border-b border-slate-200 dark:border-slate-700">
                 <tr>
-                    <th colSpan={2} className="py-1 px-2 text-center border-r border-slate-200 dark:border-slate-700">Original (Deprecated)</th>
-                    <th colSpan={2} className="py-1 px-2 text-center">New (Compatible)</th>
+                    {mode === 'split' ? (
+                        <>
+                            <th colSpan={2} className="py-1 px-2 text-center border-r border-slate-200 dark:border-slate-700">{oldLabel}</th>
+                            <th colSpan={2} className="py-1 px-2 text-center">{newLabel}</th>
+                        </>
+                    ) : (
+                        <th colSpan={3} className="py-1 px-2 text-left">{oldLabel} → {newLabel}</th>
+                    )}
                 </tr>
             </thead>
             <tbody>
-                {Array.from({ length: maxLines }).map((_, i) => {
-                    const oldLine = oldLines[i];
-                    const newLine = newLines[i];
+                {blocks.map((block, b) => {
+                    if (block.kind === 'lines' || expanded.has(block.id)) return renderLines(block.lines, `b${b}`);
                     return (
-                        <tr key={i} className="border-b border-slate-100 dark:border-slate-800 last:border-0">
-                            {/* Left Side (Old) */}
-                            <td className="bg-[#fff5f5] dark:bg-[#450a0a] text-slate-400 dark:text-slate-500 text-right pr-2 py-1 select-none border-r border-[#ffdce0] dark:border-red-900/30 align-top">
-                                {oldLine !== undefined ? i + 1 : ''}
-                            </td>
-                            <td className={`align-top py-1 px-2 border-r border-slate-200 dark:border-slate-700 overflow-hidden text-ellipsis whitespace-pre-wrap ${oldLine !== undefined ? 'bg-[#ffebe9] dark:bg-[#450a0a]/50' : 'bg-slate-50 dark:bg-slate-900'}`}>
-                                {oldLine !== undefined ? (
-                                    <span className="text-slate-800 dark:text-slate-200 break-all">
-                                        <span className="select-none text-red-500/50 mr-1">-</span>
-                                        {oldLine}
-                                    </span>
-                                ) : null}
-                            </td>
-
-                            {/* Right Side (New) */}
-                            <td className="bg-[#f0fff4] dark:bg-[#052e16] text-slate-400 dark:text-slate-500 text-right pr-2 py-1 select-none border-r border-[#ccffd8] dark:border-green-900/30 align-top">
-                                {newLine !== undefined ? i + 1 : ''}
-                            </td>
-                            <td className={`align-top py-1 px-2 overflow-hidden text-ellipsis whitespace-pre-wrap ${newLine !== undefined ? 'bg-[#e6ffec] dark:bg-[#052e16]/50' : 'bg-slate-50 dark:bg-slate-900'}`}>
-                                {newLine !== undefined ? (
-                                    <span className="text-slate-800 dark:text-slate-200 break-all">
-                                        <span className="select-none text-green-500/50 mr-1">+</span>
-                                        {newLine}
-                                    </span>
-                                ) : null}
+                        <tr key={`b${b}`}>
+                            <td colSpan={columns} className="p-0">
+                                <button
+                                    onClick={() => setExpanded(prev => new Set(prev).add(block.id))}
+                                    className="w-full py-1 text-center text-xs font-sans font-semibold text-blue-600 dark:text-blue-400 bg-blue-50/60 dark:bg-slate-800/60 hover:bg-blue-100 dark:hover:bg-slate-800"
+                                >
+                                    ⋯ Show {block.lines.length} unchanged line{block.lines.length === 1 ? '' : 's'}
+                                </button>
                             </td>
                         </tr>
                     );
@@ -94,6 +257,14 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({ oldCode, newCode, contex
             </tbody>
         </table>
       </div>
+
+      {unplaced.length > 0 && (
+        <ul className="px-4 py-2 border-t border-red-100 dark:border-red-900/50 bg-red-50 dark:bg-red-950/40 text-xs text-red-700 dark:text-red-300 space-y-0.5">
+          {unplaced.map((d, i) => (
+            <li key={i}>⚠ Line {d.line}: <DiagnosticText diagnostic={d} /></li>
+          ))}
+        </ul>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
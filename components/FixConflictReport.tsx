@@ -0,0 +1,64 @@
+import React from 'react';
+import { FixConflict, FixConflictReason } from '../services/fixApplier';
+
+interface FixConflictReportProps {
+  conflicts: FixConflict[];
+  onReveal?: (line: number) => void; // Omitted where there is no editor to jump into
+  onDismiss: () => void;
+}
+
+const REASON_LABELS: Record<FixConflictReason, string> = {
+  'no-fix': 'No automatic fix',
+  'not-found': 'Not found',
+  ambiguous: 'Ambiguous',
+  overlap: 'Overlapping'
+};
+
+export const FixConflictReport: React.FC<FixConflictReportProps> = ({ conflicts, onReveal, onDismiss }) => {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border p-4 bg-amber-50 border-amber-200 dark:bg-amber-900/20 dark:border-amber-900/50 animate-in fade-in">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h4 className="font-bold text-sm text-amber-900 dark:text-amber-300">{conflicts.length} fix(es) not applied</h4>
+          <p className="text-xs text-amber-800 dark:text-amber-400 mt-0.5">
+            These couldn't be placed at the issue's location without guessing. Nothing was changed for them.
+          </p>
+        </div>
+        <button onClick={onDismiss} className="text-xs font-semibold text-amber-800 dark:text-amber-300 hover:underline flex-none">
+          Dismiss
+        </button>
+      </div>
+      <ul className="mt-3 space-y-2">
+        {conflicts.map((c, i) => (
+          <li key={`${c.issue.id}-${i}`} className="text-xs">
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] font-bold px-1.5 py-0.5 rounded border uppercase bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-300 border-amber-200 dark:border-amber-800">
+                {REASON_LABELS[c.reason]}
+              </span>
+              <span className="font-semibold text-slate-800 dark:text-slate-200">{c.issue.title}</span>
+              {c.issue.filePath && (
+                <span className="font-mono text-slate-500 dark:text-slate-400">{c.issue.filePath}{c.issue.startLine ? `:${c.issue.startLine}` : ''}</span>
+              )}
+            </div>
+            <p className="mt-0.5 text-amber-800 dark:text-amber-400">{c.message}</p>
+            {onReveal && c.candidateLines.length > 0 && (
+              <div className="mt-1 flex flex-wrap gap-1.5">
+                {c.candidateLines.map(line => (
+                  <button
+                    key={line}
+                    onClick={() => onReveal(line)}
+                    className="font-mono px-1.5 py-0.5 rounded border border-amber-300 dark:border-amber-800 text-amber-900 dark:text-amber-300 hover:bg-amber-100 dark:hover:bg-amber-900/40"
+                  >
+                    line {line}
+                  </button>
+                ))}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Button } from './Button';
+import { DiffViewer } from './DiffViewer';
+import { FixPlan, PlannedFix, previewFix, toggleFix } from '../services/fixPlanner';
+
+interface FixPlannerProps {
+  plan: FixPlan;
+  onApply: (selection: string[]) => void;
+  onCancel: () => void;
+  isApplying?: boolean; // The selection is being type-checked before it is applied
+  error?: string | null; // Why the last selection could not be applied
+}
+
+export const FixPlanner: React.FC<FixPlannerProps> = ({ plan, onApply, onCancel, isApplying = false, error }) => {
+  const [selection, setSelection] = useState<string[]>(plan.defaultSelection);
+  const [previewKey, setPreviewKey] = useState<string | null>(null);
+
+  const titleOf = (key: string) => plan.fixes.find(f => f.key === key)?.edit.issue.title || key;
+  const selected = plan.fixes.filter(f => selection.includes(f.key));
+
+  const renderFix = (fix: PlannedFix) => {
+    const { issue } = fix.edit;
+    const checked = selection.includes(fix.key);
+    const preview = previewKey === fix.key ? previewFix(plan, fix) : null;
+    return (
+      <li key={fix.key} className={`rounded-lg border p-3 ${checked ? 'border-indigo-200 dark:border-indigo-900/60 bg-indigo-50/40 dark:bg-indigo-900/10' : 'border-slate-200 dark:border-slate-800'}`}>
+        <div className="flex items-start gap-3">
+          <input type="checkbox" className="mt-1" checked={checked} onChange={() => setSelection(toggleFix(plan, selection, fix.key))} />
+          <div className="flex-1 min-w-0">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded border uppercase ${
+                issue.severity === 'Critical' ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 border-red-200 dark:border-red-800' : 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 border-amber-200 dark:border-amber-800'
+              }`}>
+                {issue.severity}
+              </span>
+              <span className="text-sm font-medium text-slate-800 dark:text-slate-200">{issue.title}</span>
+              <span className="text-xs font-mono text-slate-400">
+                {issue.filePath ? `${issue.filePath}${issue.startLine ? `:${issue.startLine}` : ''}` : `line ${fix.edit.startLine}`}
+              </span>
+            </div>
+            <div className="mt-1 flex flex-wrap gap-2 text-[11px]">
+              {checked && <span className="text-slate-500 dark:text-slate-400">Step {selected.filter(f => f.step <= fix.step).length} of {selected.length}</span>}
+              {fix.overlaps.length > 0 && (
+                <span className="text-amber-700 dark:text-amber-400" title={fix.overlaps.map(titleOf).join('\n')}>
+                  Overlaps {fix.overlaps.length === 1 ? `"${titleOf(fix.overlaps[0])}"` : `${fix.overlaps.length} other fixes`}; only one can be applied
+                </span>
+              )}
+              {fix.sharesLines.length > 0 && (
+                <span className="text-blue-700 dark:text-blue-400" title={fix.sharesLines.map(titleOf).join('\n')}>
+                  Same line as {fix.sharesLines.length === 1 ? `"${titleOf(fix.sharesLines[0])}"` : `${fix.sharesLines.length} other fixes`}
+                </span>
+              )}
+            </div>
+          </div>
+          <button onClick={() => setPreviewKey(preview ? null : fix.key)} className="text-xs font-semibold text-indigo-600 dark:text-indigo-400 hover:underline flex-none">
+            {preview ? 'Hide' : 'Preview'}
+          </button>
+        </div>
+        {preview && (
+          <DiffViewer isVisible oldCode={preview.oldCode} newCode={preview.newCode} startLine={preview.startLine} title={issue.title} oldLabel="Before" newLabel="After" />
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 flex items-center justify-center p-4" onClick={isApplying ? undefined : onCancel}>
+      <div className="w-full max-w-4xl max-h-[90vh] flex flex-col rounded-xl shadow-2xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800" onClick={(e) => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center">
+          <div>
+            <h3 className="font-bold text-lg text-slate-900 dark:text-white">Review Fixes</h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {selected.length} of {plan.fixes.length} selected. Fixes are applied bottom-up so none shifts another.
+            </p>
+          </div>
+          <div className="flex gap-3 text-xs font-semibold">
+            <button onClick={() => setSelection(plan.defaultSelection)} className="text-indigo-600 dark:text-indigo-400 hover:underline">Select all</button>
+            <button onClick={() => setSelection([])} className="text-slate-500 dark:text-slate-400 hover:underline">Select none</button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          <ul className="space-y-2">{plan.fixes.map(renderFix)}</ul>
+
+          {plan.conflicts.length > 0 && (
+            <div>
+              <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Can't be applied automatically</h4>
+              <ul className="space-y-1 text-xs">
+                {plan.conflicts.map((c, i) => (
+                  <li key={i} className="text-slate-600 dark:text-slate-400">
+                    <span className="font-semibold text-slate-800 dark:text-slate-200">{c.issue.title}</span>: {c.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 dark:border-slate-800 flex justify-end items-center gap-3">
+          {error && <p role="alert" className="mr-auto text-xs text-red-600 dark:text-red-400">{error}</p>}
+          <Button variant="ghost" onClick={onCancel} disabled={isApplying}>Cancel</Button>
+          <Button onClick={() => onApply(selection)} disabled={selected.length === 0} isLoading={isApplying}>
+            Apply {selected.length} Fix{selected.length === 1 ? '' : 'es'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React from 'react';
+import { FixHistory, FixHistoryEntry, lastApplied, lastUndone, toggleBlocker } from '../services/fixHistory';
+import { FixCheck, FixOutcome, FixVerification } from '../services/fixVerification';
+
+interface FixTimelineProps {
+  history: FixHistory; // Rebased onto the current buffer, so blocked entries show as such
+  verifications?: Record<string, FixVerification>; // By entry id
+  onToggle: (id: string) => void;
+  onRevert?: (id: string, index: number) => void; // Undoes one fix of a multi-fix entry
+  onReveal?: (id: string) => void;
+}
+
+const OUTCOME_STYLES: Record<FixOutcome, { label: string; badge: string }> = {
+  resolved: { label: 'Resolved', badge: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 border-green-200 dark:border-green-800' },
+  unresolved: { label: 'Unresolved', badge: 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-700' },
+  regressed: { label: 'Regressed', badge: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 border-red-200 dark:border-red-800' }
+};
+
+const timeOf = (timestamp: string) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const FixTimeline: React.FC<FixTimelineProps> = ({ history, verifications = {}, onToggle, onRevert, onReveal }) => {
+  if (history.entries.length === 0) return null;
+
+  const undoTarget = lastApplied(history);
+  const redoTarget = lastUndone(history);
+  const appliedCount = history.entries.filter(e => e.status === 'applied').length;
+  const verificationOf = (entry: FixHistoryEntry) => (entry.status === 'applied' && !entry.lost ? verifications[entry.id] : undefined);
+  const regressedCount = history.entries
+    .flatMap(e => verificationOf(e)?.checks || [])
+    .filter(c => c.outcome === 'regressed').length;
+
+  const renderCheck = (entry: FixHistoryEntry, check: FixCheck, index: number, blocker: string | null) => (
+    <li key={index}>
+      <div className="flex items-center gap-2">
+        <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded border uppercase ${OUTCOME_STYLES[check.outcome].badge}`}>
+          {OUTCOME_STYLES[check.outcome].label}
+        </span>
+        <span className="text-slate-700 dark:text-slate-300">{check.issue.title}</span>
+        {check.issue.filePath && <span className="font-mono text-slate-400">{check.issue.filePath}</span>}
+        {onRevert && entry.hunks.length > 1 && (
+          <button
+            onClick={() => onRevert(entry.id, index)}
+            disabled={!!blocker}
+            title={blocker || 'Undo this fix only'}
+            className="ml-auto font-semibold text-indigo-600 dark:text-indigo-400 hover:underline disabled:text-slate-300 dark:disabled:text-slate-600 disabled:no-underline disabled:cursor-not-allowed"
+          >
+            Revert
+          </button>
+        )}
+      </div>
+      {check.introduced.length > 0 && (
+        <ul className="mt-0.5 ml-4 list-disc text-red-700 dark:text-red-400">
+          {check.introduced.map((issue, i) => (
+            <li key={`${issue.id}-${i}`}>Introduced {issue.severity.toLowerCase()}: {issue.title}</li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+
+  const renderEntry = (entry: FixHistoryEntry) => {
+    const blocker = toggleBlocker(history, entry);
+    const undone = entry.status === 'undone';
+    const verification = verificationOf(entry);
+    const issues = entry.hunks.map(h => h.issue);
+    return (
+      <li key={entry.id} className="relative pl-5">
+        <span className={`absolute left-0 top-1.5 w-2.5 h-2.5 rounded-full border-2 ${
+          entry.lost ? 'border-slate-300 dark:border-slate-600' : undone ? 'border-slate-400 bg-white dark:bg-slate-900' : 'border-green-500 bg-green-500'
+        }`}></span>
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0 flex-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className={`text-sm font-medium ${undone ? 'line-through text-slate-400' : 'text-slate-800 dark:text-slate-200'}`}>{entry.label}</span>
+              <span className="text-[11px] font-mono text-slate-400">{timeOf(entry.timestamp)}</span>
+              {undone && <span className="text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400">Undone</span>}
+            </div>
+            {verification ? (
+              <ul className="mt-1 text-xs space-y-1">{verification.checks.map((check, i) => renderCheck(entry, check, i, blocker))}</ul>
+            ) : issues.length > 1 ? (
+              <ul className="mt-1 text-xs text-slate-500 dark:text-slate-400 space-y-0.5">
+                {issues.map((issue, i) => (
+                  <li key={`${issue.id}-${i}`}>{issue.title}{issue.filePath ? ` · ${issue.filePath}` : ''}</li>
+                ))}
+              </ul>
+            ) : issues[0]?.filePath && (
+              <div className="text-xs font-mono text-slate-500 dark:text-slate-400">{issues[0].filePath}</div>
+            )}
+            {blocker && <p className="mt-1 text-xs text-amber-700 dark:text-amber-400">{blocker}</p>}
+          </div>
+          <div className="flex gap-3 flex-none text-xs font-semibold">
+            {onReveal && !entry.lost && (
+              <button onClick={() => onReveal(entry.id)} className="text-slate-500 dark:text-slate-400 hover:underline">Show</button>
+            )}
+            <button
+              onClick={() => onToggle(entry.id)}
+              disabled={!!blocker}
+              title={blocker || undefined}
+              className="text-indigo-600 dark:text-indigo-400 hover:underline disabled:text-slate-300 dark:disabled:text-slate-600 disabled:no-underline disabled:cursor-not-allowed"
+            >
+              {undone ? 'Redo' : 'Undo'}
+            </button>
+          </div>
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className="rounded-lg border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 p-4 animate-in fade-in">
+      <div className="flex justify-between items-center mb-3">
+        <div>
+          <h4 className="font-bold text-sm text-slate-900 dark:text-white">Fix History</h4>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {appliedCount} of {history.entries.length} change{history.entries.length === 1 ? '' : 's'} applied this session. Any fix can be undone unless a later change touched its code.
+          </p>
+          {regressedCount > 0 && (
+            <p className="text-xs font-semibold text-red-600 dark:text-red-400 mt-0.5">
+              {regressedCount} fix{regressedCount === 1 ? '' : 'es'} introduced new findings. Review or revert {regressedCount === 1 ? 'it' : 'them'}.
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2 text-xs font-semibold">
+          <button
+            onClick={() => undoTarget && onToggle(undoTarget.id)}
+            disabled={!undoTarget}
+            title={undoTarget ? `Undo "${undoTarget.label}"` : undefined}
+            className="px-2 py-1 rounded border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            ↶ Undo
+          </button>
+          <button
+            onClick={() => redoTarget && onToggle(redoTarget.id)}
+            disabled={!redoTarget}
+            title={redoTarget ? `Redo "${redoTarget.label}"` : undefined}
+            className="px-2 py-1 rounded border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            ↷ Redo
+          </button>
+        </div>
+      </div>
+      <ol className="space-y-3 border-l border-slate-200 dark:border-slate-800 ml-1 pl-2">
+        {[...history.entries].reverse().map(renderEntry)}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React from 'react';
+import { Severity } from '../types';
+import { DEFAULT_GATE_POLICY, GATE_CATEGORIES, GatePolicy } from '../services/prGate';
+
+interface GatePolicyEditorProps {
+  policy: GatePolicy;
+  onChange: (policy: GatePolicy) => void;
+}
+
+const DEFAULT_PREDICTION_CONFIDENCE = 70;
+const DEFAULT_EOL_GRACE_DAYS = 180;
+
+const inputClass = 'rounded border px-2 py-1 text-sm bg-white dark:bg-slate-800 border-slate-300 dark:border-slate-700 text-slate-800 dark:text-slate-200';
+const labelClass = 'text-sm text-slate-700 dark:text-slate-300';
+
+const toNumber = (value: string, min: number, max: number) => Math.min(max, Math.max(min, Number(value) || 0));
+
+export const GatePolicyEditor: React.FC<GatePolicyEditorProps> = ({ policy, onChange }) => {
+  const update = (patch: Partial<GatePolicy>) => onChange({ ...policy, ...patch });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className="space-y-1">
+          <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider">Block on severity</span>
+          <select value={policy.failOn} onChange={(e) => update({ failOn: e.target.value as GatePolicy['failOn'] })} className={`w-full ${inputClass}`}>
+            <option value={Severity.CRITICAL}>Critical only</option>
+            <option value={Severity.WARNING}>Warning and above</option>
+            <option value={Severity.INFO}>Any issue</option>
+            <option value="none">Never (use the rules below)</option>
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider">Minimum health score</span>
+          <input type="number" min={0} max={100} value={policy.minScore} onChange={(e) => update({ minScore: toNumber(e.target.value, 0, 100) })} className={`w-full ${inputClass}`} />
+        </label>
+      </div>
+
+      <div className="space-y-1">
+        <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider">Always block (any severity)</span>
+        <div className="flex flex-wrap gap-4">
+          {GATE_CATEGORIES.map(category => (
+            <label key={category} className={`flex items-center gap-1.5 ${labelClass}`}>
+              <input
+                type="checkbox"
+                checked={policy.alwaysBlockCategories.includes(category)}
+                onChange={(e) => update({
+                  alwaysBlockCategories: e.target.checked
+                    ? [...policy.alwaysBlockCategories, category]
+                    : policy.alwaysBlockCategories.filter(c => c !== category)
+                })}
+              />
+              {category}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label className={`flex items-center gap-1.5 ${labelClass}`}>
+          <input
+            type="checkbox"
+            checked={policy.predictionMinConfidence !== null}
+            onChange={(e) => update({ predictionMinConfidence: e.target.checked ? DEFAULT_PREDICTION_CONFIDENCE : null })}
+          />
+          Predictions can block at confidence of at least
+        </label>
+        <input
+          type="number"
+          min={0}
+          max={100}
+          disabled={policy.predictionMinConfidence === null}
+          value={policy.predictionMinConfidence ?? DEFAULT_PREDICTION_CONFIDENCE}
+          onChange={(e) => update({ predictionMinConfidence: toNumber(e.target.value, 0, 100) })}
+          className={`w-20 disabled:opacity-50 ${inputClass}`}
+        />
+        <span className={labelClass}>%</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label className={`flex items-center gap-1.5 ${labelClass}`}>
+          <input
+            type="checkbox"
+            checked={policy.eolGraceDays !== null}
+            onChange={(e) => update({ eolGraceDays: e.target.checked ? DEFAULT_EOL_GRACE_DAYS : null })}
+          />
+          Only block issues whose end of life is within
+        </label>
+        <input
+          type="number"
+          min={0}
+          disabled={policy.eolGraceDays === null}
+          value={policy.eolGraceDays ?? DEFAULT_EOL_GRACE_DAYS}
+          onChange={(e) => update({ eolGraceDays: toNumber(e.target.value, 0, 3650) })}
+          className={`w-20 disabled:opacity-50 ${inputClass}`}
+        />
+        <span className={labelClass}>days</span>
+      </div>
+
+      <button onClick={() => onChange(DEFAULT_GATE_POLICY)} className="text-xs font-semibold text-slate-500 dark:text-slate-400 hover:underline">
+        Reset to default (any issue blocks)
+      </button>
+    </div>
+  );
+};
@@ -1,18 +1,30 @@
 import React, { useState } from 'react';
 import { Issue, Severity } from '../types';
+import { hasFix } from '../services/fixApplier';
 
 interface IssueCardProps {
   issue: Issue;
   onApplyFix?: (issue: Issue) => void;
   onLocate?: (issue: Issue) => void;
+  onSuppress?: (issue: Issue, reason: string, expires?: string) => void;
+  onUnsuppress?: (issue: Issue) => void;
 }
 
-export const IssueCard: React.FC<IssueCardProps> = ({ issue, onApplyFix, onLocate }) => {
+export const IssueCard: React.FC<IssueCardProps> = ({ issue, onApplyFix, onLocate, onSuppress, onUnsuppress }) => {
   const [expanded, setExpanded] = useState(false);
+  const [suppressing, setSuppressing] = useState(false);
+  const [reason, setReason] = useState('');
+  const [expires, setExpires] = useState('');
+  const suppression = issue.suppression;
+  const isSuppressed = !!suppression && !suppression.expired;
 
   // Styling logic based on Prediction vs Standard Issue
   const isPrediction = issue.isPrediction;
 
+  // Rules that can't rewrite the matched line only offer the catalog's migration example
+  const fixable = hasFix(issue);
+  const suggestion = fixable ? issue.replacementCode : issue.exampleCode;
+
   const severityColors = {
     [Severity.CRITICAL]: 'border-l-red-500 text-red-700 dark:text-red-400 bg-red-50 dark:bg-red-900/10',
     [Severity.WARNING]: 'border-l-amber-500 text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/10',
@@ -35,7 +47,7 @@ export const IssueCard: React.FC<IssueCardProps> = ({ issue, onApplyFix, onLocat
     : `${severityColors[issue.severity]} border-l-4`;
 
   return (
-    <div className={`rounded-lg overflow-hidden transition-all duration-300 ${containerClass}`}>
+    <div className={`rounded-lg overflow-hidden transition-all duration-300 ${containerClass} ${isSuppressed ? 'opacity-60 hover:opacity-100' : ''}`}>
       <div 
         className={`p-4 cursor-pointer flex justify-between items-start ${headerClass}`}
         onClick={() => setExpanded(!expanded)}
@@ -60,6 +72,21 @@ export const IssueCard: React.FC<IssueCardProps> = ({ issue, onApplyFix, onLocat
               {issue.category}
             </span>
             
+            {issue.filePath && (
+              <span className="text-[10px] text-slate-500 dark:text-slate-400 font-mono truncate max-w-[16rem]" title={issue.filePath}>
+                {issue.filePath}{issue.startLine ? `:${issue.startLine}` : ''}
+              </span>
+            )}
+
+            {suppression && (
+              <span
+                className={`text-[10px] font-bold px-2 py-0.5 rounded-full uppercase tracking-wide border ${suppression.expired ? 'bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-300 border-orange-200 dark:border-orange-800' : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 border-slate-300 dark:border-slate-600'}`}
+                title={suppression.reason}
+              >
+                {suppression.expired ? `Suppression expired ${suppression.expires}` : `Suppressed${suppression.expires ? ` until ${suppression.expires}` : ''}`}
+              </span>
+            )}
+
             <span className="text-[10px] text-slate-400 dark:text-slate-500 font-mono flex items-center gap-1">
               <span>EOL:</span>
               <span className={isPrediction ? "text-violet-600 dark:text-violet-400 font-bold" : ""}>{issue.estimatedEndOfLife}</span>
@@ -134,6 +161,64 @@ export const IssueCard: React.FC<IssueCardProps> = ({ issue, onApplyFix, onLocat
             <p className="text-sm text-slate-700 dark:text-slate-300 leading-relaxed">{issue.description}</p>
           </div>
 
+          {/* Baseline: accepted findings stay listed but don't block or score */}
+          {suppression ? (
+            <div className="flex justify-between items-center gap-4 rounded-md border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 px-3 py-2 text-sm">
+              <span className="text-slate-600 dark:text-slate-300">
+                <span className="font-semibold">{suppression.expired ? 'Suppression expired' : 'Suppressed'}:</span> {suppression.reason}
+              </span>
+              {onUnsuppress && (
+                <button onClick={() => onUnsuppress(issue)} className="flex-none text-xs font-semibold text-indigo-600 dark:text-indigo-400 hover:underline">
+                  {suppression.expired ? 'Remove entry' : 'Unsuppress'}
+                </button>
+              )}
+            </div>
+          ) : onSuppress && (
+            suppressing ? (
+              <form
+                className="flex flex-wrap items-end gap-2 rounded-md border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-3"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (!reason.trim()) return;
+                  onSuppress(issue, reason.trim(), expires || undefined);
+                  setSuppressing(false);
+                  setReason('');
+                  setExpires('');
+                }}
+              >
+                <label className="flex-1 min-w-[12rem] text-xs font-semibold text-slate-500 dark:text-slate-400 space-y-1">
+                  <span>Reason</span>
+                  <input
+                    autoFocus
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Why is this finding accepted?"
+                    className="w-full rounded border px-2 py-1 text-sm font-normal bg-white dark:bg-slate-900 border-slate-300 dark:border-slate-600 text-slate-800 dark:text-slate-200"
+                  />
+                </label>
+                <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 space-y-1">
+                  <span>Expires (optional)</span>
+                  <input
+                    type="date"
+                    value={expires}
+                    onChange={(e) => setExpires(e.target.value)}
+                    className="block rounded border px-2 py-1 text-sm font-normal bg-white dark:bg-slate-900 border-slate-300 dark:border-slate-600 text-slate-800 dark:text-slate-200"
+                  />
+                </label>
+                <button type="submit" disabled={!reason.trim()} className="px-3 py-1.5 text-xs font-semibold rounded bg-slate-900 dark:bg-slate-600 text-white disabled:opacity-50">
+                  Add to Baseline
+                </button>
+                <button type="button" onClick={() => setSuppressing(false)} className="px-3 py-1.5 text-xs font-semibold rounded text-slate-500 hover:text-slate-700 dark:hover:text-slate-300">
+                  Cancel
+                </button>
+              </form>
+            ) : (
+              <button onClick={() => setSuppressing(true)} className="text-xs font-semibold text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:underline">
+                Accept this finding (add to baseline)…
+              </button>
+            )
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
               <div className="flex justify-between items-center h-6">
@@ -167,9 +252,9 @@ export const IssueCard: React.FC<IssueCardProps> = ({ issue, onApplyFix, onLocat
               <div className="flex justify-between items-center h-6">
                  <h4 className={`text-xs font-semibold uppercase tracking-wider flex items-center gap-1 ${isPrediction ? 'text-violet-600 dark:text-violet-400' : 'text-green-600 dark:text-green-400'}`}>
                     <div className={`w-1.5 h-1.5 rounded-full ${isPrediction ? 'bg-violet-500' : 'bg-green-500'}`}></div> 
-                    {isPrediction ? 'Future-Proof Replacement' : 'Suggested Fix'}
+                    {!fixable ? 'Migration Example' : isPrediction ? 'Future-Proof Replacement' : 'Suggested Fix'}
                  </h4>
-                 {onApplyFix && (
+                 {onApplyFix && fixable && (
                     <button 
                       onClick={(e) => {
                         e.stopPropagation();
@@ -185,7 +270,7 @@ export const IssueCard: React.FC<IssueCardProps> = ({ issue, onApplyFix, onLocat
                  )}
               </div>
               <pre className={`border rounded-md p-3 text-xs font-mono overflow-x-auto shadow-inner ${isPrediction ? 'bg-violet-50 dark:bg-violet-900/10 border-violet-200 dark:border-violet-900/30 text-violet-900 dark:text-violet-300' : 'bg-green-50 dark:bg-green-900/10 border-green-200 dark:border-green-900/30 text-green-900 dark:text-green-300'}`}>
-                <code>{issue.replacementCode}</code>
+                <code>{suggestion || 'No automatic fix; see the description and documentation.'}</code>
               </pre>
             </div>
           </div>
@@ -1,21 +1,39 @@
 import React from 'react';
 import { AnalysisReport, PrStatus } from '../types';
 import { Button } from './Button';
+import { isSuppressed } from '../services/scoring';
+import { describePolicy, GatePolicy, GateResult, GateRule } from '../services/prGate';
+import { DiffScanResult } from '../services/prDiffScan';
+import { hasFix } from '../services/fixApplier';
 
 interface PrDashboardProps {
   status: PrStatus;
   report: AnalysisReport | null;
   onFixAll: () => void;
-  onBlock: () => void;
-  onAllow: () => void;
   onCommit?: () => void;
+  isCommitting?: boolean;
+  gate: GateResult | null;
+  policy: GatePolicy;
+  diffScan?: DiffScanResult | null; // Set when only the PR's changed hunks were scanned
 }
 
-export const PrDashboard: React.FC<PrDashboardProps> = ({ status, report, onFixAll, onBlock, onAllow, onCommit }) => {
+const RULE_LABELS: Record<GateRule, string> = {
+  category: 'Always-block category',
+  severity: 'Severity threshold',
+  score: 'Minimum health score'
+};
+
+export const PrDashboard: React.FC<PrDashboardProps> = ({ status, report, onFixAll, onCommit, isCommitting, gate, policy, diffScan }) => {
   if (status === 'idle') return null;
 
-  const issueCount = report?.issues.length || 0;
-  const criticalCount = report?.issues.filter(i => i.severity === 'Critical').length || 0;
+  // Findings accepted in the baseline file never block a merge
+  const activeIssues = report?.issues.filter(i => !isSuppressed(i)) || [];
+  const suppressedCount = (report?.issues.length || 0) - activeIssues.length;
+  const blockingIssues = gate?.blockingIssues || [];
+  const issueCount = blockingIssues.length;
+  const criticalCount = blockingIssues.filter(i => i.severity === 'Critical').length;
+  const nonBlockingCount = activeIssues.length - issueCount;
+  const ruleFor = (issueId: string) => gate?.violations.find(v => v.issues.some(i => i.id === issueId))?.rule;
 
   return (
     <div className="animate-in fade-in slide-in-from-bottom-2">
@@ -45,7 +63,11 @@ export const PrDashboard: React.FC<PrDashboardProps> = ({ status, report, onFixA
                 </div>
                 <div>
                    <h2 className="text-2xl font-bold text-red-700 dark:text-red-400">PR Blocked: Deprecated Code Detected</h2>
-                   <p className="text-red-600 dark:text-red-300 mt-1">{issueCount} issues found ({criticalCount} critical) preventing merge.</p>
+                   <p className="text-red-600 dark:text-red-300 mt-1">
+                     {issueCount > 0 ? `${issueCount} issues found (${criticalCount} critical) preventing merge.` : 'The scan does not meet the merge policy.'}
+                     {nonBlockingCount > 0 && ` ${nonBlockingCount} more allowed by the policy.`}
+                   </p>
+                   {suppressedCount > 0 && <p className="text-xs text-red-500 dark:text-red-400 mt-1">{suppressedCount} more accepted in the baseline file.</p>}
                 </div>
              </>
           )}
@@ -59,14 +81,17 @@ export const PrDashboard: React.FC<PrDashboardProps> = ({ status, report, onFixA
                 </div>
                 <div>
                    <h2 className="text-2xl font-bold text-green-700 dark:text-green-400">All Checks Passed</h2>
-                   <p className="text-green-600 dark:text-green-300 mt-1">Codebase is future-proof and ready to merge.</p>
+                   <p className="text-green-600 dark:text-green-300 mt-1">
+                     {nonBlockingCount > 0 ? `${nonBlockingCount} issue(s) found, none blocking under the merge policy.` : 'Codebase is future-proof and ready to merge.'}
+                   </p>
+                   {suppressedCount > 0 && <p className="text-xs text-green-600 dark:text-green-400 mt-1">{suppressedCount} known issue(s) accepted in the baseline file.</p>}
                 </div>
                 {onCommit && (
                     <div className="mt-4">
-                        <Button onClick={onCommit} className="bg-green-600 hover:bg-green-700 text-white shadow-lg">
+                        <Button onClick={onCommit} isLoading={isCommitting} className="bg-green-600 hover:bg-green-700 text-white shadow-lg">
                             <span className="flex items-center gap-2">
                                 <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
-                                Commit Changes to GitHub
+                                Commit Fixes to a New Branch
                             </span>
                         </Button>
                     </div>
@@ -76,29 +101,51 @@ export const PrDashboard: React.FC<PrDashboardProps> = ({ status, report, onFixA
         </div>
       </div>
 
+      {diffScan && status !== 'checking' && (
+        <div className="mb-8 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg p-4 shadow-sm">
+           <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm mb-3">
+              <span className="text-slate-700 dark:text-slate-300"><span className="font-bold">{diffScan.files.length}</span> file(s) changed</span>
+              <span className="text-red-600 dark:text-red-400"><span className="font-bold">{diffScan.newIssues.length}</span> introduced by this PR</span>
+              <span className="text-slate-500 dark:text-slate-400"><span className="font-bold">{diffScan.existingIssues.length}</span> already on the base branch (not counted)</span>
+              <span className="text-green-600 dark:text-green-400"><span className="font-bold">{diffScan.resolvedIssues.length}</span> fixed by this PR</span>
+           </div>
+           <ul className="text-xs font-mono text-slate-500 dark:text-slate-400 space-y-0.5 max-h-32 overflow-y-auto">
+              {diffScan.files.map(file => (
+                 <li key={file.path}>
+                    <span className="text-green-600 dark:text-green-400">+{file.additions}</span>{' '}
+                    <span className="text-red-600 dark:text-red-400">-{file.deletions}</span>{' '}
+                    {file.path}{file.status !== 'modified' && <span className="italic"> ({file.status})</span>}
+                 </li>
+              ))}
+           </ul>
+        </div>
+      )}
+
       {status === 'blocked' && report && (
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
            {/* Actions Panel */}
            <div className="lg:col-span-1 space-y-4">
               <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg p-6 shadow-sm">
-                 <h3 className="font-bold text-slate-900 dark:text-slate-100 mb-4">Merge Policies</h3>
+                 <h3 className="font-bold text-slate-900 dark:text-slate-100 mb-4">Why This PR Is Blocked</h3>
                  <div className="space-y-3">
-                    <div className="flex items-center gap-3 p-3 bg-red-50 dark:bg-red-900/10 rounded border border-red-100 dark:border-red-900/30">
-                       <div className="w-2 h-2 rounded-full bg-red-500"></div>
-                       <div className="text-sm">
-                          <span className="font-semibold text-red-900 dark:text-red-300">Critical Deprecations</span>
-                          <p className="text-red-700 dark:text-red-400 text-xs">Must be resolved</p>
+                    {gate?.violations.map(violation => (
+                       <div key={violation.rule} className="flex items-start gap-3 p-3 bg-red-50 dark:bg-red-900/10 rounded border border-red-100 dark:border-red-900/30">
+                          <div className="w-2 h-2 mt-1.5 rounded-full bg-red-500 flex-none"></div>
+                          <div className="text-sm">
+                             <span className="font-semibold text-red-900 dark:text-red-300">{RULE_LABELS[violation.rule]}</span>
+                             <p className="text-red-700 dark:text-red-400 text-xs">{violation.message}</p>
+                          </div>
                        </div>
-                    </div>
-                    <div className="flex items-center gap-3 p-3 bg-violet-50 dark:bg-violet-900/10 rounded border border-violet-100 dark:border-violet-900/30">
-                       <div className="w-2 h-2 rounded-full bg-violet-500"></div>
-                       <div className="text-sm">
-                          <span className="font-semibold text-violet-900 dark:text-violet-300">Future Predictions</span>
-                          <p className="text-violet-700 dark:text-violet-400 text-xs">Warning only (6-month grace)</p>
-                       </div>
-                    </div>
+                    ))}
                  </div>
 
+                 <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mt-6 mb-2">Merge Policy</h4>
+                 <ul className="space-y-1 text-xs text-slate-600 dark:text-slate-400 list-disc list-inside">
+                    {describePolicy(policy).map(line => <li key={line}>{line}</li>)}
+                 </ul>
+
+                 {/* Diff scans only see excerpts, so there is no buffer to migrate */}
+                 {!diffScan && (
                  <div className="mt-6 space-y-3">
                     <Button onClick={onFixAll} className="w-full bg-slate-900 dark:bg-indigo-600 dark:hover:bg-indigo-700 hover:bg-slate-800 shadow-lg group relative overflow-hidden">
                         <div className="absolute inset-0 bg-gradient-to-r from-violet-600 to-indigo-600 opacity-0 group-hover:opacity-20 transition-opacity"></div>
@@ -107,14 +154,8 @@ export const PrDashboard: React.FC<PrDashboardProps> = ({ status, report, onFixA
                             <svg className="w-4 h-4 text-slate-400 group-hover:text-white transition-colors" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
                         </span>
                     </Button>
-                    <div className="text-center text-xs text-slate-400 my-2">- OR -</div>
-                    <button onClick={onBlock} className="w-full py-2 text-sm font-semibold text-red-600 dark:text-red-400 border border-red-200 dark:border-red-800 rounded bg-red-50 dark:bg-red-900/20 hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors">
-                        Block Pull Request
-                    </button>
-                    <button onClick={onAllow} className="w-full py-2 text-sm font-semibold text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 transition-colors">
-                        Override & Allow (Unsafe)
-                    </button>
                  </div>
+                 )}
               </div>
            </div>
 
@@ -124,7 +165,7 @@ export const PrDashboard: React.FC<PrDashboardProps> = ({ status, report, onFixA
                    Blocking Issues 
                    <span className="bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 text-xs px-2 py-0.5 rounded-full">{issueCount}</span>
                </h3>
-               {report.issues.map((issue) => (
+               {blockingIssues.map((issue) => (
                    <div key={issue.id} className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg overflow-hidden shadow-sm">
                        <div className="px-4 py-3 bg-slate-50 dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700 flex justify-between items-center">
                            <div className="flex items-center gap-2">
@@ -134,8 +175,13 @@ export const PrDashboard: React.FC<PrDashboardProps> = ({ status, report, onFixA
                                    {issue.severity}
                                </span>
                                <span className="text-sm font-medium text-slate-700 dark:text-slate-200">{issue.title}</span>
+                               {ruleFor(issue.id) === 'category' && (
+                                   <span className="text-[10px] font-semibold text-red-600 dark:text-red-400">{issue.category} always blocks</span>
+                               )}
                            </div>
-                           <span className="text-xs text-slate-400 font-mono">File: src/main.ts</span> 
+                           {issue.filePath && (
+                               <span className="text-xs text-slate-400 font-mono">File: {issue.filePath}{issue.startLine ? `:${issue.startLine}` : ''}</span>
+                           )}
                        </div>
                        <div className="p-4 grid grid-cols-2 gap-4">
                            <div>
@@ -145,9 +191,9 @@ export const PrDashboard: React.FC<PrDashboardProps> = ({ status, report, onFixA
                                </pre>
                            </div>
                            <div>
-                               <div className="text-[10px] uppercase font-bold text-green-500 mb-1">Migration</div>
+                               <div className="text-[10px] uppercase font-bold text-green-500 mb-1">{hasFix(issue) ? 'Migration' : 'Migration Example'}</div>
                                <pre className="text-xs bg-green-50 dark:bg-green-900/10 text-green-900 dark:text-green-200 p-2 rounded border border-green-100 dark:border-green-900/30 overflow-x-auto">
-                                   <code>{issue.replacementCode}</code>
+                                   <code>{hasFix(issue) ? issue.replacementCode : issue.exampleCode}</code>
                                </pre>
                            </div>
                        </div>
@@ -0,0 +1,166 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import { Issue, Severity } from '../types';
+import { buildTrend, diffRuns, HistoryEntry } from '../services/reportHistory';
+
+interface ReportHistoryProps {
+  projectId: string;
+  entries: HistoryEntry[];
+  isLoading: boolean;
+  backendOnline: boolean;
+  onOpenRun: (entry: HistoryEntry) => void;
+}
+
+const SEVERITY_DOT: Record<Severity, string> = {
+  [Severity.CRITICAL]: 'bg-red-500',
+  [Severity.WARNING]: 'bg-amber-500',
+  [Severity.INFO]: 'bg-blue-500'
+};
+
+const runLabel = (entry: HistoryEntry) =>
+  `${new Date(entry.timestamp).toLocaleString()} — score ${entry.report.overallHealthScore}, ${entry.report.issues.length} issue(s)`;
+
+const IssueList: React.FC<{ title: string; issues: Issue[]; tone: 'red' | 'green' }> = ({ title, issues, tone }) => (
+  <div className="rounded-lg border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 overflow-hidden">
+    <div className={`px-4 py-2 text-xs font-bold uppercase tracking-wider border-b border-slate-100 dark:border-slate-800 ${tone === 'red' ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+      {title} ({issues.length})
+    </div>
+    {issues.length === 0 ? (
+      <p className="px-4 py-3 text-sm text-slate-400">None</p>
+    ) : (
+      <ul className="divide-y divide-slate-100 dark:divide-slate-800 max-h-80 overflow-y-auto">
+        {issues.map((issue, i) => (
+          <li key={`${issue.id}-${i}`} className="px-4 py-2 text-sm">
+            <div className="flex items-center gap-2">
+              <span className={`w-2 h-2 rounded-full flex-none ${SEVERITY_DOT[issue.severity]}`}></span>
+              <span className="font-medium text-slate-800 dark:text-slate-200">{issue.title}</span>
+            </div>
+            {issue.filePath && (
+              <div className="ml-4 text-xs font-mono text-slate-400">{issue.filePath}{issue.startLine ? `:${issue.startLine}` : ''}</div>
+            )}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export const ReportHistory: React.FC<ReportHistoryProps> = ({ projectId, entries, isLoading, backendOnline, onOpenRun }) => {
+  const [baseId, setBaseId] = useState<string>('');
+  const [headId, setHeadId] = useState<string>('');
+
+  // Default to comparing the two most recent runs
+  useEffect(() => {
+    setHeadId(entries[entries.length - 1]?.id || '');
+    setBaseId(entries[entries.length - 2]?.id || '');
+  }, [entries]);
+
+  const trend = useMemo(() => buildTrend(entries), [entries]);
+  const base = entries.find(e => e.id === baseId);
+  const head = entries.find(e => e.id === headId);
+  const diff = useMemo(() => (base && head ? diffRuns(base.report, head.report) : null), [base, head]);
+
+  const selectClass = 'w-full rounded-md border px-2 py-1.5 text-sm bg-white border-slate-300 text-slate-700 dark:bg-slate-800 dark:border-slate-700 dark:text-slate-300';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-900 dark:text-white">Report History</h2>
+        <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+          <span className="font-mono">{projectId}</span> · {entries.length} run(s) · stored in this browser{backendOnline ? ' and on the backend' : ' (start the backend to keep runs on disk)'}
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-slate-400">Loading history…</p>
+      ) : entries.length === 0 ? (
+        <div className="h-48 flex items-center justify-center text-slate-400 border border-slate-200 dark:border-slate-800 border-dashed rounded-lg bg-slate-50 dark:bg-slate-900">
+          No runs recorded for this project yet. Analyze some code to start a history.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="h-72 w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg p-4 shadow-sm">
+              <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-200 mb-4">Health Score</h3>
+              <ResponsiveContainer width="100%" height="85%">
+                <LineChart data={trend} margin={{ top: 5, right: 20, left: 0, bottom: 0 }}>
+                  <XAxis dataKey="label" tick={{ fontSize: 11 }} stroke="#94a3b8" />
+                  <YAxis domain={[0, 100]} stroke="#94a3b8" tick={{ fontSize: 12 }} />
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                  <Tooltip contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }} />
+                  <Line type="monotone" dataKey="score" name="Health score" stroke="#6366f1" strokeWidth={2} dot={{ r: 3 }} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="h-72 w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg p-4 shadow-sm">
+              <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-200 mb-4">Issues by Severity</h3>
+              <ResponsiveContainer width="100%" height="85%">
+                <LineChart data={trend} margin={{ top: 5, right: 20, left: 0, bottom: 0 }}>
+                  <XAxis dataKey="label" tick={{ fontSize: 11 }} stroke="#94a3b8" />
+                  <YAxis allowDecimals={false} stroke="#94a3b8" tick={{ fontSize: 12 }} />
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                  <Tooltip contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }} />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  <Line type="monotone" dataKey="critical" name="Critical" stroke="#ef4444" strokeWidth={2} />
+                  <Line type="monotone" dataKey="warning" name="Warning" stroke="#f59e0b" strokeWidth={2} />
+                  <Line type="monotone" dataKey="info" name="Info" stroke="#3b82f6" strokeWidth={2} />
+                  <Line type="monotone" dataKey="predictions" name="Predictions" stroke="#8b5cf6" strokeWidth={2} strokeDasharray="4 2" />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="rounded-lg border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 p-4 shadow-sm space-y-4">
+            <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-200">Compare Runs</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="text-xs font-bold text-slate-400 uppercase tracking-wider space-y-1">
+                <span>Base</span>
+                <select value={baseId} onChange={e => setBaseId(e.target.value)} className={selectClass}>
+                  <option value="">Select a run</option>
+                  {entries.map(e => <option key={e.id} value={e.id}>{runLabel(e)}</option>)}
+                </select>
+              </label>
+              <label className="text-xs font-bold text-slate-400 uppercase tracking-wider space-y-1">
+                <span>Compare</span>
+                <select value={headId} onChange={e => setHeadId(e.target.value)} className={selectClass}>
+                  <option value="">Select a run</option>
+                  {entries.map(e => <option key={e.id} value={e.id}>{runLabel(e)}</option>)}
+                </select>
+              </label>
+            </div>
+
+            {diff && base && head ? (
+              <>
+                <p className="text-sm text-slate-600 dark:text-slate-400">
+                  Score {base.report.overallHealthScore} → {head.report.overallHealthScore}
+                  {' '}({head.report.overallHealthScore - base.report.overallHealthScore >= 0 ? '+' : ''}{head.report.overallHealthScore - base.report.overallHealthScore}),
+                  {' '}{diff.unchanged} issue(s) unchanged
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <IssueList title="Introduced" issues={diff.introduced} tone="red" />
+                  <IssueList title="Resolved" issues={diff.resolved} tone="green" />
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-slate-400">Pick two runs to see which issues were introduced or resolved.</p>
+            )}
+          </div>
+
+          <div className="rounded-lg border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 overflow-hidden shadow-sm">
+            <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+              {[...entries].reverse().map(entry => (
+                <li key={entry.id} className="px-4 py-2 flex justify-between items-center text-sm">
+                  <span className="text-slate-700 dark:text-slate-300">{runLabel(entry)}</span>
+                  <button onClick={() => onOpenRun(entry)} className="text-xs font-semibold text-indigo-600 dark:text-indigo-400 hover:underline">
+                    Open report
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Severity } from '../types';
+import { DEFAULT_SCORING_WEIGHTS, ScoringWeights } from '../services/scoring';
+
+interface ScoringWeightsEditorProps {
+  weights: ScoringWeights;
+  onChange: (weights: ScoringWeights) => void;
+}
+
+const SEVERITIES = [Severity.CRITICAL, Severity.WARNING, Severity.INFO];
+const CATEGORIES = Object.keys(DEFAULT_SCORING_WEIGHTS.category) as (keyof ScoringWeights['category'])[];
+
+const inputClass = 'w-20 rounded border px-2 py-1 text-sm bg-white dark:bg-slate-800 border-slate-300 dark:border-slate-700 text-slate-800 dark:text-slate-200';
+const labelClass = 'flex items-center justify-between gap-2 text-sm text-slate-700 dark:text-slate-300';
+const headingClass = 'block text-xs font-bold text-slate-400 uppercase tracking-wider';
+
+const toNumber = (value: string, max = Infinity) => Math.min(max, Math.max(0, Number(value) || 0));
+
+export const ScoringWeightsEditor: React.FC<ScoringWeightsEditorProps> = ({ weights, onChange }) => {
+  const update = (patch: Partial<ScoringWeights>) => onChange({ ...weights, ...patch });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <span className={headingClass}>Points per issue</span>
+          {SEVERITIES.map(severity => (
+            <label key={severity} className={labelClass}>
+              {severity}
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={weights.severity[severity]}
+                onChange={(e) => update({ severity: { ...weights.severity, [severity]: toNumber(e.target.value) } })}
+                className={inputClass}
+              />
+            </label>
+          ))}
+        </div>
+        <div className="space-y-1">
+          <span className={headingClass}>Category multiplier</span>
+          {CATEGORIES.map(category => (
+            <label key={category} className={labelClass}>
+              {category}
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={weights.category[category]}
+                onChange={(e) => update({ category: { ...weights.category, [category]: toNumber(e.target.value) } })}
+                className={inputClass}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className={labelClass}>
+          Prediction multiplier
+          <input type="number" min={0} step="any" value={weights.prediction} onChange={(e) => update({ prediction: toNumber(e.target.value) })} className={inputClass} />
+        </label>
+        <label className={labelClass}>
+          Assumed prediction confidence (%)
+          <input type="number" min={0} max={100} value={weights.defaultPredictionConfidence} onChange={(e) => update({ defaultPredictionConfidence: toNumber(e.target.value, 100) })} className={inputClass} />
+        </label>
+      </div>
+
+      <button onClick={() => onChange(DEFAULT_SCORING_WEIGHTS)} className="text-xs font-semibold text-slate-500 dark:text-slate-400 hover:underline">
+        Reset to default weights
+      </button>
+    </div>
+  );
+};
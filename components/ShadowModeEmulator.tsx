@@ -2,20 +2,13 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { CodeEditor } from './CodeEditor';
 import { Button } from './Button';
+import { Severity } from '../types';
+import { DetectionRule, getRulesForProfile } from '../services/ruleCatalog';
+import { findRuleMatches } from '../services/ruleEngine';
+import { calculateHealthScore } from '../services/scoring';
 
 // --- Types & Interfaces ---
 
-type Severity = 'Critical' | 'Warning' | 'Info';
-
-interface BreakageRule {
-  id: string;
-  pattern: RegExp | string;
-  severity: Severity;
-  message: string;
-  migrationSuggestion: string;
-  fixReplacer?: (code: string, match: string) => string;
-}
-
 interface EmulatorProfile {
   id: string;
   name: string;
@@ -23,7 +16,7 @@ interface EmulatorProfile {
   description: string;
   icon: string;
   colorTheme: string;
-  rules: BreakageRule[];
+  rules: DetectionRule[];
 }
 
 interface EmulationResult {
@@ -38,12 +31,14 @@ interface DetectedBreakage {
   severity: Severity;
   message: string;
   line?: number;
+  column?: number;
   match: string;
   suggestion: string;
 }
 
 // --- Emulator Engine Logic ---
 
+// Rules live in the shared catalog so the scanner and the emulator agree on what breaks
 const EMULATOR_PROFILES: EmulatorProfile[] = [
   {
     id: 'react-19',
@@ -52,38 +47,7 @@ const EMULATOR_PROFILES: EmulatorProfile[] = [
     description: 'Simulates React 19 environment with React Compiler, removal of forwardRef, and strict async component rules.',
     icon: '⚛️',
     colorTheme: 'blue',
-    rules: [
-      {
-        id: 'no-forward-ref',
-        pattern: /forwardRef\s*\(/g,
-        severity: 'Critical',
-        message: 'forwardRef is removed in React 19. Refs are now passed as standard props.',
-        migrationSuggestion: 'Remove forwardRef wrapper and accept "ref" as a prop directly.',
-        fixReplacer: (code) => code.replace(/forwardRef\s*\(\s*(?:async\s*)?function\s*([^(]*)\(([^)]*)\)/g, 'function $1($2)')
-      },
-      {
-        id: 'use-callback-obsolete',
-        pattern: /useCallback\(/g,
-        severity: 'Warning',
-        message: 'useCallback is often redundant with React Compiler auto-memoization.',
-        migrationSuggestion: 'Remove useCallback unless specifically needed for external consumers.',
-        fixReplacer: (code) => code.replace(/useCallback\(\s*\(\)\s*=>\s*{([^}]*)}\s*,\s*\[[^\]]*\]\s*\)/g, '() => { $1 }')
-      },
-      {
-        id: 'no-default-props',
-        pattern: /\.defaultProps\s*=/g,
-        severity: 'Critical',
-        message: 'defaultProps on function components are removed.',
-        migrationSuggestion: 'Use default parameter values in the component function signature.',
-      },
-      {
-        id: 'legacy-lifecycle',
-        pattern: /componentWill(Mount|ReceiveProps|Update)/g,
-        severity: 'Critical',
-        message: 'Legacy lifecycle methods throw runtime errors in React 19.',
-        migrationSuggestion: 'Migrate to useEffect or functional components.',
-      }
-    ]
+    rules: getRulesForProfile('react-19')
   },
   {
     id: 'node-24',
@@ -92,38 +56,7 @@ const EMULATOR_PROFILES: EmulatorProfile[] = [
     description: 'Simulates Node.js 24 environment where CommonJS is disabled by default and legacy FS APIs are gone.',
     icon: '🟢',
     colorTheme: 'green',
-    rules: [
-      {
-        id: 'no-require',
-        pattern: /require\s*\(['"][^'"]+['"]\)/g,
-        severity: 'Critical',
-        message: 'CommonJS "require" is disabled. Module loading failed.',
-        migrationSuggestion: 'Switch to ESM "import" syntax.',
-        fixReplacer: (code) => code.replace(/const\s+(\w+)\s*=\s*require\(['"]([^'"]+)['"]\)/g, 'import $1 from "$2"')
-      },
-      {
-        id: 'no-dirname',
-        pattern: /__dirname/g,
-        severity: 'Critical',
-        message: '__dirname is not defined in ESM modules.',
-        migrationSuggestion: 'Use import.meta.url and fileURLToPath.',
-      },
-      {
-        id: 'fs-exists-removed',
-        pattern: /fs\.exists\(/g,
-        severity: 'Warning',
-        message: 'fs.exists is hard-removed.',
-        migrationSuggestion: 'Use fs.stat() or fs.access().',
-      },
-      {
-        id: 'buffer-constructor',
-        pattern: /new\s+Buffer\(/g,
-        severity: 'Critical',
-        message: 'Buffer() constructor throws SecurityError.',
-        migrationSuggestion: 'Use Buffer.from() or Buffer.alloc().',
-        fixReplacer: (code) => code.replace(/new\s+Buffer\(/g, 'Buffer.from(')
-      }
-    ]
+    rules: getRulesForProfile('node-24')
   },
   {
     id: 'angular-2026',
@@ -132,30 +65,7 @@ const EMULATOR_PROFILES: EmulatorProfile[] = [
     description: 'Simulates Angular 2026. Zone.js is gone, Decorators are deprecated in favor of Signals.',
     icon: '🛡️',
     colorTheme: 'red',
-    rules: [
-      {
-        id: 'input-decorator',
-        pattern: /@Input\(\)/g,
-        severity: 'Warning',
-        message: '@Input decorator usage triggers legacy compatibility mode.',
-        migrationSuggestion: 'Use the new signal-based input() function.',
-        fixReplacer: (code) => code.replace(/@Input\(\)\s*(\w+)\s*:\s*([^;]+);/g, '$1 = input<$2>();')
-      },
-      {
-        id: 'ng-if-directive',
-        pattern: /\*ngIf/g,
-        severity: 'Warning',
-        message: '*ngIf directive is deprecated.',
-        migrationSuggestion: 'Use the new @if block syntax.',
-      },
-      {
-        id: 'zone-usage',
-        pattern: /NgZone/g,
-        severity: 'Critical',
-        message: 'NgZone dependency injection failed. App is running Zoneless.',
-        migrationSuggestion: 'Remove Zone.js dependencies and use Signals for reactivity.',
-      }
-    ]
+    rules: getRulesForProfile('angular-2026')
   },
   {
     id: 'vue-5',
@@ -164,76 +74,43 @@ const EMULATOR_PROFILES: EmulatorProfile[] = [
     description: 'Simulates Vue 5. Options API is removed. V-Model breaking changes.',
     icon: '🔋',
     colorTheme: 'emerald',
-    rules: [
-      {
-        id: 'options-api-data',
-        pattern: /data\s*\(\)\s*\{/g,
-        severity: 'Critical',
-        message: 'Options API "data()" detected. Component failed to mount.',
-        migrationSuggestion: 'Rewrite using Composition API (script setup).',
-      },
-      {
-        id: 'legacy-v-model',
-        pattern: /v-model:value/g,
-        severity: 'Critical',
-        message: 'v-model:value is not supported.',
-        migrationSuggestion: 'Use standard v-model or defineModel().',
-      },
-      {
-        id: 'vue-observable',
-        pattern: /Vue\.observable/g,
-        severity: 'Warning',
-        message: 'Vue.observable is removed.',
-        migrationSuggestion: 'Use reactive() from Vue core.',
-        fixReplacer: (code) => code.replace(/Vue\.observable\(/g, 'reactive(')
-      }
-    ]
+    rules: getRulesForProfile('vue-5')
   }
 ];
 
 // --- Helper Functions ---
 
-const runSimulation = (code: string, profile: EmulatorProfile): EmulationResult => {
+const runSimulation = async (code: string, profile: EmulatorProfile): Promise<EmulationResult> => {
   const breakages: DetectedBreakage[] = [];
   let patchedCode = code;
   const logs: string[] = [`[System] Booting ${profile.name} ${profile.versionLabel} Kernel...`];
 
-  profile.rules.forEach(rule => {
-    // Check regex matches
-    let match;
-    const regex = typeof rule.pattern === 'string' ? new RegExp(rule.pattern, 'g') : rule.pattern;
-    
-    // Reset lastIndex if global
-    regex.lastIndex = 0;
+  const matches = await findRuleMatches(code, profile.rules);
+
+  matches.forEach(m => {
+    breakages.push({
+      ruleId: m.rule.id,
+      severity: m.rule.severity,
+      message: m.rule.message,
+      line: m.line,
+      column: m.column,
+      match: m.match.split('\n')[0],
+      suggestion: m.rule.migrationSuggestion
+    });
+  });
 
-    let hasMatch = false;
-    while ((match = regex.exec(code)) !== null) {
-      hasMatch = true;
-      // Calculate line number
-      const codeUpToMatch = code.substring(0, match.index);
-      const line = codeUpToMatch.split('\n').length;
+  profile.rules.forEach(rule => {
+    if (!matches.some(m => m.rule === rule)) return;
 
-      breakages.push({
-        ruleId: rule.id,
-        severity: rule.severity,
-        message: rule.message,
-        line,
-        match: match[0],
-        suggestion: rule.migrationSuggestion
-      });
+    if (rule.severity === 'Critical') {
+        logs.push(`[Error] Runtime Exception: ${rule.message}`);
+    } else {
+        logs.push(`[Warn] Deprecation Notice: ${rule.message}`);
     }
 
-    if (hasMatch) {
-       if (rule.severity === 'Critical') {
-           logs.push(`[Error] Runtime Exception: ${rule.message}`);
-       } else {
-           logs.push(`[Warn] Deprecation Notice: ${rule.message}`);
-       }
-
-       // Attempt simple patch
-       if (rule.fixReplacer) {
-           patchedCode = rule.fixReplacer(patchedCode, "");
-       }
+    // Attempt simple patch
+    if (rule.fixReplacer) {
+        patchedCode = rule.fixReplacer(patchedCode);
     }
   });
 
@@ -243,14 +120,8 @@ const runSimulation = (code: string, profile: EmulatorProfile): EmulationResult
       logs.push(`[System] Process terminated with ${breakages.length} issues.`);
   }
 
-  // Calculate Score (Simple Algorithm)
-  let score = 100;
-  breakages.forEach(b => {
-    if (b.severity === 'Critical') score -= 25;
-    if (b.severity === 'Warning') score -= 10;
-    if (b.severity === 'Info') score -= 2;
-  });
-  score = Math.max(0, score);
+  // Same scoring as the scanner; in the emulated runtime every breakage is real, not a prediction
+  const score = calculateHealthScore(matches.map(m => ({ severity: m.rule.severity, category: m.rule.category })));
 
   return {
     score,
@@ -269,6 +140,7 @@ export const ShadowModeEmulator: React.FC = () => {
   // State for manual simulation Trigger
   const [simulationResult, setSimulationResult] = useState<EmulationResult | null>(null);
   const [isBooting, setIsBooting] = useState(false);
+  const [simulationError, setSimulationError] = useState<string | null>(null); // Why the last run failed, e.g. the compiler didn't load
 
   const activeProfile = useMemo(() => 
     EMULATOR_PROFILES.find(p => p.id === activeProfileId) || EMULATOR_PROFILES[0], 
@@ -277,12 +149,17 @@ export const ShadowModeEmulator: React.FC = () => {
   const handleStartSimulation = () => {
     setIsBooting(true);
     setSimulationResult(null); // Clear previous result
+    setSimulationError(null);
     
     // Simulate "Booting" time for effect
-    setTimeout(() => {
-        const result = runSimulation(code, activeProfile);
-        setSimulationResult(result);
-        setIsBooting(false);
+    setTimeout(async () => {
+        try {
+            setSimulationResult(await runSimulation(code, activeProfile));
+        } catch (err: any) {
+            setSimulationError(err?.message || 'The simulation failed.');
+        } finally {
+            setIsBooting(false);
+        }
     }, 1200);
   };
 
@@ -387,7 +264,16 @@ export const ShadowModeEmulator: React.FC = () => {
          {/* Right Panel: Emulator Output */}
          <div className="flex flex-col gap-4">
             
-            {!simulationResult && !isBooting ? (
+            {simulationError && !isBooting ? (
+                // --- ERROR STATE ---
+                <div role="alert" className="h-full bg-white dark:bg-slate-900 border border-red-200 dark:border-red-900/50 rounded-xl flex flex-col items-center justify-center text-center p-8 shadow-sm">
+                    <h3 className="text-xl font-bold text-red-600 dark:text-red-400">Simulation Failed</h3>
+                    <p className="text-slate-500 dark:text-slate-400 max-w-sm mt-2 font-mono text-sm break-words">{simulationError}</p>
+                    <p className="text-slate-500 max-w-sm mt-2">
+                        Check your connection (the analyzer loads the TypeScript compiler on first use) and click <span className="text-slate-700 dark:text-slate-300 font-semibold">Start Simulation</span> to try again.
+                    </p>
+                </div>
+            ) : !simulationResult && !isBooting ? (
                 // --- IDLE STATE ---
                 <div className="h-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl flex flex-col items-center justify-center text-center p-8 border-dashed shadow-sm">
                     <div className={`w-20 h-20 rounded-full bg-gradient-to-br ${themeColors} flex items-center justify-center mb-6 opacity-20`}>
@@ -405,9 +291,9 @@ export const ShadowModeEmulator: React.FC = () => {
                         Let's keep it somewhat terminal-like but cleaner. */}
                     <div className="absolute inset-0 bg-[url('https://grainy-gradients.vercel.app/noise.svg')] opacity-10"></div>
                     <div className="font-mono text-green-500 text-xs mb-4 w-64 text-left space-y-1 z-10">
-                        <div>> boot {activeProfile.id}</div>
-                        <div>> mounting virtual_fs...</div>
-                        <div className="animate-pulse">> loading static_analyzer...</div>
+                        <div>{'>'} boot {activeProfile.id}</div>
+                        <div>{'>'} mounting virtual_fs...</div>
+                        <div className="animate-pulse">{'>'} loading static_analyzer...</div>
                     </div>
                     <div className="w-64 h-1 bg-slate-800 rounded-full overflow-hidden z-10">
                         <div className={`h-full bg-gradient-to-r ${themeColors} animate-[shimmer_1s_infinite]`}></div>
@@ -474,7 +360,7 @@ export const ShadowModeEmulator: React.FC = () => {
                                         <h4 className={`text-sm font-bold ${b.severity === 'Critical' ? 'text-red-700 dark:text-red-400' : 'text-amber-700 dark:text-amber-400'}`}>
                                             {b.message}
                                         </h4>
-                                        <span className="text-[10px] font-mono text-slate-500">Line {b.line}</span>
+                                        <span className="text-[10px] font-mono text-slate-500">Line {b.line}{b.column ? `:${b.column}` : ''}</span>
                                     </div>
                                     <div className="bg-white dark:bg-slate-950/50 p-2 rounded border border-slate-200 dark:border-slate-800/50 font-mono text-xs text-slate-600 dark:text-slate-400 mb-2 truncate">
                                         {b.match}
@@ -1,39 +1,14 @@
 import React from 'react';
 import { ResponsiveContainer, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts';
 import { Issue } from '../types';
+import { buildEolTimeline } from '../services/timeline';
 
 interface TimelineChartProps {
   issues: Issue[];
 }
 
 export const TimelineChart: React.FC<TimelineChartProps> = ({ issues }) => {
-  // Process data to group by EOL year/quarter
-  const data = React.useMemo(() => {
-    const sortedIssues = [...issues].filter(i => i.estimatedEndOfLife !== 'Unknown');
-    const timelineMap = new Map<string, number>();
-
-    // Seed next 12 months
-    const today = new Date();
-    for (let i = 0; i < 12; i++) {
-        const d = new Date(today.getFullYear(), today.getMonth() + i, 1);
-        const key = d.toISOString().slice(0, 7); // YYYY-MM
-        timelineMap.set(key, 0);
-    }
-
-    sortedIssues.forEach(issue => {
-      const dateStr = issue.estimatedEndOfLife.slice(0, 7); // YYYY-MM
-      if (timelineMap.has(dateStr)) {
-        timelineMap.set(dateStr, (timelineMap.get(dateStr) || 0) + 1);
-      } else {
-        // Only add if it falls within reasonable future range or exists
-         timelineMap.set(dateStr, (timelineMap.get(dateStr) || 0) + 1);
-      }
-    });
-
-    return Array.from(timelineMap.entries())
-      .sort((a, b) => a[0].localeCompare(b[0]))
-      .map(([date, count]) => ({ date, count }));
-  }, [issues]);
+  const data = React.useMemo(() => buildEolTimeline(issues), [issues]);
 
   if (data.length === 0) return (
       <div className="h-64 flex items-center justify-center text-slate-400 border border-slate-200 border-dashed rounded-lg bg-slate-50">
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Button } from './Button';
+import { TypeDiagnostic } from '../services/typeCheck';
+
+interface TypeCheckReportProps {
+  diagnostics: TypeDiagnostic[];
+  error?: string; // The check couldn't run, which blocks the commit just the same
+  onOverride: () => void;
+  onDismiss: () => void;
+}
+
+export const TypeCheckReport: React.FC<TypeCheckReportProps> = ({ diagnostics, error, onOverride, onDismiss }) => {
+  if (diagnostics.length === 0 && !error) return null;
+
+  return (
+    <div className="rounded-lg border p-4 bg-red-50 border-red-200 dark:bg-red-900/20 dark:border-red-900/50 animate-in fade-in">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h4 className="font-bold text-sm text-red-900 dark:text-red-300">
+            {error
+              ? 'Commit blocked: the type check could not run'
+              : `Commit blocked: ${diagnostics.length} new type error${diagnostics.length === 1 ? '' : 's'}`}
+          </h4>
+          <p className="text-xs text-red-800 dark:text-red-400 mt-0.5">
+            {error
+              ? `${error} Commit again to retry, or commit anyway without the check.`
+              : "The fixes leave these errors that the scanned files didn't have. Fix them in the editor and commit again, or commit anyway."}
+          </p>
+        </div>
+        <button onClick={onDismiss} className="text-xs font-semibold text-red-800 dark:text-red-300 hover:underline flex-none">
+          Dismiss
+        </button>
+      </div>
+      {diagnostics.length > 0 && (
+        <ul className="mt-3 space-y-1 text-xs max-h-48 overflow-y-auto">
+          {diagnostics.map((d, i) => (
+            <li key={i} className="text-red-800 dark:text-red-300">
+              <span className="font-mono text-slate-600 dark:text-slate-400">{d.filePath}:{d.line}:{d.column}</span>{' '}
+              <span className="font-bold">TS{d.code}</span> {d.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="mt-3 flex justify-end">
+        <Button variant="ghost" onClick={onOverride}>Commit Anyway</Button>
+      </div>
+    </div>
+  );
+};
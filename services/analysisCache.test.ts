@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { analyzeFiles } from './analysisService';
+import { cacheKey, CacheKeyParts, createIndexedDbCache, createMemoryCache } from './analysisCache';
+import { createProvider, LlmProvider } from './llmProviders';
+
+const PARTS: CacheKeyParts = {
+  path: 'src/a.ts',
+  content: 'const a = 1;',
+  startLine: 1,
+  engine: 'ai',
+  promptVersion: '3',
+  model: 'gemini/gemini-2.5-flash',
+  catalogVersion: '2025.06.2'
+};
+
+const RESPONSE = JSON.stringify({
+  summary: 'One issue.',
+  issues: [{
+    severity: 'Warning',
+    title: 'Legacy lifecycle',
+    description: 'Use componentDidMount.',
+    affectedCode: 'componentWillMount() {}',
+    replacementCode: 'componentDidMount() {}',
+    estimatedEndOfLife: 'Unknown',
+    category: 'Deprecation'
+  }]
+});
+
+describe('cacheKey', () => {
+  it('changes with everything that changes the analysis', async () => {
+    const base = await cacheKey(PARTS);
+    expect(await cacheKey({ ...PARTS })).toBe(base);
+
+    const variants = await Promise.all([
+      { content: 'const a = 2;' }, { path: 'src/b.ts' }, { startLine: 40 }, { engine: 'hybrid' },
+      { promptVersion: '4' }, { model: 'openai-compatible/gpt-4o-mini' }, { catalogVersion: '2026.01.1' }
+    ].map(change => cacheKey({ ...PARTS, ...change })));
+    expect(new Set([base, ...variants]).size).toBe(variants.length + 1);
+  });
+});
+
+describe('caches', () => {
+  it('falls back to memory without IndexedDB', async () => {
+    const cache = createIndexedDbCache();
+    const report = { summary: 's', overallHealthScore: 100, issues: [], timestamp: '' };
+
+    await cache.set('k', report);
+    expect(await cache.get('k')).toEqual(report);
+    await cache.clear();
+    expect(await cache.get('k')).toBeNull();
+  });
+});
+
+describe('analyzeFiles with a cache', () => {
+  beforeEach(() => vi.spyOn(console, 'warn').mockImplementation(() => {}));
+  afterEach(() => vi.restoreAllMocks());
+
+  it('only sends changed files to the model', async () => {
+    const fixture = createProvider({ kind: 'fixture', model: 'fixture', fixtures: [{ response: RESPONSE }] });
+    const generate = vi.fn(fixture.generate);
+    const provider: LlmProvider = { ...fixture, generate };
+    const cache = createMemoryCache();
+    const files = [
+      { path: 'src/a.tsx', content: 'class A { componentWillMount() {} }' },
+      { path: 'src/b.tsx', content: 'class B { componentWillMount() {} }' }
+    ];
+
+    const first = await analyzeFiles(files, 'ai', { provider, cache });
+    expect(generate).toHaveBeenCalledTimes(2);
+
+    const second = await analyzeFiles([files[0], { ...files[1], content: 'class B {}\n' }], 'ai', { provider, cache });
+    expect(generate).toHaveBeenCalledTimes(3);
+    expect(second.issues.find(i => i.filePath === 'src/a.tsx')).toEqual(first.issues.find(i => i.filePath === 'src/a.tsx'));
+  });
+});
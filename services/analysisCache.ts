@@ -0,0 +1,87 @@
+import { AnalysisReport } from '../types';
+
+// Where cached chunk reports live. The browser uses IndexedDB; Node callers
+// (CLI, server) use the disk store in fileCache.ts.
+export interface AnalysisCache {
+  get: (key: string) => Promise<AnalysisReport | null>;
+  set: (key: string, report: AnalysisReport) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export interface CacheKeyParts {
+  path: string;
+  content: string;
+  startLine: number;
+  engine: string;
+  promptVersion: string;
+  model: string; // "<provider kind>/<model>"
+  catalogVersion: string;
+}
+
+export const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Anything that changes what the analysis would return must be part of the key
+export const cacheKey = async (parts: CacheKeyParts): Promise<string> => {
+  const contentHash = await sha256(parts.content);
+  return [parts.engine, parts.model, `p${parts.promptVersion}`, `c${parts.catalogVersion}`, `${parts.path}:${parts.startLine}`, contentHash].join('|');
+};
+
+export const createMemoryCache = (): AnalysisCache => {
+  const entries = new Map<string, AnalysisReport>();
+  return {
+    get: async key => entries.get(key) || null,
+    set: async (key, report) => { entries.set(key, report); },
+    clear: async () => entries.clear()
+  };
+};
+
+const DB_NAME = 'deprecheck';
+const STORE_NAME = 'analysis-cache';
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Falls back to an in-memory cache when IndexedDB is unavailable (private mode, tests)
+export const createIndexedDbCache = (): AnalysisCache => {
+  if (typeof indexedDB === 'undefined') return createMemoryCache();
+
+  let db: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    if (!db) {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      db = requestToPromise(request);
+    }
+    return db;
+  };
+
+  const store = async (mode: IDBTransactionMode) => (await open()).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    get: async key => {
+      try {
+        const entry = await requestToPromise((await store('readonly')).get(key));
+        return entry ? entry.report as AnalysisReport : null;
+      } catch {
+        return null;
+      }
+    },
+    set: async (key, report) => {
+      try {
+        await requestToPromise((await store('readwrite')).put({ report, storedAt: new Date().toISOString() }, key));
+      } catch (error) {
+        // A full or blocked store only costs us the cache, never the analysis
+        console.warn('Could not write analysis cache:', error);
+      }
+    },
+    clear: async () => {
+      await requestToPromise((await store('readwrite')).clear());
+    }
+  };
+};
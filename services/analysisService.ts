@@ -0,0 +1,121 @@
+import { AnalysisReport, SourceFile } from '../types';
+import { analyzeCode, ANALYSIS_PROMPT_VERSION } from './geminiService';
+import { createProvider, LlmProvider } from './llmProviders';
+import { AnalysisCache, cacheKey } from './analysisCache';
+import { RULE_CATALOG_VERSION } from './ruleCatalog';
+import { mergeReports, runRuleEngine } from './ruleEngine';
+import { AnalysisChunk, chunkFiles, DEFAULT_MAX_CHUNK_CHARS } from './chunker';
+import { mergeAnalysisReports } from './reportMerge';
+import { runWithConcurrency } from './scheduler';
+import { calculateHealthScore, ScoringWeights } from './scoring';
+import { applyBaseline, Baseline, extractBaseline } from './baseline';
+import { locateSnippet, splitWorkspace, SNIPPET_PATH } from './workspace';
+
+// 'rules' never touches the network; 'hybrid' uses the rule engine as the
+// deterministic baseline and layers the AI findings on top.
+export type AnalysisEngine = 'ai' | 'rules' | 'hybrid';
+
+export interface AnalysisOptions {
+  context?: string;
+  provider?: LlmProvider; // Defaults to Gemini
+  cache?: AnalysisCache; // Unchanged chunks reuse their previous report
+  concurrency?: number; // Max model requests in flight
+  maxChunkChars?: number;
+  scoringWeights?: ScoringWeights;
+  baseline?: Baseline; // Overrides a baseline file found among the files
+  onProgress?: (completed: number, total: number) => void;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+const analyzeChunk = async (chunk: AnalysisChunk, engine: AnalysisEngine, context?: string, provider?: LlmProvider): Promise<AnalysisReport> => {
+  const path = chunk.path === SNIPPET_PATH ? undefined : chunk.path;
+  const rulesReport = engine !== 'ai' ? await runRuleEngine(chunk.content, undefined, path) : null;
+
+  let report: AnalysisReport;
+  if (engine === 'rules') {
+    report = rulesReport!;
+  } else {
+    const where = chunk.isPartial ? `${path} (lines ${chunk.startLine}-${chunk.endLine})` : path;
+    const chunkContext = where ? `File: ${where}${context ? `\n${context}` : ''}` : context;
+    const aiReport = await analyzeCode(chunk.content, chunkContext, provider);
+
+    // The model only returns snippets; anchor them to lines in this chunk
+    aiReport.issues = aiReport.issues.map(issue => {
+      const range = locateSnippet(chunk.content, issue.affectedCode);
+      return {
+        ...issue,
+        id: path ? `${issue.id}-${path}-${chunk.startLine}` : issue.id,
+        filePath: path,
+        startLine: range?.startLine,
+        endLine: range?.endLine
+      };
+    });
+
+    report = rulesReport ? mergeReports(rulesReport, aiReport) : aiReport;
+  }
+
+  // Chunk-relative lines -> file-relative lines
+  if (chunk.startLine === 1) return report;
+  const shift = chunk.startLine - 1;
+  return {
+    ...report,
+    issues: report.issues.map(issue => ({
+      ...issue,
+      id: issue.ruleId && path ? `rule-${issue.ruleId}-${path}-${issue.startLine! + shift}` : issue.id,
+      startLine: issue.startLine !== undefined ? issue.startLine + shift : undefined,
+      endLine: issue.endLine !== undefined ? issue.endLine + shift : undefined
+    }))
+  };
+};
+
+// The rules engine is cheap and offline, so only model-backed runs are cached
+const analyzeChunkCached = async (chunk: AnalysisChunk, engine: AnalysisEngine, options: AnalysisOptions): Promise<AnalysisReport> => {
+  if (!options.cache || engine === 'rules') return analyzeChunk(chunk, engine, options.context, options.provider);
+
+  const provider = options.provider || createProvider();
+  const key = await cacheKey({
+    path: chunk.path,
+    content: `${options.context || ''}\n${chunk.content}`,
+    startLine: chunk.startLine,
+    engine,
+    promptVersion: ANALYSIS_PROMPT_VERSION,
+    model: `${provider.kind}/${provider.model}`,
+    catalogVersion: RULE_CATALOG_VERSION
+  });
+
+  const cached = await options.cache.get(key);
+  if (cached) return cached;
+
+  const report = await analyzeChunk(chunk, engine, options.context, provider);
+  await options.cache.set(key, report);
+  return report;
+};
+
+// Splits the files into model-sized chunks (keeping file boundaries), analyzes
+// them with bounded concurrency and merges the partial reports into one.
+export const analyzeFiles = async (files: SourceFile[], engine: AnalysisEngine = 'hybrid', options: AnalysisOptions = {}): Promise<AnalysisReport> => {
+  const extracted = extractBaseline(files);
+  const baseline = options.baseline || extracted.baseline;
+  const chunks = await chunkFiles(extracted.files, options.maxChunkChars ?? DEFAULT_MAX_CHUNK_CHARS);
+  const reports = await runWithConcurrency(
+    chunks,
+    options.concurrency ?? DEFAULT_CONCURRENCY,
+    chunk => analyzeChunkCached(chunk, engine, options),
+    options.onProgress
+  );
+
+  const merged = reports.length === 0 ? await runRuleEngine('') : mergeAnalysisReports(reports.map((report, i) => ({
+    path: chunks[i].path,
+    label: chunks[i].isPartial ? `${chunks[i].path} (lines ${chunks[i].startLine}-${chunks[i].endLine})` : chunks[i].path,
+    report
+  })));
+
+  // Scored once, from the final de-duplicated issue list
+  if (baseline) return applyBaseline(merged, baseline, options.scoringWeights);
+  return { ...merged, overallHealthScore: calculateHealthScore(merged.issues, options.scoringWeights) };
+};
+
+// Accepts the editor buffer, which may hold several files separated by headers
+export const runAnalysis = async (code: string, engine: AnalysisEngine = 'hybrid', options: AnalysisOptions = {}): Promise<AnalysisReport> =>
+  analyzeFiles(splitWorkspace(code), engine, options);
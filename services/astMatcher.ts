@@ -0,0 +1,206 @@
+import type * as TS from 'typescript';
+import { loadTypeScript, TypeScript } from './typescriptLoader';
+
+// Structural patterns a catalog rule can express against the syntax tree.
+// Dotted names ("fs.exists") match the full access path; bare names
+// ("forwardRef") also match qualified uses such as React.forwardRef.
+export type AstPattern =
+  | { kind: 'call'; callee: string }
+  | { kind: 'new'; callee: string }
+  | { kind: 'import'; source: string }
+  | { kind: 'require' }
+  | { kind: 'member'; object: string; property: string; assigned?: boolean }
+  | { kind: 'identifier'; name: string }
+  | { kind: 'method'; name: RegExp }
+  | { kind: 'decorator'; name: string }
+  | { kind: 'jsxAttribute'; name: string; value?: RegExp }
+  | { kind: 'classExtends'; base: RegExp }
+  | { kind: 'varDeclaration' }
+  | { kind: 'stringAssignment'; name: RegExp; minLength?: number };
+
+export interface AstMatch {
+  start: number;
+  end: number;
+  line: number; // 1-based
+  column: number; // 1-based
+  endLine: number;
+  text: string;
+}
+
+const SCRIPT_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs', '.mts', '.cts'];
+
+// Snippets without a path or extension are assumed to be JS/TS, which is what the editor mostly holds
+export const isScriptPath = (path?: string): boolean => {
+  if (!path) return true;
+  const name = path.split('/').pop() || '';
+  return !name.includes('.') || SCRIPT_EXTENSIONS.some(ext => name.toLowerCase().endsWith(ext));
+};
+
+// Bound by parseSource; everything below only runs on trees it returned
+let ts: TypeScript;
+
+const scriptKindFor = (path?: string): TS.ScriptKind => {
+  const lower = (path || '').toLowerCase();
+  if (lower.endsWith('.ts') || lower.endsWith('.mts') || lower.endsWith('.cts')) return ts.ScriptKind.TS;
+  if (lower.endsWith('.js') || lower.endsWith('.mjs') || lower.endsWith('.cjs')) return ts.ScriptKind.JS;
+  if (lower.endsWith('.jsx')) return ts.ScriptKind.JSX;
+  return ts.ScriptKind.TSX;
+};
+
+export const parseSource = async (code: string, path?: string): Promise<TS.SourceFile> => {
+  ts = await loadTypeScript();
+  return ts.createSourceFile(path || 'input.tsx', code, ts.ScriptTarget.Latest, true, scriptKindFor(path));
+};
+
+// "this", "fs", "fs.promises.readFile", ... or null for computed expressions
+const qualifiedName = (node: TS.Node): string | null => {
+  if (ts.isIdentifier(node) || ts.isPrivateIdentifier(node)) return node.text;
+  if (node.kind === ts.SyntaxKind.ThisKeyword) return 'this';
+  if (ts.isPropertyAccessExpression(node)) {
+    const left = qualifiedName(node.expression);
+    return left ? `${left}.${node.name.text}` : null;
+  }
+  if (ts.isParenthesizedExpression(node)) return qualifiedName(node.expression);
+  return null;
+};
+
+const nameMatches = (actual: string | null, expected: string): boolean =>
+  !!actual && (actual === expected || (!expected.includes('.') && actual.endsWith(`.${expected}`)));
+
+const propertyNameText = (name: TS.PropertyName): string | null =>
+  ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isPrivateIdentifier(name) ? name.text : null;
+
+const isRequireCall = (node: TS.Node): node is TS.CallExpression =>
+  ts.isCallExpression(node) &&
+  ts.isIdentifier(node.expression) &&
+  node.expression.text === 'require' &&
+  node.arguments.length > 0 &&
+  ts.isStringLiteral(node.arguments[0]);
+
+const matchesNode = (node: TS.Node, pattern: AstPattern): boolean => {
+  switch (pattern.kind) {
+    case 'call':
+      return ts.isCallExpression(node) && nameMatches(qualifiedName(node.expression), pattern.callee);
+
+    case 'new':
+      return ts.isNewExpression(node) && nameMatches(qualifiedName(node.expression), pattern.callee);
+
+    case 'import':
+      if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+        return node.moduleSpecifier.text === pattern.source;
+      }
+      if (isRequireCall(node)) {
+        return (node.arguments[0] as TS.StringLiteral).text === pattern.source;
+      }
+      return ts.isCallExpression(node) &&
+        node.expression.kind === ts.SyntaxKind.ImportKeyword &&
+        node.arguments.length > 0 &&
+        ts.isStringLiteral(node.arguments[0]) &&
+        node.arguments[0].text === pattern.source;
+
+    case 'require':
+      return isRequireCall(node);
+
+    case 'member': {
+      if (!ts.isPropertyAccessExpression(node) || node.name.text !== pattern.property) return false;
+      if (pattern.object !== '*' && qualifiedName(node.expression) !== pattern.object) return false;
+      if (!pattern.assigned) return true;
+      const parent = node.parent;
+      return ts.isBinaryExpression(parent) &&
+        parent.left === node &&
+        parent.operatorToken.kind === ts.SyntaxKind.EqualsToken;
+    }
+
+    case 'identifier': {
+      if (!ts.isIdentifier(node) || node.text !== pattern.name) return false;
+      const parent = node.parent;
+      // Ignore property names (obj.__dirname) and local re-declarations of the same name
+      if (ts.isPropertyAccessExpression(parent) && parent.name === node) return false;
+      if ((ts.isVariableDeclaration(parent) || ts.isParameter(parent)) && parent.name === node) return false;
+      return true;
+    }
+
+    case 'method': {
+      if (!(ts.isMethodDeclaration(node) || ts.isPropertyDeclaration(node) || ts.isPropertyAssignment(node))) return false;
+      if (ts.isPropertyAssignment(node) && !(ts.isFunctionExpression(node.initializer) || ts.isArrowFunction(node.initializer))) return false;
+      const name = propertyNameText(node.name);
+      return !!name && pattern.name.test(name);
+    }
+
+    case 'decorator': {
+      if (!ts.isDecorator(node)) return false;
+      const target = ts.isCallExpression(node.expression) ? node.expression.expression : node.expression;
+      return nameMatches(qualifiedName(target), pattern.name);
+    }
+
+    case 'jsxAttribute': {
+      if (!ts.isJsxAttribute(node) || !ts.isIdentifier(node.name) || node.name.text !== pattern.name) return false;
+      if (!pattern.value) return true;
+      const init = node.initializer;
+      return !!init && ts.isStringLiteral(init) && pattern.value.test(init.text);
+    }
+
+    case 'classExtends': {
+      if (!(ts.isClassDeclaration(node) || ts.isClassExpression(node)) || !node.heritageClauses) return false;
+      return node.heritageClauses.some(clause =>
+        clause.token === ts.SyntaxKind.ExtendsKeyword &&
+        clause.types.some(type => {
+          const name = qualifiedName(type.expression);
+          return !!name && pattern.base.test(name);
+        })
+      );
+    }
+
+    case 'varDeclaration':
+      return ts.isVariableDeclarationList(node) && (node.flags & ts.NodeFlags.BlockScoped) === 0 &&
+        !ts.isForInStatement(node.parent) && !ts.isForOfStatement(node.parent) && !ts.isForStatement(node.parent);
+
+    case 'stringAssignment': {
+      let name: string | null = null;
+      let value: TS.Expression | undefined;
+      if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name)) {
+        name = node.name.text;
+        value = node.initializer;
+      } else if (ts.isPropertyAssignment(node)) {
+        name = propertyNameText(node.name);
+        value = node.initializer;
+      }
+      if (!name || !value || !(ts.isStringLiteral(value) || ts.isNoSubstitutionTemplateLiteral(value))) return false;
+      return pattern.name.test(name) && value.text.length >= (pattern.minLength ?? 1);
+    }
+  }
+};
+
+// Which node of a match is reported, e.g. only the decorator name rather than the whole class
+const reportedNode = (node: TS.Node, pattern: AstPattern): TS.Node => {
+  if (pattern.kind === 'method' && !ts.isPropertyAssignment(node)) return (node as TS.MethodDeclaration).name;
+  if (pattern.kind === 'classExtends') return (node as TS.ClassLikeDeclaration).heritageClauses![0];
+  if (pattern.kind === 'member' && pattern.assigned) return node.parent;
+  return node;
+};
+
+export const findAstMatches = (sourceFile: TS.SourceFile, pattern: AstPattern): AstMatch[] => {
+  const matches: AstMatch[] = [];
+
+  const visit = (node: TS.Node) => {
+    if (matchesNode(node, pattern)) {
+      const target = reportedNode(node, pattern);
+      const start = target.getStart(sourceFile);
+      const end = target.getEnd();
+      const startPos = sourceFile.getLineAndCharacterOfPosition(start);
+      const endPos = sourceFile.getLineAndCharacterOfPosition(end);
+      matches.push({
+        start,
+        end,
+        line: startPos.line + 1,
+        column: startPos.character + 1,
+        endLine: endPos.line + 1,
+        text: sourceFile.text.substring(start, end)
+      });
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return matches;
+};
@@ -1,16 +1,29 @@
 
+import { SourceFile } from '../types';
+import { splitWorkspace, SNIPPET_PATH } from './workspace';
+import { HistoryEntry } from './reportHistory';
+
 const BACKEND_URL = 'http://localhost:8000';
 
+export interface SkippedFile {
+  path: string;
+  reason: string; // 'binary' | 'vendored' | 'generated' | 'too large' | 'unreadable'
+}
+
 export interface ScanResponse {
   success: boolean;
-  context: string;
   message: string;
+  root: string;
+  files: SourceFile[];
+  skipped: SkippedFile[];
+  truncated: boolean;
+  demo?: boolean; // True only for the built-in sample repository
 }
 
-const MOCK_REPO_CONTEXT = `
+const DEMO_REPO_CONTEXT = `
 // ==========================================
-// SIMULATED REPOSITORY SCAN (DEMO MODE)
-// Backend connection failed, showing sample data
+// SAMPLE REPOSITORY (DEMO MODE)
+// Built-in sample code, not a real scan
 // ==========================================
 
 // File: src/components/UserCard.js
@@ -80,62 +93,132 @@ function checkConfig() {
 */
 `;
 
-export const scanGitRepo = async (url: string): Promise<ScanResponse> => {
-  try {
-    const response = await fetch(`${BACKEND_URL}/scan-repo`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ url }),
-    });
+// Same shape the backend returns, built from the sample buffer below
+export interface CommitFile {
+  path: string;
+  content: string;
+  baseContent?: string; // Content the fix was computed against; used to detect conflicts
+}
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to scan repository');
-    }
+export interface CommitRequest {
+  repo: string;
+  branch: string;
+  baseRef?: string;
+  message: string;
+  files: CommitFile[];
+}
 
-    return await response.json();
-  } catch (error: any) {
-    console.warn('Backend connection failed. Switching to Simulation Mode.', error);
-    
-    // Fallback for Demo/Preview environment
-    return new Promise((resolve) => {
-        setTimeout(() => {
-            resolve({
-                success: true,
-                message: "Backend unreachable. Loaded SIMULATED repository for demonstration.",
-                context: MOCK_REPO_CONTEXT
-            });
-        }, 1500); // Simulate network delay
-    });
+export interface CommitResponse {
+  success: boolean;
+  branch: string;
+  sha: string;
+  baseSha: string;
+  workingCopy: string;
+  files: { path: string; insertions: number; deletions: number }[];
+  diffStat: string;
+}
+
+export interface CommitConflict {
+  path: string;
+  reason: string;
+}
+
+export type BackendStatus = 'checking' | 'online' | 'offline';
+
+export interface BackendHealth {
+  status: BackendStatus;
+  version?: string;
+  checkedAt: string;
+}
+
+// FastAPI reports validation failures as a list of { loc, msg } objects;
+// our own endpoints use a string or { message, ... }
+const formatDetail = (detail: unknown): string | null => {
+  if (typeof detail === 'string') return detail;
+  if (detail && typeof detail === 'object' && typeof (detail as any).message === 'string') return (detail as any).message;
+  if (Array.isArray(detail)) {
+    return detail.map((d: any) => (d?.loc ? `${d.loc.slice(1).join('.')}: ${d.msg}` : d?.msg || String(d))).join('; ');
   }
+  return null;
 };
 
-export const scanLocalPath = async (path: string): Promise<ScanResponse> => {
+// Network failures and HTTP errors are both surfaced to the caller; nothing is
+// ever replaced with sample data here (see scanDemoRepo for that).
+export const requestBackend = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  let response: Response;
   try {
-    const response = await fetch(`${BACKEND_URL}/scan-local`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ path }),
+    response = await fetch(`${BACKEND_URL}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...(init.headers || {}) },
     });
+  } catch {
+    throw Object.assign(
+      new Error(`Cannot reach the backend at ${BACKEND_URL}. Start it with "uvicorn main:app --port 8000" in backend/, or enable demo mode.`),
+      { status: 0 }
+    );
+  }
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to scan local path');
-    }
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw Object.assign(
+      new Error(formatDetail(data?.detail) || `Backend request failed (${response.status} ${response.statusText})`),
+      { status: response.status, detail: data?.detail }
+    );
+  }
+  return data as T;
+};
 
-    return await response.json();
-  } catch (error: any) {
-    console.warn('Backend connection failed. Switching to Simulation Mode.', error);
-    
-    // Fallback for Demo/Preview environment
-    return new Promise((resolve) => {
-        setTimeout(() => {
-            resolve({
-                success: true,
-                message: "Backend unreachable. Loaded SIMULATED local files for demonstration.",
-                context: MOCK_REPO_CONTEXT
-            });
-        }, 1000);
-    });
+export const checkBackendHealth = async (): Promise<BackendHealth> => {
+  try {
+    const data = await requestBackend<{ status: string; version?: string }>('/health');
+    return { status: data.status === 'ok' ? 'online' : 'offline', version: data.version, checkedAt: new Date().toISOString() };
+  } catch {
+    return { status: 'offline', checkedAt: new Date().toISOString() };
   }
 };
+
+export const scanGitRepo = async (url: string, ref?: string): Promise<ScanResponse> =>
+  requestBackend<ScanResponse>('/scan-repo', { method: 'POST', body: JSON.stringify({ url, ref }) });
+
+export const scanLocalPath = async (path: string): Promise<ScanResponse> =>
+  requestBackend<ScanResponse>('/scan-local', { method: 'POST', body: JSON.stringify({ path }) });
+
+// Only used when the user explicitly turns on demo mode
+export const scanDemoRepo = async (): Promise<ScanResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 600)); // Simulate network delay
+  return {
+    success: true,
+    demo: true,
+    message: 'Demo mode: loaded the built-in SAMPLE repository. This is not your code.',
+    root: 'demo://sample-repo',
+    files: splitWorkspace(DEMO_REPO_CONTEXT).filter(f => f.path !== SNIPPET_PATH).map(({ path, content }) => ({ path, content })),
+    skipped: [],
+    truncated: false
+  };
+};
+
+// Rejects with an Error whose `detail.conflicts` lists files that changed since the scan (HTTP 409)
+export const commitFixes = async (request: CommitRequest): Promise<CommitResponse> =>
+  requestBackend<CommitResponse>('/commit', { method: 'POST', body: JSON.stringify(request) });
+
+export const fetchHistory = async (projectId: string): Promise<HistoryEntry[]> => {
+  const data = await requestBackend<{ runs: HistoryEntry[] }>(`/history?project=${encodeURIComponent(projectId)}`);
+  return data.runs;
+};
+
+export const saveHistoryRun = async (entry: HistoryEntry): Promise<HistoryEntry> =>
+  requestBackend<HistoryEntry>('/history', {
+    method: 'POST',
+    body: JSON.stringify({ project: entry.projectId, id: entry.id, report: entry.report })
+  });
+
+export interface DiffResponse {
+  success: boolean;
+  root: string;
+  baseSha: string;
+  headSha: string;
+  diff: string; // Unified diff of base...head, as a pull request would show it
+}
+
+export const fetchRefDiff = async (repo: string, base: string, head: string): Promise<DiffResponse> =>
+  requestBackend<DiffResponse>('/scan-diff', { method: 'POST', body: JSON.stringify({ repo, base, head: head || 'HEAD' }) });
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisReport, Issue, Severity } from '../types';
+import {
+  addSuppression,
+  applyBaseline,
+  BASELINE_FILE,
+  createBaselineEntry,
+  EMPTY_BASELINE,
+  extractBaseline,
+  parseBaseline,
+  readBaselineFromBuffer,
+  removeSuppression,
+  serializeBaseline,
+  writeBaselineToBuffer
+} from './baseline';
+import { issueFingerprint } from './fingerprint';
+import { combineFiles } from './workspace';
+
+const issue = (overrides: Partial<Issue> = {}): Issue => ({
+  id: 'issue-1',
+  severity: Severity.CRITICAL,
+  title: 'ReactDOM.render is removed',
+  description: '',
+  affectedCode: 'ReactDOM.render(<App />, root);',
+  replacementCode: 'createRoot(root).render(<App />);',
+  estimatedEndOfLife: 'Unknown',
+  category: 'Deprecation',
+  ruleId: 'react/render',
+  filePath: 'src/index.tsx',
+  ...overrides
+});
+
+describe('parseBaseline', () => {
+  it('round-trips a serialized baseline', () => {
+    const baseline = addSuppression(EMPTY_BASELINE, createBaselineEntry(issue(), 'Migrating in Q3', '2026-09-30'));
+    expect(parseBaseline(serializeBaseline(baseline))).toEqual(baseline);
+  });
+
+  it('explains what is wrong with a broken file', () => {
+    expect(() => parseBaseline('{')).toThrow(`${BASELINE_FILE} is not valid JSON`);
+    expect(() => parseBaseline('{}')).toThrow('needs a "suppressions" array');
+    expect(() => parseBaseline('{"suppressions": [{"reason": "x"}]}')).toThrow('suppression 1 has no fingerprint');
+    expect(() => parseBaseline('{"suppressions": [{"fingerprint": "f", "reason": " "}]}')).toThrow('suppression 1 (f) needs a reason');
+    expect(() => parseBaseline('{"suppressions": [{"fingerprint": "f", "reason": "x", "expires": "soon"}]}')).toThrow('invalid expiry');
+  });
+});
+
+describe('suppressions', () => {
+  it('replaces the entry for the same finding and removes it again', () => {
+    const first = addSuppression(EMPTY_BASELINE, createBaselineEntry(issue(), 'First'));
+    const second = addSuppression(first, createBaselineEntry(issue({ startLine: 9 }), 'Second'));
+
+    expect(second.suppressions.map(e => e.reason)).toEqual(['Second']);
+    expect(removeSuppression(second, issueFingerprint(issue())).suppressions).toEqual([]);
+  });
+});
+
+describe('applyBaseline', () => {
+  const report: AnalysisReport = { summary: '', overallHealthScore: 0, issues: [issue()], timestamp: '2026-01-01T00:00:00.000Z' };
+  const today = new Date('2026-06-15T12:00:00Z');
+
+  it('marks accepted findings and stops counting them', () => {
+    const baseline = addSuppression(EMPTY_BASELINE, createBaselineEntry(issue(), 'Accepted', '2026-06-15'));
+    const applied = applyBaseline(report, baseline, undefined, today);
+
+    expect(applied.issues[0].suppression).toEqual({ reason: 'Accepted', expires: '2026-06-15' });
+    expect(applied.overallHealthScore).toBe(100);
+  });
+
+  it('counts findings again once the suppression expires', () => {
+    const baseline = addSuppression(EMPTY_BASELINE, createBaselineEntry(issue(), 'Accepted', '2026-06-14'));
+    const applied = applyBaseline(report, baseline, undefined, today);
+
+    expect(applied.issues[0].suppression).toEqual({ reason: 'Accepted', expires: '2026-06-14', expired: true });
+    expect(applied.overallHealthScore).toBeLessThan(100);
+  });
+
+  it('clears suppressions the baseline no longer lists', () => {
+    const suppressed = applyBaseline(report, addSuppression(EMPTY_BASELINE, createBaselineEntry(issue(), 'Accepted')), undefined, today);
+    expect(applyBaseline(suppressed, EMPTY_BASELINE, undefined, today).issues[0].suppression).toBeUndefined();
+  });
+});
+
+describe('baseline in the editor buffer', () => {
+  const baseline = addSuppression(EMPTY_BASELINE, createBaselineEntry(issue(), 'Accepted'));
+
+  it('is pulled out of scanned files', () => {
+    const files = [{ path: 'src/a.ts', content: 'a();' }, { path: BASELINE_FILE, content: serializeBaseline(baseline) }];
+    expect(extractBaseline(files)).toEqual({ baseline, files: [files[0]] });
+  });
+
+  it('is appended, then rewritten in place', () => {
+    const code = combineFiles([{ path: 'src/a.ts', content: 'a();' }]);
+    const added = writeBaselineToBuffer(code, baseline);
+    expect(readBaselineFromBuffer(added)).toEqual(baseline);
+
+    const withFileAfter = `${added}\n${combineFiles([{ path: 'src/b.ts', content: 'b();' }])}`;
+    const rewritten = writeBaselineToBuffer(withFileAfter, EMPTY_BASELINE);
+    expect(readBaselineFromBuffer(rewritten)).toEqual(EMPTY_BASELINE);
+    expect(rewritten.startsWith(code)).toBe(true);
+    expect(rewritten.endsWith('// File: src/b.ts\nb();')).toBe(true);
+  });
+});
@@ -0,0 +1,123 @@
+import { AnalysisReport, Issue, SourceFile } from '../types';
+import { issueFingerprint } from './fingerprint';
+import { calculateHealthScore, ScoringWeights } from './scoring';
+import { FILE_HEADER_PREFIX, splitWorkspace } from './workspace';
+
+// Committed at the repository root; accepted findings are listed by fingerprint
+export const BASELINE_FILE = '.deprecheck-baseline.json';
+const BASELINE_VERSION = 1;
+
+export interface BaselineEntry {
+  fingerprint: string;
+  reason: string;
+  expires?: string; // YYYY-MM-DD
+  // Not used for matching; they make the file reviewable in a PR
+  ruleId?: string;
+  filePath?: string;
+  title?: string;
+}
+
+export interface Baseline {
+  version: number;
+  suppressions: BaselineEntry[];
+}
+
+export const EMPTY_BASELINE: Baseline = { version: BASELINE_VERSION, suppressions: [] };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const parseBaseline = (text: string): Baseline => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`${BASELINE_FILE} is not valid JSON: ${error.message}`);
+  }
+  if (!data || !Array.isArray(data.suppressions)) {
+    throw new Error(`${BASELINE_FILE} needs a "suppressions" array.`);
+  }
+  data.suppressions.forEach((entry: any, i: number) => {
+    if (typeof entry?.fingerprint !== 'string' || !entry.fingerprint) {
+      throw new Error(`${BASELINE_FILE}: suppression ${i + 1} has no fingerprint.`);
+    }
+    if (typeof entry.reason !== 'string' || !entry.reason.trim()) {
+      throw new Error(`${BASELINE_FILE}: suppression ${i + 1} (${entry.fingerprint}) needs a reason.`);
+    }
+    if (entry.expires !== undefined && (typeof entry.expires !== 'string' || !DATE_PATTERN.test(entry.expires))) {
+      throw new Error(`${BASELINE_FILE}: suppression ${i + 1} (${entry.fingerprint}) has an invalid expiry; use YYYY-MM-DD.`);
+    }
+  });
+  return { version: data.version ?? BASELINE_VERSION, suppressions: data.suppressions };
+};
+
+export const serializeBaseline = (baseline: Baseline): string =>
+  `${JSON.stringify({ version: baseline.version, suppressions: baseline.suppressions }, null, 2)}\n`;
+
+export const createBaselineEntry = (issue: Issue, reason: string, expires?: string): BaselineEntry => ({
+  fingerprint: issueFingerprint(issue),
+  reason,
+  ...(expires ? { expires } : {}),
+  ...(issue.ruleId ? { ruleId: issue.ruleId } : {}),
+  ...(issue.filePath ? { filePath: issue.filePath } : {}),
+  title: issue.title
+});
+
+// Replaces any existing entry for the same finding
+export const addSuppression = (baseline: Baseline, entry: BaselineEntry): Baseline => ({
+  ...baseline,
+  suppressions: [...baseline.suppressions.filter(e => e.fingerprint !== entry.fingerprint), entry]
+});
+
+export const removeSuppression = (baseline: Baseline, fingerprint: string): Baseline => ({
+  ...baseline,
+  suppressions: baseline.suppressions.filter(e => e.fingerprint !== fingerprint)
+});
+
+// An entry is valid through its expiry date
+const isExpired = (entry: BaselineEntry, today: Date) =>
+  !!entry.expires && entry.expires < today.toISOString().slice(0, 10);
+
+// Marks matching issues as suppressed (or as having an expired suppression)
+// and rescores the report without the suppressed ones.
+export const applyBaseline = (report: AnalysisReport, baseline: Baseline, weights?: ScoringWeights, today: Date = new Date()): AnalysisReport => {
+  const entries = new Map(baseline.suppressions.map(e => [e.fingerprint, e]));
+  const issues = report.issues.map(issue => {
+    const { suppression: _previous, ...rest } = issue;
+    const entry = entries.get(issueFingerprint(issue));
+    if (!entry) return rest;
+    return {
+      ...rest,
+      suppression: {
+        reason: entry.reason,
+        ...(entry.expires ? { expires: entry.expires } : {}),
+        ...(isExpired(entry, today) ? { expired: true } : {})
+      }
+    };
+  });
+  return { ...report, issues, overallHealthScore: calculateHealthScore(issues, weights) };
+};
+
+// Pulls the baseline file out of a scan so it isn't analyzed as source
+export const extractBaseline = (files: SourceFile[]): { baseline: Baseline | null; files: SourceFile[] } => {
+  const file = files.find(f => f.path === BASELINE_FILE);
+  return {
+    baseline: file ? parseBaseline(file.content) : null,
+    files: file ? files.filter(f => f !== file) : files
+  };
+};
+
+export const readBaselineFromBuffer = (code: string): Baseline =>
+  extractBaseline(splitWorkspace(code)).baseline || EMPTY_BASELINE;
+
+// The baseline travels in the editor buffer like any other file, so committing
+// the fixes also commits the updated suppressions.
+export const writeBaselineToBuffer = (code: string, baseline: Baseline): string => {
+  const content = serializeBaseline(baseline);
+  const file = splitWorkspace(code).find(f => f.path === BASELINE_FILE);
+  if (!file) {
+    return `${code ? `${code}\n` : ''}${FILE_HEADER_PREFIX}${BASELINE_FILE}\n${content}`;
+  }
+  const lines = code.split('\n');
+  const length = file.content.split('\n').length;
+  return [...lines.slice(0, file.offset), ...content.split('\n'), ...lines.slice(file.offset + length)].join('\n');
+};
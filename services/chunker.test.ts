@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { chunkFiles } from './chunker';
+
+const fn = (name: string, body: number) =>
+  [`export function ${name}() {`, ...Array.from({ length: body }, (_, i) => `  const v${i} = ${i};`), '}'].join('\n');
+
+describe('chunkFiles', () => {
+  it('keeps small files whole and skips empty ones', async () => {
+    expect(await chunkFiles([{ path: 'a.ts', content: 'a();\nb();' }, { path: 'empty.ts', content: '  \n' }], 100)).toEqual([
+      { path: 'a.ts', content: 'a();\nb();', startLine: 1, endLine: 2, isPartial: false }
+    ]);
+  });
+
+  it('splits scripts between top-level symbols', async () => {
+    const content = [fn('one', 5), fn('two', 5), fn('three', 5)].join('\n');
+    const chunks = await chunkFiles([{ path: 'big.ts', content }], 250);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(c => c.isPartial)).toBe(true);
+    // Every chunk starts at a function and ends at its closing brace
+    chunks.forEach(c => {
+      expect(c.content.startsWith('export function')).toBe(true);
+      expect(c.content.endsWith('}')).toBe(true);
+    });
+    // Together they cover the file exactly once, with file line numbers
+    expect(chunks.map(c => c.content).join('\n')).toBe(content);
+    chunks.slice(1).forEach((c, i) => expect(c.startLine).toBe(chunks[i].endLine + 1));
+    expect(chunks[chunks.length - 1].endLine).toBe(content.split('\n').length);
+  });
+
+  it('cuts other files at blank lines', async () => {
+    const block = (n: number) => Array.from({ length: 4 }, (_, i) => `para ${n} line ${i}`).join('\n');
+    const content = [block(1), block(2), block(3)].join('\n\n');
+    const chunks = await chunkFiles([{ path: 'notes.md', content }], 80);
+
+    expect(chunks.map(c => c.content.trim().split('\n')[0])).toEqual(['para 1 line 0', 'para 2 line 0', 'para 3 line 0']);
+  });
+
+  it('splits a symbol larger than the budget by lines', async () => {
+    const content = fn('huge', 40);
+    const chunks = await chunkFiles([{ path: 'huge.ts', content }], 200);
+
+    expect(chunks.every(c => c.content.length <= 200)).toBe(true);
+    expect(chunks.map(c => c.content).join('\n')).toBe(content);
+  });
+});
@@ -0,0 +1,97 @@
+import { SourceFile } from '../types';
+import { isScriptPath, parseSource } from './astMatcher';
+
+// Roughly 30k tokens of code, leaving room for the system prompt and the JSON response
+export const DEFAULT_MAX_CHUNK_CHARS = 120_000;
+
+export interface AnalysisChunk {
+  path: string;
+  content: string;
+  startLine: number; // 1-based line in the file where this chunk begins
+  endLine: number;
+  isPartial: boolean; // true when the file was split across several chunks
+}
+
+interface Segment {
+  startLine: number; // 1-based
+  lines: string[];
+}
+
+// Top-level statements (imports, functions, classes, ...) as 0-based line spans,
+// so a chunk never cuts through the middle of a symbol.
+const symbolBoundaries = async (file: SourceFile): Promise<number[]> => {
+  if (!isScriptPath(file.path)) {
+    // Blank lines are the best guess at a boundary in other languages
+    return file.content.split('\n').flatMap((line, i) => (line.trim() === '' ? [i + 1] : []));
+  }
+  const source = await parseSource(file.content, file.path);
+  return source.statements.map(stmt => source.getLineAndCharacterOfPosition(stmt.getStart(source)).line);
+};
+
+const splitOversized = (segment: Segment, maxChars: number): Segment[] => {
+  const result: Segment[] = [];
+  let current: Segment = { startLine: segment.startLine, lines: [] };
+  let size = 0;
+
+  segment.lines.forEach((line, i) => {
+    if (size + line.length + 1 > maxChars && current.lines.length > 0) {
+      result.push(current);
+      current = { startLine: segment.startLine + i, lines: [] };
+      size = 0;
+    }
+    current.lines.push(line);
+    size += line.length + 1;
+  });
+  if (current.lines.length > 0) result.push(current);
+  return result;
+};
+
+const chunkFile = async (file: SourceFile, maxChars: number): Promise<AnalysisChunk[]> => {
+  const lines = file.content.split('\n');
+  if (file.content.length <= maxChars) {
+    return [{ path: file.path, content: file.content, startLine: 1, endLine: lines.length, isPartial: false }];
+  }
+
+  // Cut the file into symbol-sized segments, then pack them greedily into chunks
+  const cuts = Array.from(new Set([0, ...(await symbolBoundaries(file)).filter(l => l > 0 && l < lines.length)])).sort((a, b) => a - b);
+  const segments: Segment[] = cuts.flatMap((start, i) => {
+    const end = i + 1 < cuts.length ? cuts[i + 1] : lines.length;
+    return splitOversized({ startLine: start + 1, lines: lines.slice(start, end) }, maxChars);
+  });
+
+  const chunks: AnalysisChunk[] = [];
+  let pending: Segment | null = null;
+  let pendingSize = 0;
+
+  const flush = () => {
+    if (!pending) return;
+    chunks.push({
+      path: file.path,
+      content: pending.lines.join('\n'),
+      startLine: pending.startLine,
+      endLine: pending.startLine + pending.lines.length - 1,
+      isPartial: true
+    });
+    pending = null;
+    pendingSize = 0;
+  };
+
+  segments.forEach(segment => {
+    const size = segment.lines.join('\n').length + 1;
+    if (pending && pendingSize + size > maxChars) flush();
+    if (!pending) {
+      pending = { startLine: segment.startLine, lines: [...segment.lines] };
+      pendingSize = size;
+    } else {
+      pending.lines.push(...segment.lines);
+      pendingSize += size;
+    }
+  });
+  flush();
+
+  return chunks;
+};
+
+// One chunk per file, except files larger than the budget, which are split on symbol boundaries
+export const chunkFiles = async (files: SourceFile[], maxChars: number = DEFAULT_MAX_CHUNK_CHARS): Promise<AnalysisChunk[]> =>
+  (await Promise.all(files.filter(f => f.content.trim()).map(file => chunkFile(file, maxChars)))).flat();
@@ -0,0 +1,37 @@
+import { Issue, SourceFile } from '../types';
+import { CommitFile } from './backendService';
+import { splitWorkspace, SNIPPET_PATH } from './workspace';
+
+export const DEFAULT_FIX_BRANCH = 'deprecheck-fixes';
+
+const MAX_LISTED_ISSUES = 50;
+
+// Files in the editor buffer that differ from what was scanned; each carries
+// its scanned content so the backend can refuse to overwrite newer changes.
+export const changedFiles = (baseline: SourceFile[], code: string): CommitFile[] => {
+  const original = new Map(baseline.map(f => [f.path, f.content]));
+  return splitWorkspace(code)
+    .filter(f => f.path !== SNIPPET_PATH && original.get(f.path) !== f.content)
+    .map(f => ({ path: f.path, content: f.content, baseContent: original.get(f.path) }));
+};
+
+const describe = (issue: Issue) => {
+  const where = issue.filePath ? ` (${issue.filePath}${issue.startLine ? `:${issue.startLine}` : ''})` : '';
+  return `- [${issue.severity}] ${issue.title}${where}`;
+};
+
+export const buildCommitMessage = (issues: Issue[], files: CommitFile[]): string => {
+  const subject = issues.length > 0
+    ? `Fix ${issues.length} deprecation issue(s) found by DepreCheck`
+    : `Apply DepreCheck fixes to ${files.length} file(s)`;
+
+  const listed = issues.slice(0, MAX_LISTED_ISSUES).map(describe);
+  if (issues.length > MAX_LISTED_ISSUES) listed.push(`- ... and ${issues.length - MAX_LISTED_ISSUES} more`);
+
+  const body = [
+    ...(listed.length > 0 ? ['Applied fixes:', ...listed, ''] : []),
+    'Files changed:',
+    ...files.map(f => `- ${f.path}`)
+  ];
+  return `${subject}\n\n${body.join('\n')}`;
+};
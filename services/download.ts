@@ -0,0 +1,11 @@
+// Saves generated text (reports, exports) through a temporary object URL
+export const downloadText = (filename: string, text: string, mimeType: string = 'text/plain') => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
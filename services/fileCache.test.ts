@@ -0,0 +1,61 @@
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { homedir, tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { sha256 } from './analysisCache';
+import { createFileCache, defaultCacheDir } from './fileCache';
+
+const report = { summary: 'Cached.', overallHealthScore: 95, issues: [], timestamp: '2026-01-01T00:00:00.000Z' };
+
+describe('createFileCache', () => {
+  let dir: string;
+  beforeEach(async () => { dir = await mkdtemp(join(tmpdir(), 'deprecheck-cache-')); });
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('stores one file per key and reads it back', async () => {
+    const cache = createFileCache(join(dir, 'cache'));
+    await cache.set('key-1', report);
+
+    expect(await cache.get('key-1')).toEqual(report);
+    expect(await cache.get('key-2')).toBeNull();
+    expect(await readdir(join(dir, 'cache'))).toEqual([`${await sha256('key-1')}.json`]);
+  });
+
+  it('ignores unreadable entries and entries stored under another key', async () => {
+    const cache = createFileCache(dir);
+    await writeFile(join(dir, `${await sha256('broken')}.json`), '{');
+    await writeFile(join(dir, `${await sha256('other')}.json`), JSON.stringify({ key: 'not-other', report }));
+
+    expect(await cache.get('broken')).toBeNull();
+    expect(await cache.get('other')).toBeNull();
+  });
+
+  it('clears the directory', async () => {
+    const cache = createFileCache(join(dir, 'cache'));
+    await cache.set('key', report);
+    await cache.clear();
+
+    expect(await cache.get('key')).toBeNull();
+  });
+
+  it('never fails the analysis when it cannot write', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await writeFile(join(dir, 'file'), '');
+    const cache = createFileCache(join(dir, 'file', 'cache'));
+
+    await expect(cache.set('key', report)).resolves.toBeUndefined();
+    expect(warn).toHaveBeenCalled();
+  });
+});
+
+describe('defaultCacheDir', () => {
+  it('follows XDG_CACHE_HOME, falling back to ~/.cache', () => {
+    expect(defaultCacheDir({ XDG_CACHE_HOME: '/var/cache/me' })).toBe(join('/var/cache/me', 'deprecheck'));
+    expect(defaultCacheDir({})).toBe(join(homedir(), '.cache', 'deprecheck'));
+    // Relative values are invalid per the spec
+    expect(defaultCacheDir({ XDG_CACHE_HOME: 'cache' })).toBe(join(homedir(), '.cache', 'deprecheck'));
+  });
+});
@@ -0,0 +1,39 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { isAbsolute, join } from 'node:path';
+import { AnalysisReport } from '../types';
+import { AnalysisCache, sha256 } from './analysisCache';
+
+// The user's cache directory (XDG base directories), shared by every scanned repository.
+// Keys cover the path, content and model, so a hit from another checkout is the same analysis.
+export const defaultCacheDir = (env: NodeJS.ProcessEnv = process.env): string => {
+  const base = env.XDG_CACHE_HOME && isAbsolute(env.XDG_CACHE_HOME) ? env.XDG_CACHE_HOME : join(homedir(), '.cache');
+  return join(base, 'deprecheck');
+};
+
+// Disk-backed cache for Node callers; one JSON file per key. Not imported by the browser bundle.
+export const createFileCache = (dir: string = defaultCacheDir()): AnalysisCache => {
+  const fileFor = async (key: string) => join(dir, `${await sha256(key)}.json`);
+
+  return {
+    get: async key => {
+      try {
+        const entry = JSON.parse(await readFile(await fileFor(key), 'utf8'));
+        return entry.key === key ? entry.report as AnalysisReport : null;
+      } catch {
+        return null;
+      }
+    },
+    set: async (key, report) => {
+      try {
+        await mkdir(dir, { recursive: true });
+        await writeFile(await fileFor(key), JSON.stringify({ key, report, storedAt: new Date().toISOString() }));
+      } catch (error) {
+        console.warn('Could not write analysis cache:', error);
+      }
+    },
+    clear: async () => {
+      await rm(dir, { recursive: true, force: true });
+    }
+  };
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { Issue, Severity } from '../types';
+import { issueFingerprint, normalizeCode } from './fingerprint';
+
+const issue = (overrides: Partial<Issue> = {}): Issue => ({
+  id: 'issue-1',
+  severity: Severity.CRITICAL,
+  title: 'ReactDOM.render is removed',
+  description: '',
+  affectedCode: 'ReactDOM.render(<App />, root);',
+  replacementCode: 'createRoot(root).render(<App />);',
+  estimatedEndOfLife: 'Unknown',
+  category: 'Deprecation',
+  ruleId: 'react/render',
+  filePath: 'src/index.tsx',
+  ...overrides
+});
+
+describe('normalizeCode', () => {
+  it('drops all whitespace', () => {
+    expect(normalizeCode(' a (\n\tb ,c )\n')).toBe('a(b,c)');
+  });
+});
+
+describe('issueFingerprint', () => {
+  it('ignores whitespace, position and wording', () => {
+    const moved = issue({ affectedCode: 'ReactDOM.render(\n  <App />,\n  root\n);', startLine: 40, title: 'Other title' });
+    expect(issueFingerprint(moved)).toBe(issueFingerprint(issue()));
+  });
+
+  it('tells findings apart by rule, file and code', () => {
+    const base = issueFingerprint(issue());
+    expect(issueFingerprint(issue({ ruleId: 'react/other' }))).not.toBe(base);
+    expect(issueFingerprint(issue({ filePath: 'src/other.tsx' }))).not.toBe(base);
+    expect(issueFingerprint(issue({ affectedCode: 'ReactDOM.hydrate(<App />, root);' }))).not.toBe(base);
+  });
+
+  it('keys AI findings by category', () => {
+    expect(issueFingerprint(issue({ ruleId: undefined }))).toMatch(/^ai\/deprecation:src\/index\.tsx:[0-9a-f]{8}$/);
+  });
+});
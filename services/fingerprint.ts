@@ -0,0 +1,20 @@
+import { Issue } from '../types';
+
+// Whitespace and line positions change with unrelated edits; the finding doesn't
+export const normalizeCode = (code: string): string => code.replace(/\s+/g, '');
+
+// FNV-1a, 32 bit: short, stable and synchronous (crypto.subtle is async-only)
+const hash = (text: string): string => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+};
+
+// Identifies "the same finding" across runs: rule, file and normalized code.
+// AI findings have no rule id and their titles vary between runs, so they are
+// keyed by category instead.
+export const issueFingerprint = (issue: Issue): string =>
+  `${issue.ruleId || `ai/${issue.category.toLowerCase()}`}:${issue.filePath || ''}:${hash(normalizeCode(issue.affectedCode))}`;
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { Issue, Severity } from '../types';
+import { applyFixes, reindent } from './fixApplier';
+import { combineFiles } from './workspace';
+
+const issue = (affectedCode: string, replacementCode: string, overrides: Partial<Issue> = {}): Issue => ({
+  id: affectedCode,
+  severity: Severity.WARNING,
+  title: `Replace ${affectedCode}`,
+  description: '',
+  affectedCode,
+  replacementCode,
+  estimatedEndOfLife: 'Unknown',
+  category: 'Deprecation',
+  ...overrides
+});
+
+describe('applyFixes', () => {
+  it('replaces the snippet at the reported line only', () => {
+    const code = 'moment();\nmoment();\nmoment();';
+    const result = applyFixes(code, [issue('moment()', 'dayjs()', { startLine: 2 })]);
+
+    expect(result.code).toBe('moment();\ndayjs();\nmoment();');
+    expect(result.edits[0]).toMatchObject({ startLine: 2, endLine: 2 });
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('tolerates whitespace differences and drift after earlier edits', () => {
+    const code = '// header\n\nfoo( a,b );';
+    const result = applyFixes(code, [issue('foo(a, b)', 'bar(a, b)', { startLine: 1 })]);
+
+    expect(result.code).toBe('// header\n\nbar(a, b);');
+  });
+
+  it('does not match inside longer words', () => {
+    const result = applyFixes('unrender(); render();', [issue('render()', 'paint()')]);
+    expect(result.code).toBe('unrender(); paint();');
+  });
+
+  it('targets the file the issue names', () => {
+    const code = combineFiles([
+      { path: 'a.ts', content: 'legacy();' },
+      { path: 'b.ts', content: 'legacy();' }
+    ]);
+    const result = applyFixes(code, [issue('legacy()', 'modern()', { filePath: 'b.ts', startLine: 1 })]);
+
+    expect(result.code).toBe(combineFiles([
+      { path: 'a.ts', content: 'legacy();' },
+      { path: 'b.ts', content: 'modern();' }
+    ]));
+  });
+
+  it('reports fixes it cannot place instead of guessing', () => {
+    const code = 'a();\na();';
+    const { code: after, conflicts } = applyFixes(code, [
+      issue('gone()', 'x()'),
+      issue('a()', 'b()'),
+      issue('a()', 'b()', { filePath: 'missing.ts' })
+    ]);
+
+    expect(after).toBe(code);
+    expect(conflicts.map(c => c.reason)).toEqual(['not-found', 'ambiguous', 'not-found']);
+    expect(conflicts[1].candidateLines).toEqual([1, 2]);
+  });
+
+  it('never replaces code with an empty fix', () => {
+    const code = 'console.log(__dirname);';
+    const { code: after, edits, conflicts } = applyFixes(code, [issue('console.log(__dirname);', '', { exampleCode: 'const __dirname = import.meta.dirname;' })]);
+
+    expect(after).toBe(code);
+    expect(edits).toEqual([]);
+    expect(conflicts.map(c => c.reason)).toEqual(['no-fix']);
+  });
+
+  it('keeps the first of two overlapping fixes', () => {
+    const code = 'ReactDOM.render(app, root);';
+    const result = applyFixes(code, [
+      issue('ReactDOM.render(app, root)', 'createRoot(root).render(app)'),
+      issue('ReactDOM.render', 'ReactDOM.hydrate')
+    ]);
+
+    expect(result.code).toBe('createRoot(root).render(app);');
+    expect(result.conflicts).toMatchObject([{ reason: 'overlap', candidateLines: [1] }]);
+  });
+
+  it('re-indents multi-line replacements to the file style', () => {
+    const code = 'class A {\n\tcomponentWillMount() {}\n}';
+    const result = applyFixes(code, [issue('componentWillMount() {}', 'componentDidMount() {\n    this.load();\n}')]);
+
+    expect(result.code).toBe('class A {\n\tcomponentDidMount() {\n\t\tthis.load();\n\t}\n}');
+  });
+});
+
+describe('reindent', () => {
+  it('keeps nesting relative to the first line', () => {
+    expect(reindent('if (x) {\n    a();\n        b();\n}', '  ', '  ')).toBe('if (x) {\n    a();\n      b();\n  }');
+  });
+
+  it('trims single lines', () => {
+    expect(reindent('  dayjs()  \n', '    ', '  ')).toBe('dayjs()');
+  });
+});
@@ -0,0 +1,213 @@
+import { Issue } from '../types';
+import { SNIPPET_PATH, splitWorkspace, WorkspaceFile } from './workspace';
+
+// Places issue fixes in the editor buffer. A fix is anchored to the issue's
+// reported location; identical snippets elsewhere are left alone, and when the
+// target can't be told apart the fix is reported as a conflict, not guessed.
+
+export type FixConflictReason = 'no-fix' | 'not-found' | 'ambiguous' | 'overlap';
+
+export interface FixConflict {
+  issue: Issue;
+  reason: FixConflictReason;
+  message: string;
+  candidateLines: number[]; // 1-based buffer lines where the snippet was found
+}
+
+export interface FixEdit {
+  issue: Issue;
+  start: number; // Buffer offsets of the replaced text
+  end: number;
+  text: string; // Replacement, re-indented for its new position
+  startLine: number; // 1-based buffer lines of the replaced text
+  endLine: number;
+}
+
+export interface FixApplication {
+  code: string;
+  edits: FixEdit[]; // In buffer order
+  conflicts: FixConflict[];
+}
+
+// Findings without a rewrite only carry a migration example, which is never pasted over the code
+export const hasFix = (issue: Issue): boolean => issue.replacementCode.trim().length > 0;
+
+// How far (in lines) a snippet may sit from the reported location, e.g. after earlier fixes
+const LOCATION_DRIFT = 3;
+
+interface Candidate {
+  start: number;
+  end: number;
+  startLine: number;
+  endLine: number;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whitespace-tolerant pattern: any run of whitespace may differ, and whitespace
+// may appear or vanish around punctuation; words must stay separate words
+const snippetPattern = (snippet: string): RegExp | null => {
+  const tokens = snippet.trim().match(/\w+|[^\w\s]/g);
+  if (!tokens) return null;
+  const body = tokens
+    .map((token, i) => {
+      if (i === 0) return escapeRegExp(token);
+      const joint = /\w$/.test(tokens[i - 1]) && /^\w/.test(token) ? '\\s+' : '\\s*';
+      return joint + escapeRegExp(token);
+    })
+    .join('');
+  const before = /^\w/.test(tokens[0]) ? '(?<!\\w)' : '';
+  const after = /\w$/.test(tokens[tokens.length - 1]) ? '(?!\\w)' : '';
+  return new RegExp(before + body + after, 'g');
+};
+
+const lineAt = (lineStarts: number[], offset: number): number => {
+  let lo = 0;
+  let hi = lineStarts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (lineStarts[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo + 1;
+};
+
+const findCandidates = (code: string, lineStarts: number[], file: WorkspaceFile, snippet: string): Candidate[] => {
+  const pattern = snippetPattern(snippet);
+  if (!pattern) return [];
+  const sectionStart = lineStarts[file.offset] ?? code.length;
+  const sectionEnd = sectionStart + file.content.length;
+  const section = code.slice(sectionStart, sectionEnd);
+
+  const candidates: Candidate[] = [];
+  for (const match of section.matchAll(pattern)) {
+    const start = sectionStart + match.index!;
+    const end = start + match[0].length;
+    candidates.push({ start, end, startLine: lineAt(lineStarts, start), endLine: lineAt(lineStarts, Math.max(start, end - 1)) });
+  }
+  return candidates;
+};
+
+const indentOf = (line: string) => line.match(/^[ \t]*/)![0];
+const indentWidth = (indent: string) => indent.replace(/\t/g, '    ').length;
+
+// The file's own indentation step: a tab, or its smallest space indent
+const detectIndentUnit = (content: string): string => {
+  const indents = content.split('\n').filter(l => l.trim()).map(indentOf).filter(Boolean);
+  if (indents.some(i => i.startsWith('\t'))) return '\t';
+  const smallest = Math.min(...indents.map(i => i.length).filter(n => n > 1), Infinity);
+  return ' '.repeat(Number.isFinite(smallest) ? smallest : 2);
+};
+
+// Fits a (possibly multi-line) replacement to the line it lands on: the first
+// line continues where the old code started, later lines keep their nesting
+// relative to it in the file's own indentation style.
+export const reindent = (replacement: string, lineIndent: string, indentUnit: string): string => {
+  const lines = replacement.replace(/\r\n/g, '\n').replace(/^\s*\n/, '').trimEnd().split('\n');
+  if (lines.length === 1) return lines[0].trim();
+
+  const rest = lines.slice(1).filter(l => l.trim());
+  const firstIndent = indentWidth(indentOf(lines[0]));
+  // A snippet trimmed at the front loses its first indent; a closing line at the
+  // shallowest depth of the rest gives it back
+  const restMin = Math.min(...rest.map(l => indentWidth(indentOf(l))));
+  const lastIsShallowest = rest.length > 0 && indentWidth(indentOf(rest[rest.length - 1])) === restMin;
+  const base = firstIndent > 0 ? firstIndent : lastIsShallowest ? restMin : 0;
+
+  const relative = rest.map(l => indentWidth(indentOf(l)) - base).filter(n => n > 0);
+  const step = relative.length > 0 ? Math.min(...relative) : 1;
+
+  return lines
+    .map((line, i) => {
+      if (i === 0) return line.trim();
+      if (!line.trim()) return '';
+      const levels = Math.max(0, Math.round((indentWidth(indentOf(line)) - base) / step));
+      return lineIndent + indentUnit.repeat(levels) + line.trimStart();
+    })
+    .join('\n');
+};
+
+const conflict = (issue: Issue, reason: FixConflictReason, message: string, candidates: Candidate[] = []): FixConflict => ({
+  issue,
+  reason,
+  message,
+  candidateLines: candidates.map(c => c.startLine)
+});
+
+const placeFix = (code: string, lineStarts: number[], files: WorkspaceFile[], issue: Issue): FixEdit | FixConflict => {
+  if (!hasFix(issue)) return conflict(issue, 'no-fix', 'This finding has no automatic fix; migrate it by hand.');
+
+  const path = issue.filePath || SNIPPET_PATH;
+  const file = files.find(f => f.path === path) || (files.length === 1 && !issue.filePath ? files[0] : undefined);
+  if (!file) return conflict(issue, 'not-found', `${path} is no longer in the editor.`);
+
+  const candidates = findCandidates(code, lineStarts, file, issue.affectedCode);
+  if (candidates.length === 0) {
+    return conflict(issue, 'not-found', 'The affected code is no longer in the file; it may already have been changed.');
+  }
+
+  let target: Candidate | undefined;
+  if (issue.startLine) {
+    const from = file.offset + issue.startLine;
+    const to = file.offset + (issue.endLine || issue.startLine);
+    const overlaps = (c: Candidate, slack: number) => c.startLine <= to + slack && c.endLine >= from - slack;
+    const exact = candidates.filter(c => overlaps(c, 0));
+    const near = candidates.filter(c => overlaps(c, LOCATION_DRIFT));
+    if (exact.length === 1) target = exact[0];
+    else if (exact.length === 0 && near.length === 1) target = near[0];
+    else if (near.length === 0 && candidates.length === 1) target = candidates[0]; // Moved, but the only one left
+    else if (near.length > 1 || exact.length > 1) {
+      return conflict(issue, 'ambiguous', `The affected code appears ${near.length} times around line ${issue.startLine}; apply this fix by hand.`, near);
+    } else {
+      return conflict(issue, 'ambiguous', `The affected code is not at line ${issue.startLine} and appears ${candidates.length} times elsewhere in the file.`, candidates);
+    }
+  } else if (candidates.length === 1) {
+    target = candidates[0];
+  } else {
+    return conflict(issue, 'ambiguous', `The issue has no line number and the affected code appears ${candidates.length} times.`, candidates);
+  }
+
+  const lineStart = lineStarts[target.startLine - 1];
+  const text = reindent(issue.replacementCode, indentOf(code.slice(lineStart)), detectIndentUnit(file.content));
+  return { issue, start: target.start, end: target.end, text, startLine: target.startLine, endLine: target.endLine };
+};
+
+const isConflict = (placement: FixEdit | FixConflict): placement is FixConflict => 'reason' in placement;
+
+// Places every fix against the same buffer, without checking the edits against each other
+export const placeFixes = (code: string, issues: Issue[]): { edits: FixEdit[]; conflicts: FixConflict[] } => {
+  const lineStarts = [0];
+  for (let i = 0; i < code.length; i++) if (code[i] === '\n') lineStarts.push(i + 1);
+  const files = splitWorkspace(code);
+
+  const edits: FixEdit[] = [];
+  const conflicts: FixConflict[] = [];
+  issues.forEach(issue => {
+    const placement = placeFix(code, lineStarts, files, issue);
+    if (isConflict(placement)) conflicts.push(placement);
+    else edits.push(placement);
+  });
+  return { edits, conflicts };
+};
+
+export const editsOverlap = (a: FixEdit, b: FixEdit) => a.start < b.end && b.start < a.end;
+
+// Applies non-overlapping edits back to front, so earlier offsets stay valid
+export const applyEdits = (code: string, edits: FixEdit[]): string =>
+  [...edits].sort((a, b) => b.start - a.start).reduce((acc, e) => acc.slice(0, e.start) + e.text + acc.slice(e.end), code);
+
+// Places and applies fixes in one go; a fix touching text an earlier fix
+// already claimed is reported as a conflict
+export const applyFixes = (code: string, issues: Issue[]): FixApplication => {
+  const placed = placeFixes(code, issues);
+  const edits: FixEdit[] = [];
+  const conflicts = [...placed.conflicts];
+  placed.edits.forEach(edit => {
+    const clash = edits.find(e => editsOverlap(e, edit));
+    if (clash) conflicts.push(conflict(edit.issue, 'overlap', `Overlaps the fix for "${clash.issue.title}" at line ${clash.startLine}.`, [edit]));
+    else edits.push(edit);
+  });
+
+  edits.sort((a, b) => a.start - b.start);
+  return { code: applyEdits(code, edits), edits, conflicts };
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { Issue, Severity } from '../types';
+import { applyFixes } from './fixApplier';
+import { detachFix, EMPTY_FIX_HISTORY, FixHistory, lastApplied, lastUndone, recordFixes, toggleEntry } from './fixHistory';
+
+const issue = (affectedCode: string, replacementCode: string): Issue => ({
+  id: affectedCode,
+  severity: Severity.WARNING,
+  title: `Replace ${affectedCode}`,
+  description: '',
+  affectedCode,
+  replacementCode,
+  estimatedEndOfLife: 'Unknown',
+  category: 'Deprecation'
+});
+
+// Applies fixes the way the editor does and records them as one entry
+const fix = (history: FixHistory, code: string, label: string, ...issues: Issue[]) => {
+  const { edits } = applyFixes(code, issues);
+  const next = recordFixes(history, code, edits, label);
+  return { history: next, code: next.code, id: next.entries[next.entries.length - 1].id };
+};
+
+const CODE = 'a();\nb();\nc();';
+
+describe('toggleEntry', () => {
+  it('undoes an older fix on its own and redoes it', () => {
+    const first = fix(EMPTY_FIX_HISTORY, CODE, 'A', issue('a()', 'alpha()'));
+    const second = fix(first.history, first.code, 'C', issue('c()', 'gamma()'));
+    expect(second.code).toBe('alpha();\nb();\ngamma();');
+
+    const undone = toggleEntry(second.history, second.code, first.id);
+    expect(undone.code).toBe('a();\nb();\ngamma();');
+    expect(lastApplied(undone.history)?.id).toBe(second.id);
+    expect(lastUndone(undone.history)?.id).toBe(first.id);
+
+    const redone = toggleEntry(undone.history, undone.code, first.id);
+    expect(redone.code).toBe('alpha();\nb();\ngamma();');
+  });
+
+  it('follows hand edits made elsewhere in the buffer', () => {
+    const applied = fix(EMPTY_FIX_HISTORY, CODE, 'C', issue('c()', 'gamma()'));
+    const edited = `// notes\n${applied.code.replace('b();', 'b(1, 2);')}`;
+
+    expect(toggleEntry(applied.history, edited, applied.id).code).toBe('// notes\na();\nb(1, 2);\nc();');
+  });
+
+  it('refuses to undo code edited by hand since', () => {
+    const applied = fix(EMPTY_FIX_HISTORY, CODE, 'B', issue('b()', 'beta()'));
+    const edited = applied.code.replace('beta()', 'betamax()');
+
+    expect(() => toggleEntry(applied.history, edited, applied.id)).toThrow('This code was edited by hand since.');
+  });
+
+  it('undoes a fix nested inside another one first', () => {
+    const outer = fix(EMPTY_FIX_HISTORY, CODE, 'Outer', issue('b()', 'wrap(legacy())'));
+    const inner = fix(outer.history, outer.code, 'Inner', issue('legacy()', 'modern()'));
+    expect(inner.code).toBe('a();\nwrap(modern());\nc();');
+
+    expect(() => toggleEntry(inner.history, inner.code, outer.id)).toThrow('Undo "Inner" first; it changed code inside this fix.');
+
+    const innerUndone = toggleEntry(inner.history, inner.code, inner.id);
+    expect(innerUndone.code).toBe('a();\nwrap(legacy());\nc();');
+    expect(toggleEntry(innerUndone.history, innerUndone.code, outer.id).code).toBe(CODE);
+  });
+
+  it('fails for entries that are not in the history', () => {
+    expect(() => toggleEntry(EMPTY_FIX_HISTORY, CODE, 'fix-missing')).toThrow('That fix is no longer in the history.');
+  });
+});
+
+describe('detachFix', () => {
+  it('splits one fix of a batch into an entry that can be undone alone', () => {
+    const batch = fix(EMPTY_FIX_HISTORY, CODE, 'Batch', issue('a()', 'alpha()'), issue('c()', 'gamma()'));
+    const { history, id } = detachFix(batch.history, batch.id, 1);
+
+    expect(history.entries.map(e => e.label)).toEqual(['Batch', 'Replace c()']);
+    expect(toggleEntry(history, batch.code, id).code).toBe('alpha();\nb();\nc();');
+  });
+});
@@ -0,0 +1,225 @@
+import { Issue } from '../types';
+import { FixEdit } from './fixApplier';
+import { diffLines } from './lineDiff';
+import { LineRange } from './workspace';
+
+// Session history of applied fixes. Each entry remembers the text it replaced
+// at offsets kept current as the buffer changes, so any entry can be undone or
+// redone on its own as long as nothing else has touched its code since.
+
+export interface TextChange {
+  start: number; // Range of the buffer before the change
+  end: number;
+  text: string;
+}
+
+export interface FixHunk {
+  issue: Issue;
+  start: number; // Range of the current buffer holding `fixed` (applied) or `original` (undone)
+  end: number;
+  original: string;
+  fixed: string;
+}
+
+export interface FixHistoryEntry {
+  id: string;
+  timestamp: string;
+  label: string;
+  status: 'applied' | 'undone';
+  hunks: FixHunk[];
+  nested: string[]; // Entries that later changed code inside this one; undone first
+  lost?: string; // Why this entry can no longer be undone or redone
+  toggledAt?: number; // Last undo or redo, for the Redo button
+}
+
+export interface FixHistory {
+  code: string; // The buffer the offsets refer to
+  entries: FixHistoryEntry[]; // Oldest first
+}
+
+export const EMPTY_FIX_HISTORY: FixHistory = { code: '', entries: [] };
+
+export const applyChanges = (code: string, changes: TextChange[]): string =>
+  [...changes].sort((a, b) => b.start - a.start).reduce((acc, c) => acc.slice(0, c.start) + c.text + acc.slice(c.end), code);
+
+// Moves an entry's hunks past a set of changes made by `source` (null for hand edits).
+// A change inside an applied hunk is folded into it; one crossing a hunk's edge breaks the entry.
+const shiftEntry = (entry: FixHistoryEntry, changes: TextChange[], source: string | null): FixHistoryEntry => {
+  if (entry.lost) return entry;
+  const hunks: FixHunk[] = [];
+  let nestedIn = false;
+
+  for (const h of entry.hunks) {
+    let delta = 0;
+    let growth = 0;
+    let fixed = h.fixed;
+    for (const c of changes) {
+      if (c.end <= h.start) {
+        delta += c.text.length - (c.end - c.start);
+      } else if (c.start >= h.end) {
+        continue;
+      } else if (source && entry.status === 'applied' && c.start >= h.start && c.end <= h.end) {
+        const at = c.start - h.start + growth;
+        fixed = fixed.slice(0, at) + c.text + fixed.slice(at + c.end - c.start);
+        growth += c.text.length - (c.end - c.start);
+        nestedIn = true;
+      } else {
+        return { ...entry, lost: source ? 'Another fix rewrote this code since.' : 'This code was edited by hand since.' };
+      }
+    }
+    hunks.push({ ...h, start: h.start + delta, end: h.end + delta + growth, fixed });
+  }
+
+  const nested = nestedIn && source && !entry.nested.includes(source) ? [...entry.nested, source] : entry.nested;
+  return { ...entry, hunks, nested };
+};
+
+// Hand edits made in the editor since the last recorded change, as text changes
+const changesBetween = (oldCode: string, newCode: string): TextChange[] => {
+  const pieces = (code: string) => code.split('\n').map((line, i, all) => (i < all.length - 1 ? `${line}\n` : line));
+  const oldPieces = pieces(oldCode);
+  const newPieces = pieces(newCode);
+  const oldStarts = oldPieces.reduce<number[]>((acc, p) => [...acc, acc[acc.length - 1] + p.length], [0]);
+
+  const changes: TextChange[] = [];
+  let run: TextChange | null = null;
+  let cursor = 0; // Start of the next old line
+  diffLines(oldCode, newCode).forEach(line => {
+    // The last line has no newline, so an "unchanged" line may still differ by one
+    const same = line.type === 'context' && oldPieces[line.oldLine! - 1] === newPieces[line.newLine! - 1];
+    if (same) {
+      if (run) changes.push(run);
+      run = null;
+    } else {
+      run = run || { start: cursor, end: cursor, text: '' };
+      if (line.oldLine !== undefined) run.end = oldStarts[line.oldLine];
+      if (line.newLine !== undefined) run.text += newPieces[line.newLine - 1];
+    }
+    if (line.oldLine !== undefined) cursor = oldStarts[line.oldLine];
+  });
+  if (run) changes.push(run);
+  return changes;
+};
+
+// Brings the offsets up to date with whatever is in the editor now
+export const rebaseHistory = (history: FixHistory, code: string): FixHistory => {
+  if (history.code === code) return history;
+  if (!history.entries.some(e => !e.lost)) return { ...history, code };
+  const changes = changesBetween(history.code, code);
+  return { code, entries: history.entries.map(e => shiftEntry(e, changes, null)) };
+};
+
+export const recordFixes = (history: FixHistory, codeBefore: string, edits: FixEdit[], label: string): FixHistory => {
+  const rebased = rebaseHistory(history, codeBefore);
+  const id = `fix-${Date.now().toString(36)}-${rebased.entries.length}`;
+  const sorted = [...edits].sort((a, b) => a.start - b.start);
+  const changes = sorted.map(e => ({ start: e.start, end: e.end, text: e.text }));
+
+  let delta = 0;
+  const hunks = sorted.map(e => {
+    const start = e.start + delta;
+    delta += e.text.length - (e.end - e.start);
+    return { issue: e.issue, start, end: start + e.text.length, original: codeBefore.slice(e.start, e.end), fixed: e.text };
+  });
+
+  const entry: FixHistoryEntry = {
+    id,
+    timestamp: new Date().toISOString(),
+    label,
+    status: 'applied',
+    hunks,
+    nested: []
+  };
+  return {
+    code: applyChanges(codeBefore, changes),
+    entries: [...rebased.entries.map(e => shiftEntry(e, changes, id)), entry]
+  };
+};
+
+// Why an entry can't be undone or redone right now, or null when it can
+export const toggleBlocker = (history: FixHistory, entry: FixHistoryEntry): string | null => {
+  if (entry.lost) return entry.lost;
+  if (entry.status === 'applied') {
+    const blocking = history.entries.find(e => e.status === 'applied' && entry.nested.includes(e.id));
+    if (blocking) return `Undo "${blocking.label}" first; it changed code inside this fix.`;
+  }
+  return null;
+};
+
+// Undoes an applied entry or redoes an undone one, leaving every other entry as it is
+export const toggleEntry = (history: FixHistory, code: string, id: string): { history: FixHistory; code: string } => {
+  const rebased = rebaseHistory(history, code);
+  const entry = rebased.entries.find(e => e.id === id);
+  if (!entry) throw new Error('That fix is no longer in the history.');
+  const blocker = toggleBlocker(rebased, entry);
+  if (blocker) throw new Error(blocker);
+
+  const undoing = entry.status === 'applied';
+  if (entry.hunks.some(h => code.slice(h.start, h.end) !== (undoing ? h.fixed : h.original))) {
+    throw new Error('The code of this fix has changed since it was applied.');
+  }
+
+  const changes = entry.hunks.map(h => ({ start: h.start, end: h.end, text: undoing ? h.original : h.fixed }));
+  let delta = 0;
+  const hunks = entry.hunks.map(h => {
+    const text = undoing ? h.original : h.fixed;
+    const start = h.start + delta;
+    delta += text.length - (h.end - h.start);
+    return { ...h, start, end: start + text.length };
+  });
+
+  const newCode = applyChanges(code, changes);
+  const toggled: FixHistoryEntry = { ...entry, hunks, status: undoing ? 'undone' : 'applied', toggledAt: Date.now() };
+  return {
+    code: newCode,
+    history: {
+      code: newCode,
+      entries: rebased.entries.map(e => (e.id === id ? toggled : shiftEntry(e, changes, id)))
+    }
+  };
+};
+
+// Targets of the toolbar buttons: the newest applied fix, and the most recently undone one
+export const lastApplied = (history: FixHistory): FixHistoryEntry | undefined =>
+  [...history.entries].reverse().find(e => e.status === 'applied' && !e.lost);
+
+export const lastUndone = (history: FixHistory): FixHistoryEntry | undefined =>
+  history.entries.filter(e => e.status === 'undone' && !e.lost).sort((a, b) => (b.toggledAt ?? 0) - (a.toggledAt ?? 0))[0];
+
+export const appliedIssuesOf = (history: FixHistory): Issue[] =>
+  history.entries.filter(e => e.status === 'applied').flatMap(e => e.hunks.map(h => h.issue));
+
+// Splits one fix out of a multi-fix entry into an entry of its own, right after
+// it, so it can be undone without the rest of the batch
+export const detachFix = (history: FixHistory, id: string, index: number): { history: FixHistory; id: string } => {
+  const entry = history.entries.find(e => e.id === id);
+  if (!entry || !entry.hunks[index]) throw new Error('That fix is no longer in the history.');
+  if (entry.hunks.length === 1) return { history, id };
+
+  const hunk = entry.hunks[index];
+  const detached: FixHistoryEntry = { ...entry, id: `${id}-${index}`, label: hunk.issue.title, hunks: [hunk] };
+  const rest: FixHistoryEntry = { ...entry, hunks: entry.hunks.filter((_, i) => i !== index) };
+  const entries = history.entries.flatMap(e => {
+    if (e.id === id) return [rest, detached];
+    // Whatever had to be undone before the batch now also comes before the detached fix
+    return e.nested.includes(id) ? [{ ...e, nested: [...e.nested, detached.id] }] : [e];
+  });
+  return { history: { ...history, entries }, id: detached.id };
+};
+
+const lineOf = (code: string, offset: number) => code.slice(0, offset).split('\n').length;
+
+// Buffer lines covered by a hunk's text as it stands in `code`
+export const hunkLines = (code: string, hunk: FixHunk): LineRange => ({
+  startLine: lineOf(code, hunk.start),
+  endLine: lineOf(code, Math.max(hunk.start, hunk.end - 1))
+});
+
+// Buffer lines covered by an entry's text as it stands now, for highlighting
+export const entryLines = (history: FixHistory, entry: FixHistoryEntry): LineRange | null => {
+  if (entry.hunks.length === 0) return null;
+  return {
+    startLine: hunkLines(history.code, entry.hunks[0]).startLine,
+    endLine: hunkLines(history.code, entry.hunks[entry.hunks.length - 1]).endLine
+  };
+};
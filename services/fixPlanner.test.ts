@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { Issue, Severity } from '../types';
+import { applyPlan, planFixes, previewFix, toggleFix } from './fixPlanner';
+
+const issue = (affectedCode: string, replacementCode: string): Issue => ({
+  id: affectedCode,
+  severity: Severity.WARNING,
+  title: `Replace ${affectedCode}`,
+  description: '',
+  affectedCode,
+  replacementCode,
+  estimatedEndOfLife: 'Unknown',
+  category: 'Deprecation'
+});
+
+const CODE = 'import moment from "moment";\nReactDOM.render(app, root);\nconst t = moment();';
+
+// 0: the whole render call, 1: the part of it it overlaps, 2: a separate line, 3: nowhere
+const ISSUES = [
+  issue('ReactDOM.render(app, root)', 'createRoot(root).render(app)'),
+  issue('ReactDOM.render', 'ReactDOM.hydrate'),
+  issue('moment()', 'dayjs()'),
+  issue('gone()', 'x()')
+];
+
+describe('planFixes', () => {
+  const plan = planFixes(CODE, ISSUES);
+  const byTitle = (title: string) => plan.fixes.find(f => f.edit.issue.title === title)!;
+
+  it('places every fix against the same buffer', () => {
+    expect(plan.code).toBe(CODE);
+    expect(plan.fixes.map(f => f.edit.issue.title)).toEqual(['Replace ReactDOM.render(app, root)', 'Replace ReactDOM.render', 'Replace moment()']);
+    expect(plan.conflicts.map(c => c.reason)).toEqual(['not-found']);
+  });
+
+  it('marks overlapping fixes and orders application bottom-up', () => {
+    const whole = byTitle('Replace ReactDOM.render(app, root)');
+    const part = byTitle('Replace ReactDOM.render');
+    const moment = byTitle('Replace moment()');
+
+    expect(whole.overlaps).toEqual([part.key]);
+    expect(part.overlaps).toEqual([whole.key]);
+    expect(moment.overlaps).toEqual([]);
+    expect(moment.step).toBe(1);
+  });
+
+  it('selects the widest of overlapping fixes by default', () => {
+    expect(plan.defaultSelection.sort()).toEqual([byTitle('Replace ReactDOM.render(app, root)').key, byTitle('Replace moment()').key].sort());
+  });
+
+  it('flags separate fixes on the same line', () => {
+    const sameLine = planFixes('a(); b();', [issue('a()', 'x()'), issue('b()', 'y()')]);
+    expect(sameLine.fixes.map(f => f.sharesLines)).toEqual([['1'], ['0']]);
+  });
+
+  it('deselects the fixes a newly selected one overlaps', () => {
+    const whole = byTitle('Replace ReactDOM.render(app, root)').key;
+    const part = byTitle('Replace ReactDOM.render').key;
+
+    expect(toggleFix(plan, [whole], part)).toEqual([part]);
+    expect(toggleFix(plan, [whole], whole)).toEqual([]);
+  });
+
+  it('applies the selection and refuses overlapping picks', () => {
+    expect(applyPlan(plan, plan.defaultSelection).code).toBe('import moment from "moment";\ncreateRoot(root).render(app);\nconst t = dayjs();');
+    expect(() => applyPlan(plan, plan.fixes.map(f => f.key))).toThrow(/overlaps another selected fix/);
+  });
+
+  it('previews one fix with the lines around it', () => {
+    expect(previewFix(plan, byTitle('Replace moment()'), 1)).toEqual({
+      oldCode: 'ReactDOM.render(app, root);\nconst t = moment();',
+      newCode: 'ReactDOM.render(app, root);\nconst t = dayjs();',
+      startLine: 2
+    });
+  });
+});
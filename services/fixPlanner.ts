@@ -0,0 +1,77 @@
+import { Issue } from '../types';
+import { applyEdits, editsOverlap, FixConflict, FixEdit, placeFixes } from './fixApplier';
+
+// Bulk fixes are planned before anything is written: every fix is placed
+// against the same buffer, edits that fight over the same text are marked, and
+// the user picks which ones to apply.
+
+export interface PlannedFix {
+  key: string;
+  edit: FixEdit;
+  overlaps: string[]; // Keys of fixes rewriting some of the same text; at most one of them can be applied
+  sharesLines: string[]; // Keys of separate fixes on the same lines, which must land in one pass
+  step: number; // 1-based position in the application order
+}
+
+export interface FixPlan {
+  code: string; // The buffer the plan was made against
+  fixes: PlannedFix[]; // In buffer order
+  conflicts: FixConflict[]; // Fixes that could not be placed at all
+  defaultSelection: string[];
+}
+
+const span = (e: FixEdit) => e.end - e.start;
+const sharesLines = (a: FixEdit, b: FixEdit) => a.startLine <= b.endLine && b.startLine <= a.endLine;
+
+export const planFixes = (code: string, issues: Issue[]): FixPlan => {
+  const { edits, conflicts } = placeFixes(code, issues);
+  const keyed = edits.map((edit, i) => ({ key: String(i), edit })).sort((a, b) => a.edit.start - b.edit.start || b.edit.end - a.edit.end);
+
+  // Bottom-up, so applying one edit never moves the text of the ones still to come
+  const steps = new Map([...keyed].sort((a, b) => b.edit.start - a.edit.start).map((k, i) => [k.key, i + 1]));
+
+  const fixes: PlannedFix[] = keyed.map(({ key, edit }) => {
+    const others = keyed.filter(o => o.key !== key);
+    return {
+      key,
+      edit,
+      overlaps: others.filter(o => editsOverlap(o.edit, edit)).map(o => o.key),
+      sharesLines: others.filter(o => !editsOverlap(o.edit, edit) && sharesLines(o.edit, edit)).map(o => o.key),
+      step: steps.get(key)!
+    };
+  });
+
+  // Of overlapping fixes, the widest is picked by default: it usually covers the narrower ones
+  const defaultSelection: string[] = [];
+  [...fixes].sort((a, b) => span(b.edit) - span(a.edit)).forEach(fix => {
+    if (!fix.overlaps.some(k => defaultSelection.includes(k))) defaultSelection.push(fix.key);
+  });
+
+  return { code, fixes, conflicts, defaultSelection };
+};
+
+// Selecting a fix deselects the ones it overlaps
+export const toggleFix = (plan: FixPlan, selection: string[], key: string): string[] => {
+  if (selection.includes(key)) return selection.filter(k => k !== key);
+  const fix = plan.fixes.find(f => f.key === key);
+  return [...selection.filter(k => !fix?.overlaps.includes(k)), key];
+};
+
+export const applyPlan = (plan: FixPlan, selection: string[]): { code: string; edits: FixEdit[] } => {
+  const chosen = plan.fixes.filter(f => selection.includes(f.key));
+  const clash = chosen.find(f => f.overlaps.some(k => selection.includes(k)));
+  if (clash) throw new Error(`"${clash.edit.issue.title}" overlaps another selected fix.`);
+  const edits = chosen.map(f => f.edit);
+  return { code: applyEdits(plan.code, edits), edits };
+};
+
+// The lines around one edit, before and after, for a per-fix preview
+export const previewFix = (plan: FixPlan, fix: PlannedFix, context: number = 2): { oldCode: string; newCode: string; startLine: number } => {
+  const lines = plan.code.split('\n');
+  const firstLine = Math.max(1, fix.edit.startLine - context);
+  const lastLine = Math.min(lines.length, fix.edit.endLine + context);
+  const regionStart = lines.slice(0, firstLine - 1).reduce((n, l) => n + l.length + 1, 0);
+  const oldCode = lines.slice(firstLine - 1, lastLine).join('\n');
+  const newCode = oldCode.slice(0, fix.edit.start - regionStart) + fix.edit.text + oldCode.slice(fix.edit.end - regionStart);
+  return { oldCode, newCode, startLine: firstLine };
+};
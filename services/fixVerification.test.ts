@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisReport, Issue, Severity } from '../types';
+import { applyFixes } from './fixApplier';
+import { EMPTY_FIX_HISTORY, recordFixes } from './fixHistory';
+import { verifyEntry } from './fixVerification';
+
+const issue = (affectedCode: string, overrides: Partial<Issue> = {}): Issue => ({
+  id: affectedCode,
+  severity: Severity.WARNING,
+  title: `Replace ${affectedCode}`,
+  description: '',
+  affectedCode,
+  replacementCode: '',
+  estimatedEndOfLife: 'Unknown',
+  category: 'Deprecation',
+  ...overrides
+});
+
+const report = (issues: Issue[]): AnalysisReport => ({ summary: '', overallHealthScore: 90, issues, timestamp: '' });
+
+const CODE = 'a();\nb();\nc();';
+const target = issue('a()', { ruleId: 'legacy-a', replacementCode: 'alpha()', startLine: 1 });
+const other = issue('c()', { ruleId: 'legacy-c', startLine: 3 });
+
+// Applies the fix to CODE and verifies it against the findings that follow
+const verify = (after: Issue[], before: Issue[] = [target, other]) => {
+  const { edits } = applyFixes(CODE, [target]);
+  const history = recordFixes(EMPTY_FIX_HISTORY, CODE, edits, 'Fix a');
+  const [check] = verifyEntry(history, history.entries[0], report(before), report(after)).checks;
+  return check;
+};
+
+describe('verifyEntry', () => {
+  it('resolves a fix whose finding is gone', () => {
+    expect(verify([other])).toEqual({ issue: target, outcome: 'resolved', introduced: [] });
+  });
+
+  it('leaves a fix unresolved when the finding is reported again on the new code', () => {
+    expect(verify([{ ...target, affectedCode: 'alpha()' }, other]).outcome).toBe('unresolved');
+  });
+
+  it('counts repeated copies of the finding one for one', () => {
+    const copy = { ...target, id: 'copy', startLine: 2 };
+    expect(verify([copy, other], [target, copy, other]).outcome).toBe('resolved');
+    expect(verify([copy, { ...copy, id: 'copy-2' }, other], [target, copy, other]).outcome).toBe('unresolved');
+  });
+
+  it('flags new findings inside the replacement as a regression', () => {
+    const introduced = issue('alpha()', { ruleId: 'alpha-is-experimental', startLine: 1 });
+    expect(verify([introduced, other])).toEqual({ issue: target, outcome: 'regressed', introduced: [introduced] });
+  });
+
+  it('ignores findings outside the replacement and suppressed ones', () => {
+    const elsewhere = issue('b()', { ruleId: 'new-rule', startLine: 2 });
+    const suppressed = issue('alpha()', { ruleId: 'alpha-is-experimental', startLine: 1, suppression: { reason: 'Accepted' } });
+    expect(verify([elsewhere, suppressed, other]).outcome).toBe('resolved');
+  });
+});
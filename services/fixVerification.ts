@@ -0,0 +1,62 @@
+import { AnalysisReport, Issue } from '../types';
+import { issueFingerprint, normalizeCode } from './fingerprint';
+import { FixHistory, FixHistoryEntry, FixHunk, hunkLines } from './fixHistory';
+import { isSuppressed } from './scoring';
+import { LineRange, toBufferRange } from './workspace';
+
+// Checks an applied fix against the analysis that ran right after it: did the
+// targeted finding go away, and did the replacement bring in findings of its own?
+
+export type FixOutcome = 'resolved' | 'unresolved' | 'regressed';
+
+export interface FixCheck {
+  issue: Issue; // The finding the fix targeted
+  outcome: FixOutcome;
+  introduced: Issue[]; // New findings inside the replacement
+}
+
+export interface FixVerification {
+  checkedAt: string;
+  checks: FixCheck[]; // In the entry's hunk order
+}
+
+// Report lines are relative to the file; hunks live in the combined buffer
+const issueLines = (code: string, issue: Issue): LineRange | null =>
+  issue.startLine ? toBufferRange(code, issue.filePath, { startLine: issue.startLine, endLine: issue.endLine || issue.startLine }) : null;
+
+// Located by line when the finding has one, otherwise by its code appearing in the replacement
+const isInside = (code: string, hunk: FixHunk, lines: LineRange, issue: Issue): boolean => {
+  const at = issueLines(code, issue);
+  if (at) return at.startLine <= lines.endLine && at.endLine >= lines.startLine;
+  const snippet = normalizeCode(issue.affectedCode);
+  return snippet.length > 0 && normalizeCode(hunk.fixed).includes(snippet);
+};
+
+const sameKind = (a: Issue, b: Issue) =>
+  a.filePath === b.filePath && (a.ruleId ? a.ruleId === b.ruleId : !b.ruleId && a.category === b.category);
+
+// `history` must describe the buffer `after` was produced from
+export const verifyEntry = (history: FixHistory, entry: FixHistoryEntry, before: AnalysisReport, after: AnalysisReport): FixVerification => {
+  const active = (report: AnalysisReport) => report.issues.filter(i => !isSuppressed(i));
+  const beforeKeys = active(before).map(issueFingerprint);
+  const afterIssues = active(after);
+  const afterKeys = afterIssues.map(issueFingerprint);
+  const count = (keys: string[], key: string) => keys.filter(k => k === key).length;
+
+  const checks = entry.hunks.map(hunk => {
+    const lines = hunkLines(history.code, hunk);
+    const target = issueFingerprint(hunk.issue);
+    const inside = afterIssues.filter(i => isInside(history.code, hunk, lines, i));
+
+    // The same finding reported again on the rewritten code, or no fewer copies of it
+    // than before (the same snippet elsewhere in the file shares its fingerprint)
+    const rewritten = inside.find(i => sameKind(i, hunk.issue));
+    const remaining = !!rewritten || count(afterKeys, target) >= count(beforeKeys, target);
+    const introduced = inside.filter(i => i !== rewritten && !beforeKeys.includes(issueFingerprint(i)));
+
+    const outcome: FixOutcome = introduced.length > 0 ? 'regressed' : remaining ? 'unresolved' : 'resolved';
+    return { issue: hunk.issue, outcome, introduced };
+  });
+
+  return { checkedAt: new Date().toISOString(), checks };
+};
@@ -1,89 +1,21 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { AnalysisReport } from '../types';
-
-const getClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const reportSchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    overallHealthScore: {
-      type: Type.NUMBER,
-      description: "A score from 0 to 100. START at 100. Deduct 10 points for each Critical issue, 5 for Warning, 2 for Info. If NO issues are found, the score MUST be 100.",
-    },
-    summary: {
-      type: Type.STRING,
-      description: "A brief executive summary of the codebase status. If score is 100, congratulate the user.",
-    },
-    issues: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          severity: {
-            type: Type.STRING,
-            enum: ["Critical", "Warning", "Info"],
-          },
-          title: { type: Type.STRING },
-          description: { type: Type.STRING },
-          affectedCode: { type: Type.STRING },
-          replacementCode: { type: Type.STRING },
-          estimatedEndOfLife: {
-            type: Type.STRING,
-            description: "Estimated date (YYYY-MM-DD) when this feature will break. If unknown, estimate based on typical LTS cycles.",
-          },
-          category: {
-            type: Type.STRING,
-            enum: ["Security", "Deprecation", "Performance", "Standard"],
-          },
-          isPrediction: {
-            type: Type.BOOLEAN,
-            description: "Set to true if this is a predicted future deprecation (not yet officially deprecated but shows signs).",
-          },
-          predictionConfidence: {
-            type: Type.NUMBER,
-            description: "Confidence score (0-100) for this prediction based on trends.",
-          },
-          riskFactors: {
-            type: Type.ARRAY,
-            items: { type: Type.STRING },
-            description: "List of reasons for prediction, e.g., 'Declining GitHub Activity', 'Roadmap Leak', 'Legacy Pattern'.",
-          },
-        },
-        required: ["severity", "title", "description", "affectedCode", "replacementCode", "category", "estimatedEndOfLife"],
-      },
-    },
-    dependencies: {
-      type: Type.ARRAY,
-      description: "List of detected packages/libraries and their update status. Populate this if the input looks like a dependency file (package.json, requirements.txt) or has imports.",
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          packageName: { type: Type.STRING },
-          currentVersion: { type: Type.STRING },
-          latestVersion: { type: Type.STRING },
-          compatibilityStatus: { type: Type.STRING, enum: ['Compatible', 'Breaking Changes', 'Unknown'] },
-          actionRequired: { type: Type.STRING, description: "Short advice, e.g., 'Upgrade immediately' or 'Wait for v5'" }
-        },
-        required: ["packageName", "currentVersion", "latestVersion", "compatibilityStatus", "actionRequired"]
-      }
-    }
-  },
-  required: ["overallHealthScore", "summary", "issues"],
-};
+import { AnalysisReport, Issue } from '../types';
+import { calculateHealthScore } from './scoring';
+import { createProvider, LlmProvider } from './llmProviders';
+import { reportSchema } from './reportSchema';
+import { parseModelJson, ReportValidation, validateReport } from './reportValidation';
+
+const MAX_REPAIR_RETRIES = 1;
+
+// Bump whenever the prompt or schema changes so cached analyses are not reused
+export const ANALYSIS_PROMPT_VERSION = '1';
 
-export const analyzeCode = async (code: string, context?: string): Promise<AnalysisReport> => {
-  const ai = getClient();
-  
+export const analyzeCode = async (code: string, context?: string, provider: LlmProvider = createProvider()): Promise<AnalysisReport> => {  
   const systemPrompt = `
     You are 'DepreCheck AI', a Senior Software Architect and Future-Tech predictor.
     Your task is to scan the provided code (or dependency file) for CURRENT issues and FUTURE risks.
 
-    SCORING RULES:
-    - Start with a Health Score of 100.
-    - If you find NO issues, the score MUST remain 100.
-    - Deduct 15 points for each CRITICAL issue.
-    - Deduct 5 points for each WARNING.
-    - Deduct 2 points for each INFO/PREDICTION.
+    RULES:
+    - Do not compute a health score; it is calculated from your issue list.
     - If the code provided looks like it has already been fixed (e.g. uses modern APIs), DO NOT flag old issues.
 
     1. **Standard Deprecation**: Identify libraries/methods that are currently deprecated.
@@ -104,30 +36,56 @@ export const analyzeCode = async (code: string, context?: string): Promise<Analy
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: code,
-      config: {
+    let validation: ReportValidation | null = null;
+
+    // One retry: the second request tells the model what was wrong with the first answer
+    for (let attempt = 0; attempt <= MAX_REPAIR_RETRIES; attempt++) {
+      const prompt = attempt === 0 || !validation
+        ? code
+        : `${code}\n\n---\nYour previous answer did not match the required JSON schema:\n- ${validation.problems.slice(0, 20).join('\n- ')}\nAnswer again with corrected JSON only.`;
+
+      const response = await provider.generate({
+        prompt,
         systemInstruction: systemPrompt,
-        responseMimeType: "application/json",
         responseSchema: reportSchema,
         temperature: 0.2,
-      },
-    });
+      });
 
-    const text = response.text;
-    if (!text) throw new Error("No response from AI");
+      const text = response.text;
+      if (!text) throw new Error("No response from AI");
 
-    const data = JSON.parse(text);
+      let current: ReportValidation;
+      try {
+        current = validateReport(parseModelJson(text));
+      } catch {
+        current = { report: null, problems: ['Response is not valid JSON.'], droppedIssues: 0 };
+      }
+
+      // Keep the first usable answer if the retry came back worse
+      if (current.report || !validation?.report) validation = current;
+      if (current.report && current.droppedIssues === 0) break;
+    }
+
+    if (!validation?.report) {
+      throw new Error(`Malformed analysis response: ${validation?.problems.slice(0, 3).join(' ')}`);
+    }
+    if (validation.problems.length > 0) {
+      console.warn("Repaired analysis response:", validation.problems);
+    }
+    const data = validation.report;
     
     // Enrich with IDs and timestamp
+    const issues: Issue[] = data.issues.map((issue, index) => ({
+      ...issue,
+      id: `issue-${index}-${Date.now()}`,
+      source: 'ai'
+    }));
+
     return {
       ...data,
+      overallHealthScore: calculateHealthScore(issues),
       timestamp: new Date().toISOString(),
-      issues: data.issues.map((issue: any, index: number) => ({
-        ...issue,
-        id: `issue-${index}-${Date.now()}`
-      }))
+      issues
     };
 
   } catch (error: any) {
@@ -147,8 +105,10 @@ export const analyzeCode = async (code: string, context?: string): Promise<Analy
       userMessage = "The AI service is currently overloaded. Please try again in a few minutes.";
     } else if (errorMsg.includes("safety") || errorMsg.includes("blocked")) {
       userMessage = "The model declined to generate a response due to safety policies. Please modify your input.";
-    } else if (errorMsg.includes("fetch failed")) {
-      userMessage = "Network error. Please check your internet connection.";
+    } else if (errorMsg.includes("fetch failed") || errorMsg.includes("Failed to fetch")) {
+      userMessage = `Network error. Could not reach the ${provider.kind} provider.`;
+    } else if (errorMsg.startsWith("Malformed analysis response") || errorStatus === 404) {
+      userMessage = errorMsg;
     }
 
     throw new Error(userMessage);
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { DiffLine } from './unifiedDiff';
+import { collapseUnchanged, diffLines, diffWords, pairLines } from './lineDiff';
+
+const summarize = (lines: DiffLine[]) =>
+  lines.map(l => `${l.type === 'add' ? '+' : l.type === 'del' ? '-' : ' '}${l.text}`);
+
+describe('diffLines', () => {
+  it('numbers unchanged, removed and added lines', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc')).toEqual([
+      { type: 'context', text: 'a', oldLine: 1, newLine: 1 },
+      { type: 'del', text: 'b', oldLine: 2 },
+      { type: 'add', text: 'B', newLine: 2 },
+      { type: 'context', text: 'c', oldLine: 3, newLine: 3 }
+    ]);
+  });
+
+  it('finds the shortest edit instead of rewriting around a moved line', () => {
+    expect(summarize(diffLines('x\na\nb\nc\ny', 'x\nb\nc\na\ny'))).toEqual([' x', '-a', ' b', ' c', '+a', ' y']);
+  });
+
+  it('groups deletions before additions within a change', () => {
+    expect(summarize(diffLines('keep\none\ntwo\nend', 'keep\nuno\ndos\ntres\nend'))).toEqual([
+      ' keep', '-one', '-two', '+uno', '+dos', '+tres', ' end'
+    ]);
+  });
+
+  it('handles empty and identical texts', () => {
+    expect(summarize(diffLines('', 'a'))).toEqual(['-', '+a']);
+    expect(diffLines('same\n', 'same\n').every(l => l.type === 'context')).toBe(true);
+  });
+
+  it('falls back to a full rewrite past the edit budget', () => {
+    const a = Array.from({ length: 4100 }, (_, i) => `old ${i}`).join('\n');
+    const b = Array.from({ length: 4100 }, (_, i) => `new ${i}`).join('\n');
+    const lines = diffLines(a, b);
+
+    expect(lines).toHaveLength(8200);
+    expect(lines[0].type).toBe('del');
+    expect(lines[4100].type).toBe('add');
+  });
+});
+
+describe('pairLines', () => {
+  it('puts the n-th deletion of a change beside its n-th addition', () => {
+    const rows = pairLines(diffLines('a\nb\nc\nd', 'a\nB\nd'));
+
+    expect(rows.map(r => [r.old?.text, r.new?.text])).toEqual([['a', 'a'], ['b', 'B'], ['c', undefined], ['d', 'd']]);
+  });
+});
+
+describe('collapseUnchanged', () => {
+  const text = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+
+  it('folds unchanged runs beyond the context', () => {
+    const changed = [...text];
+    changed[9] = 'changed';
+    const blocks = collapseUnchanged(diffLines(text.join('\n'), changed.join('\n')), 2);
+
+    expect(blocks.map(b => b.kind)).toEqual(['collapsed', 'lines', 'collapsed']);
+    expect(blocks[0].lines).toHaveLength(7);
+    expect(summarize(blocks[1].lines)).toEqual([' line 8', ' line 9', '-line 10', '+changed', ' line 11', ' line 12']);
+    expect(blocks[2].lines).toHaveLength(8);
+  });
+
+  it('keeps short runs visible', () => {
+    const blocks = collapseUnchanged(diffLines('a\nb\nc', 'a\nB\nc'));
+    expect(blocks).toEqual([{ kind: 'lines', lines: diffLines('a\nb\nc', 'a\nB\nc') }]);
+  });
+});
+
+describe('diffWords', () => {
+  it('highlights only the changed words', () => {
+    const { old, new: next } = diffWords('ReactDOM.render(app, root);', 'createRoot(root).render(app);');
+
+    expect(old.filter(s => s.changed).map(s => s.text).join('')).not.toContain('render');
+    expect(next.map(s => s.text).join('')).toBe('createRoot(root).render(app);');
+    expect(next.some(s => s.changed)).toBe(true);
+  });
+
+  it('leaves lines with nothing in common unhighlighted', () => {
+    expect(diffWords('foo', 'bar')).toEqual({ old: [{ text: 'foo', changed: false }], new: [{ text: 'bar', changed: false }] });
+  });
+});
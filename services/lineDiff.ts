@@ -0,0 +1,211 @@
+import { DiffLine } from './unifiedDiff';
+
+// Myers' O((N+M)D) shortest edit script, shared by the line and word diffs.
+// Returns the operations in order: 'equal' and 'del' consume a, 'equal' and 'add' consume b.
+type EditOp = 'equal' | 'del' | 'add';
+
+// The trace grows with the square of the edit distance; past this a full
+// rewrite is shown instead of searching further
+const MAX_EDIT_DISTANCE = 4000;
+
+const shortestEdit = <T>(a: T[], b: T[]): EditOp[] => {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = []; // trace[d][k + d] = furthest x on diagonal k after d edits
+
+  search: for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_DISTANCE) return [...Array<EditOp>(n).fill('del'), ...Array<EditOp>(m).fill('add')];
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        break search;
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+
+  const ops: EditOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d - 1];
+    const k = x - y;
+    const down = k === -d || (k !== d && prev[k - 1 + d - 1] < prev[k + 1 + d - 1]);
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = prev[prevK + d - 1];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push('equal');
+      x--;
+      y--;
+    }
+    if (down) {
+      ops.push('add');
+      y--;
+    } else {
+      ops.push('del');
+      x--;
+    }
+  }
+  while (x > 0 && y > 0) {
+    ops.push('equal');
+    x--;
+    y--;
+  }
+  return ops.reverse();
+};
+
+// Lines in file order, with changes between two unchanged lines grouped as
+// deletions first, then additions, so they pair up for side-by-side display
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  // The common prefix and suffix never need the full search
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const ops: EditOp[] = [
+    ...Array<EditOp>(prefix).fill('equal'),
+    ...shortestEdit(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    ...Array<EditOp>(suffix).fill('equal')
+  ];
+
+  const lines: DiffLine[] = [];
+  let dels: DiffLine[] = [];
+  let adds: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  const flush = () => {
+    lines.push(...dels, ...adds);
+    dels = [];
+    adds = [];
+  };
+  ops.forEach(op => {
+    if (op === 'equal') {
+      flush();
+      lines.push({ type: 'context', text: a[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (op === 'del') {
+      dels.push({ type: 'del', text: a[i], oldLine: i + 1 });
+      i++;
+    } else {
+      adds.push({ type: 'add', text: b[j], newLine: j + 1 });
+      j++;
+    }
+  });
+  flush();
+  return lines;
+};
+
+export interface DiffRow {
+  old?: DiffLine; // Absent on the left of a pure addition
+  new?: DiffLine; // Absent on the right of a pure deletion
+}
+
+// Side-by-side rows: unchanged lines face themselves, the n-th deleted line of
+// a change faces its n-th added line
+export const pairLines = (lines: DiffLine[]): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type === 'context') {
+      rows.push({ old: lines[i], new: lines[i] });
+      i++;
+      continue;
+    }
+    const dels: DiffLine[] = [];
+    const adds: DiffLine[] = [];
+    while (i < lines.length && lines[i].type === 'del') dels.push(lines[i++]);
+    while (i < lines.length && lines[i].type === 'add') adds.push(lines[i++]);
+    for (let r = 0; r < Math.max(dels.length, adds.length); r++) rows.push({ old: dels[r], new: adds[r] });
+  }
+  return rows;
+};
+
+export type DiffBlock =
+  | { kind: 'lines'; lines: DiffLine[] }
+  | { kind: 'collapsed'; id: number; lines: DiffLine[] }; // Unchanged run, hidden until expanded
+
+// Keeps `context` unchanged lines around each change and folds the rest
+export const collapseUnchanged = (lines: DiffLine[], context: number = 3): DiffBlock[] => {
+  const blocks: DiffBlock[] = [];
+  let visible: DiffLine[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type !== 'context') {
+      visible.push(lines[i++]);
+      continue;
+    }
+    let end = i;
+    while (end < lines.length && lines[end].type === 'context') end++;
+    const run = lines.slice(i, end);
+    const keepBefore = i === 0 ? 0 : context;
+    const keepAfter = end === lines.length ? 0 : context;
+    // Folding only pays off when it hides more than a couple of lines
+    if (run.length - keepBefore - keepAfter > 2) {
+      visible.push(...run.slice(0, keepBefore));
+      if (visible.length > 0) blocks.push({ kind: 'lines', lines: visible });
+      blocks.push({ kind: 'collapsed', id: i, lines: run.slice(keepBefore, run.length - keepAfter) });
+      visible = run.slice(run.length - keepAfter);
+    } else {
+      visible.push(...run);
+    }
+    i = end;
+  }
+  if (visible.length > 0) blocks.push({ kind: 'lines', lines: visible });
+  return blocks;
+};
+
+export interface WordSegment {
+  text: string;
+  changed: boolean;
+}
+
+const tokenize = (text: string) => text.match(/\w+|\s+|[^\w\s]/g) || [];
+
+const mergeSegments = (segments: WordSegment[]): WordSegment[] =>
+  segments.reduce<WordSegment[]>((acc, s) => {
+    const last = acc[acc.length - 1];
+    if (last && last.changed === s.changed) last.text += s.text;
+    else acc.push({ ...s });
+    return acc;
+  }, []);
+
+// Intra-line highlights for a deleted line and the added line facing it.
+// Lines with nothing in common are returned unhighlighted: marking every word helps nobody.
+export const diffWords = (oldText: string, newText: string): { old: WordSegment[]; new: WordSegment[] } => {
+  const a = tokenize(oldText);
+  const b = tokenize(newText);
+  const oldSegments: WordSegment[] = [];
+  const newSegments: WordSegment[] = [];
+  let shared = false;
+  let i = 0;
+  let j = 0;
+  shortestEdit(a, b).forEach(op => {
+    if (op === 'equal') {
+      if (/\S/.test(a[i])) shared = true;
+      oldSegments.push({ text: a[i++], changed: false });
+      newSegments.push({ text: b[j++], changed: false });
+    } else if (op === 'del') {
+      oldSegments.push({ text: a[i++], changed: true });
+    } else {
+      newSegments.push({ text: b[j++], changed: true });
+    }
+  });
+  if (!shared) return { old: [{ text: oldText, changed: false }], new: [{ text: newText, changed: false }] };
+  return { old: mergeSegments(oldSegments), new: mergeSegments(newSegments) };
+};
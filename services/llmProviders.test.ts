@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Severity } from '../types';
+import { analyzeCode } from './geminiService';
+import { createProvider, FixtureRecording } from './llmProviders';
+
+const fixtureProvider = (fixtures: FixtureRecording[]) => createProvider({ kind: 'fixture', model: 'fixture', fixtures });
+
+const VALID_RESPONSE = JSON.stringify({
+  summary: 'One deprecated call.',
+  issues: [{
+    severity: 'Critical',
+    title: 'ReactDOM.render is removed',
+    description: 'Use createRoot.',
+    affectedCode: 'ReactDOM.render(<App />, root);',
+    replacementCode: 'createRoot(root).render(<App />);',
+    estimatedEndOfLife: '2024-04-25',
+    category: 'Deprecation'
+  }]
+});
+
+describe('fixture provider', () => {
+  it('replays the first recording whose match is in the prompt', async () => {
+    const provider = fixtureProvider([
+      { match: 'needle', response: 'matched' },
+      { response: 'fallback' }
+    ]);
+    expect((await provider.generate({ prompt: 'hay needle hay' })).text).toBe('matched');
+    expect((await provider.generate({ prompt: 'hay' })).text).toBe('fallback');
+  });
+
+  it('fails with a 404 when nothing matches', async () => {
+    const provider = fixtureProvider([{ match: 'needle', response: 'matched' }]);
+    await expect(provider.generate({ prompt: 'hay' })).rejects.toMatchObject({ status: 404 });
+  });
+});
+
+describe('analyzeCode with recorded responses', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(() => vi.restoreAllMocks());
+
+  it('turns a valid response into a scored report', async () => {
+    const report = await analyzeCode('ReactDOM.render(<App />, root);', undefined, fixtureProvider([{ response: VALID_RESPONSE }]));
+
+    expect(report.summary).toBe('One deprecated call.');
+    expect(report.issues).toHaveLength(1);
+    expect(report.issues[0]).toMatchObject({ severity: Severity.CRITICAL, source: 'ai', estimatedEndOfLife: '2024-04-25' });
+    expect(report.issues[0].id).toMatch(/^issue-0-/);
+    expect(report.overallHealthScore).toBeLessThan(100);
+  });
+
+  it('surfaces a missing recording', async () => {
+    await expect(analyzeCode('code', undefined, fixtureProvider([{ match: 'needle', response: VALID_RESPONSE }])))
+      .rejects.toThrow('No recorded fixture matches this request.');
+  });
+});
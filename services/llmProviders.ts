@@ -0,0 +1,196 @@
+import { GoogleGenAI, Type, Schema } from "@google/genai";
+import { JsonSchema } from './reportSchema';
+
+export type ProviderKind = 'gemini' | 'openai-compatible' | 'ollama' | 'fixture';
+
+export interface FixtureRecording {
+  match?: string; // Served when the prompt contains this text; omit to match anything
+  response: string;
+}
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  model: string;
+  baseUrl?: string;
+  apiKey?: string;
+  fixtures?: FixtureRecording[];
+}
+
+export interface GenerateRequest {
+  prompt: string;
+  systemInstruction?: string;
+  responseSchema?: JsonSchema; // When set, the provider must answer with JSON matching it
+  temperature?: number;
+}
+
+export interface GenerateResult {
+  text: string;
+  usage?: unknown;
+  raw?: unknown;
+}
+
+export interface LlmProvider {
+  kind: ProviderKind;
+  model: string;
+  generate: (request: GenerateRequest) => Promise<GenerateResult>;
+}
+
+export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = {
+  kind: 'gemini',
+  model: 'gemini-2.5-flash'
+};
+
+export const PROVIDER_DEFAULTS: Record<ProviderKind, { label: string; model: string; baseUrl?: string }> = {
+  'gemini': { label: 'Google Gemini', model: 'gemini-2.5-flash' },
+  'openai-compatible': { label: 'OpenAI-compatible', model: 'gpt-4o-mini', baseUrl: 'https://api.openai.com/v1' },
+  'ollama': { label: 'Ollama (local)', model: 'llama3.1', baseUrl: 'http://localhost:11434' },
+  'fixture': { label: 'Recorded fixtures', model: 'fixture' }
+};
+
+// Errors carry the HTTP status like the Gemini SDK does, so callers can map them uniformly
+const httpError = (message: string, status: number) => Object.assign(new Error(message), { status });
+
+// --- Schema translation ---
+
+const GEMINI_TYPES: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN
+};
+
+export const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: GEMINI_TYPES[schema.type],
+  ...(schema.description ? { description: schema.description } : {}),
+  ...(schema.enum ? { enum: schema.enum } : {}),
+  ...(schema.required ? { required: schema.required } : {}),
+  ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+  ...(schema.properties
+    ? { properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])) }
+    : {})
+});
+
+// OpenAI-style structured outputs want plain JSON Schema
+export const toOpenAiSchema = (schema: JsonSchema): Record<string, unknown> => ({
+  type: schema.type,
+  ...(schema.description ? { description: schema.description } : {}),
+  ...(schema.enum ? { enum: schema.enum } : {}),
+  ...(schema.required ? { required: schema.required } : {}),
+  ...(schema.items ? { items: toOpenAiSchema(schema.items) } : {}),
+  ...(schema.properties
+    ? { properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toOpenAiSchema(value)])) }
+    : {})
+});
+
+// --- Providers ---
+
+const createGeminiProvider = (config: ProviderConfig): LlmProvider => ({
+  kind: 'gemini',
+  model: config.model,
+  generate: async ({ prompt, systemInstruction, responseSchema, temperature }) => {
+    const ai = new GoogleGenAI({ apiKey: config.apiKey || process.env.API_KEY });
+    const response = await ai.models.generateContent({
+      model: config.model,
+      contents: prompt,
+      config: {
+        ...(systemInstruction ? { systemInstruction } : {}),
+        ...(responseSchema ? { responseMimeType: "application/json", responseSchema: toGeminiSchema(responseSchema) } : {}),
+        ...(temperature !== undefined ? { temperature } : {}),
+      },
+    });
+    return { text: response.text || '', usage: response.usageMetadata, raw: response };
+  }
+});
+
+const createOpenAiCompatibleProvider = (config: ProviderConfig): LlmProvider => ({
+  kind: 'openai-compatible',
+  model: config.model,
+  generate: async ({ prompt, systemInstruction, responseSchema, temperature }) => {
+    const baseUrl = (config.baseUrl || PROVIDER_DEFAULTS['openai-compatible'].baseUrl!).replace(/\/$/, '');
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages: [
+          ...(systemInstruction ? [{ role: 'system', content: systemInstruction }] : []),
+          { role: 'user', content: prompt },
+        ],
+        ...(temperature !== undefined ? { temperature } : {}),
+        ...(responseSchema
+          ? { response_format: { type: 'json_schema', json_schema: { name: 'analysis_report', schema: toOpenAiSchema(responseSchema) } } }
+          : {}),
+      }),
+    });
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw httpError(data?.error?.message || `Provider request failed (${response.status})`, response.status);
+    }
+    return { text: data?.choices?.[0]?.message?.content || '', usage: data?.usage, raw: data };
+  }
+});
+
+const createOllamaProvider = (config: ProviderConfig): LlmProvider => ({
+  kind: 'ollama',
+  model: config.model,
+  generate: async ({ prompt, systemInstruction, responseSchema, temperature }) => {
+    const baseUrl = (config.baseUrl || PROVIDER_DEFAULTS.ollama.baseUrl!).replace(/\/$/, '');
+    const response = await fetch(`${baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.model,
+        stream: false,
+        messages: [
+          ...(systemInstruction ? [{ role: 'system', content: systemInstruction }] : []),
+          { role: 'user', content: prompt },
+        ],
+        // Ollama accepts a JSON Schema directly as the output format
+        ...(responseSchema ? { format: toOpenAiSchema(responseSchema) } : {}),
+        ...(temperature !== undefined ? { options: { temperature } } : {}),
+      }),
+    });
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw httpError(data?.error || `Provider request failed (${response.status})`, response.status);
+    }
+    return {
+      text: data?.message?.content || '',
+      usage: data ? { promptTokens: data.prompt_eval_count, completionTokens: data.eval_count } : undefined,
+      raw: data
+    };
+  }
+});
+
+// Replays recorded responses so analysis can run deterministically in tests and demos
+const createFixtureProvider = (config: ProviderConfig): LlmProvider => ({
+  kind: 'fixture',
+  model: config.model,
+  generate: async ({ prompt }) => {
+    const recording = (config.fixtures || []).find(f => !f.match || prompt.includes(f.match));
+    if (!recording) {
+      throw httpError('No recorded fixture matches this request.', 404);
+    }
+    return { text: recording.response };
+  }
+});
+
+export const createProvider = (config: ProviderConfig = DEFAULT_PROVIDER_CONFIG): LlmProvider => {
+  switch (config.kind) {
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider(config);
+    case 'ollama':
+      return createOllamaProvider(config);
+    case 'fixture':
+      return createFixtureProvider(config);
+    case 'gemini':
+    default:
+      return createGeminiProvider(config);
+  }
+};
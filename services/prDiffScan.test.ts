@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { scanDiff } from './prDiffScan';
+import { parseUnifiedDiff } from './unifiedDiff';
+
+// The PR keeps one Buffer constructor, removes another, adds a `var` and a new
+// file using forwardRef; the offline rule engine needs no provider
+const PR_DIFF = `diff --git a/src/io.js b/src/io.js
+--- a/src/io.js
++++ b/src/io.js
+@@ -1,4 +1,4 @@
+ const head = new Buffer(4);
+-const tail = new Buffer(8);
++const tail = Buffer.alloc(8);
++var count = 0;
+ module.exports = { head, tail };
+-// end
+diff --git a/src/Input.tsx b/src/Input.tsx
+new file mode 100644
+--- /dev/null
++++ b/src/Input.tsx
+@@ -0,0 +1,2 @@
++import { forwardRef } from 'react';
++export const Input = forwardRef((props, ref) => <input ref={ref} {...props} />);
+`;
+
+describe('scanDiff', () => {
+  it('separates issues the PR introduces from those already on the base branch', async () => {
+    const result = await scanDiff(parseUnifiedDiff(PR_DIFF), 'rules');
+
+    expect(result.newIssues.map(i => [i.ruleId, i.filePath, i.startLine]).sort()).toEqual([
+      ['no-forward-ref', 'src/Input.tsx', 2],
+      ['var-declaration', 'src/io.js', 3]
+    ]);
+    expect(result.existingIssues.map(i => [i.ruleId, i.startLine])).toEqual([['buffer-constructor', 1]]);
+    expect(result.resolvedIssues.map(i => [i.ruleId, i.affectedCode])).toEqual([['buffer-constructor', expect.stringContaining('new Buffer(8)')]]);
+    expect(result.report.issues.every(i => i.diffStatus)).toBe(true);
+  });
+
+  it('scores only the new issues', async () => {
+    const result = await scanDiff(parseUnifiedDiff(PR_DIFF), 'rules');
+    const existingOnly = await scanDiff(parseUnifiedDiff(PR_DIFF.split('diff --git a/src/Input.tsx')[0].replace('+var count = 0;\n', '')), 'rules');
+
+    expect(existingOnly.newIssues).toEqual([]);
+    expect(existingOnly.report.overallHealthScore).toBe(100);
+    expect(result.report.overallHealthScore).toBeLessThan(100);
+  });
+
+  it('summarizes the changed files', async () => {
+    const { files } = await scanDiff(parseUnifiedDiff(PR_DIFF), 'rules');
+
+    expect(files).toEqual([
+      { path: 'src/io.js', status: 'modified', additions: 2, deletions: 2 },
+      { path: 'src/Input.tsx', status: 'added', additions: 2, deletions: 0 }
+    ]);
+  });
+
+  it('refuses diffs without text changes', async () => {
+    const binary = parseUnifiedDiff('diff --git a/logo.png b/logo.png\nBinary files a/logo.png and b/logo.png differ\n');
+    await expect(scanDiff(binary, 'rules')).rejects.toThrow('The diff has no text changes to analyze.');
+  });
+});
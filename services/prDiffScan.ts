@@ -0,0 +1,116 @@
+import { AnalysisReport, Issue, SourceFile } from '../types';
+import { analyzeFiles, AnalysisEngine, AnalysisOptions } from './analysisService';
+import { BASELINE_FILE } from './baseline';
+import { issueFingerprint } from './fingerprint';
+import { calculateHealthScore } from './scoring';
+import { DiffHunk, FilePatch, FilePatchStatus } from './unifiedDiff';
+
+// One side (base or head) of a changed file, cut down to the diff's hunks.
+// Hunks are joined by a blank line; lineMap[i] is the file line of excerpt line i + 1.
+interface Excerpt {
+  file: SourceFile;
+  lineMap: (number | null)[];
+}
+
+export interface DiffFileSummary {
+  path: string;
+  status: FilePatchStatus;
+  additions: number;
+  deletions: number;
+}
+
+export interface DiffScanResult {
+  report: AnalysisReport; // Head-side issues, each marked new or existing
+  newIssues: Issue[];
+  existingIssues: Issue[];
+  resolvedIssues: Issue[]; // On the base side of the diff but gone in the head
+  files: DiffFileSummary[];
+}
+
+const DIFF_CONTEXT = 'These are excerpts of the files changed in a pull request: the changed lines plus surrounding context. Separate excerpts of one file are divided by a blank line; do not report code that is only partially visible.';
+
+const buildExcerpt = (path: string, hunks: DiffHunk[], side: 'old' | 'new'): Excerpt | null => {
+  const lines: string[] = [];
+  const lineMap: (number | null)[] = [];
+  hunks.forEach(hunk => {
+    const sideLines = hunk.lines.filter(l => (side === 'old' ? l.type !== 'add' : l.type !== 'del'));
+    if (sideLines.length === 0) return;
+    if (lines.length > 0) {
+      lines.push('');
+      lineMap.push(null);
+    }
+    sideLines.forEach(l => {
+      lines.push(l.text);
+      lineMap.push((side === 'old' ? l.oldLine : l.newLine) ?? null);
+    });
+  });
+  return lines.length > 0 ? { file: { path, content: lines.join('\n') }, lineMap } : null;
+};
+
+// Excerpt-relative lines -> real file lines
+const mapIssues = (report: AnalysisReport, excerpts: Excerpt[]): Issue[] => {
+  const byPath = new Map(excerpts.map(e => [e.file.path, e]));
+  return report.issues.map(issue => {
+    const excerpt = issue.filePath ? byPath.get(issue.filePath) : undefined;
+    if (!excerpt || issue.startLine === undefined) return issue;
+    const startLine = excerpt.lineMap[issue.startLine - 1] ?? undefined;
+    const endLine = issue.endLine !== undefined ? excerpt.lineMap[issue.endLine - 1] ?? startLine : startLine;
+    return { ...issue, startLine, endLine };
+  });
+};
+
+const analyzeExcerpts = async (excerpts: Excerpt[], engine: AnalysisEngine, options: AnalysisOptions): Promise<AnalysisReport> => {
+  const report = await analyzeFiles(excerpts.map(e => e.file), engine, {
+    ...options,
+    context: [DIFF_CONTEXT, options.context].filter(Boolean).join('\n')
+  });
+  return { ...report, issues: mapIssues(report, excerpts) };
+};
+
+// Analyzes both sides of the changed hunks. Head issues whose fingerprint is
+// also on the base side were already there before the PR and are marked
+// "existing"; only "new" ones block and count toward the score.
+export const scanDiff = async (patches: FilePatch[], engine: AnalysisEngine = 'hybrid', options: AnalysisOptions = {}): Promise<DiffScanResult> => {
+  const textPatches = patches.filter(p => !p.binary && p.hunks.length > 0 && (p.newPath || p.oldPath) !== BASELINE_FILE);
+  if (textPatches.length === 0) throw new Error('The diff has no text changes to analyze.');
+
+  const headExcerpts = textPatches.flatMap(p => (p.newPath ? [buildExcerpt(p.newPath, p.hunks, 'new')] : [])).filter((e): e is Excerpt => !!e);
+  const baseExcerpts = textPatches.flatMap(p => (p.oldPath ? [buildExcerpt(p.oldPath, p.hunks, 'old')] : [])).filter((e): e is Excerpt => !!e);
+
+  // Progress covers both passes; the base side is usually the smaller one
+  const headReport = await analyzeExcerpts(headExcerpts, engine, options);
+  const baseReport = baseExcerpts.length > 0
+    ? await analyzeExcerpts(baseExcerpts, engine, { ...options, onProgress: undefined })
+    : null;
+
+  // Renamed files keep their fingerprint under the new path
+  const renames = new Map(textPatches.filter(p => p.status === 'renamed').map(p => [p.oldPath!, p.newPath!]));
+  const baseCounts = new Map<string, Issue[]>();
+  (baseReport?.issues || []).forEach(issue => {
+    const key = issueFingerprint({ ...issue, filePath: issue.filePath && (renames.get(issue.filePath) ?? issue.filePath) });
+    baseCounts.set(key, [...(baseCounts.get(key) || []), issue]);
+  });
+
+  const issues: Issue[] = headReport.issues.map(issue => {
+    const matches = baseCounts.get(issueFingerprint(issue));
+    if (matches && matches.length > 0) {
+      matches.shift();
+      return { ...issue, diffStatus: 'existing' as const };
+    }
+    return { ...issue, diffStatus: 'new' as const };
+  });
+  const newIssues = issues.filter(i => i.diffStatus === 'new');
+
+  return {
+    report: { ...headReport, issues, overallHealthScore: calculateHealthScore(newIssues, options.scoringWeights) },
+    newIssues,
+    existingIssues: issues.filter(i => i.diffStatus === 'existing'),
+    resolvedIssues: [...baseCounts.values()].flat(),
+    files: textPatches.map(p => ({
+      path: (p.newPath || p.oldPath)!,
+      status: p.status,
+      additions: p.hunks.reduce((n, h) => n + h.lines.filter(l => l.type === 'add').length, 0),
+      deletions: p.hunks.reduce((n, h) => n + h.lines.filter(l => l.type === 'del').length, 0)
+    }))
+  };
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisReport, Issue, Severity } from '../types';
+import { DEFAULT_GATE_POLICY, evaluateGate, GatePolicy } from './prGate';
+
+const TODAY = new Date('2026-01-01T00:00:00.000Z');
+
+const issue = (id: string, overrides: Partial<Issue> = {}): Issue => ({
+  id,
+  severity: Severity.WARNING,
+  title: id,
+  description: '',
+  affectedCode: id,
+  replacementCode: '',
+  estimatedEndOfLife: '2026-02-01',
+  category: 'Deprecation',
+  ...overrides
+});
+
+const report = (issues: Issue[], overallHealthScore = 90): AnalysisReport =>
+  ({ summary: '', overallHealthScore, issues, timestamp: TODAY.toISOString() });
+
+const policy = (overrides: Partial<GatePolicy>): GatePolicy => ({ ...DEFAULT_GATE_POLICY, ...overrides });
+
+const blockingIds = (issues: Issue[], gatePolicy: GatePolicy) =>
+  evaluateGate(report(issues), gatePolicy, TODAY).blockingIssues.map(i => i.id);
+
+describe('evaluateGate', () => {
+  it('blocks on any finding by default and passes a clean report', () => {
+    expect(evaluateGate(report([issue('info', { severity: Severity.INFO })]), DEFAULT_GATE_POLICY, TODAY).blocked).toBe(true);
+    expect(evaluateGate(report([], 100), DEFAULT_GATE_POLICY, TODAY)).toEqual({ blocked: false, reasons: [], blockingIssues: [], violations: [] });
+  });
+
+  it('blocks at or above the severity threshold', () => {
+    const issues = [
+      issue('critical', { severity: Severity.CRITICAL }),
+      issue('warning', { severity: Severity.WARNING }),
+      issue('info', { severity: Severity.INFO })
+    ];
+
+    expect(blockingIds(issues, policy({ failOn: Severity.CRITICAL }))).toEqual(['critical']);
+    expect(blockingIds(issues, policy({ failOn: Severity.WARNING }))).toEqual(['critical', 'warning']);
+    expect(blockingIds(issues, policy({ failOn: 'none' }))).toEqual([]);
+  });
+
+  it('blocks listed categories at any severity', () => {
+    const result = evaluateGate(report([issue('xss', { severity: Severity.INFO, category: 'Security' })]),
+      policy({ failOn: 'none', alwaysBlockCategories: ['Security'] }), TODAY);
+
+    expect(result.violations.map(v => v.rule)).toEqual(['category']);
+    expect(result.reasons).toEqual(['1 Security issue(s), which always block.']);
+  });
+
+  it('lets issues inside the grace period through and blocks unknown dates', () => {
+    const issues = [
+      issue('soon', { estimatedEndOfLife: '2026-01-20' }),
+      issue('later', { estimatedEndOfLife: '2027-01-01' }),
+      issue('unknown', { estimatedEndOfLife: 'Unknown' }),
+      issue('past', { estimatedEndOfLife: '2025-06-01' })
+    ];
+
+    expect(blockingIds(issues, policy({ eolGraceDays: 30 }))).toEqual(['soon', 'unknown', 'past']);
+    expect(blockingIds(issues, policy({ eolGraceDays: null }))).toEqual(['soon', 'later', 'unknown', 'past']);
+  });
+
+  it('blocks predictions only at the configured confidence', () => {
+    const issues = [
+      issue('likely', { isPrediction: true, predictionConfidence: 80 }),
+      issue('unlikely', { isPrediction: true, predictionConfidence: 30 })
+    ];
+
+    expect(blockingIds(issues, policy({ predictionMinConfidence: 50 }))).toEqual(['likely']);
+    expect(blockingIds(issues, policy({ predictionMinConfidence: null }))).toEqual([]);
+  });
+
+  it('ignores suppressed issues unless the suppression expired', () => {
+    const issues = [
+      issue('accepted', { suppression: { reason: 'Migrating' } }),
+      issue('expired', { suppression: { reason: 'Old', expires: '2025-01-01', expired: true } })
+    ];
+
+    expect(blockingIds(issues, DEFAULT_GATE_POLICY)).toEqual(['expired']);
+  });
+
+  it('blocks on a low health score without blocking issues', () => {
+    const result = evaluateGate(report([], 60), policy({ minScore: 70 }), TODAY);
+
+    expect(result.blocked).toBe(true);
+    expect(result.blockingIssues).toEqual([]);
+    expect(result.reasons).toEqual(['Health score 60 is below the minimum of 70.']);
+  });
+});
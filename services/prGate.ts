@@ -0,0 +1,107 @@
+import { AnalysisReport, Issue, Severity } from '../types';
+import { isSuppressed } from './scoring';
+
+// The rule that decides whether a scan blocks a PR. Shared by the PR
+// interceptor in the app and the CLI so both always agree.
+export interface GatePolicy {
+  failOn: Severity | 'none'; // Lowest severity that blocks
+  minScore: number; // Block when the health score is below this
+  alwaysBlockCategories: Issue['category'][]; // Block at any severity
+  predictionMinConfidence: number | null; // Predictions block only at or above this confidence; null never
+  eolGraceDays: number | null; // Issues whose end of life is further away than this don't block; null ignores the date
+}
+
+export type GateRule = 'severity' | 'category' | 'score';
+
+export interface GateViolation {
+  rule: GateRule;
+  message: string;
+  issues: Issue[];
+}
+
+export interface GateResult {
+  blocked: boolean;
+  reasons: string[];
+  blockingIssues: Issue[];
+  violations: GateViolation[];
+}
+
+export const GATE_CATEGORIES: Issue['category'][] = ['Security', 'Deprecation', 'Performance', 'Standard'];
+
+// Any finding blocks, which is how the interceptor has always behaved
+export const DEFAULT_GATE_POLICY: GatePolicy = {
+  failOn: Severity.INFO,
+  minScore: 0,
+  alwaysBlockCategories: [],
+  predictionMinConfidence: 0,
+  eolGraceDays: null
+};
+
+const SEVERITY_RANK: Record<Severity, number> = {
+  [Severity.CRITICAL]: 3,
+  [Severity.WARNING]: 2,
+  [Severity.INFO]: 1
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Unknown or unparseable dates are treated as due now
+const daysUntilEndOfLife = (issue: Issue, today: Date): number | null => {
+  const time = Date.parse(issue.estimatedEndOfLife);
+  return Number.isNaN(time) ? null : Math.floor((time - today.getTime()) / DAY_MS);
+};
+
+// Which rule, if any, makes this issue block
+export const blockingRule = (issue: Issue, policy: GatePolicy, today: Date = new Date()): GateRule | null => {
+  if (isSuppressed(issue)) return null;
+  if (issue.diffStatus === 'existing') return null; // Already on the base branch; not this PR's doing
+  if (issue.isPrediction) {
+    if (policy.predictionMinConfidence === null) return null;
+    if ((issue.predictionConfidence ?? 0) < policy.predictionMinConfidence) return null;
+  }
+  if (policy.eolGraceDays !== null) {
+    const days = daysUntilEndOfLife(issue, today);
+    if (days !== null && days > policy.eolGraceDays) return null;
+  }
+  if (policy.alwaysBlockCategories.includes(issue.category)) return 'category';
+  if (policy.failOn !== 'none' && SEVERITY_RANK[issue.severity] >= SEVERITY_RANK[policy.failOn]) return 'severity';
+  return null;
+};
+
+// Human-readable summary of the policy, for the dashboard and CLI help
+export const describePolicy = (policy: GatePolicy): string[] => [
+  policy.failOn === 'none' ? 'Severity alone never blocks.' : `Issues at or above ${policy.failOn} severity block.`,
+  ...(policy.alwaysBlockCategories.length ? [`${policy.alwaysBlockCategories.join(', ')} issues always block.`] : []),
+  policy.predictionMinConfidence === null
+    ? 'Predictions never block.'
+    : policy.predictionMinConfidence > 0 ? `Predictions block at ${policy.predictionMinConfidence}% confidence or more.` : 'Predictions block like any other issue.',
+  ...(policy.eolGraceDays !== null ? [`Issues more than ${policy.eolGraceDays} day(s) from end of life don't block yet.`] : []),
+  ...(policy.minScore > 0 ? [`The health score must be at least ${policy.minScore}.`] : [])
+];
+
+export const evaluateGate = (report: AnalysisReport, policy: GatePolicy = DEFAULT_GATE_POLICY, today: Date = new Date()): GateResult => {
+  const byRule: Record<'category' | 'severity', Issue[]> = { category: [], severity: [] };
+  report.issues.forEach(issue => {
+    const rule = blockingRule(issue, policy, today);
+    if (rule === 'category' || rule === 'severity') byRule[rule].push(issue);
+  });
+
+  const violations: GateViolation[] = [];
+  if (byRule.category.length > 0) {
+    const categories = [...new Set(byRule.category.map(i => i.category))].join(', ');
+    violations.push({ rule: 'category', message: `${byRule.category.length} ${categories} issue(s), which always block.`, issues: byRule.category });
+  }
+  if (byRule.severity.length > 0) {
+    violations.push({ rule: 'severity', message: `${byRule.severity.length} issue(s) at or above ${policy.failOn} severity.`, issues: byRule.severity });
+  }
+  if (report.overallHealthScore < policy.minScore) {
+    violations.push({ rule: 'score', message: `Health score ${report.overallHealthScore} is below the minimum of ${policy.minScore}.`, issues: [] });
+  }
+
+  return {
+    blocked: violations.length > 0,
+    reasons: violations.map(v => v.message),
+    blockingIssues: [...byRule.category, ...byRule.severity],
+    violations
+  };
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisReport, Issue, Severity } from '../types';
+import { parseImportedReport, toHtml, toJson, toMarkdown } from './reportExporter';
+
+const issue = (overrides: Partial<Issue> = {}): Issue => ({
+  id: 'issue-1',
+  severity: Severity.WARNING,
+  title: 'componentWillMount',
+  description: 'Use componentDidMount.',
+  affectedCode: 'componentWillMount() {}',
+  replacementCode: 'componentDidMount() {}',
+  estimatedEndOfLife: '2026-07-01',
+  category: 'Deprecation',
+  ...overrides
+});
+
+const report = (issues: Issue[]): AnalysisReport => ({
+  summary: 'One issue.',
+  overallHealthScore: 90,
+  issues,
+  timestamp: '2026-01-15T00:00:00.000Z'
+});
+
+const withIssue = (overrides: Record<string, unknown>) =>
+  JSON.stringify(report([{ ...issue(), ...overrides } as Issue]));
+
+describe('toMarkdown', () => {
+  it('lists issues by severity with their location and code', () => {
+    const md = toMarkdown(report([
+      issue({ filePath: 'src/App.tsx', startLine: 12 }),
+      issue({ id: 'issue-2', severity: Severity.CRITICAL, title: 'ReactDOM.render', affectedCode: 'a ``` b' })
+    ]));
+
+    expect(md).toContain('**Issues:** 2 (1 critical, 1 warning, 0 info)');
+    expect(md.indexOf('### 1. ReactDOM.render')).toBeLessThan(md.indexOf('### 2. componentWillMount'));
+    expect(md).toContain('- **Location:** `src/App.tsx:12`');
+    expect(md).toContain('```tsx\ncomponentWillMount() {}\n```');
+    expect(md).toContain('````\na ``` b\n````');
+  });
+
+  it('shows the migration example for findings without a fix', () => {
+    const md = toMarkdown(report([issue({ replacementCode: '', exampleCode: 'useEffect(() => {}, []);' })]));
+
+    expect(md).not.toContain('**After**');
+    expect(md).toContain('**Migration example**\n\n```\nuseEffect(() => {}, []);\n```');
+  });
+});
+
+describe('toHtml', () => {
+  it('escapes values taken from the report', () => {
+    const html = toHtml(report([issue({
+      title: '<img src=x onerror=alert(1)>',
+      isPrediction: true,
+      predictionConfidence: '<b>80</b>' as unknown as number,
+      estimatedEndOfLife: '<script>-01'
+    })]));
+
+    expect(html).not.toContain('<img');
+    expect(html).not.toContain('<b>');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+  });
+
+  it('links only to web documentation', () => {
+    expect(toHtml(report([issue({ documentationUrl: 'javascript:alert(1)' })]))).not.toContain('javascript:');
+    expect(toHtml(report([issue({ documentationUrl: 'https://react.dev/' })]))).toContain('href="https://react.dev/"');
+  });
+});
+
+describe('parseImportedReport', () => {
+  it('round-trips an export', () => {
+    const original = report([issue()]);
+    expect(parseImportedReport(toJson(original))).toEqual(original);
+  });
+
+  it('accepts a bare report and fills in ids', () => {
+    const { id, ...rest } = issue();
+    expect(parseImportedReport(JSON.stringify(report([rest as Issue]))).issues[0].id).toBe('imported-0');
+  });
+
+  it('rejects files that are not reports', () => {
+    expect(() => parseImportedReport('nope')).toThrow('The file is not valid JSON.');
+    expect(() => parseImportedReport('{"issues": []}')).toThrow('The file does not contain a DepreCheck report.');
+    expect(() => parseImportedReport(JSON.stringify({ format: 'deprecheck-report', version: 99, report: report([]) })))
+      .toThrow(/newer version/);
+  });
+
+  it('rejects issues with missing or mistyped fields', () => {
+    expect(() => parseImportedReport(withIssue({ severity: 'Urgent' }))).toThrow('Issue 1 in the report is incomplete.');
+    expect(() => parseImportedReport(withIssue({ estimatedEndOfLife: 20260701 }))).toThrow('Issue 1 in the report is incomplete.');
+    expect(() => parseImportedReport(withIssue({ predictionConfidence: '80' }))).toThrow('Issue 1 in the report has invalid fields.');
+    expect(() => parseImportedReport(withIssue({ riskFactors: 'many' }))).toThrow('Issue 1 in the report has invalid fields.');
+  });
+});
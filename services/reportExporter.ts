@@ -0,0 +1,283 @@
+import { AnalysisReport, Issue, Severity } from '../types';
+import { buildEolTimeline } from './timeline';
+import { hasFix } from './fixApplier';
+import { DiffScanResult } from './prDiffScan';
+import { GateResult } from './prGate';
+
+export type ExportFormat = 'json' | 'markdown' | 'html';
+
+// JSON exports are wrapped so imports can recognise (and later migrate) them
+const EXPORT_FORMAT_ID = 'deprecheck-report';
+const EXPORT_FORMAT_VERSION = 1;
+
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  json: 'json',
+  markdown: 'md',
+  html: 'html'
+};
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  markdown: 'text/markdown',
+  html: 'text/html'
+};
+
+const SEVERITY_ORDER = [Severity.CRITICAL, Severity.WARNING, Severity.INFO];
+
+const sortIssues = (issues: Issue[]) =>
+  [...issues].sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+
+const locationOf = (issue: Issue) =>
+  issue.filePath ? `${issue.filePath}${issue.startLine ? `:${issue.startLine}` : ''}` : null;
+
+// Language hint for fenced code blocks
+const languageOf = (issue: Issue) => {
+  const ext = issue.filePath?.split('.').pop()?.toLowerCase();
+  return ext && /^[a-z0-9]+$/.test(ext) && ext !== issue.filePath?.toLowerCase() ? ext : '';
+};
+
+// --- JSON ---
+
+export const toJson = (report: AnalysisReport): string =>
+  JSON.stringify({ format: EXPORT_FORMAT_ID, version: EXPORT_FORMAT_VERSION, exportedAt: new Date().toISOString(), report }, null, 2);
+
+const SEVERITIES: string[] = Object.values(Severity);
+const REQUIRED_ISSUE_TEXT = ['title', 'description', 'affectedCode', 'replacementCode', 'estimatedEndOfLife', 'category'];
+const OPTIONAL_ISSUE_FIELDS: [string, 'string' | 'number' | 'boolean'][] = [
+  ['documentationUrl', 'string'], ['exampleCode', 'string'], ['filePath', 'string'], ['ruleId', 'string'],
+  ['isPrediction', 'boolean'], ['predictionConfidence', 'number'], ['startLine', 'number'], ['endLine', 'number']
+];
+
+// Accepts our own export envelope or a bare AnalysisReport (e.g. the CLI's report file)
+export const parseImportedReport = (text: string): AnalysisReport => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (data?.format === EXPORT_FORMAT_ID && data.version > EXPORT_FORMAT_VERSION) {
+    throw new Error(`This report was exported by a newer version of DepreCheck (format v${data.version}).`);
+  }
+  const report = data?.format === EXPORT_FORMAT_ID ? data.report : data;
+
+  if (!report || typeof report.summary !== 'string' || !Array.isArray(report.issues) || typeof report.overallHealthScore !== 'number' ||
+    (report.timestamp !== undefined && typeof report.timestamp !== 'string')) {
+    throw new Error('The file does not contain a DepreCheck report.');
+  }
+  report.issues.forEach((issue: any, i: number) => {
+    if (!issue || !SEVERITIES.includes(issue.severity) || !REQUIRED_ISSUE_TEXT.every(key => typeof issue[key] === 'string')) {
+      throw new Error(`Issue ${i + 1} in the report is incomplete.`);
+    }
+    // The exporters and the EOL timeline read these without further checks
+    if (!OPTIONAL_ISSUE_FIELDS.every(([key, type]) => issue[key] === undefined || typeof issue[key] === type) ||
+      (issue.riskFactors !== undefined && !(Array.isArray(issue.riskFactors) && issue.riskFactors.every((f: unknown) => typeof f === 'string')))) {
+      throw new Error(`Issue ${i + 1} in the report has invalid fields.`);
+    }
+  });
+
+  return {
+    ...report,
+    issues: report.issues.map((issue: Issue, i: number) => ({ ...issue, id: issue.id || `imported-${i}` })),
+    timestamp: report.timestamp || new Date().toISOString()
+  };
+};
+
+// --- Markdown ---
+
+const fence = (code: string, lang: string) => {
+  // Use a longer fence when the code itself contains backticks
+  const ticks = '`'.repeat(Math.max(3, ...(code.match(/`+/g) || []).map(m => m.length + 1)));
+  return `${ticks}${lang}\n${code.replace(/\n$/, '')}\n${ticks}`;
+};
+
+const mdCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+export const toMarkdown = (report: AnalysisReport): string => {
+  const lines: string[] = [];
+  const count = (severity: Severity) => report.issues.filter(i => i.severity === severity).length;
+
+  lines.push('# DepreCheck Analysis Report', '');
+  lines.push(`**Health score:** ${report.overallHealthScore}/100  `);
+  lines.push(`**Generated:** ${new Date(report.timestamp).toLocaleString()}  `);
+  lines.push(`**Issues:** ${report.issues.length} (${count(Severity.CRITICAL)} critical, ${count(Severity.WARNING)} warning, ${count(Severity.INFO)} info)`, '');
+  lines.push('## Summary', '', report.summary, '');
+
+  if (report.dependencies && report.dependencies.length > 0) {
+    lines.push('## Dependencies', '');
+    lines.push('| Package | Current | Latest | Status | Action Required |');
+    lines.push('| --- | --- | --- | --- | --- |');
+    report.dependencies.forEach(dep => {
+      lines.push(`| \`${mdCell(dep.packageName)}\` | ${mdCell(dep.currentVersion)} | ${mdCell(dep.latestVersion)} | ${dep.compatibilityStatus} | ${mdCell(dep.actionRequired)} |`);
+    });
+    lines.push('');
+  }
+
+  const timeline = buildEolTimeline(report.issues, new Date(report.timestamp)).filter(p => p.count > 0);
+  if (timeline.length > 0) {
+    lines.push('## End-of-Life Timeline', '');
+    lines.push('| Month | Issues | |');
+    lines.push('| --- | ---: | --- |');
+    timeline.forEach(p => lines.push(`| ${p.date} | ${p.count} | ${'█'.repeat(Math.min(p.count, 30))} |`));
+    lines.push('');
+  }
+
+  lines.push('## Issues', '');
+  if (report.issues.length === 0) lines.push('No issues found.', '');
+  sortIssues(report.issues).forEach((issue, i) => {
+    const location = locationOf(issue);
+    lines.push(`### ${i + 1}. ${issue.title}`, '');
+    lines.push(`- **Severity:** ${issue.severity}${issue.isPrediction ? ` (prediction, ${issue.predictionConfidence ?? '?'}% confidence)` : ''}`);
+    lines.push(`- **Category:** ${issue.category}`);
+    if (location) lines.push(`- **Location:** \`${location}\``);
+    lines.push(`- **Estimated end of life:** ${issue.estimatedEndOfLife}`);
+    if (issue.riskFactors?.length) lines.push(`- **Risk factors:** ${issue.riskFactors.join(', ')}`);
+    if (issue.suppression) lines.push(`- **${issue.suppression.expired ? 'Suppression expired' : 'Suppressed'}:** ${issue.suppression.reason}${issue.suppression.expires ? ` (until ${issue.suppression.expires})` : ''}`);
+    if (issue.documentationUrl) lines.push(`- **Docs:** ${issue.documentationUrl}`);
+    lines.push('', issue.description, '');
+    lines.push('**Before**', '', fence(issue.affectedCode, languageOf(issue)), '');
+    if (hasFix(issue)) lines.push('**After**', '', fence(issue.replacementCode, languageOf(issue)), '');
+    else if (issue.exampleCode) lines.push('**Migration example**', '', fence(issue.exampleCode, languageOf(issue)), '');
+  });
+
+  return lines.join('\n');
+};
+
+// Review comment posted on a pull request by the webhook: the verdict and
+// what blocks it, kept short enough to read in a PR timeline
+const MAX_COMMENT_ISSUES = 15;
+
+export const toPrComment = (scan: DiffScanResult, gate: GateResult): string => {
+  const lines: string[] = [];
+  lines.push(gate.blocked ? '## ❌ DepreCheck: merge blocked' : '## ✅ DepreCheck: passed', '');
+  lines.push(`Scanned ${scan.files.length} changed file(s). This PR introduces **${scan.newIssues.length}** issue(s)` +
+    `${scan.resolvedIssues.length ? ` and fixes ${scan.resolvedIssues.length}` : ''}` +
+    `${scan.existingIssues.length ? `; ${scan.existingIssues.length} already on the base branch are not counted` : ''}.`, '');
+
+  if (gate.blocked) {
+    gate.reasons.forEach(reason => lines.push(`- ${reason}`));
+    lines.push('');
+  }
+
+  const issues = sortIssues(gate.blocked ? gate.blockingIssues : scan.newIssues);
+  if (issues.length > 0) {
+    lines.push(gate.blocked ? '### Blocking issues' : '### New issues (not blocking)', '');
+    lines.push('| Severity | Location | Issue |');
+    lines.push('| --- | --- | --- |');
+    issues.slice(0, MAX_COMMENT_ISSUES).forEach(issue => {
+      const location = locationOf(issue);
+      lines.push(`| ${issue.severity} | ${location ? `\`${mdCell(location)}\`` : ''} | ${mdCell(issue.title)} |`);
+    });
+    if (issues.length > MAX_COMMENT_ISSUES) lines.push('', `…and ${issues.length - MAX_COMMENT_ISSUES} more.`);
+    lines.push('');
+
+    const first = issues[0];
+    const migration = hasFix(first) ? first.replacementCode : first.exampleCode;
+    if (migration) {
+      lines.push(`<details><summary>Suggested migration for "${first.title}"</summary>`, '');
+      lines.push(fence(migration, languageOf(first)), '', '</details>', '');
+    }
+  }
+
+  return lines.join('\n');
+};
+
+// --- HTML ---
+
+const escapeHtml = (text: string | number) =>
+  String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+// Imported reports can carry any URL; only web links are rendered as links
+const isWebUrl = (url: string) => /^https?:\/\//i.test(url);
+
+const HTML_STYLES = `
+  body { font-family: system-ui, -apple-system, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #0f172a; }
+  h1 { margin-bottom: 0.25rem; } h2 { margin-top: 2rem; border-bottom: 1px solid #e2e8f0; padding-bottom: 0.25rem; }
+  .meta { color: #64748b; font-size: 0.875rem; }
+  .score { font-size: 3rem; font-weight: 900; }
+  .good { color: #22c55e; } .fair { color: #f59e0b; } .poor { color: #ef4444; }
+  .summary { white-space: pre-wrap; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+  th, td { text-align: left; padding: 0.4rem 0.6rem; border-bottom: 1px solid #e2e8f0; }
+  .bar { background: #6366f1; height: 0.75rem; border-radius: 2px; }
+  .issue { border: 1px solid #e2e8f0; border-left-width: 4px; border-radius: 6px; padding: 1rem; margin: 1rem 0; }
+  .issue.Critical { border-left-color: #ef4444; } .issue.Warning { border-left-color: #f59e0b; } .issue.Info { border-left-color: #3b82f6; }
+  .issue.prediction { border-left-color: #8b5cf6; }
+  .badge { display: inline-block; font-size: 0.7rem; font-weight: 700; text-transform: uppercase; border: 1px solid #cbd5e1; border-radius: 999px; padding: 0 0.5rem; margin-right: 0.25rem; }
+  .code { display: grid; grid-template-columns: 1fr 1fr; gap: 0.5rem; }
+  pre { background: #0f172a; color: #e2e8f0; padding: 0.75rem; border-radius: 6px; overflow-x: auto; font-size: 0.8rem; margin: 0.25rem 0 0; }
+  .label { font-size: 0.7rem; font-weight: 700; text-transform: uppercase; color: #64748b; }
+`;
+
+export const toHtml = (report: AnalysisReport): string => {
+  const scoreClass = report.overallHealthScore > 80 ? 'good' : report.overallHealthScore > 50 ? 'fair' : 'poor';
+  const timeline = buildEolTimeline(report.issues, new Date(report.timestamp)).filter(p => p.count > 0);
+  const maxCount = Math.max(1, ...timeline.map(p => p.count));
+
+  const dependencies = report.dependencies && report.dependencies.length > 0 ? `
+  <h2>Dependencies</h2>
+  <table>
+    <thead><tr><th>Package</th><th>Current</th><th>Latest</th><th>Status</th><th>Action Required</th></tr></thead>
+    <tbody>
+      ${report.dependencies.map(dep => `<tr><td><code>${escapeHtml(dep.packageName)}</code></td><td>${escapeHtml(dep.currentVersion)}</td><td>${escapeHtml(dep.latestVersion)}</td><td>${escapeHtml(dep.compatibilityStatus)}</td><td>${escapeHtml(dep.actionRequired)}</td></tr>`).join('\n      ')}
+    </tbody>
+  </table>` : '';
+
+  const timelineHtml = timeline.length > 0 ? `
+  <h2>End-of-Life Timeline</h2>
+  <table>
+    <tbody>
+      ${timeline.map(p => `<tr><td style="width:6rem">${escapeHtml(p.date)}</td><td style="width:3rem">${p.count}</td><td><div class="bar" style="width:${Math.round((p.count / maxCount) * 100)}%"></div></td></tr>`).join('\n      ')}
+    </tbody>
+  </table>` : '';
+
+  const issues = sortIssues(report.issues).map(issue => {
+    const location = locationOf(issue);
+    return `
+  <div class="issue ${escapeHtml(issue.severity)}${issue.isPrediction ? ' prediction' : ''}">
+    <div>
+      <span class="badge">${issue.isPrediction ? `Prediction ${escapeHtml(issue.predictionConfidence ?? '?')}%` : escapeHtml(issue.severity)}</span>
+      <span class="badge">${escapeHtml(issue.category)}</span>
+      <span class="badge">EOL ${escapeHtml(issue.estimatedEndOfLife)}</span>
+      ${issue.suppression ? `<span class="badge" title="${escapeHtml(issue.suppression.reason)}">${issue.suppression.expired ? 'Suppression expired' : 'Suppressed'}</span>` : ''}
+      ${location ? `<code>${escapeHtml(location)}</code>` : ''}
+    </div>
+    <h3>${escapeHtml(issue.title)}</h3>
+    <p>${escapeHtml(issue.description)}</p>
+    ${issue.riskFactors?.length ? `<p class="meta">Risk factors: ${issue.riskFactors.map(escapeHtml).join(', ')}</p>` : ''}
+    ${issue.documentationUrl && isWebUrl(issue.documentationUrl) ? `<p class="meta"><a href="${escapeHtml(issue.documentationUrl)}" rel="noopener noreferrer">Documentation</a></p>` : ''}
+    <div class="code">
+      <div><div class="label">Before</div><pre>${escapeHtml(issue.affectedCode)}</pre></div>
+      ${hasFix(issue) ? `<div><div class="label">After</div><pre>${escapeHtml(issue.replacementCode)}</pre></div>`
+        : issue.exampleCode ? `<div><div class="label">Migration example</div><pre>${escapeHtml(issue.exampleCode)}</pre></div>` : ''}
+    </div>
+  </div>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <title>DepreCheck Report – ${escapeHtml(new Date(report.timestamp).toLocaleString())}</title>
+  <style>${HTML_STYLES}</style>
+</head>
+<body>
+  <h1>DepreCheck Analysis Report</h1>
+  <p class="meta">Generated ${escapeHtml(new Date(report.timestamp).toLocaleString())} · ${report.issues.length} issue(s)</p>
+  <div class="score ${scoreClass}">${escapeHtml(report.overallHealthScore)}<span class="meta">/100</span></div>
+
+  <h2>Summary</h2>
+  <p class="summary">${escapeHtml(report.summary)}</p>
+  ${dependencies}
+  ${timelineHtml}
+
+  <h2>Issues</h2>
+  ${issues || '<p>No issues found.</p>'}
+</body>
+</html>
+`;
+};
+
+export const exportReport = (report: AnalysisReport, format: ExportFormat): string =>
+  format === 'json' ? toJson(report) : format === 'markdown' ? toMarkdown(report) : toHtml(report);
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisReport, Issue, Severity } from '../types';
+import { buildTrend, diffRuns, HistoryEntry, mergeHistory } from './reportHistory';
+
+const issue = (id: string, affectedCode: string, overrides: Partial<Issue> = {}): Issue => ({
+  id,
+  severity: Severity.WARNING,
+  title: 'Legacy API',
+  description: '',
+  affectedCode,
+  replacementCode: '',
+  estimatedEndOfLife: 'Unknown',
+  category: 'Deprecation',
+  ruleId: 'react/legacy',
+  filePath: 'src/App.tsx',
+  ...overrides
+});
+
+const report = (issues: Issue[], overallHealthScore = 90, timestamp = '2026-01-15T00:00:00.000Z'): AnalysisReport =>
+  ({ summary: '', overallHealthScore, issues, timestamp });
+
+const entry = (id: string, timestamp: string, issues: Issue[] = []): HistoryEntry =>
+  ({ id, projectId: 'p', timestamp, report: report(issues, 100 - issues.length * 5, timestamp) });
+
+describe('diffRuns', () => {
+  it('splits findings into new, fixed and unchanged', () => {
+    const kept = issue('a', 'findDOMNode(this)');
+    const fixed = issue('b', 'componentWillMount() {}');
+    const added = issue('c', 'ReactDOM.render(<App />, root)');
+
+    const diff = diffRuns(report([kept, fixed]), report([{ ...kept, id: 'a2', startLine: 80 }, added]));
+
+    expect(diff.introduced).toEqual([added]);
+    expect(diff.resolved).toEqual([fixed]);
+    expect(diff.unchanged).toBe(1);
+  });
+
+  it('matches repeated findings one for one', () => {
+    const once = issue('a', 'findDOMNode(this)');
+    const diff = diffRuns(report([once]), report([once, { ...once, id: 'a2' }]));
+
+    expect(diff.introduced.map(i => i.id)).toEqual(['a2']);
+    expect(diff.resolved).toEqual([]);
+    expect(diff.unchanged).toBe(1);
+  });
+
+  it('treats the same code in another file as a different finding', () => {
+    const base = issue('a', 'findDOMNode(this)');
+    const diff = diffRuns(report([base]), report([{ ...base, filePath: 'src/Other.tsx' }]));
+
+    expect(diff.introduced).toHaveLength(1);
+    expect(diff.resolved).toHaveLength(1);
+    expect(diff.unchanged).toBe(0);
+  });
+});
+
+describe('mergeHistory', () => {
+  it('de-duplicates by id and sorts by time', () => {
+    const merged = mergeHistory(
+      [entry('run-2', '2026-01-02T00:00:00.000Z'), entry('run-1', '2026-01-01T00:00:00.000Z')],
+      [entry('run-2', '2026-01-02T00:00:00.000Z'), entry('run-3', '2026-01-03T00:00:00.000Z')]
+    );
+
+    expect(merged.map(e => e.id)).toEqual(['run-1', 'run-2', 'run-3']);
+  });
+});
+
+describe('buildTrend', () => {
+  it('counts issues per severity for each run', () => {
+    const [point] = buildTrend([entry('run-1', '2026-01-01T00:00:00.000Z', [
+      issue('a', 'x', { severity: Severity.CRITICAL }),
+      issue('b', 'y', { isPrediction: true }),
+      issue('c', 'z')
+    ])]);
+
+    expect(point).toMatchObject({ id: 'run-1', score: 85, critical: 1, warning: 2, info: 0, predictions: 1 });
+  });
+});
@@ -0,0 +1,103 @@
+import { AnalysisReport, Issue, Severity } from '../types';
+import { issueFingerprint } from './fingerprint';
+import { loadHistoryEntries, saveHistoryEntries } from './workspaceSettings';
+
+// One stored analysis run. The id is shared with the backend copy so the two
+// stores can be merged without duplicates.
+export interface HistoryEntry {
+  id: string;
+  projectId: string;
+  timestamp: string;
+  report: AnalysisReport;
+}
+
+export interface HistoryTrendPoint {
+  id: string;
+  timestamp: string;
+  label: string;
+  score: number;
+  critical: number;
+  warning: number;
+  info: number;
+  predictions: number;
+}
+
+export interface RunDiff {
+  introduced: Issue[];
+  resolved: Issue[];
+  unchanged: number;
+}
+
+// Local storage is small; older runs live on in the backend copy if it's running
+export const MAX_LOCAL_RUNS = 30;
+
+const byTimestamp = (a: HistoryEntry, b: HistoryEntry) => a.timestamp.localeCompare(b.timestamp);
+
+export const createHistoryEntry = (projectId: string, report: AnalysisReport): HistoryEntry => ({
+  id: `run-${Date.parse(report.timestamp) || Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  projectId,
+  timestamp: report.timestamp,
+  report
+});
+
+export const loadLocalHistory = (projectId: string): HistoryEntry[] =>
+  loadHistoryEntries<HistoryEntry>(projectId).sort(byTimestamp);
+
+// Keeps the newest runs, dropping more of the oldest if the quota is hit
+export const saveLocalRun = (entry: HistoryEntry): HistoryEntry[] => {
+  let entries = [...loadLocalHistory(entry.projectId).filter(e => e.id !== entry.id), entry].sort(byTimestamp).slice(-MAX_LOCAL_RUNS);
+  while (entries.length > 0) {
+    try {
+      saveHistoryEntries(entry.projectId, entries);
+      return entries;
+    } catch {
+      entries = entries.slice(Math.max(1, Math.floor(entries.length / 4)));
+    }
+  }
+  return [entry];
+};
+
+export const mergeHistory = (...sources: HistoryEntry[][]): HistoryEntry[] => {
+  const merged = new Map<string, HistoryEntry>();
+  sources.flat().forEach(entry => merged.set(entry.id, entry));
+  return [...merged.values()].sort(byTimestamp);
+};
+
+export const buildTrend = (entries: HistoryEntry[]): HistoryTrendPoint[] =>
+  entries.map(({ id, timestamp, report }) => {
+    const count = (severity: Severity) => report.issues.filter(i => i.severity === severity).length;
+    return {
+      id,
+      timestamp,
+      label: new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }),
+      score: report.overallHealthScore,
+      critical: count(Severity.CRITICAL),
+      warning: count(Severity.WARNING),
+      info: count(Severity.INFO),
+      predictions: report.issues.filter(i => i.isPrediction).length
+    };
+  });
+
+// Issues are matched by fingerprint, so moved code isn't reported as
+// resolved-and-reintroduced. Repeated findings are matched one for one.
+export const diffRuns = (base: AnalysisReport, head: AnalysisReport): RunDiff => {
+  const remaining = new Map<string, Issue[]>();
+  base.issues.forEach(issue => {
+    const key = issueFingerprint(issue);
+    remaining.set(key, [...(remaining.get(key) || []), issue]);
+  });
+
+  const introduced: Issue[] = [];
+  let unchanged = 0;
+  head.issues.forEach(issue => {
+    const matches = remaining.get(issueFingerprint(issue));
+    if (matches && matches.length > 0) {
+      matches.shift();
+      unchanged++;
+    } else {
+      introduced.push(issue);
+    }
+  });
+
+  return { introduced, resolved: [...remaining.values()].flat(), unchanged };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisReport, Issue, Severity } from '../types';
+import { dedupeIssues, mergeAnalysisReports } from './reportMerge';
+
+const issue = (overrides: Partial<Issue> = {}): Issue => ({
+  id: 'i',
+  severity: Severity.WARNING,
+  title: 'Legacy lifecycle',
+  description: '',
+  affectedCode: 'componentWillMount() {}',
+  replacementCode: 'componentDidMount() {}',
+  estimatedEndOfLife: 'Unknown',
+  category: 'Deprecation',
+  filePath: 'src/a.tsx',
+  startLine: 3,
+  ...overrides
+});
+
+const report = (issues: Issue[], summary = 'Found things.', extra: Partial<AnalysisReport> = {}): AnalysisReport => ({
+  overallHealthScore: 0,
+  summary,
+  issues,
+  timestamp: '2026-01-01T00:00:00.000Z',
+  ...extra
+});
+
+describe('dedupeIssues', () => {
+  it('drops repeats of the same finding at the same place', () => {
+    const issues = dedupeIssues([
+      issue({ id: '1' }),
+      issue({ id: '2', title: 'legacy   LIFECYCLE' }),
+      issue({ id: '3', startLine: 9 }),
+      issue({ id: '4', ruleId: 'legacy-lifecycle' }),
+      issue({ id: '5', ruleId: 'legacy-lifecycle', title: 'Other wording' })
+    ]);
+
+    expect(issues.map(i => i.id)).toEqual(['1', '3', '4']);
+  });
+});
+
+describe('mergeAnalysisReports', () => {
+  it('returns a single part unchanged', () => {
+    const only = report([issue()]);
+    expect(mergeAnalysisReports([{ path: 'a', label: 'a', report: only }])).toBe(only);
+  });
+
+  it('merges issues, dependencies and summaries and rescores', () => {
+    const dep = { packageName: 'react', currentVersion: '17', latestVersion: '19', compatibilityStatus: 'Breaking Changes' as const, actionRequired: 'Upgrade' };
+    const merged = mergeAnalysisReports([
+      { path: 'src/a.tsx', label: 'src/a.tsx (lines 1-40)', report: report([issue({ id: '1' })], 'First half.', { dependencies: [dep] }) },
+      { path: 'src/a.tsx', label: 'src/a.tsx (lines 41-80)', report: report([issue({ id: '2' })], 'Second half.', { dependencies: [{ ...dep, latestVersion: '18' }] }) },
+      { path: 'src/b.ts', label: 'src/b.ts', report: report([], 'Clean.') }
+    ]);
+
+    expect(merged.issues.map(i => i.id)).toEqual(['1']);
+    expect(merged.dependencies).toEqual([dep]);
+    expect(merged.summary.split('\n')).toEqual([
+      'Scanned 2 file(s): 1 issue(s) in 1 file(s).',
+      'src/a.tsx (lines 1-40): First half.',
+      'src/a.tsx (lines 41-80): Second half.'
+    ]);
+    expect(merged.overallHealthScore).toBe(95);
+  });
+});
@@ -0,0 +1,63 @@
+import { AnalysisReport, DependencyAudit, Issue } from '../types';
+import { calculateHealthScore } from './scoring';
+
+const squash = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Two partial reports describe the same issue when they point at the same place
+// with the same finding; overlapping chunks and repeated files produce these.
+const issueKey = (issue: Issue): string => {
+  const where = `${issue.filePath || ''}:${issue.startLine ?? squash(issue.affectedCode)}`;
+  return issue.ruleId ? `rule:${issue.ruleId}:${where}` : `${where}:${squash(issue.title).toLowerCase()}`;
+};
+
+export const dedupeIssues = (issues: Issue[]): Issue[] => {
+  const seen = new Set<string>();
+  return issues.filter(issue => {
+    const key = issueKey(issue);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const mergeDependencies = (reports: AnalysisReport[]): DependencyAudit[] | undefined => {
+  const byName = new Map<string, DependencyAudit>();
+  reports.forEach(r => r.dependencies?.forEach(dep => {
+    if (!byName.has(dep.packageName)) byName.set(dep.packageName, dep);
+  }));
+  return byName.size > 0 ? Array.from(byName.values()) : undefined;
+};
+
+const MAX_SUMMARY_LINES = 20;
+
+export interface PartialReport {
+  path: string;
+  label: string; // How the part is named in the summary, e.g. "src/app.ts (lines 1-400)"
+  report: AnalysisReport;
+}
+
+// Combines the reports of individual files/chunks into one report with
+// de-duplicated issues and a score recomputed from the merged issue list.
+export const mergeAnalysisReports = (parts: PartialReport[]): AnalysisReport => {
+  if (parts.length === 1) return parts[0].report;
+
+  const reports = parts.map(p => p.report);
+  const issues = dedupeIssues(reports.flatMap(r => r.issues));
+  const files = new Set(parts.map(p => p.path)).size;
+  const filesWithIssues = new Set(issues.map(i => i.filePath)).size;
+
+  // Only partial reports that found something are worth repeating
+  const details = parts
+    .filter(p => p.report.issues.length > 0)
+    .map(p => `${p.label}: ${p.report.summary}`);
+  const shown = details.slice(0, MAX_SUMMARY_LINES);
+  if (details.length > shown.length) shown.push(`...and ${details.length - shown.length} more.`);
+
+  return {
+    overallHealthScore: calculateHealthScore(issues),
+    summary: [`Scanned ${files} file(s): ${issues.length} issue(s) in ${filesWithIssues} file(s).`, ...shown].join('\n'),
+    issues,
+    dependencies: mergeDependencies(reports),
+    timestamp: new Date().toISOString()
+  };
+};
@@ -0,0 +1,74 @@
+// Provider-neutral JSON Schema for the model's analysis response. Each provider
+// translates it into whatever structured-output format its API expects.
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+}
+
+export const reportSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: {
+      type: 'string',
+      description: "A brief executive summary of the codebase status. If no issues are found, congratulate the user.",
+    },
+    issues: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          severity: {
+            type: 'string',
+            enum: ["Critical", "Warning", "Info"],
+          },
+          title: { type: 'string' },
+          description: { type: 'string' },
+          affectedCode: { type: 'string' },
+          replacementCode: { type: 'string' },
+          estimatedEndOfLife: {
+            type: 'string',
+            description: "Estimated date (YYYY-MM-DD) when this feature will break. If unknown, estimate based on typical LTS cycles.",
+          },
+          category: {
+            type: 'string',
+            enum: ["Security", "Deprecation", "Performance", "Standard"],
+          },
+          isPrediction: {
+            type: 'boolean',
+            description: "Set to true if this is a predicted future deprecation (not yet officially deprecated but shows signs).",
+          },
+          predictionConfidence: {
+            type: 'number',
+            description: "Confidence score (0-100) for this prediction based on trends.",
+          },
+          riskFactors: {
+            type: 'array',
+            items: { type: 'string' },
+            description: "List of reasons for prediction, e.g., 'Declining GitHub Activity', 'Roadmap Leak', 'Legacy Pattern'.",
+          },
+        },
+        required: ["severity", "title", "description", "affectedCode", "replacementCode", "category", "estimatedEndOfLife"],
+      },
+    },
+    dependencies: {
+      type: 'array',
+      description: "List of detected packages/libraries and their update status. Populate this if the input looks like a dependency file (package.json, requirements.txt) or has imports.",
+      items: {
+        type: 'object',
+        properties: {
+          packageName: { type: 'string' },
+          currentVersion: { type: 'string' },
+          latestVersion: { type: 'string' },
+          compatibilityStatus: { type: 'string', enum: ['Compatible', 'Breaking Changes', 'Unknown'] },
+          actionRequired: { type: 'string', description: "Short advice, e.g., 'Upgrade immediately' or 'Wait for v5'" }
+        },
+        required: ["packageName", "currentVersion", "latestVersion", "compatibilityStatus", "actionRequired"]
+      }
+    }
+  },
+  required: ["summary", "issues"],
+};
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Severity } from '../types';
+import { analyzeCode } from './geminiService';
+import { createProvider, FixtureRecording } from './llmProviders';
+import { validateReport } from './reportValidation';
+
+const fixtureProvider = (fixtures: FixtureRecording[]) => createProvider({ kind: 'fixture', model: 'fixture', fixtures });
+
+const VALID_ISSUE = {
+  severity: 'Critical',
+  title: 'ReactDOM.render is removed',
+  description: 'Use createRoot.',
+  affectedCode: 'ReactDOM.render(<App />, root);',
+  replacementCode: 'createRoot(root).render(<App />);',
+  estimatedEndOfLife: '2024-04-25',
+  category: 'Deprecation'
+};
+
+const VALID_RESPONSE = JSON.stringify({ summary: 'One deprecated call.', issues: [VALID_ISSUE] });
+
+describe('validateReport', () => {
+  it('drops issues that cannot be repaired and counts them', () => {
+    const { report, problems, droppedIssues } = validateReport({
+      summary: 'Mixed.',
+      issues: [{ title: '', affectedCode: 'x' }, 'nope', VALID_ISSUE]
+    });
+
+    expect(report!.issues).toHaveLength(1);
+    expect(droppedIssues).toBe(2);
+    expect(problems).toContain('issues[1] must be an object; dropped.');
+  });
+
+  it('rejects responses without an issue list', () => {
+    expect(validateReport([]).report).toBeNull();
+    expect(validateReport({ summary: 'x' }).problems).toEqual(['"issues" must be an array.']);
+  });
+
+  it('falls back on defaults for unknown enums and dates', () => {
+    const { report, problems } = validateReport({
+      summary: 'x',
+      issues: [{ title: 't', affectedCode: 'a', replacementCode: 'b', severity: 'urgent', category: 'misc', estimatedEndOfLife: 'someday' }]
+    });
+
+    expect(report!.issues[0]).toMatchObject({ severity: Severity.WARNING, category: 'Standard', estimatedEndOfLife: 'Unknown' });
+    expect(problems).toHaveLength(4); // severity, category, date, description
+  });
+});
+
+describe('analyzeCode repairs model output', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(() => vi.restoreAllMocks());
+
+  it('normalizes a fenced, loosely typed response', async () => {
+    const messy = '```json\n' + JSON.stringify({
+      summary: 'Predicted removal.',
+      issues: [{
+        severity: 'high',
+        title: 'componentWillMount',
+        affectedCode: 'componentWillMount() {}',
+        replacementCode: 'componentDidMount() {}',
+        estimatedEndOfLife: 'Q3 2026',
+        category: 'deprecated',
+        isPrediction: 'true',
+        predictionConfidence: '0.8',
+        documentationUrl: 'javascript:alert(1)'
+      }]
+    }) + '\n```';
+    const report = await analyzeCode('componentWillMount() {}', undefined, fixtureProvider([{ response: messy }]));
+
+    expect(report.issues[0]).toMatchObject({
+      severity: Severity.CRITICAL,
+      category: 'Deprecation',
+      estimatedEndOfLife: '2026-07-01',
+      description: 'componentWillMount',
+      isPrediction: true,
+      predictionConfidence: 80
+    });
+    expect(report.issues[0].documentationUrl).toBeUndefined();
+  });
+
+  it('re-prompts once with the validation problems and uses the corrected answer', async () => {
+    const generate = vi.fn();
+    const provider = fixtureProvider([
+      { match: 'did not match the required JSON schema', response: VALID_RESPONSE },
+      { response: '{"summary": "broken", "issues": "none"}' }
+    ]);
+    const report = await analyzeCode('code', undefined, { ...provider, generate: request => (generate(request.prompt), provider.generate(request)) });
+
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(generate.mock.calls[1][0]).toContain('"issues" must be an array.');
+    expect(report.issues).toHaveLength(1);
+  });
+
+  it('reports a response that stays malformed', async () => {
+    await expect(analyzeCode('code', undefined, fixtureProvider([{ response: 'not json at all' }])))
+      .rejects.toThrow(/^Malformed analysis response/);
+  });
+});
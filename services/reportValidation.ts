@@ -0,0 +1,254 @@
+import { DependencyAudit, Issue, Severity } from '../types';
+
+// The part of an AnalysisReport the model is responsible for; ids, score and
+// timestamp are filled in by the caller.
+export type ModelIssue = Omit<Issue, 'id'>;
+
+export interface ModelReport {
+  summary: string;
+  issues: ModelIssue[];
+  dependencies?: DependencyAudit[];
+}
+
+export interface ReportValidation {
+  report: ModelReport | null; // null when the response cannot be used at all
+  problems: string[]; // Everything that was wrong, repaired or not (fed back to the model on retry)
+  droppedIssues: number;
+}
+
+type Category = Issue['category'];
+type CompatibilityStatus = DependencyAudit['compatibilityStatus'];
+
+const SEVERITY_ALIASES: Record<string, Severity> = {
+  critical: Severity.CRITICAL,
+  high: Severity.CRITICAL,
+  error: Severity.CRITICAL,
+  severe: Severity.CRITICAL,
+  warning: Severity.WARNING,
+  warn: Severity.WARNING,
+  medium: Severity.WARNING,
+  moderate: Severity.WARNING,
+  info: Severity.INFO,
+  information: Severity.INFO,
+  low: Severity.INFO,
+  minor: Severity.INFO
+};
+
+const CATEGORY_ALIASES: Record<string, Category> = {
+  security: 'Security',
+  vulnerability: 'Security',
+  deprecation: 'Deprecation',
+  deprecated: 'Deprecation',
+  performance: 'Performance',
+  standard: 'Standard',
+  style: 'Standard',
+  'best practice': 'Standard'
+};
+
+const COMPATIBILITY_ALIASES: Record<string, CompatibilityStatus> = {
+  compatible: 'Compatible',
+  'breaking changes': 'Breaking Changes',
+  breaking: 'Breaking Changes',
+  unknown: 'Unknown'
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const isValidDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+// Brings the free-form dates models produce ("Q3 2025", "June 2026", "2026-02",
+// "2025/11/30") to the ISO "YYYY-MM-DD" the timeline expects, or "Unknown".
+export const normalizeEndOfLife = (value: unknown): string => {
+  if (typeof value !== 'string') return 'Unknown';
+  const text = value.trim().toLowerCase();
+
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})(?:[-/.](\d{1,2}))?/);
+  if (match) {
+    const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3] || 1)];
+    return isValidDate(year, month, day) ? `${year}-${pad(month)}-${pad(day)}` : 'Unknown';
+  }
+
+  match = text.match(/\bq([1-4])\s*[-/]?\s*(\d{4})\b/);
+  if (match) return `${match[2]}-${pad((Number(match[1]) - 1) * 3 + 1)}-01`;
+  match = text.match(/\b(\d{4})\s*[-/]?\s*q([1-4])\b/);
+  if (match) return `${match[1]}-${pad((Number(match[2]) - 1) * 3 + 1)}-01`;
+
+  match = text.match(/\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(\d{4})\b/);
+  if (match) return `${match[2]}-${pad(MONTHS.indexOf(match[1]) + 1)}-01`;
+
+  match = text.match(/\b(early|mid|late|end of)?[\s-]*(\d{4})\b/);
+  if (match && Number(match[2]) >= 1990 && Number(match[2]) <= 2100) {
+    const month = match[1] === 'mid' ? 7 : match[1] === 'late' || match[1] === 'end of' ? 10 : 1;
+    return `${match[2]}-${pad(month)}-01`;
+  }
+
+  return 'Unknown';
+};
+
+const normalizeEnum = <T>(value: unknown, aliases: Record<string, T>): T | undefined =>
+  typeof value === 'string' ? aliases[value.trim().toLowerCase()] : undefined;
+
+const asText = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : typeof value === 'number' ? String(value) : undefined;
+
+const normalizeConfidence = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' ? parseFloat(value) : typeof value === 'number' ? value : NaN;
+  if (!Number.isFinite(n)) return undefined;
+  // Some models answer with a 0-1 probability
+  const percent = n > 0 && n < 1 ? n * 100 : n;
+  return Math.round(Math.min(100, Math.max(0, percent)));
+};
+
+const validateIssue = (raw: any, i: number, problems: string[]): ModelIssue | null => {
+  const at = `issues[${i}]`;
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    problems.push(`${at} must be an object; dropped.`);
+    return null;
+  }
+
+  const title = asText(raw.title)?.trim();
+  const affectedCode = asText(raw.affectedCode);
+  if (!title || !affectedCode?.trim()) {
+    problems.push(`${at} must have a non-empty "title" and "affectedCode"; dropped.`);
+    return null;
+  }
+
+  let severity = normalizeEnum(raw.severity, SEVERITY_ALIASES);
+  if (!severity) {
+    problems.push(`${at}.severity "${raw.severity}" is not one of Critical, Warning, Info; using Warning.`);
+    severity = Severity.WARNING;
+  }
+
+  let category = normalizeEnum(raw.category, CATEGORY_ALIASES);
+  if (!category) {
+    problems.push(`${at}.category "${raw.category}" is not one of Security, Deprecation, Performance, Standard; using Standard.`);
+    category = 'Standard';
+  }
+
+  const estimatedEndOfLife = normalizeEndOfLife(raw.estimatedEndOfLife);
+  if (estimatedEndOfLife === 'Unknown' && raw.estimatedEndOfLife !== 'Unknown') {
+    problems.push(`${at}.estimatedEndOfLife "${raw.estimatedEndOfLife}" is not a date; using Unknown.`);
+  }
+
+  const description = asText(raw.description)?.trim();
+  if (!description) problems.push(`${at}.description is missing; using the title.`);
+
+  const replacementCode = asText(raw.replacementCode);
+  if (replacementCode === undefined) problems.push(`${at}.replacementCode must be a string.`);
+
+  const issue: ModelIssue = {
+    severity,
+    title,
+    description: description || title,
+    affectedCode,
+    replacementCode: replacementCode ?? '',
+    estimatedEndOfLife,
+    category
+  };
+
+  if (typeof raw.documentationUrl === 'string' && /^https?:\/\//.test(raw.documentationUrl)) {
+    issue.documentationUrl = raw.documentationUrl;
+  } else if (raw.documentationUrl !== undefined && raw.documentationUrl !== '') {
+    problems.push(`${at}.documentationUrl must be an http(s) URL; removed.`);
+  }
+
+  if (raw.isPrediction !== undefined) issue.isPrediction = raw.isPrediction === true || raw.isPrediction === 'true';
+
+  if (raw.predictionConfidence !== undefined) {
+    const confidence = normalizeConfidence(raw.predictionConfidence);
+    if (confidence === undefined) {
+      problems.push(`${at}.predictionConfidence must be a number from 0 to 100; removed.`);
+    } else {
+      if (confidence !== raw.predictionConfidence) problems.push(`${at}.predictionConfidence ${JSON.stringify(raw.predictionConfidence)} normalized to ${confidence}.`);
+      issue.predictionConfidence = confidence;
+    }
+  }
+
+  if (raw.riskFactors !== undefined) {
+    const factors = (Array.isArray(raw.riskFactors) ? raw.riskFactors : [raw.riskFactors])
+      .filter((f: unknown): f is string => typeof f === 'string' && f.trim() !== '');
+    if (!Array.isArray(raw.riskFactors)) problems.push(`${at}.riskFactors must be an array of strings.`);
+    if (factors.length > 0) issue.riskFactors = factors;
+  }
+
+  return issue;
+};
+
+const validateDependency = (raw: any, i: number, problems: string[]): DependencyAudit | null => {
+  const at = `dependencies[${i}]`;
+  const packageName = raw && typeof raw === 'object' ? asText(raw.packageName)?.trim() : undefined;
+  if (!packageName) {
+    problems.push(`${at} must have a "packageName"; dropped.`);
+    return null;
+  }
+
+  let compatibilityStatus = normalizeEnum(raw.compatibilityStatus, COMPATIBILITY_ALIASES);
+  if (!compatibilityStatus) {
+    problems.push(`${at}.compatibilityStatus "${raw.compatibilityStatus}" is not one of Compatible, Breaking Changes, Unknown; using Unknown.`);
+    compatibilityStatus = 'Unknown';
+  }
+
+  return {
+    packageName,
+    currentVersion: asText(raw.currentVersion) ?? 'Unknown',
+    latestVersion: asText(raw.latestVersion) ?? 'Unknown',
+    compatibilityStatus,
+    actionRequired: asText(raw.actionRequired) ?? ''
+  };
+};
+
+// Checks a parsed model response against the AnalysisReport contract in types.ts,
+// normalizing enums and dates and dropping entries that cannot be repaired.
+export const validateReport = (data: any): ReportValidation => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { report: null, problems: ['Response is not a JSON object.'], droppedIssues: 0 };
+  }
+  if (!Array.isArray(data.issues)) {
+    return { report: null, problems: ['"issues" must be an array.'], droppedIssues: 0 };
+  }
+
+  const problems: string[] = [];
+  const summary = asText(data.summary)?.trim();
+  if (!summary) problems.push('"summary" must be a non-empty string.');
+
+  const issues = data.issues
+    .map((issue: any, i: number) => validateIssue(issue, i, problems))
+    .filter((issue: ModelIssue | null): issue is ModelIssue => issue !== null);
+
+  let dependencies: DependencyAudit[] | undefined;
+  if (Array.isArray(data.dependencies)) {
+    dependencies = data.dependencies
+      .map((dep: any, i: number) => validateDependency(dep, i, problems))
+      .filter((dep: DependencyAudit | null): dep is DependencyAudit => dep !== null);
+  } else if (data.dependencies !== undefined && data.dependencies !== null) {
+    problems.push('"dependencies" must be an array when present; removed.');
+  }
+
+  return {
+    report: {
+      summary: summary || `Found ${issues.length} issue(s).`,
+      issues,
+      ...(dependencies ? { dependencies } : {})
+    },
+    problems,
+    droppedIssues: data.issues.length - issues.length
+  };
+};
+
+// Models sometimes wrap JSON in markdown fences or add a sentence around it
+export const parseModelJson = (text: string): unknown => {
+  const trimmed = text.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch (error) {
+    const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const candidate = fenced ? fenced[1] : trimmed.substring(trimmed.indexOf('{'), trimmed.lastIndexOf('}') + 1);
+    if (!candidate || candidate === trimmed) throw error;
+    return JSON.parse(candidate);
+  }
+};
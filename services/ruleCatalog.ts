@@ -0,0 +1,362 @@
+import { Issue, Severity } from '../types';
+import { AstPattern } from './astMatcher';
+
+// Bump whenever a rule is added, removed or its detection changes, so reports
+// produced by different catalog revisions can be told apart.
+export const RULE_CATALOG_VERSION = '2025.06.2';
+
+export interface DetectionRule {
+  id: string;
+  title: string;
+  message: string;
+  migrationSuggestion: string;
+  // Precise syntax-tree match used for JS/TS sources; `pattern` is the text
+  // fallback for everything else (templates, non-script files)
+  ast?: AstPattern;
+  pattern: RegExp;
+  severity: Severity;
+  category: Issue['category'];
+  exampleCode: string; // Catalog sample of the migrated pattern, not a patch for the matched code
+  estimatedEndOfLife: string; // ISO Date String or "Unknown"
+  documentationUrl?: string;
+  isPrediction?: boolean;
+  predictionConfidence?: number;
+  riskFactors?: string[];
+  // Shadow Mode profiles that enforce this rule as a runtime breakage
+  profiles?: string[];
+  // Rewrites the matched line; only for migrations that stay within that line
+  fixReplacer?: (code: string) => string;
+}
+
+export const RULE_CATALOG: DetectionRule[] = [
+  // --- React ---
+  {
+    id: 'no-forward-ref',
+    title: 'forwardRef is removed in React 19',
+    message: 'forwardRef is removed in React 19. Refs are now passed as standard props.',
+    migrationSuggestion: 'Remove forwardRef wrapper and accept "ref" as a prop directly.',
+    ast: { kind: 'call', callee: 'forwardRef' },
+    pattern: /forwardRef\s*\(/g,
+    severity: Severity.CRITICAL,
+    category: 'Deprecation',
+    exampleCode: 'function MyInput({ ref, ...props }) {\n  return <input {...props} ref={ref} />;\n}',
+    estimatedEndOfLife: '2025-12-01',
+    documentationUrl: 'https://react.dev/blog/2024/12/05/react-19#ref-as-a-prop',
+    profiles: ['react-19'],
+  },
+  {
+    id: 'use-callback-obsolete',
+    title: 'useCallback is redundant with the React Compiler',
+    message: 'useCallback is often redundant with React Compiler auto-memoization.',
+    migrationSuggestion: 'Remove useCallback unless specifically needed for external consumers.',
+    ast: { kind: 'call', callee: 'useCallback' },
+    pattern: /useCallback\(/g,
+    severity: Severity.WARNING,
+    category: 'Performance',
+    exampleCode: 'const handleClick = () => { /* ... */ };',
+    estimatedEndOfLife: 'Unknown',
+    isPrediction: true,
+    predictionConfidence: 60,
+    riskFactors: ['React Compiler Adoption', 'Legacy Pattern'],
+    profiles: ['react-19'],
+    fixReplacer: (code) => code.replace(/useCallback\(\s*\(\)\s*=>\s*{([^}]*)}\s*,\s*\[[^\]]*\]\s*\)/g, '() => { $1 }')
+  },
+  {
+    id: 'no-default-props',
+    title: 'defaultProps on function components',
+    message: 'defaultProps on function components are removed.',
+    migrationSuggestion: 'Use default parameter values in the component function signature.',
+    ast: { kind: 'member', object: '*', property: 'defaultProps', assigned: true },
+    pattern: /\.defaultProps\s*=/g,
+    severity: Severity.CRITICAL,
+    category: 'Deprecation',
+    exampleCode: 'function MyInput({ type = \'text\', ...props }) { /* ... */ }',
+    estimatedEndOfLife: '2025-12-01',
+    documentationUrl: 'https://react.dev/blog/2024/04/25/react-19-upgrade-guide#removed-proptypes-and-defaultprops',
+    profiles: ['react-19']
+  },
+  {
+    id: 'legacy-lifecycle',
+    title: 'Legacy React lifecycle method',
+    message: 'Legacy lifecycle methods throw runtime errors in React 19.',
+    migrationSuggestion: 'Migrate to useEffect or functional components.',
+    ast: { kind: 'method', name: /^componentWill(Mount|ReceiveProps|Update)$/ },
+    pattern: /componentWill(Mount|ReceiveProps|Update)/g,
+    severity: Severity.CRITICAL,
+    category: 'Deprecation',
+    exampleCode: 'useEffect(() => {\n  // side effects that previously ran before mount\n}, []);',
+    estimatedEndOfLife: '2025-12-01',
+    documentationUrl: 'https://legacy.reactjs.org/blog/2018/03/27/update-on-async-rendering.html',
+    profiles: ['react-19']
+  },
+  {
+    id: 'string-refs',
+    title: 'String refs are removed',
+    message: 'String refs (this.refs) were removed in React 19.',
+    migrationSuggestion: 'Use useRef() or a callback ref instead.',
+    ast: { kind: 'member', object: 'this', property: 'refs' },
+    pattern: /this\.refs\.\w+/g,
+    severity: Severity.CRITICAL,
+    category: 'Deprecation',
+    exampleCode: 'const headerInput = useRef(null);\nheaderInput.current.focus();',
+    estimatedEndOfLife: '2025-12-01',
+    documentationUrl: 'https://react.dev/blog/2024/04/25/react-19-upgrade-guide#removed-string-refs',
+    profiles: ['react-19']
+  },
+  {
+    id: 'react-dom-render',
+    title: 'ReactDOM.render is removed',
+    message: 'ReactDOM.render was removed in React 19.',
+    migrationSuggestion: 'Use createRoot from react-dom/client.',
+    ast: { kind: 'call', callee: 'ReactDOM.render' },
+    pattern: /ReactDOM\.render\s*\(/g,
+    severity: Severity.CRITICAL,
+    category: 'Deprecation',
+    exampleCode: 'createRoot(container).render(<App />);',
+    estimatedEndOfLife: '2025-12-01',
+    documentationUrl: 'https://react.dev/blog/2024/04/25/react-19-upgrade-guide#removed-reactdom-render',
+    profiles: ['react-19'],
+    fixReplacer: (code) => code.replace(/ReactDOM\.render\s*\(\s*([^,]+),\s*(.+)\)/, 'createRoot($2).render($1)')
+  },
+  {
+    id: 'javascript-url',
+    title: 'javascript: URLs are blocked',
+    message: 'javascript: URLs are blocked by React and strict CSP policies.',
+    migrationSuggestion: 'Use a <button> with an onClick handler.',
+    ast: { kind: 'jsxAttribute', name: 'href', value: /^\s*javascript:/i },
+    pattern: /href\s*=\s*["']javascript:[^"']*["']/g,
+    severity: Severity.WARNING,
+    category: 'Security',
+    exampleCode: '<button type="button" onClick={onClick}>View Profile</button>',
+    estimatedEndOfLife: 'Unknown'
+  },
+  {
+    id: 'class-component',
+    title: 'Class components are stagnant',
+    message: 'Class components receive no new features and are excluded from React Compiler optimizations.',
+    migrationSuggestion: 'Rewrite as a function component with hooks.',
+    ast: { kind: 'classExtends', base: /^(React\.)?(Pure)?Component$/ },
+    pattern: /class\s+\w+\s+extends\s+(?:React\.)?(?:Pure)?Component\b/g,
+    severity: Severity.INFO,
+    category: 'Standard',
+    exampleCode: 'function UserCard(props) {\n  // ...\n}',
+    estimatedEndOfLife: 'Unknown',
+    isPrediction: true,
+    predictionConfidence: 55,
+    riskFactors: ['Legacy Pattern', 'Compiler Incompatibility']
+  },
+
+  // --- Node.js ---
+  {
+    id: 'no-require',
+    title: 'CommonJS require',
+    message: 'CommonJS "require" is disabled. Module loading failed.',
+    migrationSuggestion: 'Switch to ESM "import" syntax.',
+    ast: { kind: 'require' },
+    pattern: /require\s*\(['"][^'"]+['"]\)/g,
+    severity: Severity.CRITICAL,
+    category: 'Standard',
+    exampleCode: 'import fs from "fs";',
+    estimatedEndOfLife: 'Unknown',
+    isPrediction: true,
+    predictionConfidence: 70,
+    riskFactors: ['ESM Migration', 'Legacy Pattern'],
+    profiles: ['node-24'],
+    fixReplacer: (code) => code.replace(/const\s+(\w+)\s*=\s*require\(['"]([^'"]+)['"]\)/g, 'import $1 from "$2"')
+  },
+  {
+    id: 'no-dirname',
+    title: '__dirname in ES modules',
+    message: '__dirname is not defined in ESM modules.',
+    migrationSuggestion: 'Use import.meta.url and fileURLToPath.',
+    ast: { kind: 'identifier', name: '__dirname' },
+    pattern: /__dirname/g,
+    severity: Severity.CRITICAL,
+    category: 'Standard',
+    exampleCode: 'const __dirname = path.dirname(fileURLToPath(import.meta.url));',
+    estimatedEndOfLife: 'Unknown',
+    profiles: ['node-24']
+  },
+  {
+    id: 'fs-exists-removed',
+    title: 'fs.exists is deprecated',
+    message: 'fs.exists is hard-removed.',
+    migrationSuggestion: 'Use fs.stat() or fs.access().',
+    ast: { kind: 'call', callee: 'fs.exists' },
+    pattern: /fs\.exists\(/g,
+    severity: Severity.WARNING,
+    category: 'Deprecation',
+    exampleCode: 'fs.access(\'./config.json\', (err) => {\n  console.log(err ? \'No config\' : \'Config found\');\n});',
+    estimatedEndOfLife: '2026-04-30',
+    documentationUrl: 'https://nodejs.org/api/deprecations.html#DEP0034',
+    profiles: ['node-24']
+  },
+  {
+    id: 'buffer-constructor',
+    title: 'Buffer() constructor',
+    message: 'Buffer() constructor throws SecurityError.',
+    migrationSuggestion: 'Use Buffer.from() or Buffer.alloc().',
+    ast: { kind: 'new', callee: 'Buffer' },
+    pattern: /new\s+Buffer\(/g,
+    severity: Severity.CRITICAL,
+    category: 'Security',
+    exampleCode: 'Buffer.from(',
+    estimatedEndOfLife: '2026-04-30',
+    documentationUrl: 'https://nodejs.org/api/deprecations.html#DEP0005',
+    profiles: ['node-24'],
+    fixReplacer: (code) => code.replace(/new\s+Buffer\(/g, 'Buffer.from(')
+  },
+  {
+    id: 'request-library',
+    title: 'The "request" library is deprecated',
+    message: 'The "request" package has been deprecated and unmaintained since 2020.',
+    migrationSuggestion: 'Use the built-in fetch API or a maintained client such as undici.',
+    ast: { kind: 'import', source: 'request' },
+    pattern: /(?:from\s+|require\s*\(\s*)['"]request['"]/g,
+    severity: Severity.CRITICAL,
+    category: 'Security',
+    exampleCode: 'const res = await fetch(\'https://api.example.com/user\');',
+    estimatedEndOfLife: '2020-02-11',
+    documentationUrl: 'https://github.com/request/request/issues/3142'
+  },
+  {
+    id: 'moment-library',
+    title: 'moment is in maintenance mode',
+    message: 'moment is in maintenance mode and receives no new features.',
+    migrationSuggestion: 'Use Intl.DateTimeFormat, date-fns or Temporal.',
+    ast: { kind: 'import', source: 'moment' },
+    pattern: /(?:from\s+|require\s*\(\s*)['"]moment['"]/g,
+    severity: Severity.INFO,
+    category: 'Deprecation',
+    exampleCode: 'import { format } from \'date-fns\';',
+    estimatedEndOfLife: 'Unknown',
+    documentationUrl: 'https://momentjs.com/docs/#/-project-status/',
+    isPrediction: true,
+    predictionConfidence: 80,
+    riskFactors: ['Maintenance Mode', 'Declining Community']
+  },
+  {
+    id: 'hardcoded-secret',
+    title: 'Hardcoded credential',
+    message: 'A credential appears to be hardcoded in source.',
+    migrationSuggestion: 'Load secrets from environment variables or a secret manager.',
+    ast: { kind: 'stringAssignment', name: /(api[_-]?key|secret|password|token)$/i, minLength: 8 },
+    pattern: /(?:api[_-]?key|secret|password|token)\s*[:=]\s*["'][^"']{8,}["']/gi,
+    severity: Severity.CRITICAL,
+    category: 'Security',
+    exampleCode: 'const apiKey = process.env.API_KEY;',
+    estimatedEndOfLife: 'Unknown'
+  },
+  {
+    id: 'var-declaration',
+    title: '"var" declarations',
+    message: '"var" is function-scoped and discouraged by every modern style guide.',
+    migrationSuggestion: 'Use "let" or "const".',
+    ast: { kind: 'varDeclaration' },
+    pattern: /\bvar\s+\w+\s*=/g,
+    severity: Severity.INFO,
+    category: 'Standard',
+    exampleCode: 'const value = ...;',
+    estimatedEndOfLife: 'Unknown',
+    isPrediction: true,
+    predictionConfidence: 40,
+    riskFactors: ['Legacy Pattern'],
+    fixReplacer: (code) => code.replace(/\bvar\s+(\w+)\s*=/g, 'let $1 =')
+  },
+
+  // --- Angular ---
+  {
+    id: 'input-decorator',
+    title: '@Input decorator',
+    message: '@Input decorator usage triggers legacy compatibility mode.',
+    migrationSuggestion: 'Use the new signal-based input() function.',
+    ast: { kind: 'decorator', name: 'Input' },
+    pattern: /@Input\(\)/g,
+    severity: Severity.WARNING,
+    category: 'Deprecation',
+    exampleCode: 'name = input<string>();',
+    estimatedEndOfLife: 'Unknown',
+    isPrediction: true,
+    predictionConfidence: 65,
+    riskFactors: ['Signals Migration'],
+    profiles: ['angular-2026'],
+    fixReplacer: (code) => code.replace(/@Input\(\)\s*(\w+)\s*:\s*([^;]+);/g, '$1 = input<$2>();')
+  },
+  {
+    id: 'ng-if-directive',
+    title: '*ngIf directive',
+    message: '*ngIf directive is deprecated.',
+    migrationSuggestion: 'Use the new @if block syntax.',
+    pattern: /\*ngIf/g,
+    severity: Severity.WARNING,
+    category: 'Deprecation',
+    exampleCode: '@if (condition) { ... }',
+    estimatedEndOfLife: 'Unknown',
+    documentationUrl: 'https://angular.dev/guide/templates/control-flow',
+    profiles: ['angular-2026']
+  },
+  {
+    id: 'zone-usage',
+    title: 'NgZone dependency',
+    message: 'NgZone dependency injection failed. App is running Zoneless.',
+    migrationSuggestion: 'Remove Zone.js dependencies and use Signals for reactivity.',
+    ast: { kind: 'identifier', name: 'NgZone' },
+    pattern: /NgZone/g,
+    severity: Severity.CRITICAL,
+    category: 'Deprecation',
+    exampleCode: 'provideZonelessChangeDetection()',
+    estimatedEndOfLife: 'Unknown',
+    isPrediction: true,
+    predictionConfidence: 60,
+    riskFactors: ['Zoneless Roadmap'],
+    profiles: ['angular-2026']
+  },
+
+  // --- Vue ---
+  {
+    id: 'options-api-data',
+    title: 'Options API data()',
+    message: 'Options API "data()" detected. Component failed to mount.',
+    migrationSuggestion: 'Rewrite using Composition API (script setup).',
+    ast: { kind: 'method', name: /^data$/ },
+    pattern: /data\s*\(\)\s*\{/g,
+    severity: Severity.CRITICAL,
+    category: 'Deprecation',
+    exampleCode: 'const state = reactive({ /* ... */ });',
+    estimatedEndOfLife: 'Unknown',
+    isPrediction: true,
+    predictionConfidence: 35,
+    riskFactors: ['Vapor Mode Roadmap'],
+    profiles: ['vue-5']
+  },
+  {
+    id: 'legacy-v-model',
+    title: 'v-model:value',
+    message: 'v-model:value is not supported.',
+    migrationSuggestion: 'Use standard v-model or defineModel().',
+    pattern: /v-model:value/g,
+    severity: Severity.CRITICAL,
+    category: 'Deprecation',
+    exampleCode: 'v-model="value"',
+    estimatedEndOfLife: 'Unknown',
+    profiles: ['vue-5']
+  },
+  {
+    id: 'vue-observable',
+    title: 'Vue.observable',
+    message: 'Vue.observable is removed.',
+    migrationSuggestion: 'Use reactive() from Vue core.',
+    ast: { kind: 'call', callee: 'Vue.observable' },
+    pattern: /Vue\.observable/g,
+    severity: Severity.WARNING,
+    category: 'Deprecation',
+    exampleCode: 'reactive(',
+    estimatedEndOfLife: '2023-12-31',
+    documentationUrl: 'https://v3-migration.vuejs.org/',
+    profiles: ['vue-5'],
+    fixReplacer: (code) => code.replace(/Vue\.observable\(/g, 'reactive(')
+  }
+];
+
+export const getRulesForProfile = (profileId: string): DetectionRule[] =>
+  RULE_CATALOG.filter(rule => rule.profiles?.includes(profileId));
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { Issue, Severity } from '../types';
+import { RULE_CATALOG } from './ruleCatalog';
+import { findRuleMatches, mergeReports, runRuleEngine } from './ruleEngine';
+
+const rule = (id: string) => RULE_CATALOG.find(r => r.id === id)!;
+
+describe('findRuleMatches', () => {
+  it('returns matches in source order with their lines', async () => {
+    const code = "const fs = require('fs');\nReactDOM.render(<App />, root);";
+    const matches = await findRuleMatches(code, [rule('react-dom-render'), rule('no-require')]);
+
+    expect(matches.map(m => [m.rule.id, m.line, m.column])).toEqual([
+      ['no-require', 1, 12],
+      ['react-dom-render', 2, 1]
+    ]);
+    expect(matches[1].lineText).toBe('ReactDOM.render(<App />, root);');
+  });
+
+  it('ignores comments and strings in scripts', async () => {
+    const code = [
+      '// forwardRef(() => null) used to wrap this',
+      "const doc = 'call forwardRef( here';",
+      'const tpl = `require("fs")`;',
+      'export const A = forwardRef(() => null);'
+    ].join('\n');
+    const matches = await findRuleMatches(code, [rule('no-forward-ref'), rule('no-require')], 'src/a.tsx');
+
+    expect(matches.map(m => [m.rule.id, m.line, m.column])).toEqual([['no-forward-ref', 4, 18]]);
+  });
+
+  it('falls back to the patterns for other files', async () => {
+    const matches = await findRuleMatches('<!-- forwardRef( -->', [rule('no-forward-ref')], 'README.md');
+    expect(matches.map(m => m.line)).toEqual([1]);
+  });
+});
+
+describe('runRuleEngine', () => {
+  it('reports one issue per rule and line', async () => {
+    const report = await runRuleEngine('var a = 1; var b = 2;\nvar c = 3;', [rule('var-declaration')]);
+
+    expect(report.issues.map(i => [i.ruleId, i.id])).toEqual([['var-declaration', 'rule-var-declaration-1'], ['var-declaration', 'rule-var-declaration-2']]);
+    expect(report.issues[0]).toMatchObject({ source: 'rules', severity: rule('var-declaration').severity, affectedCode: 'var a = 1; var b = 2;' });
+  });
+
+  it('rewrites the matched line when the rule can', async () => {
+    const [issue] = (await runRuleEngine('  ReactDOM.render(<App />, root);', [rule('react-dom-render')])).issues;
+    expect(issue.replacementCode).toBe('createRoot(root).render(<App />);');
+    expect(issue.exampleCode).toBe(rule('react-dom-render').exampleCode);
+
+    const [nested] = (await runRuleEngine("ReactDOM.render(<App />, document.getElementById('root'));", [rule('react-dom-render')])).issues;
+    expect(nested.replacementCode).toBe("createRoot(document.getElementById('root')).render(<App />);");
+  });
+
+  it('offers only the catalog example when the rule cannot rewrite the line', async () => {
+    const code = [
+      'console.log(__dirname);',
+      'const Foo = React.forwardRef(function Foo(props, ref) {',
+      '  return <input ref={ref} />;',
+      '});'
+    ].join('\n');
+    const { issues } = await runRuleEngine(code, [rule('no-dirname'), rule('no-forward-ref')], 'src/Foo.tsx');
+
+    expect(issues.map(i => [i.ruleId, i.replacementCode, i.exampleCode])).toEqual([
+      ['no-dirname', '', rule('no-dirname').exampleCode],
+      ['no-forward-ref', '', rule('no-forward-ref').exampleCode]
+    ]);
+  });
+
+  it('is deterministic and scores clean code at 100', async () => {
+    const code = "import moment from 'moment';\nconst x = new Buffer(4);";
+    const strip = (issues: Issue[]) => issues.map(({ id, ...rest }) => rest);
+    expect(strip((await runRuleEngine(code)).issues)).toEqual(strip((await runRuleEngine(code)).issues));
+    expect((await runRuleEngine('const ok = 1;')).overallHealthScore).toBe(100);
+  });
+});
+
+describe('mergeReports', () => {
+  it('drops AI findings about code a rule already reported', async () => {
+    const rules = await runRuleEngine('ReactDOM.render(<App />, root);', [rule('react-dom-render')]);
+    const ai = {
+      summary: 'AI',
+      overallHealthScore: 90,
+      timestamp: '',
+      issues: [
+        { ...rules.issues[0], id: 'ai-0', ruleId: undefined, source: undefined, title: 'Legacy root API' },
+        { ...rules.issues[0], id: 'ai-1', ruleId: undefined, source: undefined, severity: Severity.INFO, affectedCode: 'componentWillMount() {}' }
+      ]
+    };
+
+    const merged = mergeReports(rules, ai);
+    expect(merged.issues.map(i => [i.id, i.source])).toEqual([[rules.issues[0].id, 'rules'], ['ai-1', 'ai']]);
+  });
+});
@@ -0,0 +1,152 @@
+import { AnalysisReport, Issue } from '../types';
+import { DetectionRule, RULE_CATALOG, RULE_CATALOG_VERSION } from './ruleCatalog';
+import { findAstMatches, isScriptPath, parseSource } from './astMatcher';
+import { calculateHealthScore } from './scoring';
+
+export interface RuleMatch {
+  rule: DetectionRule;
+  index: number;
+  line: number; // 1-based
+  column: number; // 1-based
+  endLine: number;
+  match: string;
+  lineText: string;
+}
+
+const positionOf = (code: string, index: number) => {
+  const before = code.substring(0, index);
+  const line = before.split('\n').length;
+  return { line, column: index - before.lastIndexOf('\n') };
+};
+
+const findPatternMatches = (code: string, rule: DetectionRule, lines: string[]): RuleMatch[] => {
+  const matches: RuleMatch[] = [];
+  // Clone so concurrent callers never share `lastIndex`
+  const regex = new RegExp(rule.pattern.source, rule.pattern.flags.includes('g') ? rule.pattern.flags : rule.pattern.flags + 'g');
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(code)) !== null) {
+    if (match[0].length === 0) {
+      regex.lastIndex++;
+      continue;
+    }
+    const { line, column } = positionOf(code, match.index);
+    matches.push({
+      rule,
+      index: match.index,
+      line,
+      column,
+      endLine: positionOf(code, match.index + match[0].length).line,
+      match: match[0],
+      lineText: lines[line - 1]
+    });
+  }
+
+  return matches;
+};
+
+// Runs every rule over the code and returns matches in source order. Rules with
+// an AST pattern are matched structurally when the source is JS/TS, so
+// occurrences inside comments and string literals are not reported.
+export const findRuleMatches = async (code: string, rules: DetectionRule[] = RULE_CATALOG, path?: string): Promise<RuleMatch[]> => {
+  const matches: RuleMatch[] = [];
+  const lines = code.split('\n');
+  // The compiler is only loaded when some rule actually needs a syntax tree
+  const sourceFile = isScriptPath(path) && rules.some(r => r.ast) ? await parseSource(code, path) : null;
+
+  rules.forEach(rule => {
+    if (rule.ast && sourceFile) {
+      findAstMatches(sourceFile, rule.ast).forEach(m => {
+        matches.push({
+          rule,
+          index: m.start,
+          line: m.line,
+          column: m.column,
+          endLine: m.endLine,
+          match: m.text,
+          lineText: lines[m.line - 1]
+        });
+      });
+    } else {
+      matches.push(...findPatternMatches(code, rule, lines));
+    }
+  });
+
+  return matches.sort((a, b) => a.index - b.index);
+};
+
+const toIssue = ({ rule, line, lineText }: RuleMatch, path?: string): Issue => {
+  const affectedCode = lineText.trim();
+  const fixed = rule.fixReplacer ? rule.fixReplacer(affectedCode) : affectedCode;
+
+  return {
+    id: path ? `rule-${rule.id}-${path}-${line}` : `rule-${rule.id}-${line}`,
+    ruleId: rule.id,
+    filePath: path,
+    startLine: line,
+    endLine: line,
+    source: 'rules',
+    severity: rule.severity,
+    title: rule.title,
+    description: `${rule.message} ${rule.migrationSuggestion}`,
+    affectedCode,
+    // Only a real rewrite of the matched line is a fix; the catalog sample is shown beside it
+    replacementCode: fixed !== affectedCode ? fixed : '',
+    exampleCode: rule.exampleCode,
+    estimatedEndOfLife: rule.estimatedEndOfLife,
+    documentationUrl: rule.documentationUrl,
+    category: rule.category,
+    isPrediction: rule.isPrediction,
+    predictionConfidence: rule.predictionConfidence,
+    riskFactors: rule.riskFactors
+  };
+};
+
+export const runRuleEngine = async (code: string, rules: DetectionRule[] = RULE_CATALOG, path?: string): Promise<AnalysisReport> => {
+  const seen = new Set<string>();
+  const issues: Issue[] = [];
+
+  // One issue per rule per line, even if the pattern matches several times on it
+  (await findRuleMatches(code, rules, path)).forEach(match => {
+    const key = `${match.rule.id}:${match.line}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    issues.push(toIssue(match, path));
+  });
+
+  return {
+    overallHealthScore: calculateHealthScore(issues),
+    summary: issues.length === 0
+      ? `No known deprecations found by the offline rule engine (catalog v${RULE_CATALOG_VERSION}).`
+      : `The offline rule engine (catalog v${RULE_CATALOG_VERSION}) found ${issues.length} issue(s) across ${new Set(issues.map(i => i.ruleId)).size} rule(s).`,
+    issues,
+    timestamp: new Date().toISOString()
+  };
+};
+
+const normalizeSnippet = (code: string) => code.replace(/\s+/g, ' ').trim();
+
+const isSameFinding = (ruleIssue: Issue, aiIssue: Issue): boolean => {
+  const a = normalizeSnippet(ruleIssue.affectedCode);
+  const b = normalizeSnippet(aiIssue.affectedCode);
+  if (!a || !b) return false;
+  return a.includes(b) || b.includes(a);
+};
+
+// Rule findings are the deterministic baseline; AI findings that describe the
+// same code are dropped, everything else from the AI is appended.
+export const mergeReports = (rulesReport: AnalysisReport, aiReport: AnalysisReport): AnalysisReport => {
+  const aiOnly = aiReport.issues
+    .map(issue => ({ ...issue, source: issue.source || 'ai' as const }))
+    .filter(aiIssue => !rulesReport.issues.some(ruleIssue => isSameFinding(ruleIssue, aiIssue)));
+
+  const issues = [...rulesReport.issues, ...aiOnly];
+
+  return {
+    overallHealthScore: calculateHealthScore(issues),
+    summary: `${aiReport.summary}\n\n${rulesReport.summary}`,
+    issues,
+    dependencies: aiReport.dependencies || rulesReport.dependencies,
+    timestamp: new Date().toISOString()
+  };
+};
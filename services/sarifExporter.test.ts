@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisReport, Issue, Severity } from '../types';
+import { RULE_CATALOG_VERSION } from './ruleCatalog';
+import { SarifResult, sarifRuleId, toSarif } from './sarifExporter';
+
+const ruleIssue: Issue = {
+  id: 'issue-0',
+  severity: Severity.CRITICAL,
+  title: 'ReactDOM.render is removed',
+  description: 'ReactDOM.render was removed in React 19.',
+  affectedCode: 'ReactDOM.render(<App />, root);',
+  replacementCode: 'createRoot(root).render(<App />);\n',
+  estimatedEndOfLife: '2025-12-01',
+  category: 'Deprecation',
+  ruleId: 'react-dom-render',
+  source: 'rules',
+  filePath: 'src/index.tsx',
+  startLine: 4
+};
+
+const aiIssue: Issue = {
+  id: 'issue-1',
+  severity: Severity.INFO,
+  title: 'Class components may be phased out!',
+  description: 'Consider hooks.',
+  affectedCode: 'class A extends Component {}',
+  replacementCode: '',
+  estimatedEndOfLife: 'Unknown',
+  category: 'Standard',
+  source: 'ai',
+  isPrediction: true,
+  predictionConfidence: 40
+};
+
+const INDEX = {
+  path: 'src/index.tsx',
+  content: "import ReactDOM from 'react-dom';\n\nexport function mount(root) {\n  ReactDOM.render(<App />, root);\n}\n"
+};
+
+// Applies a result's single replacement the way SARIF consumers do: by 1-based line and column
+const applySarifFix = (content: string, result: SarifResult): string => {
+  const { deletedRegion: region, insertedContent } = result.fixes![0].artifactChanges[0].replacements[0];
+  const lineStarts = [0, ...[...content.matchAll(/\n/g)].map(m => m.index! + 1)];
+  const start = lineStarts[region.startLine - 1] + region.startColumn! - 1;
+  const end = lineStarts[region.endLine! - 1] + region.endColumn! - 1;
+  return content.slice(0, start) + insertedContent.text + content.slice(end);
+};
+
+const report = (issues: Issue[]): AnalysisReport => ({ summary: '', overallHealthScore: 80, issues, timestamp: '2026-01-15T00:00:00.000Z' });
+
+describe('toSarif', () => {
+  it('describes the tool and one rule per finding kind', () => {
+    const [run] = toSarif(report([ruleIssue, { ...ruleIssue, id: 'issue-2', startLine: 9 }, aiIssue])).runs;
+
+    expect(run.tool.driver).toMatchObject({ name: 'DepreCheck', version: RULE_CATALOG_VERSION });
+    expect(run.tool.driver.rules.map(r => r.id)).toEqual(['react-dom-render', 'ai/class-components-may-be-phased-out']);
+    expect(run.tool.driver.rules[0]).toMatchObject({
+      shortDescription: { text: 'ReactDOM.render is removed' },
+      fullDescription: { text: 'ReactDOM.render was removed in React 19. Use createRoot from react-dom/client.' },
+      helpUri: 'https://react.dev/blog/2024/04/25/react-19-upgrade-guide#removed-reactdom-render',
+      defaultConfiguration: { level: 'error' }
+    });
+    expect(run.tool.driver.rules[1].properties).toEqual({ tags: ['Standard', 'prediction'] });
+    expect(run.invocations).toEqual([{ executionSuccessful: true, endTimeUtc: '2026-01-15T00:00:00.000Z' }]);
+  });
+
+  it('locates results relative to the source root', () => {
+    const [run] = toSarif(report([ruleIssue]), { srcRoot: 'file:///repo' }).runs;
+    const [result] = run.results;
+
+    expect(run.originalUriBaseIds).toEqual({ SRCROOT: { uri: 'file:///repo/' } });
+    expect(result.level).toBe('error');
+    expect(result.locations).toEqual([{
+      physicalLocation: {
+        artifactLocation: { uri: 'src/index.tsx', uriBaseId: 'SRCROOT' },
+        region: { startLine: 4, endLine: 4, snippet: { text: 'ReactDOM.render(<App />, root);' } }
+      }
+    }]);
+    // Without the sources there is no exact span to replace
+    expect(result.fixes).toBeUndefined();
+  });
+
+  it('replaces exactly the affected code, keeping indentation', () => {
+    const [result] = toSarif(report([ruleIssue]), { files: [INDEX] }).runs[0].results;
+
+    expect(result.fixes![0].artifactChanges[0].replacements).toEqual([{
+      deletedRegion: { startLine: 4, startColumn: 3, endLine: 4, endColumn: 34 },
+      insertedContent: { text: 'createRoot(root).render(<App />);' }
+    }]);
+    expect(applySarifFix(INDEX.content, result)).toBe([
+      "import ReactDOM from 'react-dom';",
+      '',
+      'export function mount(root) {',
+      '  createRoot(root).render(<App />);',
+      '}',
+      ''
+    ].join('\n'));
+  });
+
+  it('fits multi-line fixes to the nesting of the affected code', () => {
+    const issue: Issue = {
+      ...aiIssue,
+      affectedCode: 'componentWillMount() {\n  this.load();\n}',
+      replacementCode: 'componentDidMount() {\n  this.load();\n}\n',
+      filePath: 'src/A.tsx',
+      startLine: 2,
+      endLine: 4
+    };
+    const file = { path: 'src/A.tsx', content: 'class A extends Component {\n\tcomponentWillMount() {\n\t\tthis.load();\n\t}\n}' };
+    const [result] = toSarif(report([issue]), { files: [file] }).runs[0].results;
+
+    expect(result.fixes![0].artifactChanges[0].replacements[0].deletedRegion).toEqual({ startLine: 2, startColumn: 2, endLine: 4, endColumn: 3 });
+    expect(applySarifFix(file.content, result)).toBe('class A extends Component {\n\tcomponentDidMount() {\n\t\tthis.load();\n\t}\n}');
+  });
+
+  it('emits no fix for findings without a rewrite or code it cannot find', () => {
+    const exampleOnly = { ...ruleIssue, replacementCode: '', exampleCode: 'createRoot(container).render(<App />);' };
+    const fixesFor = (issue: Issue, content: string) =>
+      toSarif(report([issue]), { files: [{ ...INDEX, content }] }).runs[0].results[0].fixes;
+
+    expect(fixesFor(exampleOnly, INDEX.content)).toBeUndefined();
+    expect(fixesFor(ruleIssue, 'export {};')).toBeUndefined();
+    // Two copies, neither at the reported line
+    expect(fixesFor({ ...ruleIssue, startLine: 20 }, INDEX.content + '\n'.repeat(30) + 'ReactDOM.render(<App />, root);')).toBeUndefined();
+  });
+
+  it('leaves snippets without a file unlocated and without fixes', () => {
+    const [result] = toSarif(report([aiIssue])).runs[0].results;
+
+    expect(result).toMatchObject({ ruleId: sarifRuleId(aiIssue), level: 'note', message: { text: 'Class components may be phased out!: Consider hooks.' } });
+    expect(result.locations).toBeUndefined();
+    expect(result.fixes).toBeUndefined();
+    expect(result.properties).toMatchObject({ isPrediction: true, predictionConfidence: 40 });
+  });
+
+  it('reports active baseline suppressions only', () => {
+    const [active, expired] = toSarif(report([
+      { ...ruleIssue, suppression: { reason: 'Migrating in Q3' } },
+      { ...ruleIssue, suppression: { reason: 'Old', expires: '2025-01-01', expired: true } }
+    ])).runs[0].results;
+
+    expect(active.suppressions).toEqual([{ kind: 'external', status: 'accepted', justification: 'Migrating in Q3' }]);
+    expect(expired.suppressions).toBeUndefined();
+  });
+});
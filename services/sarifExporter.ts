@@ -0,0 +1,177 @@
+import { AnalysisReport, Issue, Severity, SourceFile } from '../types';
+import { RULE_CATALOG, RULE_CATALOG_VERSION } from './ruleCatalog';
+import { hasFix, placeFixes } from './fixApplier';
+import { combineFiles } from './workspace';
+
+// Minimal typing of the SARIF 2.1.0 objects we emit
+// (https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html)
+type SarifLevel = 'error' | 'warning' | 'note';
+
+interface SarifRegion {
+  startLine: number;
+  startColumn?: number; // 1-based, in UTF-16 code units
+  endLine?: number;
+  endColumn?: number; // Exclusive
+  snippet?: { text: string };
+}
+
+interface SarifArtifactLocation {
+  uri: string;
+  uriBaseId?: string;
+}
+
+export interface SarifRule {
+  id: string;
+  shortDescription: { text: string };
+  fullDescription?: { text: string };
+  helpUri?: string;
+  defaultConfiguration: { level: SarifLevel };
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifResult {
+  ruleId: string;
+  level: SarifLevel;
+  message: { text: string };
+  locations?: { physicalLocation: { artifactLocation: SarifArtifactLocation; region?: SarifRegion } }[];
+  suppressions?: { kind: 'external'; status?: 'accepted'; justification: string }[];
+  fixes?: {
+    description: { text: string };
+    artifactChanges: {
+      artifactLocation: SarifArtifactLocation;
+      replacements: { deletedRegion: SarifRegion; insertedContent: { text: string } }[];
+    }[];
+  }[];
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: {
+    tool: { driver: { name: string; version: string; rules: SarifRule[] } };
+    results: SarifResult[];
+    originalUriBaseIds?: Record<string, { uri: string }>;
+    invocations?: { executionSuccessful: boolean; endTimeUtc: string }[];
+  }[];
+}
+
+export interface SarifOptions {
+  srcRoot?: string; // Absolute file:// URI of the scanned root, if known
+  files?: SourceFile[]; // The analyzed sources; fixes are only emitted for code found in them
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const SRCROOT = 'SRCROOT';
+
+const SEVERITY_LEVELS: Record<Severity, SarifLevel> = {
+  [Severity.CRITICAL]: 'error',
+  [Severity.WARNING]: 'warning',
+  [Severity.INFO]: 'note'
+};
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'finding';
+
+// Catalog findings keep their rule id; AI findings get a stable id derived from the title
+export const sarifRuleId = (issue: Issue): string => issue.ruleId || `ai/${slug(issue.title)}`;
+
+const toRule = (issue: Issue): SarifRule => {
+  const catalogRule = issue.ruleId ? RULE_CATALOG.find(r => r.id === issue.ruleId) : undefined;
+  return {
+    id: sarifRuleId(issue),
+    shortDescription: { text: catalogRule?.title || issue.title },
+    fullDescription: { text: catalogRule ? `${catalogRule.message} ${catalogRule.migrationSuggestion}` : issue.description },
+    helpUri: catalogRule?.documentationUrl || issue.documentationUrl,
+    defaultConfiguration: { level: SEVERITY_LEVELS[catalogRule?.severity || issue.severity] },
+    properties: { tags: [issue.category, ...(issue.isPrediction ? ['prediction'] : [])] }
+  };
+};
+
+// Places the fix in its file the way the editor's Apply Fix does, and returns the
+// exact span it replaces, so applying the SARIF fix leaves the surrounding code
+// (indentation included) untouched
+const toReplacement = (issue: Issue, files: SourceFile[]) => {
+  const file = files.find(f => f.path === issue.filePath);
+  if (!file || !hasFix(issue)) return null;
+
+  const buffer = combineFiles([file]);
+  const [edit] = placeFixes(buffer, [issue]).edits;
+  if (!edit) return null;
+
+  // Buffer line 1 is the file header
+  const position = (offset: number) => {
+    const lines = buffer.slice(0, offset).split('\n');
+    return { line: lines.length - 1, column: lines[lines.length - 1].length + 1 };
+  };
+  const start = position(edit.start);
+  const end = position(edit.end);
+  return {
+    deletedRegion: { startLine: start.line, startColumn: start.column, endLine: end.line, endColumn: end.column },
+    insertedContent: { text: edit.text }
+  };
+};
+
+const toResult = (issue: Issue, files: SourceFile[]): SarifResult => {
+  const result: SarifResult = {
+    ruleId: sarifRuleId(issue),
+    level: SEVERITY_LEVELS[issue.severity],
+    message: { text: `${issue.title}: ${issue.description}` },
+    properties: {
+      category: issue.category,
+      source: issue.source,
+      estimatedEndOfLife: issue.estimatedEndOfLife,
+      ...(issue.isPrediction ? { isPrediction: true, predictionConfidence: issue.predictionConfidence, riskFactors: issue.riskFactors } : {})
+    }
+  };
+
+  // Baseline entries are suppressions kept outside the source (SARIF kind "external")
+  if (issue.suppression && !issue.suppression.expired) {
+    result.suppressions = [{ kind: 'external', status: 'accepted', justification: issue.suppression.reason }];
+  }
+
+  if (!issue.filePath) return result; // Pasted snippets have no file to point at
+
+  const artifactLocation = { uri: issue.filePath, uriBaseId: SRCROOT };
+  const region = issue.startLine
+    ? { startLine: issue.startLine, endLine: issue.endLine ?? issue.startLine }
+    : undefined;
+
+  result.locations = [{
+    physicalLocation: { artifactLocation, ...(region ? { region: { ...region, snippet: { text: issue.affectedCode } } } : {}) }
+  }];
+
+  const replacement = region ? toReplacement(issue, files) : null;
+  if (replacement) {
+    result.fixes = [{
+      description: { text: 'Replace with the suggested modern code.' },
+      artifactChanges: [{ artifactLocation, replacements: [replacement] }]
+    }];
+  }
+
+  return result;
+};
+
+export const toSarif = (report: AnalysisReport, options: SarifOptions = {}): SarifLog => {
+  const rules = new Map<string, SarifRule>();
+  report.issues.forEach(issue => {
+    const id = sarifRuleId(issue);
+    if (!rules.has(id)) rules.set(id, toRule(issue));
+  });
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'DepreCheck',
+          version: RULE_CATALOG_VERSION,
+          rules: [...rules.values()]
+        }
+      },
+      results: report.issues.map(issue => toResult(issue, options.files || [])),
+      ...(options.srcRoot ? { originalUriBaseIds: { [SRCROOT]: { uri: options.srcRoot.endsWith('/') ? options.srcRoot : `${options.srcRoot}/` } } } : {}),
+      invocations: [{ executionSuccessful: true, endTimeUtc: report.timestamp }]
+    }]
+  };
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { runWithConcurrency } from './scheduler';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('runWithConcurrency', () => {
+  it('keeps at most `limit` calls in flight and returns results in input order', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const progress: number[] = [];
+    const results = await runWithConcurrency([30, 10, 20, 0, 5], 2, async (ms, i) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(resolve => setTimeout(resolve, ms));
+      inFlight--;
+      return `${i}:${ms}`;
+    }, completed => progress.push(completed));
+
+    expect(results).toEqual(['0:30', '1:10', '2:20', '3:0', '4:5']);
+    expect(peak).toBe(2);
+    expect(progress).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('stops starting work after the first failure and rejects with it', async () => {
+    const started: number[] = [];
+    const run = runWithConcurrency([0, 1, 2, 3, 4, 5], 2, async i => {
+      started.push(i);
+      await tick();
+      if (i === 1) throw new Error('chunk 1 failed');
+      return i;
+    });
+
+    await expect(run).rejects.toThrow('chunk 1 failed');
+    expect(started).not.toContain(5);
+  });
+
+  it('handles an empty list', async () => {
+    expect(await runWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,31 @@
+// Runs `worker` over every item with at most `limit` calls in flight and
+// returns the results in input order. The first rejection aborts the run.
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  onProgress?: (completed: number, total: number) => void
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  let completed = 0;
+  let failed = false;
+
+  const runNext = async (): Promise<void> => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+      completed++;
+      onProgress?.(completed, items.length);
+    }
+  };
+
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, () => runNext());
+  await Promise.all(lanes);
+  return results;
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisReport, Issue, Severity } from '../types';
+import { calculateHealthScore, DEFAULT_SCORING_WEIGHTS, issueDeduction, rescoreReport, resolveScoringWeights, ScoredIssue } from './scoring';
+
+const issue = (severity: Severity, category: Issue['category'] = 'Deprecation', extra: Partial<ScoredIssue> = {}): ScoredIssue =>
+  ({ severity, category, ...extra });
+
+describe('issueDeduction', () => {
+  it('deducts by severity, scaled by category', () => {
+    expect(issueDeduction(issue(Severity.CRITICAL))).toBe(10);
+    expect(issueDeduction(issue(Severity.WARNING))).toBe(5);
+    expect(issueDeduction(issue(Severity.INFO))).toBe(2);
+    expect(issueDeduction(issue(Severity.CRITICAL, 'Security'))).toBe(15);
+  });
+
+  it('scales predictions by their confidence', () => {
+    expect(issueDeduction(issue(Severity.CRITICAL, 'Deprecation', { isPrediction: true, predictionConfidence: 80 }))).toBe(8);
+    // No confidence reported: the default applies; out-of-range values are clamped
+    expect(issueDeduction(issue(Severity.CRITICAL, 'Deprecation', { isPrediction: true }))).toBe(5);
+    expect(issueDeduction(issue(Severity.CRITICAL, 'Deprecation', { isPrediction: true, predictionConfidence: 250 }))).toBe(10);
+  });
+});
+
+describe('calculateHealthScore', () => {
+  it('starts at 100 and never leaves 0..100', () => {
+    expect(calculateHealthScore([])).toBe(100);
+    expect(calculateHealthScore([issue(Severity.CRITICAL), issue(Severity.INFO)])).toBe(88);
+    expect(calculateHealthScore(Array.from({ length: 20 }, () => issue(Severity.CRITICAL)))).toBe(0);
+  });
+
+  it('uses custom weights', () => {
+    const weights = {
+      ...DEFAULT_SCORING_WEIGHTS,
+      severity: { ...DEFAULT_SCORING_WEIGHTS.severity, [Severity.INFO]: 0 },
+      category: { ...DEFAULT_SCORING_WEIGHTS.category, Security: 3 },
+      prediction: 0
+    };
+    const issues = [issue(Severity.INFO), issue(Severity.WARNING, 'Security'), issue(Severity.CRITICAL, 'Standard', { isPrediction: true, predictionConfidence: 90 })];
+
+    expect(calculateHealthScore(issues, weights)).toBe(85);
+    expect(calculateHealthScore(issues)).toBe(82);
+  });
+});
+
+describe('resolveScoringWeights', () => {
+  it('fills in the defaults around partial overrides', () => {
+    expect(resolveScoringWeights({})).toEqual(DEFAULT_SCORING_WEIGHTS);
+    expect(resolveScoringWeights({ severity: { Info: 0 }, category: { Security: 3 }, prediction: 0.5 })).toEqual({
+      ...DEFAULT_SCORING_WEIGHTS,
+      severity: { ...DEFAULT_SCORING_WEIGHTS.severity, [Severity.INFO]: 0 },
+      category: { ...DEFAULT_SCORING_WEIGHTS.category, Security: 3 },
+      prediction: 0.5
+    });
+  });
+
+  it('rejects unknown keys and values that are not non-negative numbers', () => {
+    expect(() => resolveScoringWeights([])).toThrow('must be a JSON object');
+    expect(() => resolveScoringWeights({ severity: { Critcal: 20 } })).toThrow('severity.Critcal is unknown');
+    expect(() => resolveScoringWeights({ category: { Security: -1 } })).toThrow('category.Security must be a number');
+    expect(() => resolveScoringWeights({ prediction: '2' })).toThrow('prediction must be a number');
+    expect(() => resolveScoringWeights({ defaultPredictionConfidence: 150 })).toThrow('from 0 to 100');
+    expect(() => resolveScoringWeights({ weights: {} })).toThrow('weights is unknown');
+  });
+});
+
+describe('rescoreReport', () => {
+  const report = (issues: Partial<Issue>[]): AnalysisReport =>
+    ({ summary: '', overallHealthScore: 0, issues: issues.map(i => ({ severity: Severity.WARNING, category: 'Deprecation', ...i })) } as AnalysisReport);
+
+  it('applies new weights to the existing findings', () => {
+    const weights = { ...DEFAULT_SCORING_WEIGHTS, severity: { ...DEFAULT_SCORING_WEIGHTS.severity, [Severity.WARNING]: 20 } };
+    expect(rescoreReport(report([{}, {}]), weights).overallHealthScore).toBe(60);
+  });
+
+  it('leaves out findings a diff scan found on the base branch', () => {
+    expect(rescoreReport(report([{ diffStatus: 'new' }, { diffStatus: 'existing' }]), DEFAULT_SCORING_WEIGHTS).overallHealthScore).toBe(95);
+  });
+});
@@ -0,0 +1,105 @@
+import { AnalysisReport, Issue, Severity } from '../types';
+
+export interface ScoringWeights {
+  // Points deducted from 100 for each issue of this severity
+  severity: Record<Severity, number>;
+  // Multiplier applied on top of the severity deduction
+  category: Record<Issue['category'], number>;
+  // Predictions deduct `severity * category * prediction * confidence / 100`
+  prediction: number;
+  // Confidence assumed when a prediction does not report one
+  defaultPredictionConfidence: number;
+}
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  severity: {
+    [Severity.CRITICAL]: 10,
+    [Severity.WARNING]: 5,
+    [Severity.INFO]: 2
+  },
+  category: {
+    Security: 1.5,
+    Deprecation: 1,
+    Performance: 1,
+    Standard: 1
+  },
+  prediction: 1,
+  defaultPredictionConfidence: 50
+};
+
+// What a weights file or the settings store may hold; missing entries keep the default
+export interface ScoringWeightOverrides {
+  severity?: Partial<Record<Severity, number>>;
+  category?: Partial<Record<Issue['category'], number>>;
+  prediction?: number;
+  defaultPredictionConfidence?: number;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Throws on unknown keys and on values that aren't non-negative numbers, so a
+// typo in a weights file fails loudly instead of silently scoring with defaults
+export const resolveScoringWeights = (overrides: unknown): ScoringWeights => {
+  if (!isRecord(overrides)) throw new Error('Scoring weights must be a JSON object.');
+  const problems: string[] = [];
+  const weight = (path: string, value: unknown, max = Infinity): number | undefined => {
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= max) return value;
+    problems.push(`${path} must be a number from 0${max < Infinity ? ` to ${max}` : ''}`);
+    return undefined;
+  };
+  const table = <K extends string>(name: string, defaults: Record<K, number>): Record<K, number> => {
+    const value = overrides[name];
+    if (value === undefined) return defaults;
+    if (!isRecord(value)) {
+      problems.push(`${name} must be an object`);
+      return defaults;
+    }
+    const result = { ...defaults };
+    Object.entries(value).forEach(([key, entry]) => {
+      if (!(key in defaults)) problems.push(`${name}.${key} is unknown (expected ${Object.keys(defaults).join(', ')})`);
+      else result[key as K] = weight(`${name}.${key}`, entry) ?? defaults[key as K];
+    });
+    return result;
+  };
+
+  Object.keys(overrides)
+    .filter(key => !(key in DEFAULT_SCORING_WEIGHTS))
+    .forEach(key => problems.push(`${key} is unknown (expected ${Object.keys(DEFAULT_SCORING_WEIGHTS).join(', ')})`));
+  const weights: ScoringWeights = {
+    severity: table('severity', DEFAULT_SCORING_WEIGHTS.severity),
+    category: table('category', DEFAULT_SCORING_WEIGHTS.category),
+    prediction: overrides.prediction === undefined ? DEFAULT_SCORING_WEIGHTS.prediction : weight('prediction', overrides.prediction) ?? 0,
+    defaultPredictionConfidence: overrides.defaultPredictionConfidence === undefined
+      ? DEFAULT_SCORING_WEIGHTS.defaultPredictionConfidence
+      : weight('defaultPredictionConfidence', overrides.defaultPredictionConfidence, 100) ?? 0
+  };
+  if (problems.length > 0) throw new Error(`Invalid scoring weights: ${problems.join('; ')}.`);
+  return weights;
+};
+
+export type ScoredIssue = Pick<Issue, 'severity' | 'category' | 'isPrediction' | 'predictionConfidence' | 'suppression'>;
+
+// Accepted findings stay in the report but no longer count against it
+export const isSuppressed = (issue: Pick<Issue, 'suppression'>): boolean => !!issue.suppression && !issue.suppression.expired;
+
+export const issueDeduction = (issue: ScoredIssue, weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS): number => {
+  const base = (weights.severity[issue.severity] ?? 0) * (weights.category[issue.category] ?? 1);
+  if (!issue.isPrediction) return base;
+  const confidence = Math.min(100, Math.max(0, issue.predictionConfidence ?? weights.defaultPredictionConfidence));
+  return base * weights.prediction * (confidence / 100);
+};
+
+// The single source of truth for health scores: the scanner, the PR interceptor
+// and Shadow Mode all derive their score from the final issue list here.
+export const calculateHealthScore = (issues: ScoredIssue[], weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS): number => {
+  const deducted = issues.filter(issue => !isSuppressed(issue)).reduce((total, issue) => total + issueDeduction(issue, weights), 0);
+  return Math.max(0, Math.min(100, Math.round(100 - deducted)));
+};
+
+// Rescores a finished report with other weights; findings a diff scan saw on
+// the base branch don't count, as in scanDiff
+export const rescoreReport = (report: AnalysisReport, weights: ScoringWeights): AnalysisReport => ({
+  ...report,
+  overallHealthScore: calculateHealthScore(report.issues.filter(issue => issue.diffStatus !== 'existing'), weights)
+});
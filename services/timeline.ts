@@ -0,0 +1,24 @@
+import { ChartDataPoint, Issue } from '../types';
+
+// Issue counts per EOL month (YYYY-MM). The next 12 months are always present
+// so the chart has a stable axis even when few issues have dates.
+export const buildEolTimeline = (issues: Issue[], today: Date = new Date()): ChartDataPoint[] => {
+  const timelineMap = new Map<string, number>();
+
+  for (let i = 0; i < 12; i++) {
+    const d = new Date(today.getFullYear(), today.getMonth() + i, 1);
+    const key = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+    timelineMap.set(key, 0);
+  }
+
+  issues
+    .filter(i => i.estimatedEndOfLife !== 'Unknown')
+    .forEach(issue => {
+      const key = issue.estimatedEndOfLife.slice(0, 7);
+      timelineMap.set(key, (timelineMap.get(key) || 0) + 1);
+    });
+
+  return Array.from(timelineMap.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([date, count]) => ({ date, count }));
+};
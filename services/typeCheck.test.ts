@@ -0,0 +1,62 @@
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { checkPatch, introducedDiagnostics, LibReader, referencedLibs, TypeDiagnostic, typeCheckFiles } from './typeCheck';
+import { loadTypeScript } from './typescriptLoader';
+
+const LIB_DIR = dirname(createRequire(import.meta.url).resolve('typescript'));
+
+const readLib: LibReader = fileName => {
+  try {
+    return readFileSync(join(LIB_DIR, fileName), 'utf8');
+  } catch {
+    return undefined;
+  }
+};
+
+const diagnostic = (message: string, line = 1): TypeDiagnostic => ({ filePath: 'a.ts', line, column: 1, code: 2322, message });
+
+describe('referencedLibs', () => {
+  it('lists the libs a lib file pulls in', () => {
+    expect(referencedLibs('/// <reference lib="es2021" />\n/// <reference lib="DOM" />')).toEqual(['lib.es2021.d.ts', 'lib.dom.d.ts']);
+  });
+});
+
+describe('typeCheckFiles', () => {
+  it('reports type errors with file-relative positions', async () => {
+    const [error] = typeCheckFiles(await loadTypeScript(), [{ path: 'src/a.ts', content: 'const ok = 1;\nconst n: number = "one";' }], readLib);
+
+    expect(error).toMatchObject({ filePath: 'src/a.ts', line: 2, column: 7, code: 2322 });
+  });
+
+  it('ignores missing modules and files that are not scripts', async () => {
+    expect(typeCheckFiles(await loadTypeScript(), [
+      { path: 'src/a.tsx', content: "import { x } from 'left-pad';\nexport const y = [1].at(0);" },
+      { path: 'README.md', content: 'const n: number = "one";' }
+    ], readLib)).toEqual([]);
+  });
+});
+
+describe('introducedDiagnostics', () => {
+  it('matches diagnostics by message regardless of line, one for one', () => {
+    const before = [diagnostic('Type error.', 3)];
+    const after = [diagnostic('Type error.', 9), diagnostic('Type error.', 12), diagnostic('Other error.')];
+
+    expect(introducedDiagnostics(before, after)).toEqual([diagnostic('Type error.', 12), diagnostic('Other error.')]);
+  });
+});
+
+describe('checkPatch', () => {
+  it('reports only what the patch broke, including in importing files', async () => {
+    const before = [
+      { path: 'src/util.ts', content: 'export const greet = (name: string) => name;\nconst old: number = "x";' },
+      { path: 'src/app.ts', content: "import { greet } from './util';\ngreet('a');" }
+    ];
+    const after = [{ ...before[0], content: 'export const greet = (name: number) => name;\nconst old: number = "x";' }, before[1]];
+
+    const introduced = await checkPatch(before, after, readLib);
+    expect(introduced).toHaveLength(1);
+    expect(introduced[0]).toMatchObject({ filePath: 'src/app.ts', line: 2, code: 2345 });
+  });
+});
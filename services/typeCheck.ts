@@ -0,0 +1,116 @@
+import type * as TS from 'typescript';
+import { SourceFile } from '../types';
+import { isScriptPath } from './astMatcher';
+import { loadTypeScript, TypeScript } from './typescriptLoader';
+
+// Parses and type-checks JS/TS files with the compiler API, so a patched buffer
+// can be compared with the one before the patch. The checker never sees the
+// project's dependencies, so only diagnostics a fix introduces are meaningful.
+
+export interface TypeDiagnostic {
+  filePath: string;
+  line: number; // 1-based, relative to the file
+  column: number; // 1-based
+  code: number; // The TSxxxx number
+  message: string;
+}
+
+// Lib .d.ts files by name ("lib.es2022.full.d.ts"); the worker fetches them from the
+// compiler's CDN package, the tests read them from node_modules/typescript
+export type LibReader = (fileName: string) => string | undefined;
+
+const compilerOptions = (ts: TypeScript): TS.CompilerOptions => ({
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.Preserve,
+  allowJs: true,
+  allowImportingTsExtensions: true,
+  skipLibCheck: true,
+  noEmit: true
+});
+
+// What getDefaultLibFileName returns for the ES2022 target
+export const DEFAULT_LIB = 'lib.es2022.full.d.ts';
+
+// Missing modules and type packages only say the checker can't see node_modules
+const ENVIRONMENT_CODES = new Set([2307, 2688, 2792, 2875, 7016]);
+
+const LIB_DIR = '/lib/';
+
+// Libs pull in others through /// <reference lib="..." />
+export const referencedLibs = (libText: string): string[] =>
+  [...libText.matchAll(/\/\/\/\s*<reference\s+lib="([^"]+)"/g)].map(m => `lib.${m[1].toLowerCase()}.d.ts`);
+
+// Extensionless snippets are checked as TSX, like the rule engine parses them
+const rootName = (path: string) => `/${path}${/\.[cm]?[jt]sx?$/i.test(path) ? '' : '.tsx'}`;
+
+export const typeCheckFiles = (ts: TypeScript, files: SourceFile[], readLib: LibReader, libCache: Map<string, TS.SourceFile> = new Map()): TypeDiagnostic[] => {
+  const scripts = new Map(files.filter(f => isScriptPath(f.path)).map(f => [rootName(f.path), f]));
+  if (scripts.size === 0) return [];
+
+  const host: TS.CompilerHost = {
+    getSourceFile: (fileName, languageVersion) => {
+      if (fileName.startsWith(LIB_DIR)) {
+        const cached = libCache.get(fileName);
+        if (cached) return cached;
+        const text = readLib(fileName.slice(LIB_DIR.length));
+        if (text === undefined) return undefined;
+        const lib = ts.createSourceFile(fileName, text, languageVersion);
+        libCache.set(fileName, lib);
+        return lib;
+      }
+      const file = scripts.get(fileName);
+      return file ? ts.createSourceFile(fileName, file.content, languageVersion, true) : undefined;
+    },
+    getDefaultLibFileName: () => LIB_DIR + DEFAULT_LIB,
+    getDefaultLibLocation: () => LIB_DIR.slice(0, -1),
+    writeFile: () => {},
+    getCurrentDirectory: () => '/',
+    getCanonicalFileName: fileName => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: fileName => scripts.has(fileName) || (fileName.startsWith(LIB_DIR) && readLib(fileName.slice(LIB_DIR.length)) !== undefined),
+    readFile: fileName => scripts.get(fileName)?.content
+  };
+
+  const program = ts.createProgram([...scripts.keys()], compilerOptions(ts), host);
+  const diagnostics = program.getSourceFiles()
+    .filter(sourceFile => scripts.has(sourceFile.fileName))
+    .flatMap(sourceFile => [...program.getSyntacticDiagnostics(sourceFile), ...program.getSemanticDiagnostics(sourceFile)]);
+
+  return diagnostics
+    .filter(d => d.category === ts.DiagnosticCategory.Error && d.file && !ENVIRONMENT_CODES.has(d.code))
+    .map(d => {
+      const { line, character } = d.file!.getLineAndCharacterOfPosition(d.start || 0);
+      return {
+        filePath: scripts.get(d.file!.fileName)!.path,
+        line: line + 1,
+        column: character + 1,
+        code: d.code,
+        message: ts.flattenDiagnosticMessageText(d.messageText, ' ')
+      };
+    });
+};
+
+// Diagnostics in `after` with no counterpart in `before`. Lines move with every
+// edit, so a diagnostic is matched on file, code and message only.
+export const introducedDiagnostics = (before: TypeDiagnostic[], after: TypeDiagnostic[]): TypeDiagnostic[] => {
+  const key = (d: TypeDiagnostic) => `${d.filePath}|${d.code}|${d.message}`;
+  const remaining = new Map<string, number>();
+  before.forEach(d => remaining.set(key(d), (remaining.get(key(d)) || 0) + 1));
+  return after.filter(d => {
+    const count = remaining.get(key(d)) || 0;
+    if (count === 0) return true;
+    remaining.set(key(d), count - 1);
+    return false;
+  });
+};
+
+// Only files that changed can introduce diagnostics into themselves, but any file
+// importing them can break too, so both sides are checked as whole programs
+export const checkPatch = async (before: SourceFile[], after: SourceFile[], readLib: LibReader, libCache?: Map<string, TS.SourceFile>): Promise<TypeDiagnostic[]> => {
+  const ts = await loadTypeScript();
+  const cache = libCache || new Map<string, TS.SourceFile>();
+  return introducedDiagnostics(typeCheckFiles(ts, before, readLib, cache), typeCheckFiles(ts, after, readLib, cache));
+};
@@ -0,0 +1,45 @@
+import type * as TS from 'typescript';
+import { checkPatch, DEFAULT_LIB, referencedLibs } from './typeCheck';
+import { TypeCheckRequest, TypeCheckResponse } from './typeCheckClient';
+import { TYPESCRIPT_URL } from './typescriptLoader';
+
+// Runs the type check off the main thread. The worker imports nothing the
+// importmap would have to resolve: the compiler and its lib files come from
+// the CDN package, fetched on first use and following their /// <reference lib> chain.
+
+const libTexts = new Map<string, string>();
+const libLoads = new Map<string, Promise<void>>();
+const libCache = new Map<string, TS.SourceFile>();
+
+const fetchLib = async (fileName: string): Promise<void> => {
+  const response = await fetch(`${TYPESCRIPT_URL}/lib/${fileName}`);
+  if (!response.ok) throw new Error(`Could not load ${fileName} (HTTP ${response.status}).`);
+  const text = await response.text();
+  libTexts.set(fileName, text);
+  await Promise.all(referencedLibs(text).map(loadLib));
+};
+
+const loadLib = (fileName: string): Promise<void> => {
+  let load = libLoads.get(fileName);
+  if (!load) {
+    load = fetchLib(fileName);
+    libLoads.set(fileName, load);
+    // Retried by the next check instead of failing every check after it
+    load.catch(() => libLoads.delete(fileName));
+  }
+  return load;
+};
+
+const scope = self as unknown as Worker;
+
+scope.addEventListener('message', async (event: MessageEvent<TypeCheckRequest>) => {
+  const { id, before, after } = event.data;
+  let response: TypeCheckResponse;
+  try {
+    await loadLib(DEFAULT_LIB);
+    response = { id, diagnostics: await checkPatch(before, after, name => libTexts.get(name), libCache) };
+  } catch (err: any) {
+    response = { id, error: err?.message || String(err) };
+  }
+  scope.postMessage(response);
+});
@@ -0,0 +1,61 @@
+import { SourceFile } from '../types';
+import { TypeDiagnostic } from './typeCheck';
+
+// Main-thread side of the type-check worker: one worker for the session,
+// requests matched to responses by id.
+
+export interface TypeCheckRequest {
+  id: number;
+  before: SourceFile[];
+  after: SourceFile[];
+}
+
+export type TypeCheckResponse = { id: number; diagnostics: TypeDiagnostic[] } | { id: number; error: string };
+
+export interface TypeChecker {
+  // Diagnostics the change from `before` to `after` introduces
+  checkPatch: (before: SourceFile[], after: SourceFile[]) => Promise<TypeDiagnostic[]>;
+  dispose: () => void;
+}
+
+export const createTypeChecker = (): TypeChecker => {
+  let worker: Worker | null = null;
+  let nextId = 0;
+  const pending = new Map<number, { resolve: (diagnostics: TypeDiagnostic[]) => void; reject: (error: Error) => void }>();
+
+  // Started on the first check: loading the compiler is not free
+  const start = (): Worker => {
+    if (worker) return worker;
+    worker = new Worker(new URL('./typeCheck.worker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', (event: MessageEvent<TypeCheckResponse>) => {
+      const request = pending.get(event.data.id);
+      if (!request) return;
+      pending.delete(event.data.id);
+      if ('error' in event.data) request.reject(new Error(event.data.error));
+      else request.resolve(event.data.diagnostics);
+    });
+    worker.addEventListener('error', event => {
+      pending.forEach(request => request.reject(new Error(event.message || 'The type-check worker failed.')));
+      pending.clear();
+    });
+    return worker;
+  };
+
+  return {
+    checkPatch: (before, after) => {
+      if (typeof Worker === 'undefined') return Promise.reject(new Error('Type checking needs Web Worker support.'));
+      const id = nextId++;
+      const request: TypeCheckRequest = { id, before, after };
+      return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        start().postMessage(request);
+      });
+    },
+    dispose: () => {
+      worker?.terminate();
+      worker = null;
+      pending.forEach(request => request.reject(new Error('The type checker was stopped.')));
+      pending.clear();
+    }
+  };
+};
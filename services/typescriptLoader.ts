@@ -0,0 +1,27 @@
+import type * as TS from 'typescript';
+
+// The compiler is several megabytes, so it is fetched the first time something
+// parses code rather than shipped in the app bundle. Browsers load it from the
+// same CDN module the importmap in index.html names, from the page and from the
+// type-check worker alike (workers don't see the importmap), so it is downloaded
+// once. Node (the CLI) uses the installed package.
+
+export type TypeScript = typeof TS;
+
+// Keep in sync with the "typescript" entry of the importmap
+export const TYPESCRIPT_URL = 'https://aistudiocdn.com/typescript@^5.8.2';
+
+const inNode = typeof process !== 'undefined' && !!process.versions?.node;
+
+let loading: Promise<TypeScript> | null = null;
+
+export const loadTypeScript = (): Promise<TypeScript> => {
+  if (!loading) {
+    // Resolved at run time either way, so no bundle carries a copy of the compiler
+    const specifier = inNode ? 'typescript' : TYPESCRIPT_URL;
+    loading = import(/* @vite-ignore */ specifier).then(m => (m.default ?? m) as TypeScript);
+    // A failed download (offline, CDN hiccup) can be retried on the next run
+    loading.catch(() => { loading = null; });
+  }
+  return loading;
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { parseUnifiedDiff } from './unifiedDiff';
+
+const GIT_DIFF = `diff --git a/src/app.ts b/src/app.ts
+index 1111111..2222222 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,3 +1,3 @@
+ import React from 'react';
+-ReactDOM.render(<App />, root);
++createRoot(root).render(<App />);
+
+@@ -10 +10,2 @@ export const x = 1;
+ const y = 2;
++const z = 3;
+\\ No newline at end of file
+diff --git a/src/new.ts b/src/new.ts
+new file mode 100644
+index 0000000..3333333
+--- /dev/null
++++ b/src/new.ts
+@@ -0,0 +1 @@
++export {};
+diff --git a/src/old.ts b/src/old.ts
+deleted file mode 100644
+index 4444444..0000000
+--- a/src/old.ts
++++ /dev/null
+@@ -1 +0,0 @@
+-export {};
+diff --git a/src/before.ts b/src/after.ts
+similarity index 100%
+rename from src/before.ts
+rename to src/after.ts
+diff --git a/logo.png b/logo.png
+index 5555555..6666666 100644
+Binary files a/logo.png and b/logo.png differ
+`;
+
+describe('parseUnifiedDiff', () => {
+  const patches = parseUnifiedDiff(GIT_DIFF);
+
+  it('reads paths and status of every file', () => {
+    expect(patches.map(p => [p.oldPath, p.newPath, p.status, p.binary])).toEqual([
+      ['src/app.ts', 'src/app.ts', 'modified', false],
+      [null, 'src/new.ts', 'added', false],
+      ['src/old.ts', null, 'deleted', false],
+      ['src/before.ts', 'src/after.ts', 'renamed', false],
+      ['logo.png', 'logo.png', 'modified', true]
+    ]);
+  });
+
+  it('numbers hunk lines on both sides', () => {
+    const [first, second] = patches[0].hunks;
+
+    expect(first).toMatchObject({ oldStart: 1, oldLines: 3, newStart: 1, newLines: 3 });
+    expect(first.lines).toEqual([
+      { type: 'context', text: "import React from 'react';", oldLine: 1, newLine: 1 },
+      { type: 'del', text: 'ReactDOM.render(<App />, root);', oldLine: 2 },
+      { type: 'add', text: 'createRoot(root).render(<App />);', newLine: 2 },
+      { type: 'context', text: '', oldLine: 3, newLine: 3 }
+    ]);
+    // Omitted counts mean one line
+    expect(second).toMatchObject({ oldStart: 10, oldLines: 1, newStart: 10, newLines: 2 });
+    expect(second.lines.map(l => l.type)).toEqual(['context', 'add']);
+  });
+
+  it('keeps lines that look like headers inside a hunk', () => {
+    const [patch] = parseUnifiedDiff('--- a/x.sql\n+++ b/x.sql\n@@ -1,2 +1 @@\n--- comment\n+++ comment\n-- same\n');
+
+    expect(patch.hunks[0].lines.map(l => [l.type, l.text])).toEqual([['del', '-- comment'], ['add', '++ comment'], ['del', '- same']]);
+  });
+
+  it('reads plain diff -u output', () => {
+    const plain = '--- src/a.ts\t2024-01-01 00:00:00\n+++ src/a.ts\t2024-01-02 00:00:00\n@@ -1 +1 @@\n-a\n+b\n' +
+      '--- src/b.ts\n+++ src/b.ts\n@@ -1 +1 @@\n-c\n+d\n';
+
+    expect(parseUnifiedDiff(plain).map(p => [p.oldPath, p.newPath, p.hunks.length])).toEqual([
+      ['src/a.ts', 'src/a.ts', 1],
+      ['src/b.ts', 'src/b.ts', 1]
+    ]);
+  });
+
+  it('accepts CRLF line endings and ignores surrounding text', () => {
+    const patch = 'From: someone\r\nSubject: fix\r\n\r\n--- a/x.ts\r\n+++ b/x.ts\r\n@@ -1 +1 @@\r\n-a\r\n+b\r\n';
+    expect(parseUnifiedDiff(patch)[0].hunks[0].lines.map(l => l.text)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,123 @@
+// Parser for unified diffs as produced by `git diff` / `diff -u` and .patch files
+
+export type DiffLineType = 'context' | 'add' | 'del';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  oldLine?: number; // 1-based, absent for added lines
+  newLine?: number; // 1-based, absent for deleted lines
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export type FilePatchStatus = 'added' | 'modified' | 'deleted' | 'renamed';
+
+export interface FilePatch {
+  oldPath: string | null; // null for new files
+  newPath: string | null; // null for deleted files
+  status: FilePatchStatus;
+  binary: boolean;
+  hunks: DiffHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+// "a/src/x.ts" -> "src/x.ts"; "/dev/null" -> null. Tabs end the path in `diff -u` output.
+const stripPrefix = (raw: string): string | null => {
+  const path = raw.split('\t')[0].trim().replace(/^"(.*)"$/, '$1');
+  if (path === '/dev/null') return null;
+  return path.replace(/^[ab]\//, '');
+};
+
+const statusOf = (patch: FilePatch): FilePatchStatus => {
+  if (patch.oldPath === null) return 'added';
+  if (patch.newPath === null) return 'deleted';
+  return patch.oldPath !== patch.newPath ? 'renamed' : 'modified';
+};
+
+export const parseUnifiedDiff = (text: string): FilePatch[] => {
+  const patches: FilePatch[] = [];
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  let patch: FilePatch | null = null;
+  let hunk: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+
+  const startPatch = (oldPath: string | null, newPath: string | null): FilePatch => {
+    const started: FilePatch = { oldPath, newPath, status: 'modified', binary: false, hunks: [] };
+    patches.push(started);
+    hunk = null;
+    return started;
+  };
+
+  for (const line of lines) {
+    if (line.startsWith('diff --git ')) {
+      const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+      patch = startPatch(match ? match[1] : null, match ? match[2] : null);
+      continue;
+    }
+
+    // Inside a hunk, every line up to the announced counts belongs to it
+    const h = hunk as DiffHunk | null;
+    if (h && (oldLine < h.oldStart + h.oldLines || newLine < h.newStart + h.newLines)) {
+      if (line.startsWith('+')) {
+        h.lines.push({ type: 'add', text: line.slice(1), newLine: newLine++ });
+        continue;
+      }
+      if (line.startsWith('-')) {
+        h.lines.push({ type: 'del', text: line.slice(1), oldLine: oldLine++ });
+        continue;
+      }
+      if (line.startsWith(' ') || line === '') {
+        h.lines.push({ type: 'context', text: line.slice(1), oldLine: oldLine++, newLine: newLine++ });
+        continue;
+      }
+    }
+    if (line.startsWith('\\')) continue; // "\ No newline at end of file"
+
+    if (line.startsWith('--- ')) {
+      // Plain `diff -u` output has no "diff --git" line; a new file starts here
+      if (!patch || patch.hunks.length > 0) patch = startPatch(null, null);
+      patch.oldPath = stripPrefix(line.slice(4));
+      continue;
+    }
+    const current: FilePatch | null = patch;
+    if (line.startsWith('+++ ') && current) {
+      current.newPath = stripPrefix(line.slice(4));
+      current.status = statusOf(current);
+      continue;
+    }
+    if (!current) continue;
+
+    if (line.startsWith('new file mode')) current.oldPath = null;
+    else if (line.startsWith('deleted file mode')) current.newPath = null;
+    else if (line.startsWith('rename from ')) current.oldPath = line.slice('rename from '.length);
+    else if (line.startsWith('rename to ')) current.newPath = line.slice('rename to '.length);
+    else if (line.startsWith('Binary files ') || line.startsWith('GIT binary patch')) current.binary = true;
+    else {
+      const header = line.match(HUNK_HEADER);
+      if (header) {
+        hunk = {
+          oldStart: Number(header[1]),
+          oldLines: header[2] === undefined ? 1 : Number(header[2]),
+          newStart: Number(header[3]),
+          newLines: header[4] === undefined ? 1 : Number(header[4]),
+          lines: []
+        };
+        current.hunks.push(hunk);
+        oldLine = hunk.oldStart;
+        newLine = hunk.newStart;
+      }
+    }
+    current.status = statusOf(current);
+  }
+
+  return patches.filter(p => p.oldPath !== null || p.newPath !== null);
+};
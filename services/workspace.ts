@@ -0,0 +1,80 @@
+import { SourceFile } from '../types';
+
+// The editor holds multi-file scans as one buffer, each file introduced by a header line
+export const FILE_HEADER_PREFIX = '// File: ';
+export const SNIPPET_PATH = 'snippet';
+
+export interface WorkspaceFile extends SourceFile {
+  offset: number; // 0-based buffer line of the file's first content line
+}
+
+export interface LineRange {
+  startLine: number;
+  endLine: number;
+}
+
+export const combineFiles = (files: SourceFile[]): string =>
+  files.map(f => `${FILE_HEADER_PREFIX}${f.path}\n${f.content}`).join('\n');
+
+export const splitWorkspace = (code: string): WorkspaceFile[] => {
+  const lines = code.split('\n');
+  const headers = lines
+    .map((line, i) => (line.startsWith(FILE_HEADER_PREFIX) ? i : -1))
+    .filter(i => i !== -1);
+
+  // Plain snippets become a single pseudo-file
+  if (headers.length === 0) {
+    return [{ path: SNIPPET_PATH, offset: 0, content: code }];
+  }
+
+  const files: WorkspaceFile[] = headers.map((headerIndex, n) => {
+    const end = n + 1 < headers.length ? headers[n + 1] : lines.length;
+    return {
+      path: lines[headerIndex].slice(FILE_HEADER_PREFIX.length).trim(),
+      offset: headerIndex + 1,
+      content: lines.slice(headerIndex + 1, end).join('\n')
+    };
+  });
+
+  // Keep anything typed above the first header instead of silently dropping it
+  const preamble = lines.slice(0, headers[0]).join('\n');
+  if (preamble.trim()) {
+    files.unshift({ path: SNIPPET_PATH, offset: 0, content: preamble });
+  }
+  return files;
+};
+
+// Maps a file-relative range onto the combined editor buffer
+export const toBufferRange = (code: string, filePath: string | undefined, range: LineRange): LineRange => {
+  const file = splitWorkspace(code).find(f => f.path === (filePath || SNIPPET_PATH));
+  const offset = file ? file.offset : 0;
+  return { startLine: range.startLine + offset, endLine: range.endLine + offset };
+};
+
+const squash = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Finds where a model-reported snippet sits in a file: exact match first, then
+// line by line ignoring whitespace differences.
+export const locateSnippet = (content: string, snippet: string): LineRange | null => {
+  if (!snippet.trim()) return null;
+  const snippetLines = snippet.trim().split('\n');
+
+  const exact = content.indexOf(snippet.trim());
+  if (exact !== -1) {
+    const startLine = content.substring(0, exact).split('\n').length;
+    return { startLine, endLine: startLine + snippetLines.length - 1 };
+  }
+
+  const lines = content.split('\n');
+  const first = squash(snippetLines[0]);
+  if (!first) return null;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!squash(lines[i]).includes(first)) continue;
+    const window = lines.slice(i, i + snippetLines.length).join('\n');
+    if (squash(window).includes(squash(snippet))) {
+      return { startLine: i + 1, endLine: i + snippetLines.length };
+    }
+  }
+  return null;
+};
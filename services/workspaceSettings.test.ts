@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SCORING_WEIGHTS } from './scoring';
+import { loadProviderConfig, loadScoringWeights, saveProviderConfig, saveScoringWeights } from './workspaceSettings';
+
+const memoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: index => [...items.keys()][index] ?? null,
+    removeItem: key => { items.delete(key); },
+    setItem: (key, value) => { items.set(key, String(value)); }
+  };
+};
+
+describe('provider settings', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    vi.stubGlobal('sessionStorage', memoryStorage());
+  });
+  afterEach(() => vi.unstubAllGlobals());
+
+  const config = { kind: 'openai-compatible' as const, model: 'gpt-4o-mini', baseUrl: 'https://api.example.com/v1', apiKey: 'sk-secret' };
+
+  it('keeps the API key out of localStorage', () => {
+    saveProviderConfig('repo', config);
+
+    expect(localStorage.getItem('deprecheck:provider:repo')).not.toContain('sk-secret');
+    expect(loadProviderConfig('repo')).toEqual(config);
+  });
+
+  it('forgets the key with the session', () => {
+    saveProviderConfig('repo', config);
+    sessionStorage.clear();
+
+    const { apiKey, ...rest } = config;
+    expect(loadProviderConfig('repo')).toEqual(rest);
+  });
+
+  it('removes the key when it is cleared', () => {
+    saveProviderConfig('repo', config);
+    saveProviderConfig('repo', { ...config, apiKey: '' });
+
+    expect(loadProviderConfig('repo').apiKey).toBeUndefined();
+  });
+
+  it('falls back to the default workspace', () => {
+    saveProviderConfig('default', config);
+    expect(loadProviderConfig('other')).toEqual(config);
+  });
+});
+
+describe('scoring weights', () => {
+  beforeEach(() => vi.stubGlobal('localStorage', memoryStorage()));
+  afterEach(() => vi.unstubAllGlobals());
+
+  const weights = { ...DEFAULT_SCORING_WEIGHTS, prediction: 0.5 };
+
+  it('are remembered per workspace, falling back to the default one', () => {
+    expect(loadScoringWeights('repo')).toEqual(DEFAULT_SCORING_WEIGHTS);
+    saveScoringWeights('default', weights);
+    expect(loadScoringWeights('repo')).toEqual(weights);
+  });
+
+  it('ignore stored weights that no longer validate', () => {
+    localStorage.setItem('deprecheck:scoring-weights:repo', JSON.stringify({ prediction: -1 }));
+    expect(loadScoringWeights('repo')).toEqual(DEFAULT_SCORING_WEIGHTS);
+  });
+});
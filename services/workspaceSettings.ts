@@ -0,0 +1,87 @@
+import { DEFAULT_PROVIDER_CONFIG, ProviderConfig } from './llmProviders';
+import { DEFAULT_GATE_POLICY, GatePolicy } from './prGate';
+import { DEFAULT_SCORING_WEIGHTS, resolveScoringWeights, ScoringWeights } from './scoring';
+
+// Settings are remembered per workspace (a repo URL, a local folder, or "default")
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+const storageKey = (workspaceId: string, setting: string) => `deprecheck:${setting}:${workspaceId}`;
+
+type StoreName = 'localStorage' | 'sessionStorage';
+
+const storeOf = (name: StoreName): Storage | null =>
+  typeof globalThis[name] !== 'undefined' ? globalThis[name] : null;
+
+const readJson = <T>(key: string, store: StoreName = 'localStorage'): T | null => {
+  try {
+    const raw = storeOf(store)?.getItem(key);
+    return raw ? JSON.parse(raw) as T : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeJson = (key: string, value: unknown, store: StoreName = 'localStorage') => {
+  storeOf(store)?.setItem(key, JSON.stringify(value));
+};
+
+// API keys stay in sessionStorage: gone when the tab closes, never written to disk
+const apiKeyOf = (workspaceId: string): string | undefined =>
+  readJson<string>(storageKey(workspaceId, 'provider-key'), 'sessionStorage') ?? undefined;
+
+const saveApiKey = (workspaceId: string, apiKey?: string) => {
+  const key = storageKey(workspaceId, 'provider-key');
+  if (apiKey) writeJson(key, apiKey, 'sessionStorage');
+  else storeOf('sessionStorage')?.removeItem(key);
+};
+
+// The stored config never holds the key; the one for this session is added back
+const loadStoredProviderConfig = (workspaceId: string): ProviderConfig | null => {
+  const config = readJson<ProviderConfig>(storageKey(workspaceId, 'provider'));
+  if (!config) return null;
+  const apiKey = apiKeyOf(workspaceId);
+  return apiKey ? { ...config, apiKey } : config;
+};
+
+export const loadProviderConfig = (workspaceId: string): ProviderConfig =>
+  loadStoredProviderConfig(workspaceId) ||
+  loadStoredProviderConfig(DEFAULT_WORKSPACE_ID) ||
+  DEFAULT_PROVIDER_CONFIG;
+
+export const saveProviderConfig = (workspaceId: string, { apiKey, ...config }: ProviderConfig) => {
+  writeJson(storageKey(workspaceId, 'provider'), config);
+  saveApiKey(workspaceId, apiKey);
+};
+
+// Missing fields (from policies saved by older versions) fall back to the defaults
+export const loadGatePolicy = (workspaceId: string): GatePolicy => ({
+  ...DEFAULT_GATE_POLICY,
+  ...(readJson<Partial<GatePolicy>>(storageKey(workspaceId, 'gate-policy')) ||
+    readJson<Partial<GatePolicy>>(storageKey(DEFAULT_WORKSPACE_ID, 'gate-policy')) ||
+    {})
+});
+
+export const saveGatePolicy = (workspaceId: string, policy: GatePolicy) =>
+  writeJson(storageKey(workspaceId, 'gate-policy'), policy);
+
+// Weights that no longer validate (hand-edited storage) fall back to the defaults
+export const loadScoringWeights = (workspaceId: string): ScoringWeights => {
+  const stored = readJson<unknown>(storageKey(workspaceId, 'scoring-weights')) ??
+    readJson<unknown>(storageKey(DEFAULT_WORKSPACE_ID, 'scoring-weights'));
+  if (stored === null) return DEFAULT_SCORING_WEIGHTS;
+  try {
+    return resolveScoringWeights(stored);
+  } catch {
+    return DEFAULT_SCORING_WEIGHTS;
+  }
+};
+
+export const saveScoringWeights = (workspaceId: string, weights: ScoringWeights) =>
+  writeJson(storageKey(workspaceId, 'scoring-weights'), weights);
+
+export const loadHistoryEntries = <T>(workspaceId: string): T[] =>
+  readJson<T[]>(storageKey(workspaceId, 'history')) || [];
+
+// Throws when the browser's storage quota is exceeded
+export const saveHistoryEntries = <T>(workspaceId: string, entries: T[]) =>
+  writeJson(storageKey(workspaceId, 'history'), entries);
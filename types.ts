@@ -19,6 +19,33 @@ export interface Issue {
   isPrediction?: boolean;
   predictionConfidence?: number; // 0 to 100
   riskFactors?: string[];
+
+  // Location (1-based, relative to the file)
+  filePath?: string;
+  startLine?: number;
+  endLine?: number;
+
+  // Offline Rule Engine Fields
+  ruleId?: string; // Catalog rule that produced this issue
+  exampleCode?: string; // Catalog sample of the migration; replacementCode is empty when the rule can't rewrite the line
+  source?: 'ai' | 'rules';
+
+  // Set when the baseline file accepts this finding
+  suppression?: Suppression;
+
+  // PR diff scans: whether the finding is introduced by the PR or already on the base branch
+  diffStatus?: 'new' | 'existing';
+}
+
+export interface Suppression {
+  reason: string;
+  expires?: string; // YYYY-MM-DD; the finding counts again after this date
+  expired?: boolean;
+}
+
+export interface SourceFile {
+  path: string;
+  content: string;
 }
 
 export interface DependencyAudit {
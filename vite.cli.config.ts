@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite';
+
+// Builds the Node CLI. Unlike the app build, API keys are read from the
+// environment at run time instead of being inlined.
+export default defineConfig({
+  build: {
+    ssr: 'cli/main.ts',
+    outDir: 'dist/cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'deprecheck.js',
+        banner: '#!/usr/bin/env node'
+      }
+    }
+  }
+});